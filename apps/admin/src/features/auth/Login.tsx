@@ -22,37 +22,165 @@ const Form = styled.form`
   box-shadow: 0 4px 6px rgba(0,0,0,0.1);
 `;
 
+const Codes = styled.pre`
+  margin: 0;
+  padding: 12px;
+  background: #f5f5f5;
+  border-radius: 4px;
+  font-size: 14px;
+  word-break: break-all;
+  white-space: pre-wrap;
+`;
+
+interface MfaChallenge {
+    mfaRequired: true;
+    enrollmentRequired: boolean;
+    challengeToken: string;
+    challengeExpiresAt: string;
+}
+
+interface Tokens {
+    tokens: { accessToken: string };
+}
+
+interface MfaEnrollment {
+    secret: string;
+    otpauthUri: string;
+}
+
+// Admins need a second factor: either a code for an enrolled authenticator, or enrollment first
+type Step =
+    | { name: 'password' }
+    | { name: 'verify'; challengeToken: string }
+    | { name: 'enroll'; challengeToken: string; enrollment: MfaEnrollment }
+    | { name: 'recovery'; recoveryCodes: string[] };
+
 export const Login = () => {
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
+    const [code, setCode] = useState('');
+    const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+    const [step, setStep] = useState<Step>({ name: 'password' });
     const [error, setError] = useState('');
     const navigate = useNavigate();
 
     const apiBase = (window as unknown as { __API_BASE?: string }).__API_BASE || 'http://localhost:8080';
 
-    const handleSubmit = async (e: React.FormEvent) => {
+    const post = async <T,>(path: string, body: unknown): Promise<T> => {
+        const res = await fetch(`${apiBase}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.message || data.error || 'Login failed');
+        return data as T;
+    };
+
+    const signIn = (result: Tokens) => {
+        localStorage.setItem('admin_token', result.tokens.accessToken);
+        // We should ideally check role here, but backend will enforce it on data fetch
+        navigate('/');
+    };
+
+    const run = (action: () => Promise<void>) => async (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
         try {
-            const res = await fetch(`${apiBase}/auth/login`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ email, password })
-            });
-            const data = await res.json();
-            if (!res.ok) throw new Error(data.error || 'Login failed');
-
-            localStorage.setItem('admin_token', data.tokens.accessToken);
-            // We should ideally check role here, but backend will enforce it on data fetch
-            navigate('/');
+            await action();
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Login failed');
         }
     };
 
+    const submitPassword = run(async () => {
+        const data = await post<Tokens | MfaChallenge>('/auth/login', { email, password });
+        if (!('mfaRequired' in data)) return signIn(data);
+
+        setCode('');
+        const { challengeToken } = data;
+        if (!data.enrollmentRequired) return setStep({ name: 'verify', challengeToken });
+
+        const enrollment = await post<MfaEnrollment>('/auth/mfa/enroll', { challengeToken });
+        setStep({ name: 'enroll', challengeToken, enrollment });
+    });
+
+    const submitCode = (challengeToken: string) => run(async () => {
+        const body = useRecoveryCode ? { challengeToken, recoveryCode: code.trim() } : { challengeToken, code: code.trim() };
+        signIn(await post<Tokens>('/auth/mfa/verify', body));
+    });
+
+    const submitEnrollment = (challengeToken: string) => run(async () => {
+        const result = await post<{ recoveryCodes: string[]; authentication: Tokens }>(
+            '/auth/mfa/enroll/confirm',
+            { challengeToken, code: code.trim() }
+        );
+        localStorage.setItem('admin_token', result.authentication.tokens.accessToken);
+        setStep({ name: 'recovery', recoveryCodes: result.recoveryCodes });
+    });
+
+    const codeInput = (placeholder: string) => (
+        <Input
+            placeholder={placeholder}
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+        />
+    );
+
+    if (step.name === 'verify') {
+        return (
+            <Container>
+                <Form onSubmit={submitCode(step.challengeToken)}>
+                    <Text size="xl" weight="bold">Two-factor authentication</Text>
+                    <Text>
+                        {useRecoveryCode ? 'Enter one of your recovery codes.' : 'Enter the 6-digit code from your authenticator app.'}
+                    </Text>
+                    {codeInput(useRecoveryCode ? 'Recovery code' : '123456')}
+                    {error && <Text color="red">{error}</Text>}
+                    <Button type="submit">Verify</Button>
+                    <Button type="button" onClick={() => { setCode(''); setUseRecoveryCode(!useRecoveryCode); }}>
+                        {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+                    </Button>
+                </Form>
+            </Container>
+        );
+    }
+
+    if (step.name === 'enroll') {
+        return (
+            <Container>
+                <Form onSubmit={submitEnrollment(step.challengeToken)}>
+                    <Text size="xl" weight="bold">Set up two-factor authentication</Text>
+                    <Text>Admin accounts need an authenticator app. Add this key to it, then enter the code it shows.</Text>
+                    <Card>
+                        <Codes>{step.enrollment.secret}</Codes>
+                    </Card>
+                    <a href={step.enrollment.otpauthUri}>Open in authenticator app</a>
+                    {codeInput('123456')}
+                    {error && <Text color="red">{error}</Text>}
+                    <Button type="submit">Confirm</Button>
+                </Form>
+            </Container>
+        );
+    }
+
+    if (step.name === 'recovery') {
+        return (
+            <Container>
+                <Form onSubmit={(e) => { e.preventDefault(); navigate('/'); }}>
+                    <Text size="xl" weight="bold">Recovery codes</Text>
+                    <Text>Store these somewhere safe. Each one signs you in once if you lose your authenticator.</Text>
+                    <Codes>{step.recoveryCodes.join('\n')}</Codes>
+                    <Button type="submit">Continue</Button>
+                </Form>
+            </Container>
+        );
+    }
+
     return (
         <Container>
-            <Form onSubmit={handleSubmit}>
+            <Form onSubmit={submitPassword}>
                 <Text size="xl" weight="bold">Admin Login</Text>
                 <Input
                     placeholder="Email"
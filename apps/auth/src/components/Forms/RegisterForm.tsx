@@ -54,8 +54,8 @@ export const RegisterForm = ({ onSuccess, onSwitchToLogin }: RegisterFormProps)
       return;
     }
 
-    if (password.length < 8) {
-      setError("Password must be at least 8 characters long");
+    if (password.length < 12) {
+      setError("Password must be at least 12 characters long");
       return;
     }
 
@@ -114,7 +114,7 @@ export const RegisterForm = ({ onSuccess, onSwitchToLogin }: RegisterFormProps)
         onChange={(e) => setPassword(e.target.value)}
         required
         disabled={loading}
-        helperText="Minimum 8 characters"
+        helperText="Minimum 12 characters, with upper and lower case letters, a digit and a symbol"
       />
 
       <TextField
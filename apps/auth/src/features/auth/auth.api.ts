@@ -5,18 +5,32 @@
  * All methods return promises that resolve with typed responses.
  */
 
-import { http } from "../../lib/http.js";
+import { http, type HttpOptions } from "../../lib/http.js";
+import { tokenStorage } from "../../lib/storage.js";
 import type {
   RegisterInput,
   LoginInput,
   RefreshInput,
   LogoutInput,
   LogoutAllInput,
+  ChangePasswordInput,
   AuthResult,
+  LoginResult,
+  MfaEnrollment,
+  MfaEnrollmentConfirmation,
+  VerifyMfaInput,
   Session,
   User,
 } from "./auth.types.js";
 
+/**
+ * Request options that ask for (and send) the refresh cookie when the token storage uses it.
+ */
+function cookieTransport(headers: Record<string, string> = {}): HttpOptions {
+  if (!tokenStorage.refreshCookie) return {};
+  return { credentials: "include", headers: { "X-Auth-Transport": "cookie", ...headers } };
+}
+
 /**
  * Auth API client.
  */
@@ -28,7 +42,7 @@ export const authApi = {
    * @returns Authentication result with user and tokens (if issueSession is true)
    */
   async register(input: RegisterInput): Promise<AuthResult | { user: User }> {
-    const response = await http.post<AuthResult | { user: User }>("/auth/register", input);
+    const response = await http.post<AuthResult | { user: User }>("/auth/register", input, cookieTransport());
     return response.data;
   },
 
@@ -36,21 +50,62 @@ export const authApi = {
    * Login with email and password.
    * 
    * @param input - Login credentials
+   * @returns Authentication result with user, session, and tokens, or an MFA challenge
+   */
+  async login(input: LoginInput): Promise<LoginResult> {
+    const response = await http.post<LoginResult>("/auth/login", input, cookieTransport());
+    return response.data;
+  },
+
+  /**
+   * Finish a challenged login with an authenticator or recovery code.
+   * 
+   * @param input - Challenge token and one of the codes
    * @returns Authentication result with user, session, and tokens
    */
-  async login(input: LoginInput): Promise<AuthResult> {
-    const response = await http.post<AuthResult>("/auth/login", input);
+  async verifyMfa(input: VerifyMfaInput): Promise<AuthResult> {
+    const response = await http.post<AuthResult>("/auth/mfa/verify", input, cookieTransport());
+    return response.data;
+  },
+
+  /**
+   * Start authenticator enrollment from a login challenge that requires it.
+   * 
+   * @param challengeToken - Challenge token from login
+   * @returns Secret and otpauth URI to add to an authenticator app
+   */
+  async beginMfaEnrollment(challengeToken: string): Promise<MfaEnrollment> {
+    const response = await http.post<MfaEnrollment>("/auth/mfa/enroll", { challengeToken });
+    return response.data;
+  },
+
+  /**
+   * Confirm enrollment with the first code from the authenticator, which also finishes the login.
+   * 
+   * @param challengeToken - Challenge token from login
+   * @param code - 6-digit code from the authenticator
+   * @returns Recovery codes and the authentication result
+   */
+  async confirmMfaEnrollment(challengeToken: string, code: string): Promise<MfaEnrollmentConfirmation> {
+    const response = await http.post<MfaEnrollmentConfirmation>(
+      "/auth/mfa/enroll/confirm",
+      { challengeToken, code },
+      cookieTransport()
+    );
     return response.data;
   },
 
   /**
    * Refresh access token using refresh token.
+   * With the refresh cookie the browser sends the token and only the CSRF token is passed.
    * 
-   * @param input - Refresh token
+   * @param input - Refresh token (omitted with the refresh cookie)
    * @returns New authentication result with refreshed tokens
    */
-  async refresh(input: RefreshInput): Promise<AuthResult> {
-    const response = await http.post<AuthResult>("/auth/refresh", input);
+  async refresh(input?: RefreshInput): Promise<AuthResult> {
+    const csrfToken = tokenStorage.getCsrfToken();
+    const options = input ? {} : cookieTransport(csrfToken ? { "X-CSRF-Token": csrfToken } : {});
+    const response = await http.post<AuthResult>("/auth/refresh", input, options);
     return response.data;
   },
 
@@ -60,7 +115,8 @@ export const authApi = {
    * @param input - Session to logout
    */
   async logout(input: LogoutInput): Promise<void> {
-    await http.post("/auth/logout", input);
+    // Sends the refresh cookie along so the backend clears it
+    await http.post("/auth/logout", input, cookieTransport());
   },
 
   /**
@@ -73,16 +129,44 @@ export const authApi = {
   },
 
   /**
-   * Get all active sessions for a user.
+   * Change the signed-in user's password.
+   * Other sessions are signed out; this one stays signed in.
    * 
-   * @param userId - User ID
+   * @param accessToken - Access token
+   * @param input - Current and new password
+   */
+  async changePassword(accessToken: string, input: ChangePasswordInput): Promise<void> {
+    await http.post("/auth/password/change", input, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+  },
+
+  /**
+   * Get the signed-in user's active sessions.
+   * The session the access token belongs to is flagged `current`.
+   * 
+   * @param accessToken - Access token
    * @returns List of active sessions
    */
-  async getSessions(userId: string): Promise<Session[]> {
-    const response = await http.get<{ sessions: Session[] }>(`/auth/sessions?userId=${userId}`);
+  async getSessions(accessToken: string): Promise<Session[]> {
+    const response = await http.get<{ sessions: Session[] }>("/auth/sessions", {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
     return response.data.sessions;
   },
 
+  /**
+   * Sign out one of the signed-in user's sessions.
+   * 
+   * @param accessToken - Access token
+   * @param sessionId - Session to end
+   */
+  async revokeSession(accessToken: string, sessionId: string): Promise<void> {
+    await http.delete(`/auth/sessions/${encodeURIComponent(sessionId)}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+  },
+
   /**
    * Get current user info from access token.
    * This would typically decode the JWT client-side or call a /me endpoint.
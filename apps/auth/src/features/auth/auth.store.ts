@@ -8,7 +8,25 @@
 import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from "react";
 import { authApi } from "./auth.api.js";
 import { tokenStorage } from "../../lib/storage.js";
-import type { User, AuthResult, LoginInput, RegisterInput } from "./auth.types.js";
+import type {
+  User,
+  AuthResult,
+  AuthTokens,
+  LoginInput,
+  MfaChallenge,
+  MfaEnrollment,
+  RegisterInput,
+  VerifyMfaInput,
+} from "./auth.types.js";
+
+/**
+ * Store issued tokens; with the refresh cookie only the access and CSRF tokens arrive.
+ */
+function storeTokens(tokens: AuthTokens): void {
+  tokenStorage.setAccessToken(tokens.accessToken);
+  if (tokens.refreshToken) tokenStorage.setRefreshToken(tokens.refreshToken);
+  if (tokens.csrfToken) tokenStorage.setCsrfToken(tokens.csrfToken);
+}
 
 /**
  * Auth state.
@@ -31,8 +49,17 @@ export interface AuthState {
  * Auth actions.
  */
 export interface AuthActions {
-  /** Login with email and password */
-  login: (input: LoginInput) => Promise<void>;
+  /** Login with email and password; resolves with the challenge when a second factor is needed */
+  login: (input: LoginInput) => Promise<MfaChallenge | null>;
+  
+  /** Finish a challenged login with an authenticator or recovery code */
+  verifyMfa: (input: VerifyMfaInput) => Promise<void>;
+  
+  /** Start authenticator enrollment for a challenge that requires it */
+  beginMfaEnrollment: (challengeToken: string) => Promise<MfaEnrollment>;
+  
+  /** Confirm enrollment and finish the login; resolves with the recovery codes */
+  confirmMfaEnrollment: (challengeToken: string, code: string) => Promise<string[]>;
   
   /** Register new user */
   register: (input: RegisterInput) => Promise<void>;
@@ -109,25 +136,26 @@ export function AuthProvider({ children }: AuthProviderProps) {
   }, []);
 
   /**
-   * Login user.
+   * Store the tokens of a finished login and mark the user signed in.
    */
-  const login = useCallback(async (input: LoginInput) => {
+  const signIn = useCallback((result: AuthResult) => {
+    storeTokens(result.tokens);
+    setState({
+      user: result.user,
+      loading: false,
+      error: null,
+      isAuthenticated: true,
+    });
+  }, []);
+
+  /**
+   * Run a login step, recording its error in state.
+   */
+  const loginStep = useCallback(async <T,>(step: () => Promise<T>): Promise<T> => {
     setState((prev) => ({ ...prev, loading: true, error: null }));
 
     try {
-      const result = await authApi.login(input);
-      
-      // Store tokens
-      tokenStorage.setAccessToken(result.tokens.accessToken);
-      tokenStorage.setRefreshToken(result.tokens.refreshToken);
-
-      // Update state
-      setState({
-        user: result.user,
-        loading: false,
-        error: null,
-        isAuthenticated: true,
-      });
+      return await step();
     } catch (error) {
       setState({
         user: null,
@@ -139,6 +167,47 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   }, []);
 
+  /**
+   * Login user.
+   */
+  const login = useCallback((input: LoginInput) => loginStep(async () => {
+    const result = await authApi.login(input);
+
+    // No tokens yet: the caller collects the second factor
+    if ("mfaRequired" in result) {
+      setState((prev) => ({ ...prev, loading: false }));
+      return result;
+    }
+
+    signIn(result);
+    return null;
+  }), [loginStep, signIn]);
+
+  /**
+   * Finish a challenged login.
+   */
+  const verifyMfa = useCallback((input: VerifyMfaInput) => loginStep(async () => {
+    signIn(await authApi.verifyMfa(input));
+  }), [loginStep, signIn]);
+
+  /**
+   * Start enrollment for a login that requires it.
+   */
+  const beginMfaEnrollment = useCallback((challengeToken: string) => loginStep(async () => {
+    const enrollment = await authApi.beginMfaEnrollment(challengeToken);
+    setState((prev) => ({ ...prev, loading: false }));
+    return enrollment;
+  }), [loginStep]);
+
+  /**
+   * Confirm enrollment; the backend signs the user in with it.
+   */
+  const confirmMfaEnrollment = useCallback((challengeToken: string, code: string) => loginStep(async () => {
+    const { recoveryCodes, authentication } = await authApi.confirmMfaEnrollment(challengeToken, code);
+    if (authentication) signIn(authentication);
+    return recoveryCodes;
+  }), [loginStep, signIn]);
+
   /**
    * Register new user.
    */
@@ -151,8 +220,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       // Check if session was issued
       if ("tokens" in result) {
         // Store tokens
-        tokenStorage.setAccessToken(result.tokens.accessToken);
-        tokenStorage.setRefreshToken(result.tokens.refreshToken);
+        storeTokens(result.tokens);
 
         // Update state
         setState({
@@ -236,17 +304,17 @@ export function AuthProvider({ children }: AuthProviderProps) {
    * Refresh access token.
    */
   const refreshToken = useCallback(async () => {
+    // With the refresh cookie the browser holds the token itself
     const refreshToken = tokenStorage.getRefreshToken();
-    if (!refreshToken) {
+    if (!refreshToken && !tokenStorage.refreshCookie) {
       throw new Error("No refresh token available");
     }
 
     try {
-      const result = await authApi.refresh({ refreshToken });
+      const result = await authApi.refresh(refreshToken ? { refreshToken } : undefined);
       
       // Store new tokens
-      tokenStorage.setAccessToken(result.tokens.accessToken);
-      tokenStorage.setRefreshToken(result.tokens.refreshToken);
+      storeTokens(result.tokens);
 
       // Update state
       setState({
@@ -278,6 +346,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const value: AuthContextValue = {
     ...state,
     login,
+    verifyMfa,
+    beginMfaEnrollment,
+    confirmMfaEnrollment,
     register,
     logout,
     logoutAll,
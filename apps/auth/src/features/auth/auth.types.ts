@@ -46,6 +46,10 @@ export interface Session {
   expiresAt: string;
   revokedAt?: string;
   revokedReason?: string;
+  /** Browser and OS parsed from the user agent */
+  device?: { browser?: string; os?: string };
+  /** True for the session the request was made with */
+  current?: boolean;
 }
 
 /**
@@ -55,8 +59,11 @@ export interface AuthTokens {
   tokenType: "Bearer";
   accessToken: string;
   accessTokenExpiresAt: string;
-  refreshToken: string;
+  /** Absent when the backend set it as an httpOnly cookie instead */
+  refreshToken?: string;
   refreshTokenExpiresAt: string;
+  /** Present with the refresh cookie: echo it in `X-CSRF-Token` when refreshing */
+  csrfToken?: string;
 }
 
 /**
@@ -68,6 +75,47 @@ export interface AuthResult {
   tokens: AuthTokens;
 }
 
+/**
+ * Returned by login instead of tokens when a second factor is needed.
+ * With `enrollmentRequired` the user must set up an authenticator first, using the challenge token.
+ */
+export interface MfaChallenge {
+  mfaRequired: true;
+  enrollmentRequired: boolean;
+  challengeToken: string;
+  challengeExpiresAt: string;
+}
+
+/**
+ * Login result: tokens, or a challenge for the second factor.
+ */
+export type LoginResult = AuthResult | MfaChallenge;
+
+/**
+ * Authenticator secret to add to an app, as text and as an otpauth:// URI.
+ */
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * Confirmed enrollment: recovery codes (shown once) and, from a login challenge, the session.
+ */
+export interface MfaEnrollmentConfirmation {
+  recoveryCodes: string[];
+  authentication?: AuthResult;
+}
+
+/**
+ * Second login step: an authenticator code or a recovery code.
+ */
+export interface VerifyMfaInput {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
 /**
  * Registration input.
  */
@@ -101,6 +149,14 @@ export interface LogoutInput {
   reason?: string;
 }
 
+/**
+ * Change password input.
+ */
+export interface ChangePasswordInput {
+  currentPassword: string;
+  newPassword: string;
+}
+
 /**
  * Logout all input.
  */
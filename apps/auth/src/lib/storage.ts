@@ -2,22 +2,27 @@
  * Token Storage Abstraction.
  * 
  * Provides secure storage for JWT tokens with multiple strategies:
+ * - Cookie (refresh token in an httpOnly cookie set by the backend, access token in memory)
  * - Memory (most secure, lost on refresh)
  * - LocalStorage (persistent, XSS vulnerable)
  * - SessionStorage (tab-scoped, XSS vulnerable)
- * 
- * For production, consider using httpOnly cookies set by the backend.
  */
 
 /**
  * Storage strategy type.
  */
-export type StorageStrategy = "memory" | "localStorage" | "sessionStorage";
+export type StorageStrategy = "cookie" | "memory" | "localStorage" | "sessionStorage";
 
 /**
  * Token storage interface.
  */
 export interface TokenStorage {
+  /**
+   * Whether the backend keeps the refresh token in an httpOnly cookie.
+   * The refresh token is then never visible here; refreshes send the CSRF token instead.
+   */
+  readonly refreshCookie: boolean;
+
   /**
    * Get access token.
    */
@@ -38,6 +43,16 @@ export interface TokenStorage {
    */
   setRefreshToken(token: string): void;
   
+  /**
+   * Get the CSRF token echoed on cookie refreshes.
+   */
+  getCsrfToken(): string | null;
+  
+  /**
+   * Set the CSRF token.
+   */
+  setCsrfToken(token: string): void;
+  
   /**
    * Clear all tokens.
    */
@@ -54,8 +69,10 @@ export interface TokenStorage {
  * Tokens are lost on page refresh.
  */
 class MemoryStorage implements TokenStorage {
+  readonly refreshCookie = false;
   private accessToken: string | null = null;
   private refreshToken: string | null = null;
+  private csrfToken: string | null = null;
 
   getAccessToken(): string | null {
     return this.accessToken;
@@ -73,9 +90,18 @@ class MemoryStorage implements TokenStorage {
     this.refreshToken = token;
   }
 
+  getCsrfToken(): string | null {
+    return this.csrfToken;
+  }
+
+  setCsrfToken(token: string): void {
+    this.csrfToken = token;
+  }
+
   clearTokens(): void {
     this.accessToken = null;
     this.refreshToken = null;
+    this.csrfToken = null;
   }
 
   hasTokens(): boolean {
@@ -87,8 +113,10 @@ class MemoryStorage implements TokenStorage {
  * LocalStorage implementation (persistent but XSS vulnerable).
  */
 class LocalStorageImpl implements TokenStorage {
+  readonly refreshCookie = false;
   private readonly accessTokenKey = "auth_access_token";
   private readonly refreshTokenKey = "auth_refresh_token";
+  private readonly csrfTokenKey = "auth_csrf_token";
 
   getAccessToken(): string | null {
     return localStorage.getItem(this.accessTokenKey);
@@ -106,9 +134,18 @@ class LocalStorageImpl implements TokenStorage {
     localStorage.setItem(this.refreshTokenKey, token);
   }
 
+  getCsrfToken(): string | null {
+    return localStorage.getItem(this.csrfTokenKey);
+  }
+
+  setCsrfToken(token: string): void {
+    localStorage.setItem(this.csrfTokenKey, token);
+  }
+
   clearTokens(): void {
     localStorage.removeItem(this.accessTokenKey);
     localStorage.removeItem(this.refreshTokenKey);
+    localStorage.removeItem(this.csrfTokenKey);
   }
 
   hasTokens(): boolean {
@@ -120,8 +157,10 @@ class LocalStorageImpl implements TokenStorage {
  * SessionStorage implementation (tab-scoped, XSS vulnerable).
  */
 class SessionStorageImpl implements TokenStorage {
+  readonly refreshCookie = false;
   private readonly accessTokenKey = "auth_access_token";
   private readonly refreshTokenKey = "auth_refresh_token";
+  private readonly csrfTokenKey = "auth_csrf_token";
 
   getAccessToken(): string | null {
     return sessionStorage.getItem(this.accessTokenKey);
@@ -139,9 +178,18 @@ class SessionStorageImpl implements TokenStorage {
     sessionStorage.setItem(this.refreshTokenKey, token);
   }
 
+  getCsrfToken(): string | null {
+    return sessionStorage.getItem(this.csrfTokenKey);
+  }
+
+  setCsrfToken(token: string): void {
+    sessionStorage.setItem(this.csrfTokenKey, token);
+  }
+
   clearTokens(): void {
     sessionStorage.removeItem(this.accessTokenKey);
     sessionStorage.removeItem(this.refreshTokenKey);
+    sessionStorage.removeItem(this.csrfTokenKey);
   }
 
   hasTokens(): boolean {
@@ -149,11 +197,59 @@ class SessionStorageImpl implements TokenStorage {
   }
 }
 
+/**
+ * Cookie implementation (refresh token out of reach of page scripts).
+ * The backend sets the refresh token as an httpOnly cookie; the access token lives in
+ * memory and is restored after a reload by a cookie refresh. The CSRF token is kept in
+ * localStorage so that refresh still works in new tabs; on its own it grants nothing.
+ */
+class CookieStorage implements TokenStorage {
+  readonly refreshCookie = true;
+  private accessToken: string | null = null;
+  private readonly csrfTokenKey = "auth_csrf_token";
+
+  getAccessToken(): string | null {
+    return this.accessToken;
+  }
+
+  setAccessToken(token: string): void {
+    this.accessToken = token;
+  }
+
+  getRefreshToken(): string | null {
+    return null;
+  }
+
+  setRefreshToken(): void {
+    // Held by the browser as an httpOnly cookie
+  }
+
+  getCsrfToken(): string | null {
+    return localStorage.getItem(this.csrfTokenKey);
+  }
+
+  setCsrfToken(token: string): void {
+    localStorage.setItem(this.csrfTokenKey, token);
+  }
+
+  clearTokens(): void {
+    this.accessToken = null;
+    localStorage.removeItem(this.csrfTokenKey);
+  }
+
+  hasTokens(): boolean {
+    // A CSRF token means a refresh cookie was issued and the session can be restored
+    return this.getCsrfToken() !== null;
+  }
+}
+
 /**
  * Create token storage with specified strategy.
  */
 export function createTokenStorage(strategy: StorageStrategy = "localStorage"): TokenStorage {
   switch (strategy) {
+    case "cookie":
+      return new CookieStorage();
     case "memory":
       return new MemoryStorage();
     case "localStorage":
@@ -167,11 +263,7 @@ export function createTokenStorage(strategy: StorageStrategy = "localStorage"):
 
 /**
  * Default token storage instance.
- * Uses localStorage by default for persistence across page refreshes.
- * 
- * SECURITY NOTE: For production applications, consider:
- * 1. Using memory storage with session restoration from backend
- * 2. Using httpOnly cookies (requires backend support)
- * 3. Implementing token refresh on app initialization
+ * The refresh token stays in the backend's httpOnly cookie and the session is restored
+ * with a cookie refresh on app initialization, so no long-lived token is readable by scripts.
  */
-export const tokenStorage = createTokenStorage("localStorage");
+export const tokenStorage = createTokenStorage("cookie");
@@ -1,52 +1,182 @@
 /**
  * Login Page.
  * 
- * User login interface with email and password.
+ * User login interface with email and password, followed by the second factor
+ * (or authenticator enrollment) when the account needs one.
  */
 
 import { useState, FormEvent } from "react";
 import { useAuth, useAuthRedirect } from "../features/auth/auth.hooks.js";
+import type { MfaChallenge, MfaEnrollment } from "../features/auth/auth.types.js";
 import { EmailInput, PasswordInput, Button } from "@repo/ui";
 
+const codeInputStyle = {
+  width: "100%",
+  padding: "10px",
+  fontSize: "16px",
+  letterSpacing: "2px",
+  boxSizing: "border-box" as const,
+};
+
+const secretStyle = {
+  padding: "10px",
+  backgroundColor: "#f5f5f5",
+  borderRadius: "4px",
+  fontFamily: "monospace",
+  wordBreak: "break-all" as const,
+  whiteSpace: "pre-wrap" as const,
+};
+
 export function LoginPage() {
-  const { login, loading, error, clearError } = useAuth();
+  const { login, verifyMfa, beginMfaEnrollment, confirmMfaEnrollment, loading, error, clearError } = useAuth();
   const redirectUrl = useAuthRedirect();
   
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [localError, setLocalError] = useState<string | null>(null);
 
-  const handleSubmit = async (e: FormEvent) => {
+  // Second step, set once the password is accepted but a factor is still owed
+  const [challenge, setChallenge] = useState<MfaChallenge | null>(null);
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const attempt = (action: () => Promise<void>) => async (e: FormEvent) => {
     e.preventDefault();
     setLocalError(null);
     clearError();
 
     try {
-      await login({ email, password });
-      
-      // Redirect after successful login
-      window.location.href = redirectUrl;
+      await action();
     } catch (err) {
       setLocalError(err instanceof Error ? err.message : "Login failed");
     }
   };
 
+  const handleSubmit = attempt(async () => {
+    const pending = await login({ email, password });
+    if (!pending) {
+      // Redirect after successful login
+      window.location.href = redirectUrl;
+      return;
+    }
+
+    setCode("");
+    setChallenge(pending);
+    if (pending.enrollmentRequired) {
+      setEnrollment(await beginMfaEnrollment(pending.challengeToken));
+    }
+  });
+
+  const handleVerify = attempt(async () => {
+    if (!challenge) return;
+    const value = code.trim();
+    await verifyMfa(useRecoveryCode
+      ? { challengeToken: challenge.challengeToken, recoveryCode: value }
+      : { challengeToken: challenge.challengeToken, code: value });
+    window.location.href = redirectUrl;
+  });
+
+  const handleEnroll = attempt(async () => {
+    if (!challenge) return;
+    setRecoveryCodes(await confirmMfaEnrollment(challenge.challengeToken, code.trim()));
+  });
+
+  const errorBox = (error || localError) && (
+    <div style={{ 
+      padding: "10px", 
+      marginBottom: "20px", 
+      backgroundColor: "#fee", 
+      border: "1px solid #fcc",
+      borderRadius: "4px",
+      color: "#c00"
+    }}>
+      {error || localError}
+    </div>
+  );
+
+  const codeField = (placeholder: string) => (
+    <div style={{ marginBottom: "20px" }}>
+      <input
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder={placeholder}
+        autoComplete="one-time-code"
+        required
+        disabled={loading}
+        style={codeInputStyle}
+      />
+    </div>
+  );
+
+  if (recoveryCodes) {
+    return (
+      <div style={{ maxWidth: "400px", margin: "50px auto", padding: "20px" }}>
+        <h1>Recovery codes</h1>
+        <p>Store these somewhere safe. Each one signs you in once if you lose your authenticator.</p>
+        <div style={{ ...secretStyle, marginBottom: "20px" }}>{recoveryCodes.join("\n")}</div>
+        <Button type="button" onClick={() => { window.location.href = redirectUrl; }} style={{ width: "100%" }}>
+          Continue
+        </Button>
+      </div>
+    );
+  }
+
+  if (challenge?.enrollmentRequired) {
+    return (
+      <div style={{ maxWidth: "400px", margin: "50px auto", padding: "20px" }}>
+        <h1>Set up two-factor authentication</h1>
+        {errorBox}
+        <p>Your account needs an authenticator app. Add this key to it, then enter the code it shows.</p>
+        {enrollment && (
+          <>
+            <div style={{ ...secretStyle, marginBottom: "10px" }}>{enrollment.secret}</div>
+            <p><a href={enrollment.otpauthUri} style={{ color: "#0066cc" }}>Open in authenticator app</a></p>
+          </>
+        )}
+        <form onSubmit={handleEnroll}>
+          {codeField("6-digit code")}
+          <Button type="submit" disabled={loading || !enrollment} style={{ width: "100%" }}>
+            {loading ? "Confirming..." : "Confirm"}
+          </Button>
+        </form>
+      </div>
+    );
+  }
+
+  if (challenge) {
+    return (
+      <div style={{ maxWidth: "400px", margin: "50px auto", padding: "20px" }}>
+        <h1>Two-factor authentication</h1>
+        {errorBox}
+        <p>
+          {useRecoveryCode ? "Enter one of your recovery codes." : "Enter the 6-digit code from your authenticator app."}
+        </p>
+        <form onSubmit={handleVerify}>
+          {codeField(useRecoveryCode ? "Recovery code" : "6-digit code")}
+          <Button type="submit" disabled={loading} style={{ width: "100%" }}>
+            {loading ? "Verifying..." : "Verify"}
+          </Button>
+        </form>
+        <div style={{ marginTop: "20px", textAlign: "center" }}>
+          <a
+            href="#/login"
+            onClick={(e) => { e.preventDefault(); setCode(""); setUseRecoveryCode(!useRecoveryCode); }}
+            style={{ color: "#0066cc" }}
+          >
+            {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+          </a>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div style={{ maxWidth: "400px", margin: "50px auto", padding: "20px" }}>
       <h1>Login</h1>
       
-      {(error || localError) && (
-        <div style={{ 
-          padding: "10px", 
-          marginBottom: "20px", 
-          backgroundColor: "#fee", 
-          border: "1px solid #fcc",
-          borderRadius: "4px",
-          color: "#c00"
-        }}>
-          {error || localError}
-        </div>
-      )}
+      {errorBox}
 
       <form onSubmit={handleSubmit}>
         <div style={{ marginBottom: "20px" }}>
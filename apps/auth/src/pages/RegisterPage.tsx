@@ -28,8 +28,8 @@ export function RegisterPage() {
     }
 
     // Validate password strength (basic check)
-    if (password.length < 8) {
-      setLocalError("Password must be at least 8 characters");
+    if (password.length < 12) {
+      setLocalError("Password must be at least 12 characters");
       return;
     }
 
@@ -84,7 +84,7 @@ export function RegisterPage() {
             disabled={loading}
           />
           <small style={{ color: "#666", fontSize: "0.85em" }}>
-            Minimum 8 characters
+            Minimum 12 characters, with upper and lower case letters, a digit and a symbol
           </small>
         </div>
 
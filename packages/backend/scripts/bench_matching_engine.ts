@@ -0,0 +1,112 @@
+/*
+  Matching engine throughput benchmark.
+
+  Replays a deterministic synthetic order stream (limit/market adds plus cancels of
+  resting orders) against a single OrderMatchingEngine and prints one JSON line so
+  results can be appended to a log and compared over time.
+
+  Usage: npm run bench:engine -- [orderCount] [seed] [spreadTicks]
+
+  `spreadTicks` (default 200) is how far around the mid prices are drawn; large values
+  build deep books with many sparse price levels.
+*/
+
+import { OrderMatchingEngine, type EngineOrder } from "../src/domains/order/matching-engine.js";
+import { Decimal } from "../src/lib/decimal.js";
+
+const orderCount = Number(process.argv[2] ?? 1_000_000);
+const seed = Number(process.argv[3] ?? 42);
+const spreadTicks = Number(process.argv[4] ?? 200);
+
+// mulberry32: tiny deterministic PRNG so every run replays the same stream.
+function createRandom(initial: number) {
+    let state = initial >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+type Op = { kind: "add"; order: EngineOrder } | { kind: "cancel"; orderId: string };
+
+function generateStream(count: number, spread: number, random: () => number): Op[] {
+    const ops: Op[] = [];
+    const resting: string[] = [];
+    const midTicks = Math.max(50_000, spread);
+
+    for (let i = 0; i < count; i++) {
+        const roll = random();
+
+        if (roll < 0.2 && resting.length > 0) {
+            // Cancel a random earlier order (it may already be filled; that's a no-op cancel).
+            const index = Math.floor(random() * resting.length);
+            const orderId = resting[index]!;
+            resting[index] = resting[resting.length - 1]!;
+            resting.pop();
+            ops.push({ kind: "cancel", orderId });
+            continue;
+        }
+
+        const side = random() < 0.5 ? "buy" : "sell";
+        const isMarket = roll > 0.95;
+        // Prices cluster around the mid so levels are shared and crossing happens regularly.
+        const offset = Math.floor(random() * spread) - Math.floor(spread * (side === "buy" ? 0.75 : 0.25));
+        const order: EngineOrder = {
+            id: `o${i}`,
+            side,
+            type: isMarket ? "market" : "limit",
+            // Decimals are built up front so the timed loop measures matching, not parsing.
+            price: isMarket ? Decimal.ZERO : Decimal.from(midTicks + offset),
+            quantity: Decimal.from(1 + Math.floor(random() * 10)),
+            filledQuantity: Decimal.ZERO,
+            timestamp: i,
+        };
+        ops.push({ kind: "add", order });
+        if (!isMarket) resting.push(order.id);
+    }
+
+    return ops;
+}
+
+function main() {
+    const ops = generateStream(orderCount, spreadTicks, createRandom(seed));
+    const engine = new OrderMatchingEngine("BENCH/USD");
+
+    let trades = 0;
+    let cancels = 0;
+    const started = process.hrtime.bigint();
+
+    for (const op of ops) {
+        if (op.kind === "add") {
+            trades += engine.processOrder(op.order).trades.length;
+        } else if (engine.cancelOrder(op.orderId)) {
+            cancels++;
+        }
+    }
+
+    const elapsedMs = Number(process.hrtime.bigint() - started) / 1e6;
+    const book = engine.getBook();
+
+    console.log(
+        JSON.stringify({
+            bench: "matching_engine",
+            ops: ops.length,
+            seed,
+            spreadTicks,
+            elapsedMs: Math.round(elapsedMs),
+            opsPerSec: Math.round(ops.length / (elapsedMs / 1000)),
+            trades,
+            cancels,
+            restingBids: book.bids.length,
+            restingAsks: book.asks.length,
+            bidLevels: new Set(book.bids.map((o) => o.price.units)).size,
+            askLevels: new Set(book.asks.map((o) => o.price.units)).size,
+            node: process.version,
+        }),
+    );
+}
+
+main();
@@ -0,0 +1,23 @@
+/*
+  Print a new Ed25519 signing key as a JWT_ACCESS_KEYS / JWT_REFRESH_KEYS entry.
+
+  Usage: npm run gen:jwt-key -- [kid]
+  Put the entry first in the ring to make it active; keep the previous entry (its publicKey is
+  enough) until the tokens it signed have expired.
+*/
+import { createPublicKey, generateKeyPairSync } from "crypto";
+
+function main() {
+    const kid = process.argv[2] || `ed25519-${new Date().toISOString().slice(0, 10)}`;
+    const { privateKey } = generateKeyPairSync("ed25519");
+
+    const entry = {
+        kid,
+        alg: "EdDSA",
+        privateKey: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+        publicKey: createPublicKey(privateKey).export({ type: "spki", format: "pem" }).toString(),
+    };
+    console.log(JSON.stringify(entry));
+}
+
+main();
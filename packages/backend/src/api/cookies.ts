@@ -0,0 +1,59 @@
+/*
+  Cookie parsing and Set-Cookie serialization for the HTTP primitives.
+  Only what the API sends is supported: no signed cookies, no encoding beyond URI components.
+*/
+
+export type CookieOptions = {
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+  path?: string;
+  domain?: string;
+  /** Lifetime in seconds; 0 deletes the cookie */
+  maxAge?: number;
+  expires?: Date;
+};
+
+export type ResponseCookie = {
+  name: string;
+  value: string;
+  options?: CookieOptions;
+};
+
+/**
+ * Parse a `Cookie` request header. Malformed pairs are skipped; the first of duplicate names wins.
+ */
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const pair of header.split(";")) {
+    const eq = pair.indexOf("=");
+    if (eq <= 0) continue;
+    const name = pair.slice(0, eq).trim();
+    if (!name || name in cookies) continue;
+    let value = pair.slice(eq + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) value = value.slice(1, -1);
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Serialize a cookie into a `Set-Cookie` header value.
+ */
+export function serializeCookie({ name, value, options = {} }: ResponseCookie): string {
+  const parts = [`${name}=${encodeURIComponent(value)}`];
+  if (options.maxAge !== undefined) parts.push(`Max-Age=${Math.floor(options.maxAge)}`);
+  if (options.expires) parts.push(`Expires=${options.expires.toUTCString()}`);
+  if (options.domain) parts.push(`Domain=${options.domain}`);
+  if (options.path) parts.push(`Path=${options.path}`);
+  if (options.httpOnly) parts.push("HttpOnly");
+  if (options.secure) parts.push("Secure");
+  if (options.sameSite) parts.push(`SameSite=${options.sameSite}`);
+  return parts.join("; ");
+}
@@ -7,14 +7,21 @@
 
 import type { Router } from "./types.js";
 import type { TokenManager } from "../security/tokens.js";
-import type { UserSessionRepository } from "../domains/auth/auth.types.js";
+import type { UserSessionRepository } from "../domains/auth/core/auth.types.js";
 import type { AccountService } from "../domains/account/account.service.js";
 import type { OrderService } from "../domains/order/order.service.js";
 import type { PositionService } from "../domains/position/position.service.js";
-import type { AuthService } from "../domains/auth/authService.js";
+import type { InstrumentService } from "../domains/instrument/instrument.service.js";
+import type { AuthService } from "../domains/auth/core/auth.service.js";
+import type { RateLimiter } from "../domains/auth/security/rate.limit.js";
+import type { AuditLogger } from "../domains/auth/events/audit.logger.js";
+import type { ApiKeyManager } from "../domains/auth/security/api.keys.js";
+import type { RefreshCookiePolicy } from "../domains/auth/core/auth.policies.js";
 import { registerAuthRoutes } from "../domains/auth/authRoutes.js";
+import { registerAccountRoutes } from "../domains/account/accountRoutes.js";
 import { registerPositionRoutes } from "../domains/position/positionRoutes.js";
 import { registerOrderHttpRoutes } from "../domains/order/orderHttpRoutes.js";
+import { registerInstrumentRoutes } from "../domains/instrument/instrumentRoutes.js";
 import { registerAdminRoutes } from "../domains/admin/adminRoutes.js";
 
 export type ApiServices = {
@@ -24,6 +31,11 @@ export type ApiServices = {
 	account: AccountService;
 	order: OrderService;
 	position: PositionService;
+	instrument: InstrumentService;
+	rateLimiter?: RateLimiter;
+	auditLogger?: AuditLogger;
+	apiKeys?: ApiKeyManager;
+	refreshCookie?: RefreshCookiePolicy;
 };
 
 type LoggerLike = {
@@ -36,11 +48,13 @@ export function registerApiRoutes(router: Router, services: ApiServices, logger:
 	router.route("GET", "/readyz", async () => ({ status: 200, body: { status: "ready" } }));
 
 	// Auth routes live in the auth domain module.
-	registerAuthRoutes(router, { auth: services.auth }, logger);
+	registerAuthRoutes(router, services, logger);
 
 	// Domain-owned routes (enterprise boundary)
+	registerAccountRoutes(router, services);
 	registerPositionRoutes(router, services);
 	registerOrderHttpRoutes(router, services, logger);
+	registerInstrumentRoutes(router, services);
 	registerAdminRoutes(router, services, logger);
 }
 
@@ -1,6 +1,8 @@
-import type { HttpRequest } from "./types.js";
+import type { HttpRequest, HttpResponse } from "./types.js";
 import type { TokenManager } from "../security/tokens.js";
-import type { UserSessionRepository } from "../domains/auth/auth.types.js";
+import type { ApiKeyScope, UserSessionRepository } from "../domains/auth/core/auth.types.js";
+import { API_KEY_HEADERS, type ApiKeyManager } from "../domains/auth/security/api.keys.js";
+import { hasPermission, type Permission } from "../domains/auth/core/auth.permissions.js";
 
 export type AuthenticatedClaims = {
   sub: string;
@@ -11,12 +13,53 @@ export type AuthenticatedClaims = {
   expiresAt: string;
 };
 
+/**
+ * Caller of a route that also accepts API keys: a bearer session (`sessionId`) or a signed
+ * API key request (`apiKeyId`).
+ */
+export type AuthenticatedPrincipal = {
+  sub: string;
+  role: string;
+  sessionId?: string;
+  apiKeyId?: string;
+};
+
 export type AuthServices = {
   tokenManager: TokenManager;
   sessionRepository: UserSessionRepository;
+  /** Signed API key requests are accepted by routes that ask for a scope when wired. */
+  apiKeys?: ApiKeyManager;
+};
+
+export type AuthOptions = {
+  /** Also accept API keys holding this scope. Bearer sessions hold every scope. */
+  scope: ApiKeyScope;
 };
 
-export async function getAuthUser(req: HttpRequest, services: AuthServices): Promise<AuthenticatedClaims | null> {
+/**
+ * Authenticate a request by its bearer access token. Routes that pass a scope also accept
+ * signed API key requests; a request carrying `X-API-Key` is then judged on its signature alone.
+ */
+export async function getAuthUser(req: HttpRequest, services: AuthServices): Promise<AuthenticatedClaims | null>;
+export async function getAuthUser(
+  req: HttpRequest,
+  services: AuthServices,
+  options: AuthOptions,
+): Promise<AuthenticatedPrincipal | null>;
+export async function getAuthUser(
+  req: HttpRequest,
+  services: AuthServices,
+  options?: AuthOptions,
+): Promise<AuthenticatedClaims | AuthenticatedPrincipal | null> {
+  if (options && req.headers[API_KEY_HEADERS.key]) {
+    if (!services.apiKeys || !req.method || !req.url) return null;
+    const principal = await services.apiKeys.authenticate(
+      { method: req.method, url: req.url, rawBody: req.rawBody, headers: req.headers, ipAddress: req.ipAddress },
+      options.scope,
+    );
+    return principal ? { sub: principal.userId, role: principal.role, apiKeyId: principal.apiKeyId } : null;
+  }
+
   const authHeader = req.headers["authorization"];
   if (!authHeader?.startsWith("Bearer ")) return null;
 
@@ -50,3 +93,32 @@ export async function getAuthUser(req: HttpRequest, services: AuthServices): Pro
 
   return claims;
 }
+
+/**
+ * Whether the caller holds a staff permission. API keys act only on their owner's own
+ * account, so a key never carries its owner's staff permissions.
+ */
+export function can(auth: AuthenticatedPrincipal, permission: Permission): boolean {
+  return !auth.apiKeyId && hasPermission(auth.role, permission);
+}
+
+/**
+ * Route guard: answers 401 without a bearer session and 403 when its role lacks the
+ * permission, otherwise runs the handler with the caller's claims.
+ *
+ * @example router.route("GET", "/admin/audit", withPermission(services, "audit:read", async (req, auth) => ...))
+ */
+export function withPermission(
+  services: AuthServices,
+  permission: Permission,
+  handler: (req: HttpRequest, auth: AuthenticatedClaims) => Promise<HttpResponse>,
+): (req: HttpRequest) => Promise<HttpResponse> {
+  return async (req) => {
+    const auth = await getAuthUser(req, services);
+    if (!auth) return { status: 401, body: { error: "unauthorized" } };
+    if (!hasPermission(auth.role, permission)) {
+      return { status: 403, body: { error: "forbidden", permission } };
+    }
+    return handler(req, auth);
+  };
+}
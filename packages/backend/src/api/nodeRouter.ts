@@ -2,6 +2,7 @@ import type { IncomingMessage, ServerResponse } from "http";
 import type { Socket } from "net";
 import { URL } from "url";
 import type { HttpMethod, HttpRequest, HttpResponse, Router } from "./types.js";
+import { parseCookies, serializeCookie } from "./cookies.js";
 
 class PayloadTooLargeError extends Error {
   constructor() {
@@ -55,7 +56,7 @@ const matchPath = (pattern: string, pathname: string): Record<string, string> |
   return params;
 };
 
-async function readJsonBody<T>(req: IncomingMessage, maxBytes: number): Promise<T | null> {
+async function readBody(req: IncomingMessage, maxBytes: number): Promise<string> {
   return new Promise((resolve, reject) => {
     const chunks: Buffer[] = [];
     let total = 0;
@@ -71,15 +72,7 @@ async function readJsonBody<T>(req: IncomingMessage, maxBytes: number): Promise<
         }
         chunks.push(chunk);
       })
-      .on("end", () => {
-        try {
-          if (!chunks.length) return resolve(null);
-          const json = JSON.parse(Buffer.concat(chunks).toString("utf8"));
-          resolve(json as T);
-        } catch (err) {
-          reject(err);
-        }
-      })
+      .on("end", () => resolve(Buffer.concat(chunks).toString("utf8")))
       .on("error", (err) => reject(err));
   });
 }
@@ -116,7 +109,7 @@ export function createNodeRouter(options: NodeRouterOptions) {
 
     res.setHeader("Access-Control-Allow-Origin", originToUse);
     res.setHeader("Access-Control-Allow-Methods", "GET,POST,PUT,PATCH,DELETE,OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type,Authorization,Idempotency-Key");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type,Authorization,Idempotency-Key,X-API-Key,X-API-Timestamp,X-API-Nonce,X-API-Signature,X-CSRF-Token,X-Auth-Transport");
     if (originAllowed && originToUse !== "*") {
       res.setHeader("Access-Control-Allow-Credentials", "true");
     }
@@ -159,9 +152,11 @@ export function createNodeRouter(options: NodeRouterOptions) {
     const expectsJsonBody = method !== "GET" && method !== "DELETE" && contentType?.includes("application/json");
 
     let body: unknown = null;
+    let rawBody: string | undefined;
     if (expectsJsonBody) {
       try {
-        body = await readJsonBody(req, maxBodyBytes);
+        rawBody = await readBody(req, maxBodyBytes);
+        body = rawBody ? JSON.parse(rawBody) : null;
       } catch (err) {
         if (err instanceof PayloadTooLargeError) {
           sendJson(res, 413, { error: "payload_too_large" });
@@ -182,6 +177,10 @@ export function createNodeRouter(options: NodeRouterOptions) {
       params: matched.params,
       headers,
       ipAddress: socket?.remoteAddress,
+      method,
+      url: req.url ?? "/",
+      rawBody,
+      cookies: parseCookies(headers["cookie"]),
     };
 
     try {
@@ -191,6 +190,9 @@ export function createNodeRouter(options: NodeRouterOptions) {
           res.setHeader(k, v);
         }
       }
+      if (response.cookies?.length) {
+        res.setHeader("Set-Cookie", response.cookies.map(serializeCookie));
+      }
 
       if (response.status === 204) {
         res.writeHead(204);
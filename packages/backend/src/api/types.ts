@@ -3,6 +3,8 @@
   Replace Router/Handler with adapters when we pick Fastify/Hono.
 */
 
+import type { ResponseCookie } from "./cookies.js";
+
 export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
 
 export interface HttpRequest<TBody = unknown, TQuery = Record<string, string>, TParams = Record<string, string>> {
@@ -12,11 +14,20 @@ export interface HttpRequest<TBody = unknown, TQuery = Record<string, string>, T
   headers: Record<string, string | undefined>;
   user?: { id: string; role?: string };
   ipAddress?: string;
+  method?: HttpMethod;
+  /** Path and query string as sent by the client */
+  url?: string;
+  /** Body text as received, before JSON parsing; signed API key requests are verified against it */
+  rawBody?: string;
+  /** Cookies sent with the request, by name */
+  cookies?: Record<string, string>;
 }
 
 export interface HttpResponse<T = unknown> {
   status: number;
   headers?: Record<string, string>;
+  /** Sent as one `Set-Cookie` header each */
+  cookies?: ResponseCookie[];
   body?: T;
 }
 
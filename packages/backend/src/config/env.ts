@@ -10,6 +10,9 @@
   exactly what the service expects without chasing "magic" environment vars.
 */
 
+import { createHmac } from "node:crypto";
+import { parseSigningKeys, type TokenKeyConfig } from "../security/tokens.js";
+
 const toInt = (val: string | undefined, fallback: number): number => {
   const n = Number(val);
   return Number.isFinite(n) ? n : fallback;
@@ -20,12 +23,26 @@ export type AppConfig = {
   nodeEnv: string;
   databaseUrl: string;
   redisUrl?: string;
-  jwtSecret: string; // symmetric key for signing JWTs (access/refresh)
+  jwtSecret: string; // HS256 fallback when no key rings are configured (development)
+  jwtKeys: TokenKeyConfig; // access and refresh signing keys; the first signing-capable key of each ring is active
   accessTtlSec: number; // access token TTL in seconds
   refreshTtlSec: number; // refresh token TTL in seconds
   maxSessionsPerUser: number; // cap to prevent unbounded session growth
   bcryptRounds: number; // hashing cost for passwords and refresh token hashes
   corsOrigins: string[]; // explicit allowlist for CORS; use "*" only in dev
+  mfaEnabled: boolean; // TOTP second factor; admins are required to enroll when on
+  mfaIssuer: string; // issuer label shown in authenticator apps
+  emailVerificationEnabled: boolean; // new accounts stay pending until the emailed link is followed
+  passwordResetEnabled: boolean; // forgot/reset endpoints send one-time links by email
+  rateLimitingEnabled: boolean; // per-IP/per-session limits on login, register, refresh and forgot-password
+  anomalyDetectionEnabled: boolean; // record and alert on suspicious auth activity (refresh token reuse, ...)
+  revokeAllSessionsOnTokenReuse: boolean; // a replayed refresh token signs the user out everywhere, not just that session
+  auditLoggingEnabled: boolean; // append auth and admin security events to the audit_events table
+  breachedPasswordsFile?: string; // offline blocklist for new passwords: plain passwords or HIBP SHA-1 lines
+  apiKeyEncryptionKey: string; // encrypts API key secrets at rest; rotating it invalidates every issued key
+  refreshCookieEnabled: boolean; // browser clients may take the refresh token as an httpOnly cookie (with a CSRF token)
+  refreshCookieSecure: boolean; // Secure attribute on the refresh and CSRF cookies; off only for plain-HTTP development
+  refreshCookieDomain?: string; // share the cookies with sibling hosts (e.g. ".bhcmarkets.com"); host-only when unset
 };
 
 export function loadEnv(): AppConfig {
@@ -45,6 +62,19 @@ export function loadEnv(): AppConfig {
     throw new Error("Use a strong JWT_SECRET outside development/test");
   }
 
+  // Key rings are JSON arrays of { kid, alg: "EdDSA"|"RS256"|"HS256", privateKey?, publicKey?, secret? }.
+  // Without them each ring falls back to one HS256 secret (AUTH_JWT_ACCESS_SECRET / AUTH_JWT_REFRESH_SECRET),
+  // both defaulting to values derived from JWT_SECRET so the two always differ.
+  const deriveSecret = (use: string) => createHmac("sha256", jwtSecret).update(use).digest("base64url");
+  const jwtKeys: TokenKeyConfig = {
+    access: process.env.JWT_ACCESS_KEYS
+      ? parseSigningKeys(process.env.JWT_ACCESS_KEYS, "JWT_ACCESS_KEYS")
+      : [{ kid: "hs256-access", alg: "HS256", secret: process.env.AUTH_JWT_ACCESS_SECRET || deriveSecret("access-tokens") }],
+    refresh: process.env.JWT_REFRESH_KEYS
+      ? parseSigningKeys(process.env.JWT_REFRESH_KEYS, "JWT_REFRESH_KEYS")
+      : [{ kid: "hs256-refresh", alg: "HS256", secret: process.env.AUTH_JWT_REFRESH_SECRET || deriveSecret("refresh-tokens") }],
+  };
+
   const corsOrigins = (process.env.CORS_ORIGINS || "")
     .split(",")
     .map((s) => s.trim())
@@ -56,11 +86,27 @@ export function loadEnv(): AppConfig {
     databaseUrl,
     redisUrl,
     jwtSecret,
+    jwtKeys,
     accessTtlSec: toInt(process.env.ACCESS_TTL_SEC, 15 * 60), // 15m
     refreshTtlSec: toInt(process.env.REFRESH_TTL_SEC, 30 * 24 * 60 * 60), // 30d
     maxSessionsPerUser: toInt(process.env.MAX_SESSIONS_PER_USER, 10),
     bcryptRounds: toInt(process.env.BCRYPT_ROUNDS, 10),
     corsOrigins,
+    mfaEnabled: process.env.AUTH_ENABLE_MFA !== "false",
+    mfaIssuer: process.env.MFA_ISSUER || "BHC Markets",
+    emailVerificationEnabled: process.env.AUTH_ENABLE_EMAIL_VERIFICATION !== "false",
+    passwordResetEnabled: process.env.AUTH_ENABLE_PASSWORD_RESET !== "false",
+    rateLimitingEnabled: process.env.AUTH_ENABLE_RATE_LIMITING !== "false",
+    anomalyDetectionEnabled: process.env.AUTH_ENABLE_ANOMALY_DETECTION !== "false",
+    revokeAllSessionsOnTokenReuse: process.env.AUTH_REVOKE_ALL_SESSIONS_ON_TOKEN_REUSE === "true",
+    auditLoggingEnabled: process.env.AUTH_ENABLE_AUDIT_LOGGING !== "false",
+    breachedPasswordsFile: process.env.AUTH_BREACHED_PASSWORDS_FILE || undefined,
+    apiKeyEncryptionKey: process.env.AUTH_API_KEY_ENCRYPTION_KEY || deriveSecret("api-key-secrets"),
+    refreshCookieEnabled: process.env.AUTH_ENABLE_REFRESH_COOKIE !== "false",
+    refreshCookieSecure: process.env.AUTH_REFRESH_COOKIE_SECURE
+      ? process.env.AUTH_REFRESH_COOKIE_SECURE !== "false"
+      : !["development", "test"].includes(nodeEnv),
+    refreshCookieDomain: process.env.AUTH_REFRESH_COOKIE_DOMAIN || undefined,
   };
 }
 
@@ -29,5 +29,12 @@ export function createDrizzleClient(pool: Pool) {
 
 export type DrizzleClient = ReturnType<typeof createDrizzleClient>;
 
+// Transaction handle passed to `db.transaction(async (tx) => ...)` callbacks.
+export type DrizzleTransaction = Parameters<Parameters<DrizzleClient["transaction"]>[0]>[0];
+
+// Anything services can run queries on: the root client or an open transaction.
+// Services accept one so callers can compose several writes into a single transaction.
+export type DbExecutor = DrizzleClient | DrizzleTransaction;
+
 // Migrations are now handled by Drizzle via `npm run db:migrate`
 // export async function runMigrations(pool: Pool) { ... }
@@ -1,6 +1,10 @@
-import { eq, sql } from "drizzle-orm";
+import { eq, getTableColumns, sql } from "drizzle-orm";
 import { accounts, users } from "@repo/database";
 import type { DrizzleClient } from "../../db/pg.js";
+import { Decimal } from "../../lib/decimal.js";
+
+// Spendable cash: balance minus what resting buy orders hold in `locked`.
+const available = sql<string>`${accounts.balance} - ${accounts.locked}`.as("available");
 
 export class AccountService {
   constructor(private db: DrizzleClient) {}
@@ -29,6 +33,22 @@ export class AccountService {
     return account;
   }
 
+  async getAccountById(accountId: string) {
+    const [account] = await this.db
+      .select({ ...getTableColumns(accounts), available })
+      .from(accounts)
+      .where(eq(accounts.id, accountId))
+      .limit(1);
+    return account;
+  }
+
+  async listAccounts(userId: string) {
+    return this.db
+      .select({ ...getTableColumns(accounts), available })
+      .from(accounts)
+      .where(eq(accounts.userId, userId));
+  }
+
   async getAllAccounts() {
     return this.db
       .select({
@@ -38,6 +58,7 @@ export class AccountService {
         currency: accounts.currency,
         balance: accounts.balance,
         locked: accounts.locked,
+        available,
         status: accounts.status,
       })
       .from(accounts)
@@ -55,10 +76,12 @@ export class AccountService {
       throw new Error("Account not found");
     }
 
-    const currentBalance = parseFloat(account.balance);
-    const newBalance = type === "deposit" ? currentBalance + amount : currentBalance - amount;
+    const currentBalance = Decimal.from(account.balance);
+    const change = Decimal.from(amount);
+    const newBalance = type === "deposit" ? currentBalance.plus(change) : currentBalance.minus(change);
 
-    if (newBalance < 0) {
+    // Held funds belong to resting orders and can't be withdrawn
+    if (newBalance.lt(Decimal.from(account.locked))) {
       throw new Error("Insufficient funds");
     }
 
@@ -7,6 +7,7 @@ export interface AccountEntity {
   currency: string;
   balance: string;
   locked: string;
+  available: string; // balance - locked
   accountType: "spot" | "margin" | "futures" | "demo";
   status: "active" | "locked" | "closed";
   createdAt: string;
@@ -0,0 +1,33 @@
+import type { Router } from "../../api/types.js";
+import type { AccountService } from "./account.service.js";
+import { can, getAuthUser } from "../../api/middleware.js";
+import type { AuthServices } from "../../api/middleware.js";
+
+export function registerAccountRoutes(
+  router: Router,
+  services: AuthServices & { account: AccountService },
+): void {
+  router.route("GET", "/accounts", async (req) => {
+    const auth = await getAuthUser(req, services, { scope: "read" });
+    if (!auth) return { status: 401, body: { error: "unauthorized" } };
+
+    const accounts = await services.account.listAccounts(auth.sub);
+    return { status: 200, body: accounts };
+  });
+
+  router.route("GET", "/accounts/:id", async (req) => {
+    const auth = await getAuthUser(req, services, { scope: "read" });
+    if (!auth) return { status: 401, body: { error: "unauthorized" } };
+
+    const accountId = req.params["id"];
+    if (!accountId) return { status: 400, body: { error: "account_id_required" } };
+
+    const account = await services.account.getAccountById(accountId);
+    if (!account) return { status: 404, body: { error: "account_not_found" } };
+    if (account.userId !== auth.sub && !can(auth, "users:read")) {
+      return { status: 403, body: { error: "forbidden" } };
+    }
+
+    return { status: 200, body: account };
+  });
+}
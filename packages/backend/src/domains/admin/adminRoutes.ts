@@ -1,32 +1,43 @@
-import type { Router } from "../../api/types.js";
+import type { HttpRequest, Router } from "../../api/types.js";
 import type { AccountService } from "../account/account.service.js";
-import { getAuthUser } from "../../api/middleware.js";
-import type { AuthServices } from "../../api/middleware.js";
-import { validateAdminBalanceBody } from "./adminValidator.js";
+import type { AuthService } from "../auth/core/auth.service.js";
+import { AuthError } from "../auth/core/auth.errors.js";
+import { withPermission } from "../../api/middleware.js";
+import type { AuthenticatedClaims, AuthServices } from "../../api/middleware.js";
+import { requestDevice } from "../auth/controllers/request.device.js";
+import { encodeAuditCursor, type AuditLogger, type AuditRecord } from "../auth/events/audit.logger.js";
+import {
+  validateAdminAuditQuery,
+  validateAdminBalanceBody,
+  validateAdminRoleBody,
+  validateAdminSessionParams,
+  validateAdminUserParams,
+} from "./adminValidator.js";
 
 type LoggerLike = {
   error: (msg: string, meta?: Record<string, unknown>) => void;
 };
 
+// Who did it and from where, for audit events about admin actions
+const adminTrail = (
+  req: HttpRequest,
+  auth: AuthenticatedClaims,
+): Pick<AuditRecord, "actorUserId" | "sessionId" | "ipAddress" | "userAgent"> => {
+  const { ipAddress, userAgent } = requestDevice(req);
+  return { actorUserId: auth.sub, sessionId: auth.sessionId, ipAddress, userAgent };
+};
+
 export function registerAdminRoutes(
   router: Router,
-  services: AuthServices & { account: AccountService },
+  services: AuthServices & { account: AccountService; auth: AuthService; auditLogger?: AuditLogger },
   logger: LoggerLike,
 ): void {
-  router.route("GET", "/admin/users", async (req) => {
-    const auth = await getAuthUser(req, services);
-    if (!auth) return { status: 401, body: { error: "unauthorized" } };
-    if (auth.role !== "admin") return { status: 403, body: { error: "forbidden_admin_only" } };
-
+  router.route("GET", "/admin/users", withPermission(services, "users:read", async () => {
     const accounts = await services.account.getAllAccounts();
     return { status: 200, body: accounts };
-  });
-
-  router.route("POST", "/admin/balance", async (req) => {
-    const auth = await getAuthUser(req, services);
-    if (!auth) return { status: 401, body: { error: "unauthorized" } };
-    if (auth.role !== "admin") return { status: 403, body: { error: "forbidden_admin_only" } };
+  }));
 
+  router.route("POST", "/admin/balance", withPermission(services, "balances:adjust", async (req, auth) => {
     let body: ReturnType<typeof validateAdminBalanceBody>;
     try {
       body = validateAdminBalanceBody(req.body);
@@ -34,12 +45,171 @@ export function registerAdminRoutes(
       return { status: 400, body: { error: "invalid_body" } };
     }
 
+    const trail = {
+      ...adminTrail(req, auth),
+      action: "admin.balance_update" as const,
+      targetUserId: body.userId,
+      metadata: { amount: body.amount, type: body.type },
+    };
     try {
       const result = await services.account.updateBalance(body.userId, body.amount, body.type);
+      await services.auditLogger?.record({ ...trail, outcome: "success" });
       return { status: 200, body: result };
     } catch (e) {
+      await services.auditLogger?.record({
+        ...trail,
+        outcome: "failure",
+        metadata: { ...trail.metadata, reason: e instanceof Error ? e.message : "update_failed" },
+      });
       logger.error("balance_update_error", { err: String(e) });
       return { status: 400, body: { error: e instanceof Error ? e.message : "update_failed" } };
     }
+  }));
+
+  // Lift a login lockout (ACCOUNT_LOCKED) before it expires
+  router.route("POST", "/admin/users/:userId/unlock", withPermission(services, "users:unlock", async (req, auth) => {
+    let userId: string;
+    try {
+      userId = validateAdminUserParams(req.params).userId;
+    } catch {
+      return { status: 400, body: { error: "invalid_params" } };
+    }
+
+    const trail = { ...adminTrail(req, auth), action: "admin.account_unlock" as const, targetUserId: userId };
+    try {
+      await services.auth.unlockAccount(userId);
+      await services.auditLogger?.record({ ...trail, outcome: "success" });
+      return { status: 204 };
+    } catch (e) {
+      await services.auditLogger?.record({
+        ...trail,
+        outcome: "failure",
+        metadata: { reason: AuthError.isAuthError(e) ? e.code : "INTERNAL_ERROR" },
+      });
+      if (AuthError.isAuthError(e) && e.code === "USER_NOT_FOUND") {
+        return { status: 404, body: { error: "user_not_found" } };
+      }
+      logger.error("unlock_error", { err: String(e), userId });
+      return { status: 500, body: { error: "unlock_failed" } };
+    }
+  }));
+
+  // Grant or take away staff access; the user is signed out everywhere so the change applies at once
+  router.route("PUT", "/admin/users/:userId/role", withPermission(services, "users:manage_roles", async (req, auth) => {
+    let userId: string;
+    try {
+      userId = validateAdminUserParams(req.params).userId;
+    } catch {
+      return { status: 400, body: { error: "invalid_params" } };
+    }
+
+    let body: ReturnType<typeof validateAdminRoleBody>;
+    try {
+      body = validateAdminRoleBody(req.body);
+    } catch {
+      return { status: 400, body: { error: "invalid_body" } };
+    }
+    // Admins cannot demote themselves by accident; another admin has to do it
+    if (userId === auth.sub) return { status: 400, body: { error: "cannot_change_own_role" } };
+
+    const trail = {
+      ...adminTrail(req, auth),
+      action: "admin.role_change" as const,
+      targetUserId: userId,
+      metadata: { role: body.role },
+    };
+    try {
+      const { user, previousRole } = await services.auth.changeUserRole(userId, body.role);
+      await services.auditLogger?.record({ ...trail, outcome: "success", metadata: { role: user.role, previousRole } });
+      return { status: 200, body: { id: user.id, email: user.email, role: user.role, previousRole } };
+    } catch (e) {
+      await services.auditLogger?.record({
+        ...trail,
+        outcome: "failure",
+        metadata: { ...trail.metadata, reason: AuthError.isAuthError(e) ? e.code : "INTERNAL_ERROR" },
+      });
+      if (AuthError.isAuthError(e) && e.code === "USER_NOT_FOUND") {
+        return { status: 404, body: { error: "user_not_found" } };
+      }
+      logger.error("role_change_error", { err: String(e), userId });
+      return { status: 500, body: { error: "role_change_failed" } };
+    }
+  }));
+
+  // A user's active sessions, as they would see them on GET /auth/sessions
+  router.route("GET", "/admin/users/:userId/sessions", withPermission(services, "sessions:read", async (req) => {
+    let params: ReturnType<typeof validateAdminSessionParams>;
+    try {
+      params = validateAdminSessionParams(req.params);
+    } catch {
+      return { status: 400, body: { error: "invalid_params" } };
+    }
+
+    try {
+      const sessions = await services.auth.listActiveSessions(params.userId);
+      return { status: 200, body: { sessions } };
+    } catch (e) {
+      logger.error("session_list_error", { err: String(e), userId: params.userId });
+      return { status: 500, body: { error: "session_list_failed" } };
+    }
+  }));
+
+  // Sign a user out of one session, or of every session when no :sessionId is given
+  const revokeSessions = withPermission(services, "sessions:revoke", async (req, auth) => {
+    let params: ReturnType<typeof validateAdminSessionParams>;
+    try {
+      params = validateAdminSessionParams(req.params);
+    } catch {
+      return { status: 400, body: { error: "invalid_params" } };
+    }
+
+    const trail = {
+      ...adminTrail(req, auth),
+      action: "admin.session_revoke" as const,
+      targetUserId: params.userId,
+      metadata: { sessionId: params.sessionId ?? "all" },
+    };
+    try {
+      await services.auth.revokeUserSessions(params.userId, params.sessionId);
+      await services.auditLogger?.record({ ...trail, outcome: "success" });
+      return { status: 204 };
+    } catch (e) {
+      await services.auditLogger?.record({
+        ...trail,
+        outcome: "failure",
+        metadata: { ...trail.metadata, reason: AuthError.isAuthError(e) ? e.code : "INTERNAL_ERROR" },
+      });
+      if (AuthError.isAuthError(e) && e.code === "SESSION_NOT_FOUND") {
+        return { status: 404, body: { error: "session_not_found" } };
+      }
+      logger.error("session_revoke_error", { err: String(e), userId: params.userId });
+      return { status: 500, body: { error: "session_revoke_failed" } };
+    }
   });
+  router.route("DELETE", "/admin/users/:userId/sessions", revokeSessions);
+  router.route("DELETE", "/admin/users/:userId/sessions/:sessionId", revokeSessions);
+
+  // Security audit trail, newest first. Page with the returned `nextCursor`.
+  router.route("GET", "/admin/audit", withPermission(services, "audit:read", async (req) => {
+    if (!services.auditLogger) return { status: 503, body: { error: "audit_logging_disabled" } };
+
+    let query: ReturnType<typeof validateAdminAuditQuery>;
+    try {
+      query = validateAdminAuditQuery(req.query);
+    } catch (e) {
+      const reason = e instanceof Error ? e.message.replace("validation_error: ", "") : "invalid_query";
+      return { status: 400, body: { error: reason } };
+    }
+
+    try {
+      const page = await services.auditLogger.list(query.filter, { limit: query.limit, after: query.after });
+      return {
+        status: 200,
+        body: { events: page.events, nextCursor: page.nextCursor ? encodeAuditCursor(page.nextCursor) : null },
+      };
+    } catch (e) {
+      logger.error("audit_list_error", { err: String(e) });
+      return { status: 500, body: { error: "audit_list_failed" } };
+    }
+  }));
 }
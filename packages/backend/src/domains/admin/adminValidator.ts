@@ -1,4 +1,6 @@
 import { z } from "zod";
+import type { AuditAction, AuditEventCursor, AuditEventFilter } from "../auth/core/auth.types.js";
+import { decodeAuditCursor } from "../auth/events/audit.logger.js";
 
 const balanceSchema = z
   .object({
@@ -15,3 +17,70 @@ export function validateAdminBalanceBody(body: unknown): AdminBalanceBody {
   if (parsed.success) return parsed.data;
   throw new Error("validation_error: invalid_body");
 }
+
+const auditQuerySchema = z
+  .object({
+    action: z.string().min(1).max(64).optional(),
+    outcome: z.enum(["success", "failure"]).optional(),
+    actorUserId: z.string().uuid().optional(),
+    targetUserId: z.string().uuid().optional(),
+    from: z.string().datetime({ offset: true }).optional(),
+    to: z.string().datetime({ offset: true }).optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+    cursor: z.string().min(1).optional(),
+  })
+  .strict();
+
+export type AdminAuditQuery = {
+  filter: AuditEventFilter;
+  limit: number;
+  after?: AuditEventCursor;
+};
+
+export function validateAdminAuditQuery(query: unknown): AdminAuditQuery {
+  const parsed = auditQuerySchema.safeParse(query);
+  if (!parsed.success) throw new Error("validation_error: invalid_query");
+
+  const { cursor, limit, ...filter } = parsed.data;
+  const after = cursor ? decodeAuditCursor(cursor) : undefined;
+  if (after === null) throw new Error("validation_error: invalid_cursor");
+
+  return { filter: { ...filter, action: filter.action as AuditAction | undefined }, limit, after };
+}
+
+const sessionParamsSchema = z.object({
+  userId: z.string().uuid(),
+  sessionId: z.string().uuid().optional(),
+});
+
+export type AdminSessionParams = z.infer<typeof sessionParamsSchema>;
+
+export function validateAdminSessionParams(params: unknown): AdminSessionParams {
+  const parsed = sessionParamsSchema.safeParse(params);
+  if (parsed.success) return parsed.data;
+  throw new Error("validation_error: invalid_params");
+}
+
+const userParamsSchema = z.object({
+  userId: z.string().uuid(),
+});
+
+export function validateAdminUserParams(params: unknown): { userId: string } {
+  const parsed = userParamsSchema.safeParse(params);
+  if (parsed.success) return parsed.data;
+  throw new Error("validation_error: invalid_params");
+}
+
+const roleBodySchema = z
+  .object({
+    role: z.enum(["user", "support", "admin"]),
+  })
+  .strict();
+
+export type AdminRoleBody = z.infer<typeof roleBodySchema>;
+
+export function validateAdminRoleBody(body: unknown): AdminRoleBody {
+  const parsed = roleBodySchema.safeParse(body);
+  if (parsed.success) return parsed.data;
+  throw new Error("validation_error: invalid_body");
+}
@@ -0,0 +1,81 @@
+/**
+ * API Keys Controller.
+ *
+ * HTTP adapters for the signed-in user's API keys: creating, listing and revoking them.
+ * Managing keys always takes a bearer session; a key can never mint or revoke keys.
+ */
+
+import type { HttpRequest, HttpResponse } from "../../../api/types.js";
+import type { AuthService } from "../core/auth.service.js";
+import { getAuthUser, type AuthServices } from "../../../api/middleware.js";
+import { validateApiKeyId, validateCreateApiKey } from "../validators/auth.validator.js";
+import { toErrorResponse } from "./error.response.js";
+import { requestDevice } from "./request.device.js";
+
+const unauthorized: HttpResponse = { status: 401, body: { error: "unauthorized" } };
+
+/**
+ * Create API key controller.
+ * The response carries the secret, which is never shown again.
+ *
+ * @param authService - Auth service instance
+ * @param services - Token manager and session repository for bearer auth
+ * @returns HTTP request handler
+ */
+export function createCreateApiKeyController(authService: AuthService, services: AuthServices) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const auth = await getAuthUser(req, services);
+      if (!auth) return unauthorized;
+
+      const body = validateCreateApiKey(req.body);
+      const created = await authService.createApiKey({ ...body, userId: auth.sub, device: requestDevice(req) });
+      return { status: 201, headers: { "cache-control": "no-store" }, body: created };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
+
+/**
+ * Create list API keys controller.
+ *
+ * @param authService - Auth service instance
+ * @param services - Token manager and session repository for bearer auth
+ * @returns HTTP request handler
+ */
+export function createListApiKeysController(authService: AuthService, services: AuthServices) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const auth = await getAuthUser(req, services);
+      if (!auth) return unauthorized;
+
+      const apiKeys = await authService.listApiKeys(auth.sub);
+      return { status: 200, body: { apiKeys } };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
+
+/**
+ * Create revoke API key controller.
+ *
+ * @param authService - Auth service instance
+ * @param services - Token manager and session repository for bearer auth
+ * @returns HTTP request handler
+ */
+export function createRevokeApiKeyController(authService: AuthService, services: AuthServices) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const auth = await getAuthUser(req, services);
+      if (!auth) return unauthorized;
+
+      const apiKeyId = validateApiKeyId(req.params["id"]);
+      await authService.revokeApiKey({ userId: auth.sub, apiKeyId, device: requestDevice(req) });
+      return { status: 204 };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
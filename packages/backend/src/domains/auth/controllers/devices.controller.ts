@@ -0,0 +1,100 @@
+/**
+ * Devices Controller.
+ *
+ * HTTP adapters for the signed-in user's known devices: listing, renaming and
+ * revoking them, and confirming a new device from the emailed link.
+ */
+
+import type { HttpRequest, HttpResponse } from "../../../api/types.js";
+import type { AuthService } from "../core/auth.service.js";
+import { getAuthUser, type AuthServices } from "../../../api/middleware.js";
+import { validateDeviceId, validateRenameDevice, validateVerifyDevice } from "../validators/auth.validator.js";
+import { toErrorResponse } from "./error.response.js";
+import { requestDevice } from "./request.device.js";
+
+const unauthorized: HttpResponse = { status: 401, body: { error: "unauthorized" } };
+
+/**
+ * Create list devices controller.
+ *
+ * @param authService - Auth service instance
+ * @param services - Token manager and session repository for bearer auth
+ * @returns HTTP request handler
+ */
+export function createListDevicesController(authService: AuthService, services: AuthServices) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const auth = await getAuthUser(req, services);
+      if (!auth) return unauthorized;
+
+      const devices = await authService.listDevices(auth.sub);
+      return { status: 200, body: { devices } };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
+
+/**
+ * Create rename device controller.
+ *
+ * @param authService - Auth service instance
+ * @param services - Token manager and session repository for bearer auth
+ * @returns HTTP request handler
+ */
+export function createRenameDeviceController(authService: AuthService, services: AuthServices) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const auth = await getAuthUser(req, services);
+      if (!auth) return unauthorized;
+
+      const deviceId = validateDeviceId(req.params["id"]);
+      const { name } = validateRenameDevice(req.body);
+      const device = await authService.renameDevice({ userId: auth.sub, deviceId, name });
+      return { status: 200, body: device };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
+
+/**
+ * Create revoke device controller.
+ * Sessions opened on the device end with it.
+ *
+ * @param authService - Auth service instance
+ * @param services - Token manager and session repository for bearer auth
+ * @returns HTTP request handler
+ */
+export function createRevokeDeviceController(authService: AuthService, services: AuthServices) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const auth = await getAuthUser(req, services);
+      if (!auth) return unauthorized;
+
+      const deviceId = validateDeviceId(req.params["id"]);
+      await authService.revokeDevice({ userId: auth.sub, deviceId, device: requestDevice(req) });
+      return { status: 204 };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
+
+/**
+ * Create verify device controller (target of the emailed confirmation link).
+ *
+ * @param authService - Auth service instance
+ * @returns HTTP request handler
+ */
+export function createVerifyDeviceController(authService: AuthService) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const { token } = validateVerifyDevice(req.body);
+      const device = await authService.verifyDevice({ token, device: requestDevice(req) });
+      return { status: 200, body: device };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Email Verification Controller.
+ *
+ * HTTP adapters for following a verification link and requesting a new one.
+ */
+
+import type { HttpRequest, HttpResponse } from "../../../api/types.js";
+import type { AuthService } from "../core/auth.service.js";
+import { validateResendVerification, validateVerifyEmail } from "../validators/auth.validator.js";
+import { toErrorResponse } from "./error.response.js";
+
+/**
+ * Create verify email controller.
+ *
+ * @param authService - Auth service instance
+ * @returns HTTP request handler
+ */
+export function createVerifyEmailController(authService: AuthService) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const { token } = validateVerifyEmail(req.body);
+      const result = await authService.verifyEmail(token);
+      return { status: 200, body: result };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
+
+/**
+ * Create resend verification controller.
+ * Always answers 202 so the endpoint does not reveal which emails are registered.
+ *
+ * @param authService - Auth service instance
+ * @returns HTTP request handler
+ */
+export function createResendVerificationController(authService: AuthService) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const { email } = validateResendVerification(req.body);
+      await authService.resendVerificationEmail({ email });
+      return { status: 202, body: { status: "accepted" } };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Error mapping shared by auth controllers.
+ */
+
+import type { HttpResponse } from "../../../api/types.js";
+import { AuthError } from "../core/auth.errors.js";
+
+/**
+ * Map validation, auth and unknown errors to a response.
+ */
+export function toErrorResponse(error: unknown): HttpResponse {
+  if (error instanceof Error && error.message.startsWith("validation_error")) {
+    return {
+      status: 400,
+      body: { error: "VALIDATION_ERROR", message: error.message },
+    };
+  }
+
+  if (AuthError.isAuthError(error)) {
+    const retryAfter = error.metadata?.retryAfter;
+    return {
+      status: error.httpStatus,
+      ...(typeof retryAfter === "number" && { headers: { "Retry-After": String(retryAfter) } }),
+      body: error.toJSON(),
+    };
+  }
+
+  return {
+    status: 500,
+    body: { error: "INTERNAL_ERROR", message: "An unexpected error occurred" },
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * JWKS Controller.
+ *
+ * Publishes the public keys that verify access tokens, so other services (market data,
+ * bots) can check tokens without holding a signing secret.
+ */
+
+import type { HttpResponse } from "../../../api/types.js";
+import type { TokenManager } from "../../../security/tokens.js";
+
+// Verifiers may cache the set briefly; a rotated-in key is published before it starts signing
+const JWKS_MAX_AGE_SECONDS = 300;
+
+/**
+ * Create JWKS controller (`/.well-known/jwks.json`).
+ *
+ * @param tokenManager - Token manager holding the access token key ring
+ * @returns HTTP request handler
+ */
+export function createJwksController(tokenManager: TokenManager) {
+  return async (): Promise<HttpResponse> => ({
+    status: 200,
+    headers: { "cache-control": `public, max-age=${JWKS_MAX_AGE_SECONDS}` },
+    body: await tokenManager.getJwks(),
+  });
+}
@@ -9,22 +9,25 @@ import type { HttpRequest, HttpResponse } from "../../../api/types.js";
 import type { AuthService } from "../core/auth.service.js";
 import { validateLogin } from "../validators/auth.validator.js";
 import { AuthError } from "../core/auth.errors.js";
-import { extractDeviceInfo } from "../security/device.fingerprint.js";
+import type { RefreshCookiePolicy } from "../core/auth.policies.js";
+import { requestDevice } from "./request.device.js";
+import { toTokenResponse } from "./refresh.cookie.js";
 
 /**
  * Create login controller.
  * 
  * @param authService - Auth service instance
+ * @param refreshCookie - Refresh cookie policy, for browser clients that ask for the cookie
  * @returns HTTP request handler
  */
-export function createLoginController(authService: AuthService) {
+export function createLoginController(authService: AuthService, refreshCookie?: RefreshCookiePolicy) {
   return async (req: HttpRequest): Promise<HttpResponse> => {
     try {
       // Validate request body
       const { email, password } = validateLogin(req.body);
 
-      // Extract device metadata from request headers
-      const device = extractDeviceInfo(req.headers || {});
+      // Extract device metadata from the request
+      const device = requestDevice(req);
 
       // Authenticate user
       const result = await authService.authenticate({
@@ -33,11 +36,16 @@ export function createLoginController(authService: AuthService) {
         device,
       });
 
+      // An MFA challenge carries no tokens yet
+      if ("mfaRequired" in result) {
+        return {
+          status: 200,
+          body: result,
+        };
+      }
+
       // Return authentication result with tokens
-      return {
-        status: 200,
-        body: result,
-      };
+      return toTokenResponse(req, 200, result, refreshCookie);
     } catch (error: unknown) {
       // Handle validation errors
       if (error instanceof Error && error.message.startsWith("validation_error")) {
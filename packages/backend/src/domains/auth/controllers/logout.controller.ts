@@ -3,6 +3,7 @@
  * 
  * HTTP adapter for logout use case.
  * Handles single session termination.
+ * Browser clients holding refresh cookies get them cleared.
  */
 
 import type { HttpRequest, HttpResponse } from "../../../api/types.js";
@@ -10,14 +11,18 @@ import type { AuthService } from "../core/auth.service.js";
 import type { SessionInvalidationReason } from "../core/auth.types.js";
 import { validateLogout } from "../validators/auth.validator.js";
 import { AuthError } from "../core/auth.errors.js";
+import type { RefreshCookiePolicy } from "../core/auth.policies.js";
+import { requestDevice } from "./request.device.js";
+import { clearRefreshCookies, readRefreshCookie } from "./refresh.cookie.js";
 
 /**
  * Create logout controller.
  * 
  * @param authService - Auth service instance
+ * @param refreshCookie - Refresh cookie policy, for browser clients that keep the token in a cookie
  * @returns HTTP request handler
  */
-export function createLogoutController(authService: AuthService) {
+export function createLogoutController(authService: AuthService, refreshCookie?: RefreshCookiePolicy) {
   return async (req: HttpRequest): Promise<HttpResponse> => {
     try {
       // Validate request body
@@ -28,11 +33,13 @@ export function createLogoutController(authService: AuthService) {
         sessionId,
         userId,
         reason: reason as SessionInvalidationReason | undefined,
+        device: requestDevice(req),
       });
 
       // Return success (no content)
       return {
         status: 204,
+        ...(refreshCookie && readRefreshCookie(req, refreshCookie) && { cookies: clearRefreshCookies(refreshCookie) }),
       };
     } catch (error: unknown) {
       // Handle validation errors
@@ -0,0 +1,163 @@
+/**
+ * MFA Controller.
+ *
+ * HTTP adapters for the second login step (TOTP / recovery code) and for
+ * TOTP enrollment and management.
+ */
+
+import type { HttpRequest, HttpResponse } from "../../../api/types.js";
+import type { AuthService } from "../core/auth.service.js";
+import { getAuthUser, type AuthServices } from "../../../api/middleware.js";
+import {
+  validateMfaCode,
+  validateMfaConfirm,
+  validateMfaEnroll,
+  validateMfaVerify,
+} from "../validators/auth.validator.js";
+import { toErrorResponse } from "./error.response.js";
+import type { RefreshCookiePolicy } from "../core/auth.policies.js";
+import { requestDevice } from "./request.device.js";
+import { toCookieResult, toTokenResponse, wantsRefreshCookie } from "./refresh.cookie.js";
+
+const unauthorized: HttpResponse = { status: 401, body: { error: "unauthorized" } };
+
+/**
+ * Create MFA verify controller (second step of login).
+ *
+ * @param authService - Auth service instance
+ * @param refreshCookie - Refresh cookie policy, for browser clients that ask for the cookie
+ * @returns HTTP request handler
+ */
+export function createMfaVerifyController(authService: AuthService, refreshCookie?: RefreshCookiePolicy) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const { challengeToken, code, recoveryCode } = validateMfaVerify(req.body);
+      const device = requestDevice(req);
+
+      const result = await authService.verifyMfa({ challengeToken, code, recoveryCode, device });
+      return toTokenResponse(req, 200, result, refreshCookie);
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
+
+/**
+ * Create MFA status controller.
+ *
+ * @param authService - Auth service instance
+ * @param services - Token manager and session repository for bearer auth
+ * @returns HTTP request handler
+ */
+export function createMfaStatusController(authService: AuthService, services: AuthServices) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const auth = await getAuthUser(req, services);
+      if (!auth) return unauthorized;
+
+      const status = await authService.getMfaStatus(auth.sub);
+      return { status: 200, body: status };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
+
+/**
+ * Create MFA enrollment controller.
+ * Accepts a bearer token, or the challenge token from a login that requires enrollment.
+ *
+ * @param authService - Auth service instance
+ * @param services - Token manager and session repository for bearer auth
+ * @returns HTTP request handler
+ */
+export function createMfaEnrollController(authService: AuthService, services: AuthServices) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const { challengeToken } = validateMfaEnroll(req.body);
+      const auth = challengeToken ? null : await getAuthUser(req, services);
+      if (!auth && !challengeToken) return unauthorized;
+
+      const enrollment = await authService.beginMfaEnrollment({ userId: auth?.sub, challengeToken });
+      return { status: 200, body: enrollment };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
+
+/**
+ * Create MFA enrollment confirmation controller.
+ * Returns the recovery codes (shown once) and, for challenge-driven enrollment, the session tokens.
+ *
+ * @param authService - Auth service instance
+ * @param services - Token manager and session repository for bearer auth
+ * @param refreshCookie - Refresh cookie policy, for browser clients that ask for the cookie
+ * @returns HTTP request handler
+ */
+export function createMfaConfirmController(
+  authService: AuthService,
+  services: AuthServices,
+  refreshCookie?: RefreshCookiePolicy,
+) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const { code, challengeToken } = validateMfaConfirm(req.body);
+      const auth = challengeToken ? null : await getAuthUser(req, services);
+      if (!auth && !challengeToken) return unauthorized;
+
+      const device = requestDevice(req);
+      const result = await authService.confirmMfaEnrollment({ userId: auth?.sub, challengeToken, code, device });
+      if (!result.authentication || !wantsRefreshCookie(req, refreshCookie)) return { status: 200, body: result };
+
+      const { body, cookies } = toCookieResult(result.authentication, refreshCookie);
+      return { status: 200, body: { ...result, authentication: body }, cookies };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
+
+/**
+ * Create recovery code regeneration controller.
+ *
+ * @param authService - Auth service instance
+ * @param services - Token manager and session repository for bearer auth
+ * @returns HTTP request handler
+ */
+export function createRecoveryCodesController(authService: AuthService, services: AuthServices) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const auth = await getAuthUser(req, services);
+      if (!auth) return unauthorized;
+
+      const { code } = validateMfaCode(req.body);
+      const recoveryCodes = await authService.regenerateRecoveryCodes({ userId: auth.sub, code, device: requestDevice(req) });
+      return { status: 200, body: { recoveryCodes } };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
+
+/**
+ * Create MFA disable controller.
+ *
+ * @param authService - Auth service instance
+ * @param services - Token manager and session repository for bearer auth
+ * @returns HTTP request handler
+ */
+export function createMfaDisableController(authService: AuthService, services: AuthServices) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const auth = await getAuthUser(req, services);
+      if (!auth) return unauthorized;
+
+      const { code } = validateMfaCode(req.body);
+      await authService.disableMfa({ userId: auth.sub, code, device: requestDevice(req) });
+      return { status: 204 };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
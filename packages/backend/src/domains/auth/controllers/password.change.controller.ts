@@ -0,0 +1,41 @@
+/**
+ * Password Change Controller.
+ *
+ * HTTP adapter for a signed-in user replacing their password.
+ */
+
+import type { HttpRequest, HttpResponse } from "../../../api/types.js";
+import type { AuthService } from "../core/auth.service.js";
+import { getAuthUser, type AuthServices } from "../../../api/middleware.js";
+import { validateChangePassword } from "../validators/auth.validator.js";
+import { toErrorResponse } from "./error.response.js";
+import { requestDevice } from "./request.device.js";
+
+/**
+ * Create change password controller.
+ * Every other session is signed out; the one making the request stays signed in.
+ *
+ * @param authService - Auth service instance
+ * @param services - Token manager and session repository for bearer auth
+ * @returns HTTP request handler
+ */
+export function createChangePasswordController(authService: AuthService, services: AuthServices) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const auth = await getAuthUser(req, services);
+      if (!auth) return { status: 401, body: { error: "unauthorized" } };
+
+      const { currentPassword, newPassword } = validateChangePassword(req.body);
+      await authService.updatePassword({
+        userId: auth.sub,
+        currentPassword,
+        newPassword,
+        keepSessionId: auth.sessionId,
+        device: requestDevice(req),
+      });
+      return { status: 204 };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
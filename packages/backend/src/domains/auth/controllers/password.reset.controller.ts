@@ -0,0 +1,48 @@
+/**
+ * Password Reset Controller.
+ *
+ * HTTP adapters for requesting a reset link and setting a new password with it.
+ */
+
+import type { HttpRequest, HttpResponse } from "../../../api/types.js";
+import type { AuthService } from "../core/auth.service.js";
+import { validateForgotPassword, validateResetPassword } from "../validators/auth.validator.js";
+import { toErrorResponse } from "./error.response.js";
+import { requestDevice } from "./request.device.js";
+
+/**
+ * Create forgot password controller.
+ * Always answers 202 so the endpoint does not reveal which emails are registered.
+ *
+ * @param authService - Auth service instance
+ * @returns HTTP request handler
+ */
+export function createForgotPasswordController(authService: AuthService) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const { email } = validateForgotPassword(req.body);
+      await authService.requestPasswordReset({ email, device: requestDevice(req) });
+      return { status: 202, body: { status: "accepted" } };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
+
+/**
+ * Create reset password controller.
+ *
+ * @param authService - Auth service instance
+ * @returns HTTP request handler
+ */
+export function createResetPasswordController(authService: AuthService) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const { token, newPassword } = validateResetPassword(req.body);
+      await authService.resetPassword({ token, newPassword, device: requestDevice(req) });
+      return { status: 204 };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
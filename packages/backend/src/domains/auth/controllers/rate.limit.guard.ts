@@ -0,0 +1,51 @@
+/**
+ * Rate Limit Guard.
+ *
+ * Wraps a controller so each request counts against a `RateLimiter` bucket before
+ * the controller runs. Over the limit the request is answered with 429 and
+ * `Retry-After` without touching the auth service. Without a limiter the
+ * controller is returned unchanged.
+ */
+
+import type { HttpRequest, HttpResponse } from "../../../api/types.js";
+import type { RateLimitOperation, RateLimiter } from "../security/rate.limit.js";
+import { toErrorResponse } from "./error.response.js";
+
+type Controller = (req: HttpRequest) => Promise<HttpResponse>;
+
+/**
+ * Resolve the bucket key for a request; null skips the limit for that request.
+ */
+export type RateLimitKeyResolver = (req: HttpRequest) => string | null | Promise<string | null>;
+
+/**
+ * Guard a controller with a rate limit.
+ *
+ * @param limiter - Rate limiter instance, if rate limiting is wired
+ * @param operation - Policy entry that sets the window and attempt budget
+ * @param keyOf - Bucket key for the request (usually derived from the client IP)
+ * @param controller - Controller to guard
+ * @returns HTTP request handler
+ */
+export function withRateLimit(
+  limiter: RateLimiter | undefined,
+  operation: RateLimitOperation,
+  keyOf: RateLimitKeyResolver,
+  controller: Controller
+): Controller {
+  if (!limiter) {
+    return controller;
+  }
+
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    const key = await keyOf(req);
+    if (key) {
+      try {
+        await limiter.check(key, operation);
+      } catch (error: unknown) {
+        return toErrorResponse(error);
+      }
+    }
+    return controller(req);
+  };
+}
@@ -3,28 +3,44 @@
  * 
  * HTTP adapter for token refresh use case.
  * Handles refresh token rotation and access token issuance.
+ * The refresh token comes from the body, or for browser clients from the refresh
+ * cookie together with a matching CSRF header.
  */
 
 import type { HttpRequest, HttpResponse } from "../../../api/types.js";
 import type { AuthService } from "../core/auth.service.js";
 import { validateRefresh } from "../validators/auth.validator.js";
 import { AuthError } from "../core/auth.errors.js";
-import { extractDeviceInfo } from "../security/device.fingerprint.js";
+import type { RefreshCookiePolicy } from "../core/auth.policies.js";
+import { requestDevice } from "./request.device.js";
+import { assertCsrfToken, clearRefreshCookies, readRefreshCookie, toCookieResult } from "./refresh.cookie.js";
 
 /**
  * Create refresh controller.
  * 
  * @param authService - Auth service instance
+ * @param refreshCookie - Refresh cookie policy, for browser clients that keep the token in a cookie
  * @returns HTTP request handler
  */
-export function createRefreshController(authService: AuthService) {
+export function createRefreshController(authService: AuthService, refreshCookie?: RefreshCookiePolicy) {
   return async (req: HttpRequest): Promise<HttpResponse> => {
+    // A token in the body wins; otherwise browser clients send theirs as a cookie
+    const bodyToken = (req.body as { refreshToken?: unknown } | null)?.refreshToken;
+    const cookieToken = bodyToken === undefined ? readRefreshCookie(req, refreshCookie) : undefined;
+    const cookiePolicy = cookieToken ? refreshCookie : undefined;
+
     try {
-      // Validate request body
-      const { refreshToken } = validateRefresh(req.body);
+      let refreshToken: string;
+      if (cookieToken && cookiePolicy) {
+        assertCsrfToken(req, cookiePolicy);
+        refreshToken = cookieToken;
+      } else {
+        // Validate request body
+        ({ refreshToken } = validateRefresh(req.body));
+      }
 
-      // Extract device metadata from request headers
-      const device = extractDeviceInfo(req.headers || {});
+      // Extract device metadata from the request
+      const device = requestDevice(req);
 
       // Refresh session and get new tokens
       const result = await authService.refreshSession({
@@ -32,7 +48,11 @@ export function createRefreshController(authService: AuthService) {
         device,
       });
 
-      // Return new tokens
+      // Return new tokens, rotating the cookies for cookie clients
+      if (cookiePolicy) {
+        const { body, cookies } = toCookieResult(result, cookiePolicy);
+        return { status: 200, body, cookies };
+      }
       return {
         status: 200,
         body: result,
@@ -46,10 +66,11 @@ export function createRefreshController(authService: AuthService) {
         };
       }
 
-      // Handle auth errors
+      // Handle auth errors; a rejected cookie token is cleared so the client signs in again
       if (AuthError.isAuthError(error)) {
         return {
           status: error.httpStatus,
+          ...(cookiePolicy && error.httpStatus === 401 && { cookies: clearRefreshCookies(cookiePolicy) }),
           body: error.toJSON(),
         };
       }
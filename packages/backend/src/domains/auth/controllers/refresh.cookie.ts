@@ -0,0 +1,106 @@
+/**
+ * Refresh Cookie.
+ *
+ * Browser clients that send `X-Auth-Transport: cookie` receive the refresh token as an
+ * httpOnly cookie scoped to the auth routes instead of in the response body, so script
+ * running in the page cannot read it. Because the browser attaches that cookie to
+ * cross-site requests too, a cookie refresh must also carry a double-submit CSRF token:
+ * a random value set in a readable cookie (and returned in the body) that the client
+ * echoes in `X-CSRF-Token`. Another site can make the browser send the cookies but
+ * cannot read them to fill in the header.
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import type { HttpRequest, HttpResponse } from "../../../api/types.js";
+import type { ResponseCookie } from "../../../api/cookies.js";
+import type { AuthenticationResult, AuthTokens } from "../core/auth.service.js";
+import type { RefreshCookiePolicy } from "../core/auth.policies.js";
+import { AuthError } from "../core/auth.errors.js";
+import { generateOpaqueToken } from "../security/opaque.token.js";
+
+export const TOKEN_TRANSPORT_HEADER = "x-auth-transport";
+
+/**
+ * Tokens as sent to a cookie client: the refresh token travels in its cookie only.
+ */
+export type CookieAuthTokens = Omit<AuthTokens, "refreshToken"> & { csrfToken: string };
+
+export type CookieAuthenticationResult = Omit<AuthenticationResult, "tokens"> & { tokens: CookieAuthTokens };
+
+/**
+ * Whether the client asked for its refresh token in a cookie and the policy allows it.
+ */
+export function wantsRefreshCookie(req: HttpRequest, policy: RefreshCookiePolicy | undefined): policy is RefreshCookiePolicy {
+  return !!policy?.enabled && req.headers[TOKEN_TRANSPORT_HEADER]?.toLowerCase() === "cookie";
+}
+
+/**
+ * The refresh token cookie of the request, if cookies are enabled.
+ */
+export function readRefreshCookie(req: HttpRequest, policy: RefreshCookiePolicy | undefined): string | undefined {
+  if (!policy?.enabled) return undefined;
+  return req.cookies?.[policy.refreshCookieName] || undefined;
+}
+
+/**
+ * Move the refresh token of a sign-in or refresh result into cookies, alongside a fresh CSRF token.
+ */
+export function toCookieResult(
+  result: AuthenticationResult,
+  policy: RefreshCookiePolicy,
+): { body: CookieAuthenticationResult; cookies: ResponseCookie[] } {
+  const { refreshToken, ...tokens } = result.tokens;
+  const csrfToken = generateOpaqueToken();
+  const expires = new Date(tokens.refreshTokenExpiresAt);
+  const shared = { secure: policy.secure, sameSite: policy.sameSite, domain: policy.domain, expires };
+
+  return {
+    body: { ...result, tokens: { ...tokens, csrfToken } },
+    cookies: [
+      { name: policy.refreshCookieName, value: refreshToken, options: { ...shared, httpOnly: true, path: policy.path } },
+      // Readable by the page so the client can echo it
+      { name: policy.csrfCookieName, value: csrfToken, options: { ...shared, path: "/" } },
+    ],
+  };
+}
+
+/**
+ * Response carrying a sign-in result: tokens in the body, or the refresh token in cookies
+ * when the client asked for that.
+ */
+export function toTokenResponse(
+  req: HttpRequest,
+  status: number,
+  result: AuthenticationResult,
+  policy: RefreshCookiePolicy | undefined,
+): HttpResponse {
+  if (!wantsRefreshCookie(req, policy)) return { status, body: result };
+  const { body, cookies } = toCookieResult(result, policy);
+  return { status, body, cookies };
+}
+
+/**
+ * Cookies that delete both the refresh and the CSRF cookie.
+ */
+export function clearRefreshCookies(policy: RefreshCookiePolicy): ResponseCookie[] {
+  const shared = { secure: policy.secure, sameSite: policy.sameSite, domain: policy.domain, maxAge: 0 };
+  return [
+    { name: policy.refreshCookieName, value: "", options: { ...shared, httpOnly: true, path: policy.path } },
+    { name: policy.csrfCookieName, value: "", options: { ...shared, path: "/" } },
+  ];
+}
+
+/**
+ * Require the CSRF header to match the CSRF cookie.
+ *
+ * @throws AuthError CSRF_TOKEN_INVALID when either is missing or they differ
+ */
+export function assertCsrfToken(req: HttpRequest, policy: RefreshCookiePolicy): void {
+  const cookie = req.cookies?.[policy.csrfCookieName];
+  const header = req.headers[policy.csrfHeaderName];
+  if (!cookie || !header) throw new AuthError("CSRF_TOKEN_INVALID");
+
+  const a = Buffer.from(cookie);
+  const b = Buffer.from(header);
+  if (a.length !== b.length || !timingSafeEqual(a, b)) throw new AuthError("CSRF_TOKEN_INVALID");
+}
@@ -9,22 +9,25 @@ import type { HttpRequest, HttpResponse } from "../../../api/types.js";
 import type { AuthService } from "../core/auth.service.js";
 import { validateRegister } from "../validators/auth.validator.js";
 import { AuthError } from "../core/auth.errors.js";
-import { extractDeviceInfo } from "../security/device.fingerprint.js";
+import type { RefreshCookiePolicy } from "../core/auth.policies.js";
+import { requestDevice } from "./request.device.js";
+import { toTokenResponse } from "./refresh.cookie.js";
 
 /**
  * Create register controller.
  * 
  * @param authService - Auth service instance
+ * @param refreshCookie - Refresh cookie policy, for browser clients that ask for the cookie
  * @returns HTTP request handler
  */
-export function createRegisterController(authService: AuthService) {
+export function createRegisterController(authService: AuthService, refreshCookie?: RefreshCookiePolicy) {
   return async (req: HttpRequest): Promise<HttpResponse> => {
     try {
       // Validate request body
       const { email, password, issueSession } = validateRegister(req.body);
 
-      // Extract device metadata from request headers
-      const device = extractDeviceInfo(req.headers || {});
+      // Extract device metadata from the request
+      const device = requestDevice(req);
 
       // Register user
       const result = await authService.register({
@@ -34,11 +37,14 @@ export function createRegisterController(authService: AuthService) {
         issueSession,
       });
 
-      // Return registration result
-      return {
-        status: 201,
-        body: result,
-      };
+      // Return registration result, with tokens when a session was issued
+      if (!("tokens" in result)) {
+        return {
+          status: 201,
+          body: result,
+        };
+      }
+      return toTokenResponse(req, 201, result, refreshCookie);
     } catch (error: unknown) {
       // Handle validation errors
       if (error instanceof Error && error.message.startsWith("validation_error")) {
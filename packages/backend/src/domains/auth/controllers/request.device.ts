@@ -0,0 +1,18 @@
+/**
+ * Request Device.
+ *
+ * Device metadata for a request as the auth service records it on sessions,
+ * MFA challenges and audit events.
+ */
+
+import type { HttpRequest } from "../../../api/types.js";
+import { extractDeviceInfo, type DeviceInfo } from "../security/device.fingerprint.js";
+
+/**
+ * Device metadata from the request headers, falling back to the socket address
+ * when no proxy header carries the client IP.
+ */
+export function requestDevice(req: HttpRequest): DeviceInfo {
+  const device = extractDeviceInfo(req.headers || {});
+  return { ...device, ipAddress: device.ipAddress ?? req.ipAddress };
+}
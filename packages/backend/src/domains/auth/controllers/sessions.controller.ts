@@ -2,56 +2,64 @@
  * Sessions Controller.
  * 
  * HTTP adapter for session management.
- * Handles listing and revoking user sessions.
+ * Handles listing and revoking the signed-in user's sessions.
  */
 
 import type { HttpRequest, HttpResponse } from "../../../api/types.js";
 import type { AuthService } from "../core/auth.service.js";
 import type { SessionInvalidationReason } from "../core/auth.types.js";
-import { validateLogoutAll } from "../validators/auth.validator.js";
+import { getAuthUser, type AuthServices } from "../../../api/middleware.js";
+import { validateLogoutAll, validateSessionId } from "../validators/auth.validator.js";
 import { AuthError } from "../core/auth.errors.js";
+import { toErrorResponse } from "./error.response.js";
+import { requestDevice } from "./request.device.js";
+
+const unauthorized: HttpResponse = { status: 401, body: { error: "unauthorized" } };
 
 /**
  * Create list sessions controller.
+ * The session making the request is flagged `current`.
  * 
  * @param authService - Auth service instance
+ * @param services - Token manager and session repository for bearer auth
  * @returns HTTP request handler
  */
-export function createListSessionsController(authService: AuthService) {
+export function createListSessionsController(authService: AuthService, services: AuthServices) {
   return async (req: HttpRequest): Promise<HttpResponse> => {
     try {
-      // Get userId from query parameters
-      const userId = req.query?.["userId"];
-      
-      if (!userId || typeof userId !== "string") {
-        return {
-          status: 400,
-          body: { error: "VALIDATION_ERROR", message: "userId query parameter is required" },
-        };
-      }
+      const auth = await getAuthUser(req, services);
+      if (!auth) return unauthorized;
 
-      // List active sessions for user
-      const sessions = await authService.listActiveSessions(userId);
+      const sessions = await authService.listActiveSessions(auth.sub, auth.sessionId);
+      return { status: 200, body: { sessions } };
+    } catch (error: unknown) {
+      return toErrorResponse(error);
+    }
+  };
+}
 
-      // Return sessions
-      return {
-        status: 200,
-        body: { sessions },
-      };
+/**
+ * Create revoke session controller.
+ * Ends one of the signed-in user's sessions; other users' sessions are reported as not found.
+ * 
+ * @param authService - Auth service instance
+ * @param services - Token manager and session repository for bearer auth
+ * @returns HTTP request handler
+ */
+export function createRevokeSessionController(authService: AuthService, services: AuthServices) {
+  return async (req: HttpRequest): Promise<HttpResponse> => {
+    try {
+      const auth = await getAuthUser(req, services);
+      if (!auth) return unauthorized;
+
+      const sessionId = validateSessionId(req.params["id"]);
+      await authService.revokeSession({ userId: auth.sub, sessionId, device: requestDevice(req) });
+      return { status: 204 };
     } catch (error: unknown) {
-      // Handle auth errors
-      if (AuthError.isAuthError(error)) {
-        return {
-          status: error.httpStatus,
-          body: error.toJSON(),
-        };
+      if (AuthError.isAuthError(error) && error.code === "SESSION_NOT_FOUND") {
+        return { status: 404, body: error.toJSON() };
       }
-
-      // Handle unknown errors
-      return {
-        status: 500,
-        body: { error: "INTERNAL_ERROR", message: "An unexpected error occurred" },
-      };
+      return toErrorResponse(error);
     }
   };
 }
@@ -73,6 +81,7 @@ export function createRevokeAllSessionsController(authService: AuthService) {
         userId,
         excludeSessionId,
         reason: reason as SessionInvalidationReason | undefined,
+        device: requestDevice(req),
       });
 
       // Return success (no content)
@@ -72,6 +72,10 @@ export type AuthErrorCode =
   | "RATE_LIMIT_EXCEEDED"
   | "IP_BLOCKED"
   | "DEVICE_NOT_RECOGNIZED"
+  | "DEVICE_NOT_FOUND"
+  | "API_KEY_NOT_FOUND"
+  | "API_KEY_LIMIT_REACHED"
+  | "CSRF_TOKEN_INVALID"
   
   // Generic errors
   | "INTERNAL_ERROR"
@@ -145,6 +149,10 @@ export const AUTH_ERROR_DESCRIPTIONS: Record<AuthErrorCode, string> = {
   RATE_LIMIT_EXCEEDED: "Rate limit exceeded, please try again later",
   IP_BLOCKED: "Access from this IP address has been blocked",
   DEVICE_NOT_RECOGNIZED: "Device not recognized, additional verification required",
+  DEVICE_NOT_FOUND: "Device not found",
+  API_KEY_NOT_FOUND: "API key not found",
+  API_KEY_LIMIT_REACHED: "Maximum number of API keys reached",
+  CSRF_TOKEN_INVALID: "CSRF token is missing or does not match",
   
   // Generic
   INTERNAL_ERROR: "An internal error occurred",
@@ -219,6 +227,10 @@ export const AUTH_ERROR_HTTP_STATUS: Record<AuthErrorCode, number> = {
   RATE_LIMIT_EXCEEDED: 429,
   IP_BLOCKED: 403,
   DEVICE_NOT_RECOGNIZED: 403,
+  DEVICE_NOT_FOUND: 404,
+  API_KEY_NOT_FOUND: 404,
+  API_KEY_LIMIT_REACHED: 409,
+  CSRF_TOKEN_INVALID: 403,
   
   // Generic - 500 Internal Server Error or 400 Bad Request
   INTERNAL_ERROR: 500,
@@ -0,0 +1,58 @@
+/**
+ * Auth Permissions.
+ *
+ * What each role may do beyond its own account. Routes ask for a permission, never for a
+ * role, so giving support staff more (or less) is a change to this table only.
+ */
+
+import type { UserRole } from "./auth.types.js";
+
+export type Permission =
+  /** List users and read any user's accounts and positions */
+  | "users:read"
+  /** Lift a login lockout */
+  | "users:unlock"
+  /** Change a user's role */
+  | "users:manage_roles"
+  /** List any user's sessions */
+  | "sessions:read"
+  /** Sign any user out */
+  | "sessions:revoke"
+  /** Deposit to or withdraw from any account */
+  | "balances:adjust"
+  /** Cancel orders of any account */
+  | "orders:cancel_any"
+  /** Query the security audit trail */
+  | "audit:read"
+  /** Open, halt and close instruments */
+  | "instruments:manage";
+
+export const PERMISSIONS: readonly Permission[] = [
+  "users:read",
+  "users:unlock",
+  "users:manage_roles",
+  "sessions:read",
+  "sessions:revoke",
+  "balances:adjust",
+  "orders:cancel_any",
+  "audit:read",
+  "instruments:manage",
+];
+
+/**
+ * Permissions granted to each role. Support gets visibility to help customers and can sign
+ * a user out of a compromised session; anything that moves money, changes the market or
+ * grants access stays with admins.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  user: [],
+  support: ["users:read", "sessions:read", "sessions:revoke", "audit:read"],
+  admin: PERMISSIONS,
+};
+
+/**
+ * Whether the role holds the permission. Unknown roles hold nothing.
+ */
+export function hasPermission(role: string, permission: Permission): boolean {
+  return (ROLE_PERMISSIONS as Record<string, readonly Permission[] | undefined>)[role]?.includes(permission) ?? false;
+}
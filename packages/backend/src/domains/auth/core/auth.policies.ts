@@ -58,7 +58,7 @@ export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
   requireSpecialChar: true,
   specialChars: "!@#$%^&*()_+-=[]{}|;:,.<>?",
   preventCommonPasswords: true,
-  checkBreachedPasswords: false, // Requires external API, disabled by default
+  checkBreachedPasswords: true, // Offline list, see security/breached.passwords.ts
   minEntropy: 50, // ~50 bits is considered strong
   maxAgeInDays: 0, // No expiration by default
   passwordHistorySize: 5, // Remember last 5 passwords
@@ -248,6 +248,79 @@ export const DEFAULT_DEVICE_POLICY: DevicePolicy = {
   },
 };
 
+/**
+ * API key policies (programmatic access with signed requests).
+ */
+export interface ApiKeyPolicy {
+  /** Enable API keys */
+  enabled: boolean;
+  
+  /** Maximum number of active (unrevoked, unexpired) keys per user */
+  maxKeysPerUser: number;
+  
+  /** Longest lifetime a key may be created with, in days (keys may also never expire) */
+  maxLifetimeDays: number;
+  
+  /** How far a request timestamp may be from server time, in seconds; nonces are remembered this long */
+  signatureToleranceSeconds: number;
+  
+  /** Maximum number of addresses or CIDR ranges in a key's allowlist */
+  maxAllowedIps: number;
+}
+
+/**
+ * Default API key policy.
+ */
+export const DEFAULT_API_KEY_POLICY: ApiKeyPolicy = {
+  enabled: true,
+  maxKeysPerUser: 10,
+  maxLifetimeDays: 365,
+  signatureToleranceSeconds: 30,
+  maxAllowedIps: 20,
+};
+
+/**
+ * Refresh cookie policies (browser clients that keep the refresh token out of JavaScript).
+ */
+export interface RefreshCookiePolicy {
+  /** Let clients ask for the refresh token as an httpOnly cookie */
+  enabled: boolean;
+  
+  /** Name of the httpOnly cookie holding the refresh token */
+  refreshCookieName: string;
+  
+  /** Name of the readable cookie holding the double-submit CSRF token */
+  csrfCookieName: string;
+  
+  /** Header the CSRF token must be echoed in */
+  csrfHeaderName: string;
+  
+  /** Path the refresh cookie is sent to; covers refresh and logout */
+  path: string;
+  
+  /** SameSite attribute of both cookies */
+  sameSite: "Strict" | "Lax";
+  
+  /** Send the cookies over HTTPS only */
+  secure: boolean;
+  
+  /** Cookie domain; host-only when unset */
+  domain?: string;
+}
+
+/**
+ * Default refresh cookie policy.
+ */
+export const DEFAULT_REFRESH_COOKIE_POLICY: RefreshCookiePolicy = {
+  enabled: true,
+  refreshCookieName: "bhc_refresh",
+  csrfCookieName: "bhc_csrf",
+  csrfHeaderName: "x-csrf-token",
+  path: "/auth",
+  sameSite: "Strict",
+  secure: true,
+};
+
 /**
  * Email verification policies.
  */
@@ -388,11 +461,26 @@ export interface AnomalyDetectionPolicy {
   /** Detect concurrent sessions from different locations */
   detectConcurrentLocations: boolean;
   
+  /** Sightings this recent count as concurrent */
+  concurrentLocationWindowSeconds: number;
+  
+  /** Minimum distance in km between concurrent sightings to flag */
+  concurrentLocationMinDistanceKm: number;
+  
+  /** Detect sign-ins from new devices and sessions used from another device */
+  detectDeviceChange: boolean;
+  
+  /** Detect sign-ins from new IP addresses and sessions moving between IPs */
+  detectIpChange: boolean;
+  
   /** Detect unusual login times (outside normal patterns) */
   detectUnusualLoginTimes: boolean;
   
   /** Action to take on anomaly detection */
   onAnomalyDetected: "log" | "alert" | "challenge" | "block";
+  
+  /** Anomalies below this severity are only logged, whatever `onAnomalyDetected` says */
+  actionSeverity: "low" | "medium" | "high" | "critical";
 }
 
 /**
@@ -404,8 +492,13 @@ export const DEFAULT_ANOMALY_DETECTION_POLICY: AnomalyDetectionPolicy = {
   detectImpossibleTravel: true,
   maxTravelSpeedKmh: 1000, // ~speed of commercial aircraft
   detectConcurrentLocations: true,
+  concurrentLocationWindowSeconds: 30 * 60, // 30 minutes
+  concurrentLocationMinDistanceKm: 500,
+  detectDeviceChange: true,
+  detectIpChange: true,
   detectUnusualLoginTimes: false, // Requires ML/pattern learning
   onAnomalyDetected: "alert", // Log and send alert, but don't block
+  actionSeverity: "medium", // New IPs alone are too common to act on
 };
 
 /**
@@ -417,6 +510,8 @@ export interface AuthSecurityPolicies {
   lockout: LockoutPolicy;
   mfa: MfaPolicy;
   device: DevicePolicy;
+  apiKeys: ApiKeyPolicy;
+  refreshCookie: RefreshCookiePolicy;
   emailVerification: EmailVerificationPolicy;
   passwordReset: PasswordResetPolicy;
   rateLimit: RateLimitPolicy;
@@ -434,6 +529,8 @@ export const DEFAULT_AUTH_POLICIES: AuthSecurityPolicies = {
   lockout: DEFAULT_LOCKOUT_POLICY,
   mfa: DEFAULT_MFA_POLICY,
   device: DEFAULT_DEVICE_POLICY,
+  apiKeys: DEFAULT_API_KEY_POLICY,
+  refreshCookie: DEFAULT_REFRESH_COOKIE_POLICY,
   emailVerification: DEFAULT_EMAIL_VERIFICATION_POLICY,
   passwordReset: DEFAULT_PASSWORD_RESET_POLICY,
   rateLimit: DEFAULT_RATE_LIMIT_POLICY,
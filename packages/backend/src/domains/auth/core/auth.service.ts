@@ -1,12 +1,18 @@
 import { randomUUID } from "node:crypto";
 import type { Logger } from "../../../config/logger.js";
 import type {
+  ApiKey,
+  ApiKeyView,
   CreateCredentialParams,
   CreateSessionParams,
   CreateUserParams,
   DeviceMetadata,
+  MfaChallenge,
+  MfaRepository,
   SessionInvalidationReason,
   SessionView,
+  TrustedDevice,
+  TrustedDeviceView,
   User,
   UserCredential,
   UserCredentialRepository,
@@ -18,31 +24,36 @@ import type {
   UUID,
 } from "./auth.types.js";
 import type { AccountService } from "../../account/account.service.js";
+import { AuthError } from "./auth.errors.js";
+import {
+  DEFAULT_LOCKOUT_POLICY,
+  DEFAULT_MFA_POLICY,
+  type LockoutPolicy,
+  type MfaPolicy,
+} from "./auth.policies.js";
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from "../mfa/totp.js";
+import { generateRecoveryCodes, hashRecoveryCode } from "../mfa/recovery.codes.js";
+import { generateOpaqueToken, hashOpaqueToken } from "../security/opaque.token.js";
+import type { EmailVerificationFlow } from "../flows/email.verification.js";
+import type { PasswordResetFlow } from "../flows/password.reset.js";
+import type { DeviceTrustFlow } from "../flows/device.trust.js";
+import type { Anomaly, AnomalyDetector, AnomalyResponse, AuthActivity } from "../security/anomaly.detector.js";
+import type { DeviceFingerprinter } from "../security/device.fingerprint.js";
+import type { PasswordPolicyEnforcer } from "../security/password.policy.js";
+import type { ApiKeyManager, ApiKeyOptions } from "../security/api.keys.js";
+import { parseUserAgent } from "../security/user.agent.js";
+import type { SecurityAlertSink } from "../security/security.alerts.js";
+import type { AuditLogger, AuditRecord } from "../events/audit.logger.js";
+
+export { AuthError };
+export type { AuthErrorCode } from "./auth.errors.js";
 
 const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // 15 minutes
 const DEFAULT_REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
 const DEFAULT_MAX_SESSIONS_PER_USER = 10;
-
-export type AuthErrorCode =
-  | "EMAIL_ALREADY_REGISTERED"
-  | "INVALID_CREDENTIALS"
-  | "USER_NOT_ACTIVE"
-  | "USER_SUSPENDED"
-  | "SESSION_NOT_FOUND"
-  | "SESSION_REVOKED"
-  | "SESSION_EXPIRED"
-  | "REFRESH_TOKEN_INVALID"
-  | "REFRESH_TOKEN_REUSED"
-  | "REFRESH_TOKEN_EXPIRED"
-  | "UNKNOWN_USER"
-  | "PASSWORD_MISMATCH";
-
-export class AuthError extends Error {
-  constructor(public readonly code: AuthErrorCode, message?: string) {
-    super(message ?? code);
-    this.name = "AuthError";
-  }
-}
+const DEFAULT_MFA_CHALLENGE_TTL_SECONDS = 5 * 60; // 5 minutes to enter the second factor
+const DEFAULT_MFA_ISSUER = "BHC Markets";
+const MAX_MFA_CHALLENGE_ATTEMPTS = 5;
 
 export interface SecretHasher {
   hash(plain: string): Promise<string>;
@@ -83,6 +94,10 @@ export interface AuthServiceConfig {
   accessTokenTtlSeconds: number;
   refreshTokenTtlSeconds: number;
   maxSessionsPerUser: number;
+  mfaChallengeTtlSeconds: number;
+  mfaIssuer: string;
+  /** Revoke every session of the user, not just the affected one, when a rotated refresh token is replayed. */
+  revokeAllSessionsOnRefreshReuse: boolean;
 }
 
 export interface AuthServiceDependencies {
@@ -97,6 +112,27 @@ export interface AuthServiceDependencies {
   logger?: Logger;
   config?: Partial<AuthServiceConfig>;
   accountService?: AccountService;
+  /** MFA is only offered (and enforced) when a repository is wired and the policy is enabled. */
+  mfaRepository?: MfaRepository;
+  mfaPolicy?: MfaPolicy;
+  lockoutPolicy?: LockoutPolicy;
+  /** Sign-ins and refreshes are checked for anomalies when wired; the policy decides the response. */
+  anomalyDetector?: AnomalyDetector;
+  /** Fingerprints the device a session is opened on so later refreshes can be compared against it. */
+  deviceFingerprinter?: DeviceFingerprinter;
+  /** Known devices are tracked per user when wired with a fingerprinter and the device policy is enabled. */
+  deviceTrust?: DeviceTrustFlow;
+  securityAlerts?: SecurityAlertSink;
+  /** When wired and the policy requires it, new users start `pending` until they follow the emailed link. */
+  emailVerification?: EmailVerificationFlow;
+  /** Forgot/reset endpoints only act when a flow is wired. */
+  passwordReset?: PasswordResetFlow;
+  /** New passwords (register, change, reset) must satisfy the policy, stay off the breached list and not repeat recent ones when wired. */
+  passwordPolicy?: PasswordPolicyEnforcer;
+  /** Users can create API keys for signed programmatic requests when wired and the policy is enabled. */
+  apiKeys?: ApiKeyManager;
+  /** Sign-ins, refreshes, logouts and credential changes are appended to the audit trail when wired. */
+  auditLogger?: AuditLogger;
 }
 
 export interface AuthTokens {
@@ -113,6 +149,35 @@ export interface AuthenticationResult {
   tokens: AuthTokens;
 }
 
+/**
+ * Returned by `authenticate` instead of tokens when a second factor is needed.
+ * `enrollmentRequired` means the policy demands MFA but the user has not enrolled yet;
+ * the challenge token can then be used to enroll and finish the login in one step.
+ */
+export interface MfaChallengeResult {
+  mfaRequired: true;
+  enrollmentRequired: boolean;
+  challengeToken: string;
+  challengeExpiresAt: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface MfaEnrollmentConfirmation {
+  recoveryCodes: string[];
+  /** Present when enrollment was completed from a login challenge. */
+  authentication?: AuthenticationResult;
+}
+
 export interface RegistrationInput {
   email: string;
   password: string;
@@ -128,6 +193,45 @@ export interface AuthenticationInput {
   device?: DeviceMetadata;
 }
 
+export interface VerifyMfaInput {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+  device?: DeviceMetadata;
+}
+
+/** Enrollment is driven either by a signed-in user or by a login challenge (`enrollmentRequired`). */
+export interface MfaEnrollmentInput {
+  userId?: UUID;
+  challengeToken?: string;
+}
+
+export interface ConfirmMfaEnrollmentInput extends MfaEnrollmentInput {
+  code: string;
+  device?: DeviceMetadata;
+}
+
+export interface MfaCodeInput {
+  userId: UUID;
+  code: string;
+  device?: DeviceMetadata;
+}
+
+export interface ResendVerificationInput {
+  email: string;
+}
+
+export interface ForgotPasswordInput {
+  email: string;
+  device?: DeviceMetadata;
+}
+
+export interface ResetPasswordInput {
+  token: string;
+  newPassword: string;
+  device?: DeviceMetadata;
+}
+
 export interface RefreshSessionInput {
   refreshToken: string;
   device?: DeviceMetadata;
@@ -137,12 +241,20 @@ export interface LogoutInput {
   sessionId: UUID;
   userId?: UUID;
   reason?: SessionInvalidationReason;
+  device?: DeviceMetadata;
 }
 
 export interface LogoutAllInput {
   userId: UUID;
   excludeSessionId?: UUID;
   reason?: SessionInvalidationReason;
+  device?: DeviceMetadata;
+}
+
+export interface RevokeSessionInput {
+  userId: UUID;
+  sessionId: UUID;
+  device?: DeviceMetadata;
 }
 
 export interface UpdatePasswordInput {
@@ -150,24 +262,108 @@ export interface UpdatePasswordInput {
   currentPassword?: string;
   newPassword: string;
   invalidateOtherSessions?: boolean;
+  /** Session that stays signed in when the others are invalidated (the one changing the password). */
+  keepSessionId?: UUID;
+  device?: DeviceMetadata;
+}
+
+export interface VerifyDeviceInput {
+  token: string;
+  device?: DeviceMetadata;
+}
+
+export interface RenameDeviceInput {
+  userId: UUID;
+  deviceId: UUID;
+  name: string;
+}
+
+export interface RevokeDeviceInput {
+  userId: UUID;
+  deviceId: UUID;
+  device?: DeviceMetadata;
+}
+
+export interface CreateApiKeyInput extends ApiKeyOptions {
+  userId: UUID;
+  device?: DeviceMetadata;
+}
+
+export interface RevokeApiKeyInput {
+  userId: UUID;
+  apiKeyId: UUID;
+  device?: DeviceMetadata;
+}
+
+export interface CreatedApiKey {
+  apiKey: ApiKeyView;
+  /** Shown once; only an encrypted copy is kept. */
+  secret: string;
 }
 
 export interface AuthService {
   register(input: RegistrationInput): Promise<AuthenticationResult | { user: User }>;
-  authenticate(input: AuthenticationInput): Promise<AuthenticationResult>;
+  authenticate(input: AuthenticationInput): Promise<AuthenticationResult | MfaChallengeResult>;
+  verifyMfa(input: VerifyMfaInput): Promise<AuthenticationResult>;
+  getMfaStatus(userId: UUID): Promise<MfaStatus>;
+  beginMfaEnrollment(input: MfaEnrollmentInput): Promise<MfaEnrollment>;
+  confirmMfaEnrollment(input: ConfirmMfaEnrollmentInput): Promise<MfaEnrollmentConfirmation>;
+  regenerateRecoveryCodes(input: MfaCodeInput): Promise<string[]>;
+  disableMfa(input: MfaCodeInput): Promise<void>;
+  verifyEmail(token: string): Promise<{ user: User }>;
+  resendVerificationEmail(input: ResendVerificationInput): Promise<void>;
+  requestPasswordReset(input: ForgotPasswordInput): Promise<void>;
+  resetPassword(input: ResetPasswordInput): Promise<void>;
   refreshSession(input: RefreshSessionInput): Promise<AuthenticationResult>;
   logout(input: LogoutInput): Promise<void>;
   logoutAll(input: LogoutAllInput): Promise<void>;
   updatePassword(input: UpdatePasswordInput): Promise<void>;
+  unlockAccount(userId: UUID): Promise<void>;
   getUserById(id: UUID): Promise<User | null>;
-  listActiveSessions(userId: UUID): Promise<SessionView[]>;
+  /** Flags `currentSessionId` as `current`. */
+  listActiveSessions(userId: UUID, currentSessionId?: UUID): Promise<SessionView[]>;
+  /** End one of the user's own sessions; `SESSION_NOT_FOUND` unless it is theirs and active. */
+  revokeSession(input: RevokeSessionInput): Promise<void>;
+  /** End one session of the user, or all of them, on someone else's behalf (support, admins). Not audited here. */
+  revokeUserSessions(userId: UUID, sessionId?: UUID): Promise<void>;
+  /**
+   * Give the user another role (admins). Their sessions end, so tokens carrying the old role
+   * stop working and the new role applies from the next sign-in. Not audited here.
+   */
+  changeUserRole(userId: UUID, role: UserRole): Promise<{ user: User; previousRole: UserRole }>;
+  listDevices(userId: UUID): Promise<TrustedDeviceView[]>;
+  renameDevice(input: RenameDeviceInput): Promise<TrustedDeviceView>;
+  /** Forget the device and end the user's sessions opened on it. */
+  revokeDevice(input: RevokeDeviceInput): Promise<void>;
+  verifyDevice(input: VerifyDeviceInput): Promise<TrustedDeviceView>;
+  createApiKey(input: CreateApiKeyInput): Promise<CreatedApiKey>;
+  listApiKeys(userId: UUID): Promise<ApiKeyView[]>;
+  /** `API_KEY_NOT_FOUND` unless the key is the user's and still unrevoked. */
+  revokeApiKey(input: RevokeApiKeyInput): Promise<void>;
 }
 
 const defaultClock: Clock = { now: () => new Date() };
 const defaultIdFactory: IdFactory = () => randomUUID();
 
+type AuditTrail = Omit<AuditRecord, "outcome">;
+
 const toSessionView = (session: UserSession): SessionView => {
   const { refreshTokenHash: _hash, ...rest } = session;
+  return session.userAgent ? { ...rest, device: parseUserAgent(session.userAgent) } : rest;
+};
+
+const toTrustedDeviceView = (device: TrustedDevice): TrustedDeviceView => {
+  const {
+    fingerprint: _fingerprint,
+    verificationTokenHash: _tokenHash,
+    verificationExpiresAt: _tokenExpiresAt,
+    ...rest
+  } = device;
+  return rest;
+};
+
+const toApiKeyView = (apiKey: ApiKey): ApiKeyView => {
+  const { userId: _userId, secretCiphertext: _secret, ...rest } = apiKey;
   return rest;
 };
 
@@ -230,16 +426,120 @@ export const createAuthService = (deps: AuthServiceDependencies): AuthService =>
     idFactory = defaultIdFactory,
     logger,
     accountService,
+    mfaRepository,
+    mfaPolicy = DEFAULT_MFA_POLICY,
+    lockoutPolicy = DEFAULT_LOCKOUT_POLICY,
+    anomalyDetector,
+    deviceFingerprinter,
+    deviceTrust,
+    securityAlerts,
+    emailVerification,
+    passwordReset,
+    passwordPolicy,
+    apiKeys,
+    auditLogger,
   } = deps;
 
   const config: AuthServiceConfig = {
     accessTokenTtlSeconds: deps.config?.accessTokenTtlSeconds ?? DEFAULT_ACCESS_TOKEN_TTL_SECONDS,
     refreshTokenTtlSeconds: deps.config?.refreshTokenTtlSeconds ?? DEFAULT_REFRESH_TOKEN_TTL_SECONDS,
     maxSessionsPerUser: deps.config?.maxSessionsPerUser ?? DEFAULT_MAX_SESSIONS_PER_USER,
+    mfaChallengeTtlSeconds: deps.config?.mfaChallengeTtlSeconds ?? DEFAULT_MFA_CHALLENGE_TTL_SECONDS,
+    mfaIssuer: deps.config?.mfaIssuer ?? DEFAULT_MFA_ISSUER,
+    revokeAllSessionsOnRefreshReuse: deps.config?.revokeAllSessionsOnRefreshReuse ?? false,
   };
 
   const normalizeEmail = (email: string): string => email.trim().toLowerCase();
 
+  const requiresEmailVerification = Boolean(emailVerification?.policy.required);
+
+  const trustedDevices = deviceTrust?.policy.enabled ? deviceTrust : undefined;
+
+  const apiKeyManager = apiKeys?.policy.enabled ? apiKeys : undefined;
+
+  // The current password counts towards the history, so `passwordHistorySize` 5 checks it and the 4 before
+  const passwordHistoryDepth = Math.max((passwordPolicy?.policy.passwordHistorySize ?? 0) - 1, 0);
+
+  const assertAcceptablePassword = async (password: string, credential?: UserCredential): Promise<void> => {
+    if (!passwordPolicy) return;
+    await passwordPolicy.enforce(password);
+    if (!credential || passwordPolicy.policy.passwordHistorySize <= 0) return;
+
+    const previous = passwordHistoryDepth > 0
+      ? await credentialRepository.listPasswordHistory?.(credential.userId, passwordHistoryDepth) ?? []
+      : [];
+    for (const hash of [credential.passwordHash, ...previous]) {
+      if (await passwordHasher.verify(password, hash)) {
+        throw new AuthError("PASSWORD_HISTORY_CONFLICT");
+      }
+    }
+  };
+
+  /**
+   * Pending users are unverified users when verification is on: they may sign in unless the
+   * policy blocks login until verification. Without verification, pending is not active.
+   */
+  const ensureCanSignIn = (user: User): void => {
+    if (user.status === "pending" && requiresEmailVerification) {
+      if (emailVerification?.policy.blockLoginUntilVerified) {
+        throw new AuthError("EMAIL_NOT_VERIFIED");
+      }
+      return;
+    }
+    ensureUserActive(user);
+  };
+
+  /** Undefined when fingerprinting is off or the request carried nothing to fingerprint. */
+  const fingerprintOf = (device?: DeviceMetadata): string | undefined => {
+    if (!deviceFingerprinter || !device) return undefined;
+    const { fingerprint, confidence } = deviceFingerprinter.generate(device);
+    return confidence > 0 ? fingerprint : undefined;
+  };
+
+  const emitAlert = async (anomaly: Anomaly): Promise<void> => {
+    await securityAlerts?.emit(anomaly).catch((error: unknown) => {
+      logger?.error("Security alert delivery failed", { type: anomaly.type, error: String(error) });
+    });
+  };
+
+  /**
+   * Check a sign-in or refresh for anomalies, alert on what the policy asks for and return the
+   * strictest response. Detection is best effort: a failing store lets the request through.
+   */
+  const assessAnomalies = async (activity: AuthActivity, trail: AuditTrail): Promise<AnomalyResponse> => {
+    if (!anomalyDetector) return "allow";
+
+    let anomalies: Anomaly[];
+    try {
+      anomalies = await anomalyDetector.evaluate(activity);
+    } catch (error: unknown) {
+      logger?.error("Anomaly detection failed", { userId: activity.userId, error: String(error) });
+      return "allow";
+    }
+
+    let response: AnomalyResponse = "allow";
+    for (const anomaly of anomalies) {
+      logger?.warn("Authentication anomaly detected", {
+        type: anomaly.type,
+        severity: anomaly.severity,
+        userId: anomaly.userId,
+        sessionId: anomaly.sessionId,
+      });
+      if (anomalyDetector.shouldAlert(anomaly)) {
+        await emitAlert(anomaly);
+      }
+      const action = anomalyDetector.handleAnomaly(anomaly);
+      if (action === "block" || (action === "challenge" && response === "allow")) {
+        response = action;
+      }
+    }
+
+    if (anomalies.length) {
+      trail.metadata = { ...trail.metadata, anomalies: anomalies.map((anomaly) => anomaly.type) };
+    }
+    return response;
+  };
+
   const issueInitialSession = async (
     user: User,
     credential: UserCredential,
@@ -273,6 +573,7 @@ export const createAuthService = (deps: AuthServiceDependencies): AuthService =>
       status: "active",
       ipAddress: device?.ipAddress,
       userAgent: device?.userAgent,
+      deviceFingerprint: fingerprintOf(device),
       createdAt: issuedAt.toISOString(),
       lastSeenAt: issuedAt.toISOString(),
       expiresAt: refreshExpiresAt.toISOString(),
@@ -304,6 +605,39 @@ export const createAuthService = (deps: AuthServiceDependencies): AuthService =>
     };
   };
 
+  /**
+   * A refresh token is single-use; seeing one again means two parties hold it.
+   * The session cannot tell which one is legitimate, so it is revoked (optionally with
+   * every other session of the user) and the reuse is recorded and alerted.
+   */
+  const handleRefreshTokenReuse = async (
+    session: UserSession,
+    presentedVersion: number,
+    device?: DeviceMetadata,
+  ): Promise<never> => {
+    const at = clock.now().toISOString();
+    await sessionRepository.markInactive(session.id, "suspicious_activity", at);
+    if (config.revokeAllSessionsOnRefreshReuse) {
+      await sessionRepository.markInactiveByUser(session.userId, "suspicious_activity", at);
+    }
+
+    const details = {
+      presentedVersion,
+      currentVersion: session.refreshTokenVersion,
+      ipAddress: device?.ipAddress,
+      userAgent: device?.userAgent,
+      revokedAllSessions: config.revokeAllSessionsOnRefreshReuse,
+    };
+    logger?.warn("Refresh token reuse detected", { userId: session.userId, sessionId: session.id, ...details });
+
+    const anomaly = await anomalyDetector?.reportTokenReuse(session.userId, session.id, details);
+    if (anomaly) {
+      await emitAlert(anomaly);
+    }
+
+    throw new AuthError("REFRESH_TOKEN_REUSED");
+  };
+
   const rotateSession = async (
     session: UserSession,
     user: User,
@@ -330,6 +664,7 @@ export const createAuthService = (deps: AuthServiceDependencies): AuthService =>
 
     const updatedSession = await sessionRepository.replaceRefreshToken({
       sessionId: session.id,
+      previousVersion: session.refreshTokenVersion,
       refreshTokenHash,
       refreshTokenVersion: nextVersion,
       expiresAt: refreshExpiresAt.toISOString(),
@@ -339,7 +674,8 @@ export const createAuthService = (deps: AuthServiceDependencies): AuthService =>
     });
 
     if (!updatedSession) {
-      throw new AuthError("SESSION_NOT_FOUND");
+      // Another request rotated this version first: the same refresh token was used twice
+      return handleRefreshTokenReuse(session, session.refreshTokenVersion, device);
     }
 
     const accessToken = await tokenManager.issueAccessToken(
@@ -367,143 +703,622 @@ export const createAuthService = (deps: AuthServiceDependencies): AuthService =>
     };
   };
 
-  const register: AuthService["register"] = async (input) => {
-    const email = normalizeEmail(input.email);
-    const existing = await userRepository.findByEmail(email);
-    if (existing) {
-      throw new AuthError("EMAIL_ALREADY_REGISTERED");
+  const completeLogin = async (
+    user: User,
+    credential: UserCredential,
+    device?: DeviceMetadata,
+  ): Promise<AuthenticationResult> => {
+    const result = await issueInitialSession(user, credential, device);
+    await pruneSessions(sessionRepository, user.id, config.maxSessionsPerUser, result.session.id, clock);
+    await userRepository.updateLastLogin?.(user.id, result.session.createdAt);
+    if (trustedDevices && result.session.deviceFingerprint) {
+      await trustedDevices.recordSignIn(user, result.session.deviceFingerprint, device);
     }
+    return result;
+  };
 
-    const timestamp = clock.now().toISOString();
-    const userId = idFactory();
-
-    const userRecord: CreateUserParams = {
-      id: userId,
-      email,
-      role: input.role ?? "user",
-      status: input.status ?? "active",
-      createdAt: timestamp,
-      updatedAt: timestamp,
-    };
+  const requireMfaRepository = (): MfaRepository => {
+    if (!mfaRepository || !mfaPolicy.enabled) {
+      throw new AuthError("MFA_NOT_ENABLED", "MFA is not available");
+    }
+    return mfaRepository;
+  };
+
+  const isMfaRequired = (user: User): boolean =>
+    Boolean(mfaRepository) &&
+    mfaPolicy.enabled &&
+    (mfaPolicy.requiredForAll || (mfaPolicy.requiredForAdmins && user.role === "admin"));
 
-    const user = await userRepository.create(userRecord);
+  const isMfaEnrolled = async (userId: UUID): Promise<boolean> => {
+    if (!mfaRepository || !mfaPolicy.enabled) return false;
+    const mfa = await mfaRepository.getByUserId(userId);
+    return Boolean(mfa?.enabledAt);
+  };
 
-    const passwordHash = await passwordHasher.hash(input.password);
-    const credentialRecord: CreateCredentialParams = {
+  const issueMfaChallenge = async (
+    user: User,
+    enrollmentRequired: boolean,
+    device?: DeviceMetadata,
+  ): Promise<MfaChallengeResult> => {
+    const repository = requireMfaRepository();
+    const createdAt = clock.now();
+    const expiresAt = new Date(createdAt.getTime() + config.mfaChallengeTtlSeconds * 1000);
+    const challengeToken = generateOpaqueToken();
+
+    await repository.createChallenge({
+      id: idFactory(),
       userId: user.id,
-      passwordHash,
-      version: 1,
-      createdAt: timestamp,
-      updatedAt: timestamp,
-      passwordUpdatedAt: timestamp,
+      tokenHash: hashOpaqueToken(challengeToken),
+      ipAddress: device?.ipAddress,
+      userAgent: device?.userAgent,
+      createdAt: createdAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    });
+
+    return {
+      mfaRequired: true,
+      enrollmentRequired,
+      challengeToken,
+      challengeExpiresAt: expiresAt.toISOString(),
     };
+  };
 
-    const credential = await credentialRepository.create(credentialRecord);
+  /**
+   * Load a live challenge and count the attempt against it.
+   * Challenges are bound to a short TTL and a small attempt budget so a stolen password
+   * cannot be used to brute-force the 6-digit code.
+   */
+  const useChallenge = async (repository: MfaRepository, challengeToken: string): Promise<MfaChallenge> => {
+    const challenge = await repository.getChallengeByTokenHash(hashOpaqueToken(challengeToken));
+    if (!challenge || challenge.consumedAt) {
+      throw new AuthError("MFA_CODE_INVALID", "MFA challenge is invalid or has already been used");
+    }
 
-    if (accountService) {
-      await accountService.createAccount(user.id);
+    const now = clock.now();
+    if (new Date(challenge.expiresAt) <= now) {
+      throw new AuthError("MFA_CODE_EXPIRED", "MFA challenge has expired, please sign in again");
     }
 
-    if (input.issueSession === false) {
-      return { user };
+    const attempts = await repository.recordChallengeAttempt(challenge.id);
+    if (attempts > MAX_MFA_CHALLENGE_ATTEMPTS) {
+      await repository.consumeChallenge(challenge.id, now.toISOString());
+      throw new AuthError("TOO_MANY_ATTEMPTS", "Too many MFA attempts, please sign in again");
     }
 
-    const result = await issueInitialSession(user, credential, input.device);
-    await pruneSessions(sessionRepository, user.id, config.maxSessionsPerUser, result.session.id, clock);
-    await userRepository.updateLastLogin?.(user.id, result.session.createdAt);
-    return result;
+    return challenge;
   };
 
-  const authenticate: AuthService["authenticate"] = async (input) => {
-    const email = normalizeEmail(input.email);
-    const user = await userRepository.findByEmail(email);
+  const getActiveUser = async (userId: UUID): Promise<User> => {
+    const user = await userRepository.findById(userId);
     if (!user) {
-      throw new AuthError("INVALID_CREDENTIALS");
+      throw new AuthError("UNKNOWN_USER");
     }
+    ensureCanSignIn(user);
+    return user;
+  };
 
-    ensureUserActive(user);
-
-    const credential = await credentialRepository.getByUserId(user.id);
-    if (!credential) {
-      throw new AuthError("INVALID_CREDENTIALS");
+  /** Check a TOTP code against the user's secret and burn its time step. */
+  const verifyTotpCode = async (repository: MfaRepository, userId: UUID, secret: string, code: string): Promise<void> => {
+    const step = verifyTotp(secret, code, clock.now(), mfaPolicy.totpPeriodSeconds, mfaPolicy.totpWindowPeriods);
+    if (step === null || !(await repository.recordUsedStep(userId, step))) {
+      throw new AuthError("MFA_CODE_INVALID");
     }
+  };
 
-    const passwordMatches = await passwordHasher.verify(input.password, credential.passwordHash);
-    if (!passwordMatches) {
-      await credentialRepository.recordFailedAttempt?.(user.id, clock.now().toISOString());
-      logger?.warn("Invalid login attempt", { userId: user.id });
-      throw new AuthError("INVALID_CREDENTIALS");
+  const getEnabledMfa = async (repository: MfaRepository, userId: UUID) => {
+    const mfa = await repository.getByUserId(userId);
+    if (!mfa?.enabledAt) {
+      throw new AuthError("MFA_NOT_ENABLED");
     }
+    return mfa;
+  };
 
-    await credentialRepository.resetFailedAttempts?.(user.id);
-
-    const result = await issueInitialSession(user, credential, input.device);
-    await pruneSessions(sessionRepository, user.id, config.maxSessionsPerUser, result.session.id, clock);
-    await userRepository.updateLastLogin?.(user.id, result.session.createdAt);
-    return result;
+  const issueRecoveryCodes = async (repository: MfaRepository, userId: UUID): Promise<string[]> => {
+    const codes = generateRecoveryCodes(mfaPolicy.recoveryCodeCount, mfaPolicy.recoveryCodeLength);
+    await repository.replaceRecoveryCodes(userId, codes.map(hashRecoveryCode), clock.now().toISOString());
+    return codes;
   };
 
-  const refreshSession: AuthService["refreshSession"] = async ({ refreshToken, device }) => {
-    const claims = await tokenManager.parseRefreshToken(refreshToken);
-    if (!claims) {
-      throw new AuthError("REFRESH_TOKEN_INVALID");
+  const ensureNotLocked = (credential: UserCredential): void => {
+    if (!lockoutPolicy.enabled || !credential.lockedUntil) return;
+    if (new Date(credential.lockedUntil) > clock.now()) {
+      throw new AuthError("ACCOUNT_LOCKED", undefined, { lockedUntil: credential.lockedUntil });
     }
+  };
 
-    const session = await sessionRepository.getById(claims.sessionId);
-    if (!session) {
-      throw new AuthError("SESSION_NOT_FOUND");
+  /**
+   * Count a wrong password and lock the account once the policy threshold is reached.
+   * Each consecutive lockout doubles the duration (capped) when backoff is on.
+   */
+  const recordFailedLogin = async (credential: UserCredential): Promise<void> => {
+    const now = clock.now();
+    const windowStart = new Date(now.getTime() - lockoutPolicy.attemptWindowSeconds * 1000);
+    const failures = await credentialRepository.recordFailedAttempt?.(
+      credential.userId,
+      now.toISOString(),
+      windowStart.toISOString(),
+    );
+    if (!lockoutPolicy.enabled || !credentialRepository.lock || !failures || failures < lockoutPolicy.maxAttempts) {
+      return;
     }
 
-    if (session.status !== "active") {
-      throw new AuthError("SESSION_REVOKED");
-    }
+    const durationSeconds = lockoutPolicy.useExponentialBackoff
+      ? Math.min(
+        lockoutPolicy.lockoutDurationSeconds * 2 ** credential.lockoutCount,
+        lockoutPolicy.maxLockoutDurationSeconds,
+      )
+      : lockoutPolicy.lockoutDurationSeconds;
+    const lockedUntil = new Date(now.getTime() + durationSeconds * 1000).toISOString();
+    await credentialRepository.lock(credential.userId, lockedUntil);
+
+    logger?.warn("Account locked after failed logins", { userId: credential.userId, lockedUntil });
+    throw new AuthError("ACCOUNT_LOCKED", undefined, { lockedUntil });
+  };
 
-    const now = clock.now();
-    if (new Date(session.expiresAt) <= now) {
-      await sessionRepository.markInactive(session.id, "expired", now.toISOString());
-      throw new AuthError("SESSION_EXPIRED");
+  const deviceTrail = (device?: DeviceMetadata): Pick<AuditTrail, "ipAddress" | "userAgent"> => ({
+    ipAddress: device?.ipAddress,
+    userAgent: device?.userAgent,
+  });
+
+  /** Trail for an action a signed-in user takes on their own account. */
+  const selfTrail = (userId: UUID, device?: DeviceMetadata): Omit<AuditTrail, "action"> => ({
+    actorUserId: userId,
+    targetUserId: userId,
+    ...deviceTrail(device),
+  });
+
+  /**
+   * Run an operation and append its outcome to the audit trail. `run` fills in the trail as it
+   * learns whose account and which session are involved, so failures are attributed too.
+   * On success the actor defaults to the target: self-service actions are done by the user.
+   */
+  const audited = async <T>(trail: AuditTrail, run: (trail: AuditTrail) => Promise<T>): Promise<T> => {
+    if (!auditLogger) return run(trail);
+    try {
+      const result = await run(trail);
+      await auditLogger.record({ ...trail, actorUserId: trail.actorUserId ?? trail.targetUserId, outcome: "success" });
+      return result;
+    } catch (error: unknown) {
+      await auditLogger.record({
+        ...trail,
+        outcome: "failure",
+        metadata: {
+          ...trail.metadata,
+          reason: AuthError.isAuthError(error) ? error.code : "INTERNAL_ERROR",
+          ...(AuthError.isAuthError(error) ? error.metadata : undefined),
+        },
+      });
+      throw error;
     }
+  };
 
-    const tokenMatches = await tokenHasher.verify(refreshToken, session.refreshTokenHash);
-    if (!tokenMatches) {
-      await sessionRepository.markInactive(session.id, "suspicious_activity", now.toISOString());
-      throw new AuthError("REFRESH_TOKEN_REUSED");
-    }
+  const register: AuthService["register"] = (input) =>
+    audited({ action: "auth.register", ...deviceTrail(input.device) }, async (trail) => {
+      const email = normalizeEmail(input.email);
+      const existing = await userRepository.findByEmail(email);
+      if (existing) {
+        throw new AuthError("EMAIL_ALREADY_REGISTERED");
+      }
+      await assertAcceptablePassword(input.password);
+
+      const timestamp = clock.now().toISOString();
+      const userId = idFactory();
+
+      const userRecord: CreateUserParams = {
+        id: userId,
+        email,
+        role: input.role ?? "user",
+        status: input.status ?? (requiresEmailVerification ? "pending" : "active"),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+
+      const user = await userRepository.create(userRecord);
+      trail.targetUserId = user.id;
+
+      const passwordHash = await passwordHasher.hash(input.password);
+      const credentialRecord: CreateCredentialParams = {
+        userId: user.id,
+        passwordHash,
+        version: 1,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        passwordUpdatedAt: timestamp,
+      };
+
+      const credential = await credentialRepository.create(credentialRecord);
+
+      if (accountService) {
+        await accountService.createAccount(user.id);
+      }
 
-    verifyRefreshTokenFreshness(session, claims);
+      if (user.status === "pending" && emailVerification) {
+        await emailVerification.send(user);
+      }
 
-    const user = await userRepository.findById(session.userId);
-    if (!user) {
-      throw new AuthError("UNKNOWN_USER");
-    }
+      // Users the MFA policy covers must enroll through the login challenge before getting a session
+      if (input.issueSession === false || isMfaRequired(user)) {
+        return { user };
+      }
+      if (user.status === "pending" && emailVerification?.policy.blockLoginUntilVerified) {
+        return { user };
+      }
 
-    ensureUserActive(user);
+      // Nothing to compare against yet; this seeds the device history for later sign-ins
+      await assessAnomalies(
+        { kind: "login", userId: user.id, ipAddress: input.device?.ipAddress, fingerprint: fingerprintOf(input.device) },
+        trail,
+      );
+
+      const result = await completeLogin(user, credential, input.device);
+      trail.sessionId = result.session.id;
+      return result;
+    });
+
+  const authenticate: AuthService["authenticate"] = (input) =>
+    audited({
+      action: "auth.login",
+      ...deviceTrail(input.device),
+      metadata: { email: normalizeEmail(input.email) },
+    }, async (trail) => {
+      const email = normalizeEmail(input.email);
+      const user = await userRepository.findByEmail(email);
+      if (!user) {
+        throw new AuthError("INVALID_CREDENTIALS");
+      }
+      trail.targetUserId = user.id;
+
+      ensureCanSignIn(user);
+
+      const credential = await credentialRepository.getByUserId(user.id);
+      if (!credential) {
+        throw new AuthError("INVALID_CREDENTIALS");
+      }
+
+      // Checked before the password so a locked account gives no signal about guesses
+      ensureNotLocked(credential);
+
+      const passwordMatches = await passwordHasher.verify(input.password, credential.passwordHash);
+      if (!passwordMatches) {
+        logger?.warn("Invalid login attempt", { userId: user.id });
+        await recordFailedLogin(credential);
+        throw new AuthError("INVALID_CREDENTIALS");
+      }
+
+      if (lockoutPolicy.resetOnSuccess && (credential.failedAttemptCount > 0 || credential.lockoutCount > 0)) {
+        await credentialRepository.resetFailedAttempts?.(user.id);
+      }
+
+      const fingerprint = fingerprintOf(input.device);
+      const response = await assessAnomalies(
+        { kind: "login", userId: user.id, ipAddress: input.device?.ipAddress, fingerprint },
+        trail,
+      );
+      if (response === "block") {
+        throw new AuthError("SUSPICIOUS_ACTIVITY", "Sign-in blocked due to suspicious activity");
+      }
+
+      // Password alone is not enough for enrolled users or users the policy covers
+      const enrolled = await isMfaEnrolled(user.id);
+      if (enrolled || isMfaRequired(user)) {
+        trail.metadata = { ...trail.metadata, mfaRequired: true };
+        return issueMfaChallenge(user, !enrolled, input.device);
+      }
+
+      // Step-up needs a factor the account already has; enrolling one now would prove nothing
+      if (response === "challenge") {
+        throw new AuthError("SUSPICIOUS_ACTIVITY", "Sign-in blocked due to suspicious activity");
+      }
+
+      // The second factor already proves the owner; without one, a new device may need confirming by email
+      if (trustedDevices && fingerprint) {
+        await trustedDevices.checkSignIn(user, fingerprint, input.device);
+      }
+
+      const result = await completeLogin(user, credential, input.device);
+      trail.sessionId = result.session.id;
+      return result;
+    });
+
+  const verifyMfa: AuthService["verifyMfa"] = ({ challengeToken, code, recoveryCode, device }) =>
+    audited({ action: "auth.mfa_verify", ...deviceTrail(device) }, async (trail) => {
+      const repository = requireMfaRepository();
+      const challenge = await useChallenge(repository, challengeToken);
+      trail.targetUserId = challenge.userId;
+      const user = await getActiveUser(challenge.userId);
+      const mfa = await getEnabledMfa(repository, user.id);
+
+      if (code) {
+        await verifyTotpCode(repository, user.id, mfa.totpSecret, code);
+      } else if (recoveryCode) {
+        const consumed = await repository.consumeRecoveryCode(
+          user.id,
+          hashRecoveryCode(recoveryCode),
+          clock.now().toISOString(),
+        );
+        if (!consumed) {
+          throw new AuthError("RECOVERY_CODE_INVALID");
+        }
+        logger?.warn("MFA recovery code used", { userId: user.id });
+        trail.metadata = { recoveryCodeUsed: true };
+      } else {
+        throw new AuthError("MFA_CODE_INVALID", "A TOTP code or recovery code is required");
+      }
+
+      if (!(await repository.consumeChallenge(challenge.id, clock.now().toISOString()))) {
+        throw new AuthError("MFA_CODE_INVALID", "MFA challenge has already been used");
+      }
+
+      const credential = await credentialRepository.getByUserId(user.id);
+      if (!credential) {
+        throw new AuthError("INVALID_CREDENTIALS");
+      }
 
-    return rotateSession(session, user, device);
+      const result = await completeLogin(user, credential, device);
+      trail.sessionId = result.session.id;
+      return result;
+    });
+
+  const getMfaStatus: AuthService["getMfaStatus"] = async (userId) => {
+    const user = await getActiveUser(userId);
+    const enabled = await isMfaEnrolled(userId);
+    return {
+      enabled,
+      required: isMfaRequired(user),
+      recoveryCodesRemaining: enabled && mfaRepository ? await mfaRepository.countRemainingRecoveryCodes(userId) : 0,
+    };
   };
 
-  const logout: AuthService["logout"] = async ({ sessionId, userId, reason }) => {
-    const session = await sessionRepository.getById(sessionId);
-    if (!session) return;
-    if (userId && session.userId !== userId) {
-      throw new AuthError("SESSION_NOT_FOUND");
+  const resolveEnrollmentUser = async (
+    repository: MfaRepository,
+    input: MfaEnrollmentInput,
+  ): Promise<{ user: User; challenge?: MfaChallenge }> => {
+    if (input.userId) {
+      return { user: await getActiveUser(input.userId) };
+    }
+    if (input.challengeToken) {
+      const challenge = await useChallenge(repository, input.challengeToken);
+      return { user: await getActiveUser(challenge.userId), challenge };
+    }
+    throw new AuthError("SESSION_INVALID", "Sign in or provide an MFA challenge to enroll");
+  };
+
+  const beginMfaEnrollment: AuthService["beginMfaEnrollment"] = async (input) => {
+    const repository = requireMfaRepository();
+    const { user } = await resolveEnrollmentUser(repository, input);
+
+    if (await isMfaEnrolled(user.id)) {
+      throw new AuthError("MFA_ALREADY_ENABLED");
     }
-    if (session.status !== "active") return;
-    await sessionRepository.markInactive(session.id, reason ?? "manual", clock.now().toISOString());
+
+    const secret = generateTotpSecret();
+    await repository.saveSecret(user.id, secret, clock.now().toISOString());
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri({
+        secret,
+        accountName: user.email,
+        issuer: config.mfaIssuer,
+        periodSeconds: mfaPolicy.totpPeriodSeconds,
+      }),
+    };
   };
 
-  const logoutAll: AuthService["logoutAll"] = async ({ userId, excludeSessionId, reason }) => {
-    await sessionRepository.markInactiveByUser(userId, reason ?? "logout_all", clock.now().toISOString(), {
-      excludeSessionId,
+  const confirmMfaEnrollment: AuthService["confirmMfaEnrollment"] = (input) =>
+    audited({
+      action: "auth.mfa_enable",
+      actorUserId: input.userId,
+      ...deviceTrail(input.device),
+    }, async (trail) => {
+      const repository = requireMfaRepository();
+      const { user, challenge } = await resolveEnrollmentUser(repository, input);
+      trail.targetUserId = user.id;
+
+      const mfa = await repository.getByUserId(user.id);
+      if (!mfa) {
+        throw new AuthError("MFA_NOT_ENABLED", "Start enrollment before confirming it");
+      }
+      if (mfa.enabledAt) {
+        throw new AuthError("MFA_ALREADY_ENABLED");
+      }
+
+      await verifyTotpCode(repository, user.id, mfa.totpSecret, input.code);
+      await repository.enable(user.id, clock.now().toISOString());
+      const recoveryCodes = await issueRecoveryCodes(repository, user.id);
+      logger?.info("MFA enabled", { userId: user.id });
+
+      if (!challenge) {
+        return { recoveryCodes };
+      }
+
+      // Enrollment finished a pending login: the code just verified is the second factor
+      if (!(await repository.consumeChallenge(challenge.id, clock.now().toISOString()))) {
+        throw new AuthError("MFA_CODE_INVALID", "MFA challenge has already been used");
+      }
+      const credential = await credentialRepository.getByUserId(user.id);
+      if (!credential) {
+        throw new AuthError("INVALID_CREDENTIALS");
+      }
+      const authentication = await completeLogin(user, credential, input.device);
+      trail.sessionId = authentication.session.id;
+      return { recoveryCodes, authentication };
+    });
+
+  const regenerateRecoveryCodes: AuthService["regenerateRecoveryCodes"] = ({ userId, code, device }) =>
+    audited({ action: "auth.mfa_recovery_codes_regenerate", ...selfTrail(userId, device) }, async () => {
+      const repository = requireMfaRepository();
+      const mfa = await getEnabledMfa(repository, userId);
+      await verifyTotpCode(repository, userId, mfa.totpSecret, code);
+      return issueRecoveryCodes(repository, userId);
     });
+
+  const disableMfa: AuthService["disableMfa"] = ({ userId, code, device }) =>
+    audited({ action: "auth.mfa_disable", ...selfTrail(userId, device) }, async () => {
+      const repository = requireMfaRepository();
+      const user = await getActiveUser(userId);
+      if (isMfaRequired(user)) {
+        throw new AuthError("MFA_REQUIRED", "MFA cannot be disabled for this account");
+      }
+
+      const mfa = await getEnabledMfa(repository, userId);
+      await verifyTotpCode(repository, userId, mfa.totpSecret, code);
+      await repository.disable(userId);
+      logger?.warn("MFA disabled", { userId });
+    });
+
+  const verifyEmail: AuthService["verifyEmail"] = (token) =>
+    audited({ action: "auth.email_verify" }, async (trail) => {
+      if (!emailVerification) {
+        throw new AuthError("VERIFICATION_TOKEN_INVALID", "Email verification is not enabled");
+      }
+      const user = await emailVerification.verify(token);
+      trail.targetUserId = user.id;
+      logger?.info("Email verified", { userId: user.id });
+      return { user };
+    });
+
+  const resendVerificationEmail: AuthService["resendVerificationEmail"] = async ({ email }) => {
+    await emailVerification?.resend(normalizeEmail(email));
   };
 
-  const updatePassword: AuthService["updatePassword"] = async ({
+  const requestPasswordReset: AuthService["requestPasswordReset"] = ({ email, device }) =>
+    audited({
+      action: "auth.password_reset_request",
+      ...deviceTrail(device),
+      metadata: { email: normalizeEmail(email) },
+    }, async () => {
+      await passwordReset?.request(normalizeEmail(email));
+    });
+
+  const resetPassword: AuthService["resetPassword"] = ({ token, newPassword, device }) =>
+    audited({ action: "auth.password_reset", ...deviceTrail(device) }, async (trail) => {
+      if (!passwordReset) {
+        throw new AuthError("RESET_TOKEN_INVALID", "Password reset is not enabled");
+      }
+      const owner = await passwordReset.verify(token);
+      trail.targetUserId = owner.id;
+
+      // Vet the new password before using up the link, so a rejected one can be retried with the same link
+      const credential = await credentialRepository.getByUserId(owner.id);
+      if (!credential) {
+        throw new AuthError("UNKNOWN_USER");
+      }
+      await assertAcceptablePassword(newPassword, credential);
+
+      const user = await passwordReset.redeem(token);
+      await rotatePassword(credential, newPassword, { invalidateOtherSessions: passwordReset.policy.invalidateAllSessions });
+
+      // A reset proves who is on the other end, so guesses made before it no longer count
+      await credentialRepository.unlock?.(user.id);
+
+      // Following the emailed link proves control of the mailbox
+      if (user.status === "pending" && !user.emailVerifiedAt && !passwordReset.policy.requireEmailVerification) {
+        await userRepository.markEmailVerified(user.id, clock.now().toISOString());
+      }
+      logger?.info("Password reset", { userId: user.id });
+    });
+
+  const refreshSession: AuthService["refreshSession"] = ({ refreshToken, device }) =>
+    audited({ action: "auth.refresh", ...deviceTrail(device) }, async (trail) => {
+      const claims = await tokenManager.parseRefreshToken(refreshToken);
+      if (!claims) {
+        throw new AuthError("REFRESH_TOKEN_INVALID");
+      }
+
+      const session = await sessionRepository.getById(claims.sessionId);
+      if (!session) {
+        throw new AuthError("SESSION_NOT_FOUND");
+      }
+      trail.targetUserId = session.userId;
+      trail.sessionId = session.id;
+
+      if (session.status !== "active") {
+        throw new AuthError("SESSION_REVOKED");
+      }
+
+      const now = clock.now();
+      if (new Date(session.expiresAt) <= now) {
+        await sessionRepository.markInactive(session.id, "expired", now.toISOString());
+        throw new AuthError("SESSION_EXPIRED");
+      }
+
+      // An older version is a token this session already rotated away from
+      if (claims.sessionVersion < session.refreshTokenVersion) {
+        return handleRefreshTokenReuse(session, claims.sessionVersion, device);
+      }
+
+      const tokenMatches = await tokenHasher.verify(refreshToken, session.refreshTokenHash);
+      if (!tokenMatches) {
+        return handleRefreshTokenReuse(session, claims.sessionVersion, device);
+      }
+
+      verifyRefreshTokenFreshness(session, claims);
+
+      const user = await userRepository.findById(session.userId);
+      if (!user) {
+        throw new AuthError("UNKNOWN_USER");
+      }
+
+      ensureCanSignIn(user);
+
+      // Sessions opened with a password alone (before enrollment was enforced) cannot be extended
+      if (isMfaRequired(user) && !(await isMfaEnrolled(user.id))) {
+        await sessionRepository.markInactive(session.id, "suspicious_activity", now.toISOString());
+        throw new AuthError("MFA_REQUIRED");
+      }
+
+      const fingerprint = fingerprintOf(device);
+      const response = await assessAnomalies(
+        {
+          kind: "refresh",
+          userId: session.userId,
+          sessionId: session.id,
+          ipAddress: device?.ipAddress,
+          fingerprint,
+          previous: { ipAddress: session.ipAddress, fingerprint: session.deviceFingerprint },
+        },
+        trail,
+      );
+      // A refresh has no interactive step to challenge with, so both responses end the session
+      if (response !== "allow") {
+        await sessionRepository.markInactive(session.id, "suspicious_activity", now.toISOString());
+        throw new AuthError("SUSPICIOUS_ACTIVITY");
+      }
+
+      const result = await rotateSession(session, user, device);
+      if (trustedDevices && fingerprint) {
+        await trustedDevices.recordUse(user.id, fingerprint, device);
+      }
+      return result;
+    });
+
+  const logout: AuthService["logout"] = ({ sessionId, userId, reason, device }) =>
+    audited({ action: "auth.logout", actorUserId: userId, sessionId, ...deviceTrail(device) }, async (trail) => {
+      const session = await sessionRepository.getById(sessionId);
+      if (!session) return;
+      trail.targetUserId = session.userId;
+      if (userId && session.userId !== userId) {
+        throw new AuthError("SESSION_NOT_FOUND");
+      }
+      if (session.status !== "active") return;
+      await sessionRepository.markInactive(session.id, reason ?? "manual", clock.now().toISOString());
+    });
+
+  const logoutAll: AuthService["logoutAll"] = ({ userId, excludeSessionId, reason, device }) =>
+    audited({ action: "auth.logout_all", ...selfTrail(userId, device) }, async () => {
+      await sessionRepository.markInactiveByUser(userId, reason ?? "logout_all", clock.now().toISOString(), {
+        excludeSessionId,
+      });
+    });
+
+  const changePassword = async ({
     userId,
     currentPassword,
     newPassword,
     invalidateOtherSessions = true,
-  }) => {
+    keepSessionId,
+  }: UpdatePasswordInput): Promise<void> => {
     const credential = await credentialRepository.getByUserId(userId);
     if (!credential) {
       throw new AuthError("UNKNOWN_USER");
@@ -515,7 +1330,17 @@ export const createAuthService = (deps: AuthServiceDependencies): AuthService =>
         throw new AuthError("PASSWORD_MISMATCH");
       }
     }
+    await assertAcceptablePassword(newPassword, credential);
+    await rotatePassword(credential, newPassword, { invalidateOtherSessions, keepSessionId });
+  };
 
+  /** Store an already vetted password, keep the old hash in the history and end other sessions if asked. */
+  const rotatePassword = async (
+    credential: UserCredential,
+    newPassword: string,
+    { invalidateOtherSessions, keepSessionId }: Pick<UpdatePasswordInput, "invalidateOtherSessions" | "keepSessionId">,
+  ): Promise<void> => {
+    const userId = credential.userId;
     const nextHash = await passwordHasher.hash(newPassword);
     const timestamp = clock.now().toISOString();
     const nextVersion = credential.version + 1;
@@ -527,27 +1352,163 @@ export const createAuthService = (deps: AuthServiceDependencies): AuthService =>
       updatedAt: timestamp,
     });
 
+    if (passwordHistoryDepth > 0) {
+      await credentialRepository.addPasswordHistory?.(userId, credential.passwordHash, timestamp, passwordHistoryDepth);
+    }
+
     if (invalidateOtherSessions) {
-      await sessionRepository.markInactiveByUser(userId, "password_rotated", timestamp);
+      await sessionRepository.markInactiveByUser(userId, "password_rotated", timestamp, { excludeSessionId: keepSessionId });
     }
   };
 
+  const updatePassword: AuthService["updatePassword"] = (input) =>
+    audited({ action: "auth.password_change", ...selfTrail(input.userId, input.device) }, () => changePassword(input));
+
+  const unlockAccount: AuthService["unlockAccount"] = async (userId) => {
+    const credential = await credentialRepository.getByUserId(userId);
+    if (!credential) {
+      throw new AuthError("USER_NOT_FOUND");
+    }
+    await credentialRepository.unlock?.(userId);
+    logger?.info("Account unlocked", { userId });
+  };
+
   const getUserById: AuthService["getUserById"] = (id) => userRepository.findById(id);
 
-  const listActiveSessions: AuthService["listActiveSessions"] = async (userId) => {
+  const listActiveSessions: AuthService["listActiveSessions"] = async (userId, currentSessionId) => {
     const sessions = await sessionRepository.listActiveByUser(userId);
-    return sessions.map(toSessionView);
+    return sessions.map((session) => ({ ...toSessionView(session), current: session.id === currentSessionId }));
+  };
+
+  const endSession = async (userId: UUID, sessionId: UUID): Promise<void> => {
+    const session = await sessionRepository.getById(sessionId);
+    // Someone else's session looks the same as a missing one
+    if (!session || session.userId !== userId || session.status !== "active") {
+      throw new AuthError("SESSION_NOT_FOUND");
+    }
+    await sessionRepository.markInactive(session.id, "manual", clock.now().toISOString());
+  };
+
+  const revokeSession: AuthService["revokeSession"] = ({ userId, sessionId, device }) =>
+    audited({ action: "auth.session_revoke", ...selfTrail(userId, device), metadata: { sessionId } }, () =>
+      endSession(userId, sessionId));
+
+  const revokeUserSessions: AuthService["revokeUserSessions"] = async (userId, sessionId) => {
+    if (sessionId) {
+      return endSession(userId, sessionId);
+    }
+    await sessionRepository.markInactiveByUser(userId, "manual", clock.now().toISOString());
+  };
+
+  const changeUserRole: AuthService["changeUserRole"] = async (userId, role) => {
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      throw new AuthError("USER_NOT_FOUND");
+    }
+    if (user.role === role) {
+      return { user, previousRole: role };
+    }
+    await userRepository.updateRole(userId, role);
+    await sessionRepository.markInactiveByUser(userId, "role_changed", clock.now().toISOString());
+    logger?.info("User role changed", { userId, from: user.role, to: role });
+    return { user: { ...user, role }, previousRole: user.role };
+  };
+
+  const listDevices: AuthService["listDevices"] = async (userId) => {
+    if (!trustedDevices) return [];
+    const devices = await trustedDevices.list(userId);
+    return devices.map(toTrustedDeviceView);
   };
 
+  const renameDevice: AuthService["renameDevice"] = async ({ userId, deviceId, name }) => {
+    if (!trustedDevices) {
+      throw new AuthError("DEVICE_NOT_FOUND");
+    }
+    return toTrustedDeviceView(await trustedDevices.rename(userId, deviceId, name));
+  };
+
+  const revokeDevice: AuthService["revokeDevice"] = ({ userId, deviceId, device }) =>
+    audited({ action: "auth.device_revoke", ...selfTrail(userId, device), metadata: { deviceId } }, async () => {
+      if (!trustedDevices) {
+        throw new AuthError("DEVICE_NOT_FOUND");
+      }
+      const revoked = await trustedDevices.revoke(userId, deviceId);
+
+      const at = clock.now().toISOString();
+      const sessions = await sessionRepository.listActiveByUser(userId);
+      for (const session of sessions.filter((entry) => entry.deviceFingerprint === revoked.fingerprint)) {
+        await sessionRepository.markInactive(session.id, "device_revoked", at);
+      }
+      logger?.info("Device revoked", { userId, deviceId });
+    });
+
+  const verifyDevice: AuthService["verifyDevice"] = ({ token, device }) =>
+    audited({ action: "auth.device_verify", ...deviceTrail(device) }, async (trail) => {
+      if (!trustedDevices) {
+        throw new AuthError("VERIFICATION_TOKEN_INVALID", "Device verification is not enabled");
+      }
+      const verified = await trustedDevices.verify(token);
+      trail.targetUserId = verified.userId;
+      trail.metadata = { deviceId: verified.id };
+      return toTrustedDeviceView(verified);
+    });
+
+  const createApiKey: AuthService["createApiKey"] = ({ userId, device, ...options }) =>
+    audited({ action: "auth.api_key_create", ...selfTrail(userId, device) }, async (trail) => {
+      if (!apiKeyManager) {
+        throw new AuthError("VALIDATION_ERROR", "API keys are not enabled");
+      }
+      const { apiKey, secret } = await apiKeyManager.create(userId, options);
+      trail.metadata = { apiKeyId: apiKey.id, keyId: apiKey.keyId, scopes: apiKey.scopes };
+      logger?.info("API key created", { userId, apiKeyId: apiKey.id });
+      return { apiKey: toApiKeyView(apiKey), secret };
+    });
+
+  const listApiKeys: AuthService["listApiKeys"] = async (userId) => {
+    if (!apiKeyManager) return [];
+    const keys = await apiKeyManager.list(userId);
+    return keys.map(toApiKeyView);
+  };
+
+  const revokeApiKey: AuthService["revokeApiKey"] = ({ userId, apiKeyId, device }) =>
+    audited({ action: "auth.api_key_revoke", ...selfTrail(userId, device), metadata: { apiKeyId } }, async () => {
+      if (!apiKeyManager) {
+        throw new AuthError("API_KEY_NOT_FOUND");
+      }
+      await apiKeyManager.revoke(userId, apiKeyId);
+      logger?.info("API key revoked", { userId, apiKeyId });
+    });
+
   return {
     register,
     authenticate,
+    verifyMfa,
+    getMfaStatus,
+    beginMfaEnrollment,
+    confirmMfaEnrollment,
+    regenerateRecoveryCodes,
+    disableMfa,
+    verifyEmail,
+    resendVerificationEmail,
+    requestPasswordReset,
+    resetPassword,
     refreshSession,
     logout,
     logoutAll,
     updatePassword,
+    unlockAccount,
     getUserById,
     listActiveSessions,
+    revokeSession,
+    revokeUserSessions,
+    changeUserRole,
+    listDevices,
+    renameDevice,
+    revokeDevice,
+    verifyDevice,
+    createApiKey,
+    listApiKeys,
+    revokeApiKey,
   };
 };
 
@@ -6,6 +6,7 @@ export interface User {
   email: string;
   status: UserStatus;
   role: UserRole;
+  emailVerifiedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -46,7 +47,10 @@ export interface UserCredential {
   passwordHash: string;
   version: number;
   failedAttemptCount: number;
+  lastFailedAt?: string;
   lockedUntil?: string;
+  /** Consecutive lockouts since the last successful login; drives the lockout backoff. */
+  lockoutCount: number;
   passwordUpdatedAt: string;
   createdAt: string;
   updatedAt: string;
@@ -70,7 +74,9 @@ export type SessionInvalidationReason =
   | "suspicious_activity"
   | "user_disabled"
   | "logout_all"
-  | "expired";
+  | "expired"
+  | "device_revoked"
+  | "role_changed";
 
 export interface UserSession {
   id: UUID;
@@ -81,6 +87,8 @@ export interface UserSession {
   status: SessionStatus;
   ipAddress?: string;
   userAgent?: string;
+  /** Fingerprint of the device the session was opened on */
+  deviceFingerprint?: string;
   createdAt: string;
   lastSeenAt: string;
   expiresAt: string;
@@ -97,6 +105,7 @@ export interface CreateSessionParams {
   status: SessionStatus;
   ipAddress?: string;
   userAgent?: string;
+  deviceFingerprint?: string;
   createdAt: string;
   lastSeenAt: string;
   expiresAt: string;
@@ -104,6 +113,8 @@ export interface CreateSessionParams {
 
 export interface RotateSessionParams {
   sessionId: UUID;
+  /** Version being replaced; the rotation only applies while the stored version still matches. */
+  previousVersion: number;
   refreshTokenHash: string;
   refreshTokenVersion: number;
   expiresAt: string;
@@ -112,12 +123,221 @@ export interface RotateSessionParams {
   userAgent?: string;
 }
 
-export interface SessionView extends Omit<UserSession, "refreshTokenHash"> {}
+/** Browser and operating system recognized in a user agent. */
+export interface UserAgentDetails {
+  browser?: string;
+  os?: string;
+}
+
+export interface SessionView extends Omit<UserSession, "refreshTokenHash"> {
+  /** Parsed from the user agent of the last sign-in or refresh. */
+  device?: UserAgentDetails;
+  /** In listings: whether this is the session making the request. */
+  current?: boolean;
+}
 
 export interface DeviceMetadata {
   ipAddress?: string;
   userAgent?: string;
   platform?: string;
+  language?: string;
+}
+
+/**
+ * TOTP enrollment for a user. A row without `enabledAt` is an enrollment that has not been
+ * confirmed with a code yet and is not enforced at login.
+ */
+export interface UserMfa {
+  userId: UUID;
+  totpSecret: string;
+  enabledAt?: string;
+  lastUsedStep?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Pending second factor for a login whose password has already been verified.
+ * Only a digest of the opaque challenge token is stored.
+ */
+export interface MfaChallenge {
+  id: UUID;
+  userId: UUID;
+  tokenHash: string;
+  attempts: number;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string;
+  expiresAt: string;
+  consumedAt?: string;
+}
+
+export interface CreateMfaChallengeParams {
+  id: UUID;
+  userId: UUID;
+  tokenHash: string;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export type UserActionTokenPurpose = "email_verification" | "password_reset";
+
+/**
+ * Single-use token delivered by email. Only a digest of the token is stored.
+ */
+export interface UserActionToken {
+  id: UUID;
+  userId: UUID;
+  purpose: UserActionTokenPurpose;
+  tokenHash: string;
+  createdAt: string;
+  expiresAt: string;
+  consumedAt?: string;
+}
+
+export interface CreateUserActionTokenParams {
+  id: UUID;
+  userId: UUID;
+  purpose: UserActionTokenPurpose;
+  tokenHash: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Device a user has signed in from, keyed by fingerprint. A device without `verifiedAt` is waiting for
+ * the owner to confirm it from an emailed link. Devices unused until `expiresAt` are treated as new.
+ */
+export interface TrustedDevice {
+  id: UUID;
+  userId: UUID;
+  fingerprint: string;
+  name?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  verifiedAt?: string;
+  verificationTokenHash?: string;
+  verificationExpiresAt?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+}
+
+export interface UpsertTrustedDeviceParams {
+  /** Used only when the device is new. */
+  id: UUID;
+  userId: UUID;
+  fingerprint: string;
+  name?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  /** Replaces the stored value, so an expired device can be made pending again. */
+  verifiedAt?: string;
+  lastSeenAt: string;
+  expiresAt: string;
+}
+
+export type TrustedDeviceView = Omit<TrustedDevice, "fingerprint" | "verificationTokenHash" | "verificationExpiresAt">;
+
+/**
+ * What a signed API key request may do: `read` account data, `trade` (place and cancel orders)
+ * or `withdraw` funds. Bearer sessions implicitly hold every scope.
+ */
+export type ApiKeyScope = "read" | "trade" | "withdraw";
+
+/**
+ * User-managed key for programmatic access. `keyId` is public and sent with every request; the secret
+ * signs requests and is stored encrypted. A key with `allowedIps` only works from those addresses/CIDRs.
+ */
+export interface ApiKey {
+  id: UUID;
+  userId: UUID;
+  keyId: string;
+  label: string;
+  scopes: ApiKeyScope[];
+  allowedIps?: string[];
+  secretCiphertext: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+  expiresAt?: string;
+  revokedAt?: string;
+}
+
+export interface CreateApiKeyParams {
+  id: UUID;
+  userId: UUID;
+  keyId: string;
+  label: string;
+  scopes: ApiKeyScope[];
+  allowedIps?: string[];
+  secretCiphertext: string;
+  createdAt: string;
+  expiresAt?: string;
+}
+
+export type ApiKeyView = Omit<ApiKey, "userId" | "secretCiphertext">;
+
+export type AuditOutcome = "success" | "failure";
+
+export type AuditAction =
+  | "auth.register"
+  | "auth.login"
+  | "auth.mfa_verify"
+  | "auth.mfa_enable"
+  | "auth.mfa_disable"
+  | "auth.mfa_recovery_codes_regenerate"
+  | "auth.email_verify"
+  | "auth.refresh"
+  | "auth.logout"
+  | "auth.logout_all"
+  | "auth.session_revoke"
+  | "auth.password_change"
+  | "auth.password_reset_request"
+  | "auth.password_reset"
+  | "auth.device_verify"
+  | "auth.device_revoke"
+  | "auth.api_key_create"
+  | "auth.api_key_revoke"
+  | "admin.account_unlock"
+  | "admin.balance_update"
+  | "admin.session_revoke"
+  | "admin.role_change";
+
+/**
+ * Entry in the append-only security audit trail. `actorUserId` is who acted (absent for
+ * unauthenticated failures such as a wrong password); `targetUserId` is whose account it concerns.
+ */
+export interface AuditEvent {
+  id: UUID;
+  occurredAt: string;
+  action: AuditAction;
+  outcome: AuditOutcome;
+  actorUserId?: UUID;
+  targetUserId?: UUID;
+  sessionId?: UUID;
+  ipAddress?: string;
+  userAgent?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditEventFilter {
+  action?: AuditAction;
+  outcome?: AuditOutcome;
+  actorUserId?: UUID;
+  targetUserId?: UUID;
+  /** Inclusive lower bound on `occurredAt`. */
+  from?: string;
+  /** Exclusive upper bound on `occurredAt`. */
+  to?: string;
+}
+
+/** Position in the newest-first ordering; the last event of a page. */
+export interface AuditEventCursor {
+  occurredAt: string;
+  id: UUID;
 }
 
 export interface UserRepository {
@@ -125,17 +345,28 @@ export interface UserRepository {
   findByEmail(email: NormalizedEmail): Promise<UserEntity | null>;
   findById(id: UUID): Promise<UserEntity | null>;
   updateStatus(id: UUID, status: UserStatus): Promise<void>;
+  updateRole(id: UUID, role: UserRole): Promise<void>;
   updateLastLogin?(id: UUID, at: string): Promise<void>;
+  /** Record the verification and activate the user if still pending. */
+  markEmailVerified(id: UUID, at: string): Promise<void>;
 }
 
 export interface UserCredentialRepository {
   create(input: CreateCredentialParams): Promise<UserCredential>;
   getByUserId(userId: UUID): Promise<UserCredential | null>;
   updatePassword(userId: UUID, params: { passwordHash: string; version: number; passwordUpdatedAt: string; updatedAt: string }): Promise<void>;
-  recordFailedAttempt?(userId: UUID, at: string): Promise<void>;
+  /** Count a failed attempt, restarting the count when the previous one is older than `windowStart`; returns the new count. */
+  recordFailedAttempt?(userId: UUID, at: string, windowStart: string): Promise<number>;
+  /** Clear failed attempts and the lockout backoff. */
   resetFailedAttempts?(userId: UUID): Promise<void>;
+  /** Lock sign-in until `until`; clears the failed attempt count and bumps the lockout count. */
   lock?(userId: UUID, until: string): Promise<void>;
+  /** Lift a lockout and clear all attempt state. */
   unlock?(userId: UUID): Promise<void>;
+  /** Hashes of earlier passwords, newest first (the current one lives on the credential). */
+  listPasswordHistory?(userId: UUID, limit: number): Promise<string[]>;
+  /** Remember a replaced password hash, keeping only the newest `keep` entries. */
+  addPasswordHistory?(userId: UUID, passwordHash: string, at: string, keep: number): Promise<void>;
 }
 
 export interface UserSessionRepository {
@@ -144,6 +375,74 @@ export interface UserSessionRepository {
   listActiveByUser(userId: UUID): Promise<UserSession[]>;
   markInactive(sessionId: UUID, reason: SessionInvalidationReason, at: string): Promise<void>;
   markInactiveByUser(userId: UUID, reason: SessionInvalidationReason, at: string, options?: { excludeSessionId?: UUID }): Promise<void>;
+  /** Null when the session is gone, inactive, or was rotated concurrently. */
   replaceRefreshToken(params: RotateSessionParams): Promise<UserSession | null>;
   touch(sessionId: UUID, params: { lastSeenAt: string; ipAddress?: string; userAgent?: string }): Promise<void>;
 }
+
+export interface MfaRepository {
+  getByUserId(userId: UUID): Promise<UserMfa | null>;
+  /** Start (or restart) enrollment with a new secret; clears any previous confirmation. */
+  saveSecret(userId: UUID, totpSecret: string, at: string): Promise<void>;
+  enable(userId: UUID, at: string): Promise<void>;
+  /** Remove the enrollment and every recovery code. */
+  disable(userId: UUID): Promise<void>;
+  /** Record an accepted TOTP step; false when the step (or a later one) was already used. */
+  recordUsedStep(userId: UUID, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: UUID, codeHashes: string[], at: string): Promise<void>;
+  /** Mark an unused recovery code as used; false when no such unused code exists. */
+  consumeRecoveryCode(userId: UUID, codeHash: string, at: string): Promise<boolean>;
+  countRemainingRecoveryCodes(userId: UUID): Promise<number>;
+  createChallenge(input: CreateMfaChallengeParams): Promise<MfaChallenge>;
+  getChallengeByTokenHash(tokenHash: string): Promise<MfaChallenge | null>;
+  /** Increment and return the attempt counter. */
+  recordChallengeAttempt(challengeId: UUID): Promise<number>;
+  /** Mark the challenge consumed; false when it was already consumed. */
+  consumeChallenge(challengeId: UUID, at: string): Promise<boolean>;
+}
+
+export interface UserActionTokenRepository {
+  create(input: CreateUserActionTokenParams): Promise<UserActionToken>;
+  getByTokenHash(purpose: UserActionTokenPurpose, tokenHash: string): Promise<UserActionToken | null>;
+  /** Mark the token consumed; false when it was already consumed. */
+  consume(tokenId: UUID, at: string): Promise<boolean>;
+  countCreatedSince(userId: UUID, purpose: UserActionTokenPurpose, since: string): Promise<number>;
+  /** Consume every outstanding token of a purpose for the user; returns how many were consumed. */
+  consumeAllForUser(userId: UUID, purpose: UserActionTokenPurpose, at: string): Promise<number>;
+}
+
+export interface TrustedDeviceRepository {
+  /** Unexpired devices of the user, most recently seen first. */
+  listByUser(userId: UUID, now: string): Promise<TrustedDevice[]>;
+  getByFingerprint(userId: UUID, fingerprint: string): Promise<TrustedDevice | null>;
+  getByVerificationTokenHash(tokenHash: string): Promise<TrustedDevice | null>;
+  /** Insert, or refresh the device with the same fingerprint keeping its id, name and creation time. */
+  upsert(input: UpsertTrustedDeviceParams): Promise<TrustedDevice>;
+  setVerificationToken(deviceId: UUID, tokenHash: string, expiresAt: string): Promise<void>;
+  /** Mark verified and drop the token; false when the token was already used. */
+  markVerified(deviceId: UUID, tokenHash: string, at: string): Promise<boolean>;
+  /** Extend an unexpired device after it was used again. */
+  touch(deviceId: UUID, params: { lastSeenAt: string; expiresAt: string; ipAddress?: string }): Promise<void>;
+  /** Null when the user has no such device. */
+  rename(userId: UUID, deviceId: UUID, name: string): Promise<TrustedDevice | null>;
+  /** Returns the removed device; null when the user has no such device. */
+  delete(userId: UUID, deviceId: UUID): Promise<TrustedDevice | null>;
+}
+
+export interface ApiKeyRepository {
+  create(input: CreateApiKeyParams): Promise<ApiKey>;
+  getByKeyId(keyId: string): Promise<ApiKey | null>;
+  /** Every key of the user including revoked and expired ones, newest first. */
+  listByUser(userId: UUID): Promise<ApiKey[]>;
+  /** Keys neither revoked nor expired at `now`. */
+  countActiveByUser(userId: UUID, now: string): Promise<number>;
+  /** Returns the revoked key; null when the user has no such key or it was already revoked. */
+  revoke(userId: UUID, id: UUID, at: string): Promise<ApiKey | null>;
+  touch(id: UUID, params: { lastUsedAt: string; ipAddress?: string }): Promise<void>;
+}
+
+export interface AuditEventRepository {
+  append(event: AuditEvent): Promise<void>;
+  /** Newest first, strictly after `after` in that order. */
+  list(filter: AuditEventFilter, options: { limit: number; after?: AuditEventCursor }): Promise<AuditEvent[]>;
+}
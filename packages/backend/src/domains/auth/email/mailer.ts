@@ -0,0 +1,95 @@
+/**
+ * Outbound email for auth flows.
+ *
+ * The provider comes from `EmailConfig.provider`:
+ * - `mock`: keeps messages in an in-memory outbox (tests, local development)
+ * - `sendgrid`: SendGrid v3 HTTP API
+ * `smtp` and `ses` need client libraries that are not bundled yet and fail at startup
+ * rather than silently dropping mail.
+ */
+
+import axios from "axios";
+import type { EmailConfig } from "../core/auth.config.js";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: EmailMessage): Promise<void>;
+}
+
+type LoggerLike = {
+  info: (msg: string, meta?: Record<string, unknown>) => void;
+};
+
+const SENDGRID_SEND_URL = "https://api.sendgrid.com/v3/mail/send";
+const SENDGRID_TIMEOUT_MS = 10_000;
+
+/**
+ * Mailer that records messages instead of sending them.
+ * Tests read `outbox`; in development the log line shows that a message was sent.
+ */
+export class MockMailer implements Mailer {
+  readonly outbox: EmailMessage[] = [];
+
+  constructor(private readonly logger?: LoggerLike) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    this.outbox.push(message);
+    this.logger?.info("mock_mail_sent", { to: message.to, subject: message.subject });
+  }
+
+  /** Most recent message sent to an address. */
+  lastTo(to: string): EmailMessage | undefined {
+    for (let i = this.outbox.length - 1; i >= 0; i--) {
+      if (this.outbox[i]!.to === to) return this.outbox[i];
+    }
+    return undefined;
+  }
+
+  clear(): void {
+    this.outbox.length = 0;
+  }
+}
+
+export function createSendGridMailer(config: EmailConfig): Mailer {
+  if (!config.apiKey) {
+    throw new Error("EMAIL_API_KEY is required for the sendgrid email provider");
+  }
+
+  return {
+    async send(message) {
+      await axios.post(
+        SENDGRID_SEND_URL,
+        {
+          personalizations: [{ to: [{ email: message.to }] }],
+          from: { email: config.fromEmail, name: config.fromName },
+          subject: message.subject,
+          content: [
+            { type: "text/plain", value: message.text },
+            ...(message.html ? [{ type: "text/html", value: message.html }] : []),
+          ],
+        },
+        {
+          headers: { Authorization: `Bearer ${config.apiKey}` },
+          timeout: SENDGRID_TIMEOUT_MS,
+        },
+      );
+    },
+  };
+}
+
+export function createMailer(config: EmailConfig, logger?: LoggerLike): Mailer {
+  switch (config.provider) {
+    case "mock":
+      return new MockMailer(logger);
+    case "sendgrid":
+      return createSendGridMailer(config);
+    default:
+      throw new Error(`Email provider "${config.provider}" is not supported yet; use "sendgrid" or "mock"`);
+  }
+}
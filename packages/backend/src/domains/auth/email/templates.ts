@@ -0,0 +1,96 @@
+/**
+ * Auth email templates. Plain text first; HTML mirrors it for clients that prefer it.
+ */
+
+import type { EmailMessage } from "./mailer.js";
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/**
+ * Link to a frontend page carrying the token as a query parameter.
+ */
+export function buildActionLink(baseUrl: string, path: string, token: string): string {
+  const url = new URL(path, baseUrl);
+  url.searchParams.set("token", token);
+  return url.toString();
+}
+
+export function verificationEmail(to: string, link: string, validForHours: number): EmailMessage {
+  return {
+    to,
+    subject: "Verify your email address",
+    text:
+      `Confirm your email address to finish setting up your account:\n\n${link}\n\n` +
+      `This link expires in ${validForHours} hours. If you did not create an account, ignore this email.`,
+    html:
+      `<p>Confirm your email address to finish setting up your account:</p>` +
+      `<p><a href="${escapeHtml(link)}">Verify email</a></p>` +
+      `<p>This link expires in ${validForHours} hours. If you did not create an account, ignore this email.</p>`,
+  };
+}
+
+export function passwordResetEmail(to: string, link: string, validForMinutes: number): EmailMessage {
+  return {
+    to,
+    subject: "Reset your password",
+    text:
+      `Someone asked to reset the password for your account. Choose a new password here:\n\n${link}\n\n` +
+      `This link expires in ${validForMinutes} minutes and works once. If you did not ask for a reset, ignore this email; your password is unchanged.`,
+    html:
+      `<p>Someone asked to reset the password for your account. Choose a new password here:</p>` +
+      `<p><a href="${escapeHtml(link)}">Reset password</a></p>` +
+      `<p>This link expires in ${validForMinutes} minutes and works once. If you did not ask for a reset, ignore this email; your password is unchanged.</p>`,
+  };
+}
+
+/** What the recipient can recognize a device by. */
+export interface DeviceDescription {
+  userAgent?: string;
+  ipAddress?: string;
+  at: string;
+}
+
+const describeDevice = (device: DeviceDescription): string[] => [
+  `Time: ${device.at}`,
+  `Device: ${device.userAgent ?? "unknown"}`,
+  `IP address: ${device.ipAddress ?? "unknown"}`,
+];
+
+export function newDeviceEmail(to: string, device: DeviceDescription): EmailMessage {
+  const details = describeDevice(device);
+  return {
+    to,
+    subject: "New sign-in to your account",
+    text:
+      `Your account was signed in to from a device we have not seen before:\n\n${details.join("\n")}\n\n` +
+      `If this was you, there is nothing to do. If not, change your password and remove the device from your account settings.`,
+    html:
+      `<p>Your account was signed in to from a device we have not seen before:</p>` +
+      `<ul>${details.map((line) => `<li>${escapeHtml(line)}</li>`).join("")}</ul>` +
+      `<p>If this was you, there is nothing to do. If not, change your password and remove the device from your account settings.</p>`,
+  };
+}
+
+export function deviceVerificationEmail(
+  to: string,
+  link: string,
+  device: DeviceDescription,
+  validForMinutes: number,
+): EmailMessage {
+  const details = describeDevice(device);
+  return {
+    to,
+    subject: "Confirm a new device",
+    text:
+      `Someone signed in to your account from a new device:\n\n${details.join("\n")}\n\n` +
+      `If this was you, confirm the device and sign in again:\n\n${link}\n\n` +
+      `This link expires in ${validForMinutes} minutes. If this was not you, change your password; the device stays blocked.`,
+    html:
+      `<p>Someone signed in to your account from a new device:</p>` +
+      `<ul>${details.map((line) => `<li>${escapeHtml(line)}</li>`).join("")}</ul>` +
+      `<p>If this was you, confirm the device and sign in again:</p>` +
+      `<p><a href="${escapeHtml(link)}">Confirm device</a></p>` +
+      `<p>This link expires in ${validForMinutes} minutes. If this was not you, change your password; the device stays blocked.</p>`,
+  };
+}
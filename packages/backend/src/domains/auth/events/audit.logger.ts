@@ -0,0 +1,83 @@
+/**
+ * Audit Logger.
+ *
+ * Appends security-relevant events (sign-ins, refreshes, password changes, admin
+ * actions) to the persistent audit trail and pages through it for the admin API.
+ * Recording is best effort: a failed write is logged, never surfaced to the user
+ * whose request is being audited.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { Clock, IdFactory } from "../core/auth.service.js";
+import type {
+  AuditEvent,
+  AuditEventCursor,
+  AuditEventFilter,
+  AuditEventRepository,
+} from "../core/auth.types.js";
+import type { Logger } from "../../../config/logger.js";
+
+/** What callers provide; the logger stamps the id and time. */
+export type AuditRecord = Omit<AuditEvent, "id" | "occurredAt">;
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  /** Present when more events match; pass it back as `after` for the next page. */
+  nextCursor?: AuditEventCursor;
+}
+
+export interface AuditLogger {
+  /** Append an event. Never rejects. */
+  record(event: AuditRecord): Promise<void>;
+  list(filter: AuditEventFilter, options: { limit: number; after?: AuditEventCursor }): Promise<AuditEventPage>;
+}
+
+export interface AuditLoggerDependencies {
+  repository: AuditEventRepository;
+  clock?: Clock;
+  idFactory?: IdFactory;
+  logger?: Logger;
+}
+
+export const createAuditLogger = (deps: AuditLoggerDependencies): AuditLogger => {
+  const {
+    repository,
+    clock = { now: () => new Date() },
+    idFactory = () => randomUUID(),
+    logger,
+  } = deps;
+
+  const record: AuditLogger["record"] = async (event) => {
+    try {
+      await repository.append({ ...event, id: idFactory(), occurredAt: clock.now().toISOString() });
+    } catch (error: unknown) {
+      logger?.error("Audit event write failed", { action: event.action, outcome: event.outcome, error: String(error) });
+    }
+  };
+
+  const list: AuditLogger["list"] = async (filter, { limit, after }) => {
+    // One extra row tells whether another page exists without a count query
+    const rows = await repository.list(filter, { limit: limit + 1, after });
+    const events = rows.slice(0, limit);
+    const last = events[events.length - 1];
+    return {
+      events,
+      nextCursor: rows.length > limit && last ? { occurredAt: last.occurredAt, id: last.id } : undefined,
+    };
+  };
+
+  return { record, list };
+};
+
+/** Opaque, URL-safe form of a cursor for API responses. */
+export const encodeAuditCursor = (cursor: AuditEventCursor): string =>
+  Buffer.from(`${cursor.occurredAt}|${cursor.id}`, "utf8").toString("base64url");
+
+/** Null when the value was not produced by `encodeAuditCursor`. */
+export const decodeAuditCursor = (value: string): AuditEventCursor | null => {
+  const [occurredAt, id, ...rest] = Buffer.from(value, "base64url").toString("utf8").split("|");
+  if (!occurredAt || !id || rest.length || Number.isNaN(Date.parse(occurredAt))) {
+    return null;
+  }
+  return { occurredAt, id };
+};
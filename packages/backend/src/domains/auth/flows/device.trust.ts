@@ -0,0 +1,204 @@
+/**
+ * Device Trust Flow.
+ *
+ * Remembers the devices (by fingerprint) each user signs in from and reacts to new
+ * ones as `DevicePolicy` asks: a notification email, or a confirmation link that must
+ * be followed before the device may sign in. A device stays known for
+ * `trustedDeviceDays` after it was last used.
+ *
+ * Fingerprints come from request headers and can be forged, so a known device is
+ * never a reason to skip a second factor.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { Clock, IdFactory } from "../core/auth.service.js";
+import type { DevicePolicy } from "../core/auth.policies.js";
+import type { DeviceMetadata, TrustedDevice, TrustedDeviceRepository, User, UUID } from "../core/auth.types.js";
+import type { Logger } from "../../../config/logger.js";
+import type { Mailer } from "../email/mailer.js";
+import { buildActionLink, deviceVerificationEmail, newDeviceEmail } from "../email/templates.js";
+import { generateOpaqueToken, hashOpaqueToken } from "../security/opaque.token.js";
+import { AuthError } from "../core/auth.errors.js";
+
+const VERIFY_DEVICE_PATH = "/verify-device";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const VERIFICATION_VALIDITY_MS = 60 * 60 * 1000;
+// Repeated sign-in attempts from the same unconfirmed device reuse the last link for this long
+const VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000;
+
+export interface DeviceTrustFlowDependencies {
+  repository: TrustedDeviceRepository;
+  mailer: Mailer;
+  policy: DevicePolicy;
+  /** Days a device stays known after its last use (`MfaPolicy.trustedDeviceDays`). */
+  trustedDeviceDays: number;
+  /** Frontend origin the confirmation link points at (`EmailConfig.baseUrl`). */
+  baseUrl: string;
+  clock?: Clock;
+  idFactory?: IdFactory;
+  logger?: Logger;
+}
+
+export interface DeviceTrustFlow {
+  readonly policy: DevicePolicy;
+  /** Before a password-only sign-in: throws `DEVICE_NOT_RECOGNIZED` after emailing a confirmation link when the policy requires one. */
+  checkSignIn(user: User, fingerprint: string, device?: DeviceMetadata): Promise<void>;
+  /** After a completed sign-in: remember the device and send the new-device notice when the policy asks. */
+  recordSignIn(user: User, fingerprint: string, device?: DeviceMetadata): Promise<TrustedDevice>;
+  /** Keep a known device from expiring while its session is refreshed. */
+  recordUse(userId: UUID, fingerprint: string, device?: DeviceMetadata): Promise<void>;
+  /** Consume a confirmation link and return the now trusted device. */
+  verify(token: string): Promise<TrustedDevice>;
+  list(userId: UUID): Promise<TrustedDevice[]>;
+  rename(userId: UUID, deviceId: UUID, name: string): Promise<TrustedDevice>;
+  /** Forget the device; it counts as new on its next sign-in. */
+  revoke(userId: UUID, deviceId: UUID): Promise<TrustedDevice>;
+}
+
+export const createDeviceTrustFlow = (deps: DeviceTrustFlowDependencies): DeviceTrustFlow => {
+  const {
+    repository,
+    mailer,
+    policy,
+    trustedDeviceDays,
+    baseUrl,
+    clock = { now: () => new Date() },
+    idFactory = () => randomUUID(),
+    logger,
+  } = deps;
+
+  const isTrusted = (device: TrustedDevice | null, now: Date): boolean =>
+    device !== null && Boolean(device.verifiedAt) && new Date(device.expiresAt) > now;
+
+  const expiresFrom = (now: Date): string => new Date(now.getTime() + trustedDeviceDays * DAY_MS).toISOString();
+
+  // The first device of an account (or of an account from before devices were tracked) is trusted on sight
+  const hasTrustedDevices = async (userId: UUID, now: Date): Promise<boolean> =>
+    (await repository.listByUser(userId, now.toISOString())).some((device) => device.verifiedAt);
+
+  const checkSignIn: DeviceTrustFlow["checkSignIn"] = async (user, fingerprint, device) => {
+    if (!policy.enabled || !policy.requireVerificationOnNewDevice) return;
+
+    const now = clock.now();
+    const existing = await repository.getByFingerprint(user.id, fingerprint);
+    if (isTrusted(existing, now) || !(await hasTrustedDevices(user.id, now))) return;
+
+    const pending = existing && !existing.verifiedAt && existing.verificationExpiresAt
+      ? new Date(existing.verificationExpiresAt).getTime() - VERIFICATION_VALIDITY_MS
+      : undefined;
+    if (pending !== undefined && now.getTime() - pending < VERIFICATION_RESEND_COOLDOWN_MS) {
+      throw new AuthError("DEVICE_NOT_RECOGNIZED");
+    }
+
+    const saved = await repository.upsert({
+      id: idFactory(),
+      userId: user.id,
+      fingerprint,
+      name: device?.platform,
+      ipAddress: device?.ipAddress,
+      userAgent: device?.userAgent,
+      verifiedAt: undefined,
+      lastSeenAt: now.toISOString(),
+      expiresAt: expiresFrom(now),
+    });
+    const token = generateOpaqueToken();
+    await repository.setVerificationToken(
+      saved.id,
+      hashOpaqueToken(token),
+      new Date(now.getTime() + VERIFICATION_VALIDITY_MS).toISOString(),
+    );
+
+    const link = buildActionLink(baseUrl, VERIFY_DEVICE_PATH, token);
+    await mailer.send(deviceVerificationEmail(
+      user.email,
+      link,
+      { userAgent: device?.userAgent, ipAddress: device?.ipAddress, at: now.toISOString() },
+      Math.round(VERIFICATION_VALIDITY_MS / 60000),
+    ));
+    logger?.warn("Sign-in from unconfirmed device", { userId: user.id, deviceId: saved.id });
+    throw new AuthError("DEVICE_NOT_RECOGNIZED");
+  };
+
+  const recordSignIn: DeviceTrustFlow["recordSignIn"] = async (user, fingerprint, device) => {
+    const now = clock.now();
+    const existing = await repository.getByFingerprint(user.id, fingerprint);
+    const known = isTrusted(existing, now);
+    const first = !known && !(await hasTrustedDevices(user.id, now));
+
+    const saved = await repository.upsert({
+      id: idFactory(),
+      userId: user.id,
+      fingerprint,
+      name: device?.platform,
+      ipAddress: device?.ipAddress,
+      userAgent: device?.userAgent,
+      verifiedAt: known ? existing?.verifiedAt : now.toISOString(),
+      lastSeenAt: now.toISOString(),
+      expiresAt: expiresFrom(now),
+    });
+
+    if (!known && !first && policy.alertOnNewDevice) {
+      await mailer
+        .send(newDeviceEmail(user.email, { userAgent: device?.userAgent, ipAddress: device?.ipAddress, at: now.toISOString() }))
+        .catch((error: unknown) => {
+          logger?.error("New device email failed", { userId: user.id, error: String(error) });
+        });
+    }
+
+    // Over the limit, the least recently used devices are forgotten first
+    const devices = await repository.listByUser(user.id, now.toISOString());
+    for (const stale of devices.filter((entry) => entry.id !== saved.id).slice(Math.max(policy.maxTrustedDevices - 1, 0))) {
+      await repository.delete(user.id, stale.id);
+    }
+
+    return saved;
+  };
+
+  const recordUse: DeviceTrustFlow["recordUse"] = async (userId, fingerprint, device) => {
+    const now = clock.now();
+    const existing = await repository.getByFingerprint(userId, fingerprint);
+    if (!existing || !isTrusted(existing, now)) return;
+    await repository.touch(existing.id, {
+      lastSeenAt: now.toISOString(),
+      expiresAt: expiresFrom(now),
+      ipAddress: device?.ipAddress,
+    });
+  };
+
+  const verify: DeviceTrustFlow["verify"] = async (token) => {
+    const tokenHash = hashOpaqueToken(token);
+    const device = await repository.getByVerificationTokenHash(tokenHash);
+    if (!device?.verificationExpiresAt) {
+      throw new AuthError("VERIFICATION_TOKEN_INVALID");
+    }
+
+    const now = clock.now();
+    if (new Date(device.verificationExpiresAt) <= now) {
+      throw new AuthError("VERIFICATION_TOKEN_EXPIRED");
+    }
+    if (!(await repository.markVerified(device.id, tokenHash, now.toISOString()))) {
+      throw new AuthError("VERIFICATION_TOKEN_INVALID");
+    }
+    return { ...device, verifiedAt: now.toISOString(), verificationTokenHash: undefined, verificationExpiresAt: undefined };
+  };
+
+  const list: DeviceTrustFlow["list"] = (userId) => repository.listByUser(userId, clock.now().toISOString());
+
+  const rename: DeviceTrustFlow["rename"] = async (userId, deviceId, name) => {
+    const device = await repository.rename(userId, deviceId, name);
+    if (!device) {
+      throw new AuthError("DEVICE_NOT_FOUND");
+    }
+    return device;
+  };
+
+  const revoke: DeviceTrustFlow["revoke"] = async (userId, deviceId) => {
+    const device = await repository.delete(userId, deviceId);
+    if (!device) {
+      throw new AuthError("DEVICE_NOT_FOUND");
+    }
+    return device;
+  };
+
+  return { policy, checkSignIn, recordSignIn, recordUse, verify, list, rename, revoke };
+};
@@ -0,0 +1,112 @@
+/**
+ * Email Verification Flow.
+ *
+ * Issues single-use verification links for pending users and activates them when a
+ * link is followed. Follows `EmailVerificationPolicy` for link validity and the
+ * hourly send limit.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { Clock, IdFactory } from "../core/auth.service.js";
+import type { EmailVerificationPolicy } from "../core/auth.policies.js";
+import type { User, UserActionTokenRepository, UserRepository } from "../core/auth.types.js";
+import type { Logger } from "../../../config/logger.js";
+import type { Mailer } from "../email/mailer.js";
+import { buildActionLink, verificationEmail } from "../email/templates.js";
+import { generateOpaqueToken, hashOpaqueToken } from "../security/opaque.token.js";
+import { AuthError } from "../core/auth.errors.js";
+
+const VERIFY_EMAIL_PATH = "/verify-email";
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface EmailVerificationFlowDependencies {
+  userRepository: UserRepository;
+  tokenRepository: UserActionTokenRepository;
+  mailer: Mailer;
+  policy: EmailVerificationPolicy;
+  /** Frontend origin the verification link points at (`EmailConfig.baseUrl`). */
+  baseUrl: string;
+  clock?: Clock;
+  idFactory?: IdFactory;
+  logger?: Logger;
+}
+
+export interface EmailVerificationFlow {
+  readonly policy: EmailVerificationPolicy;
+  /** Email a new link; false when the hourly limit for the user is reached. */
+  send(user: User): Promise<boolean>;
+  /** Consume a link and activate the user. */
+  verify(token: string): Promise<User>;
+  /** Resend for a pending account. Silent for unknown or verified emails so it cannot be used to probe accounts. */
+  resend(email: string): Promise<void>;
+}
+
+export const createEmailVerificationFlow = (deps: EmailVerificationFlowDependencies): EmailVerificationFlow => {
+  const {
+    userRepository,
+    tokenRepository,
+    mailer,
+    policy,
+    baseUrl,
+    clock = { now: () => new Date() },
+    idFactory = () => randomUUID(),
+    logger,
+  } = deps;
+
+  const send: EmailVerificationFlow["send"] = async (user) => {
+    const now = clock.now();
+    const sentLastHour = await tokenRepository.countCreatedSince(
+      user.id,
+      "email_verification",
+      new Date(now.getTime() - HOUR_MS).toISOString(),
+    );
+    if (sentLastHour >= policy.maxEmailsPerHour) {
+      logger?.warn("Verification email limit reached", { userId: user.id });
+      return false;
+    }
+
+    const token = generateOpaqueToken();
+    await tokenRepository.create({
+      id: idFactory(),
+      userId: user.id,
+      purpose: "email_verification",
+      tokenHash: hashOpaqueToken(token),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + policy.tokenValiditySeconds * 1000).toISOString(),
+    });
+
+    const link = buildActionLink(baseUrl, VERIFY_EMAIL_PATH, token);
+    await mailer.send(verificationEmail(user.email, link, Math.round(policy.tokenValiditySeconds / 3600)));
+    return true;
+  };
+
+  const verify: EmailVerificationFlow["verify"] = async (token) => {
+    const record = await tokenRepository.getByTokenHash("email_verification", hashOpaqueToken(token));
+    if (!record || record.consumedAt) {
+      throw new AuthError("VERIFICATION_TOKEN_INVALID");
+    }
+
+    const now = clock.now();
+    if (new Date(record.expiresAt) <= now) {
+      throw new AuthError("VERIFICATION_TOKEN_EXPIRED");
+    }
+    if (!(await tokenRepository.consume(record.id, now.toISOString()))) {
+      throw new AuthError("VERIFICATION_TOKEN_INVALID");
+    }
+
+    await userRepository.markEmailVerified(record.userId, now.toISOString());
+    const user = await userRepository.findById(record.userId);
+    if (!user) {
+      throw new AuthError("UNKNOWN_USER");
+    }
+    return user;
+  };
+
+  const resend: EmailVerificationFlow["resend"] = async (email) => {
+    const user = await userRepository.findByEmail(email.trim().toLowerCase());
+    if (!user || user.status !== "pending" || user.emailVerifiedAt) return;
+    await send(user);
+  };
+
+  return { policy, send, verify, resend };
+};
@@ -0,0 +1,129 @@
+/**
+ * Password Reset Flow.
+ *
+ * Emails single-use reset links and redeems them. Follows `PasswordResetPolicy` for
+ * link validity, the per-request cooldown and the hourly send limit. Changing the
+ * password itself stays in the auth service so resets share the credential rotation
+ * and session revocation of a regular password change.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { Clock, IdFactory } from "../core/auth.service.js";
+import type { PasswordResetPolicy } from "../core/auth.policies.js";
+import type { User, UserActionTokenRepository, UserRepository } from "../core/auth.types.js";
+import type { Logger } from "../../../config/logger.js";
+import type { Mailer } from "../email/mailer.js";
+import { buildActionLink, passwordResetEmail } from "../email/templates.js";
+import { generateOpaqueToken, hashOpaqueToken } from "../security/opaque.token.js";
+import { AuthError } from "../core/auth.errors.js";
+
+const RESET_PASSWORD_PATH = "/reset-password";
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface PasswordResetFlowDependencies {
+  userRepository: UserRepository;
+  tokenRepository: UserActionTokenRepository;
+  mailer: Mailer;
+  policy: PasswordResetPolicy;
+  /** Frontend origin the reset link points at (`EmailConfig.baseUrl`). */
+  baseUrl: string;
+  clock?: Clock;
+  idFactory?: IdFactory;
+  logger?: Logger;
+}
+
+export interface PasswordResetFlow {
+  readonly policy: PasswordResetPolicy;
+  /** Email a reset link. Silent for unknown or closed accounts and when limits apply, so it cannot be used to probe accounts. */
+  request(email: string): Promise<void>;
+  /** Check a link without using it up and return its owner, so the new password can be vetted first. */
+  verify(token: string): Promise<User>;
+  /** Consume a link (and any other outstanding links for the user) and return its owner. */
+  redeem(token: string): Promise<User>;
+}
+
+export const createPasswordResetFlow = (deps: PasswordResetFlowDependencies): PasswordResetFlow => {
+  const {
+    userRepository,
+    tokenRepository,
+    mailer,
+    policy,
+    baseUrl,
+    clock = { now: () => new Date() },
+    idFactory = () => randomUUID(),
+    logger,
+  } = deps;
+
+  const sentSince = (userId: User["id"], since: Date): Promise<number> =>
+    tokenRepository.countCreatedSince(userId, "password_reset", since.toISOString());
+
+  const request: PasswordResetFlow["request"] = async (email) => {
+    const user = await userRepository.findByEmail(email);
+    if (!user || user.status === "suspended" || user.status === "deleted") return;
+
+    const now = clock.now();
+    if ((await sentSince(user.id, new Date(now.getTime() - policy.cooldownSeconds * 1000))) > 0) {
+      logger?.info("Password reset requested during cooldown", { userId: user.id });
+      return;
+    }
+    if ((await sentSince(user.id, new Date(now.getTime() - HOUR_MS))) >= policy.maxEmailsPerHour) {
+      logger?.warn("Password reset email limit reached", { userId: user.id });
+      return;
+    }
+
+    const token = generateOpaqueToken();
+    await tokenRepository.create({
+      id: idFactory(),
+      userId: user.id,
+      purpose: "password_reset",
+      tokenHash: hashOpaqueToken(token),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + policy.tokenValiditySeconds * 1000).toISOString(),
+    });
+
+    const link = buildActionLink(baseUrl, RESET_PASSWORD_PATH, token);
+    await mailer.send(passwordResetEmail(user.email, link, Math.round(policy.tokenValiditySeconds / 60)));
+  };
+
+  /** The link's record, if it is known, unused and unexpired at `now`. */
+  const findUsable = async (token: string, now: Date) => {
+    const record = await tokenRepository.getByTokenHash("password_reset", hashOpaqueToken(token));
+    if (!record) {
+      throw new AuthError("RESET_TOKEN_INVALID");
+    }
+    if (record.consumedAt) {
+      throw new AuthError("RESET_TOKEN_USED");
+    }
+    if (new Date(record.expiresAt) <= now) {
+      throw new AuthError("RESET_TOKEN_EXPIRED");
+    }
+    return record;
+  };
+
+  const ownerOf = async (userId: User["id"]): Promise<User> => {
+    const user = await userRepository.findById(userId);
+    if (!user || user.status === "deleted") {
+      throw new AuthError("RESET_TOKEN_INVALID");
+    }
+    return user;
+  };
+
+  const verify: PasswordResetFlow["verify"] = async (token) => {
+    const record = await findUsable(token, clock.now());
+    return ownerOf(record.userId);
+  };
+
+  const redeem: PasswordResetFlow["redeem"] = async (token) => {
+    const now = clock.now();
+    const record = await findUsable(token, now);
+    if (!(await tokenRepository.consume(record.id, now.toISOString()))) {
+      throw new AuthError("RESET_TOKEN_USED");
+    }
+    // Older links in the same inbox stop working once one of them is used
+    await tokenRepository.consumeAllForUser(record.userId, "password_reset", now.toISOString());
+
+    return ownerOf(record.userId);
+  };
+
+  return { policy, request, verify, redeem };
+};
@@ -0,0 +1,35 @@
+/**
+ * MFA recovery codes.
+ *
+ * Codes are random, single-use and shown to the user exactly once. Only a SHA-256
+ * digest is stored: the codes carry enough entropy that a slow hash adds nothing,
+ * and a deterministic digest lets us look a code up directly.
+ */
+
+import { createHash, randomInt } from "node:crypto";
+
+// Crockford-style alphabet without look-alike characters (0/O, 1/I/L)
+const RECOVERY_CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
+export function generateRecoveryCodes(count: number, length: number): string[] {
+  const codes = new Set<string>();
+  while (codes.size < count) {
+    let code = "";
+    for (let i = 0; i < length; i++) {
+      code += RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)];
+    }
+    codes.add(code);
+  }
+  return [...codes];
+}
+
+/**
+ * Users may type codes in lowercase or with separators; normalize before hashing.
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]+/g, "").toUpperCase();
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
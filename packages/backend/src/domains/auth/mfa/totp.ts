@@ -0,0 +1,130 @@
+/**
+ * TOTP (RFC 6238) primitives.
+ *
+ * HMAC-SHA1, 6 digits, as expected by common authenticator apps.
+ * Secrets are exchanged in RFC 4648 base32 (no padding).
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_DIGITS = 6;
+const SECRET_BYTES = 20; // 160 bits, the RFC 4226 recommendation
+
+export function encodeBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function decodeBase32(input: string): Buffer {
+  const cleaned = input.replace(/=+$/, "").replace(/\s+/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a new random TOTP secret (base32).
+ */
+export function generateTotpSecret(): string {
+  return encodeBase32(randomBytes(SECRET_BYTES));
+}
+
+/**
+ * Time step for a timestamp.
+ */
+export function totpStep(at: Date, periodSeconds: number): number {
+  return Math.floor(at.getTime() / 1000 / periodSeconds);
+}
+
+/**
+ * HOTP value (RFC 4226) for a counter, zero-padded to 6 digits.
+ */
+export function generateHotp(secret: string, counter: number): string {
+  const key = decodeBase32(secret);
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac("sha1", key).update(message).digest();
+  const offset = digest[digest.length - 1]! & 0x0f;
+  const binary = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return binary.toString().padStart(TOTP_DIGITS, "0");
+}
+
+export function generateTotp(secret: string, at: Date, periodSeconds: number): string {
+  return generateHotp(secret, totpStep(at, periodSeconds));
+}
+
+/**
+ * Verify a TOTP code within ±windowPeriods of `at`.
+ * Returns the matching time step (callers store it to reject replays), or null.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  at: Date,
+  periodSeconds: number,
+  windowPeriods: number,
+): number | null {
+  const normalized = code.replace(/\s+/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const current = totpStep(at, periodSeconds);
+  for (let offset = -windowPeriods; offset <= windowPeriods; offset++) {
+    const step = current + offset;
+    if (step < 0) continue;
+    const expected = generateHotp(secret, step);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the otpauth:// URI rendered as a QR code by the client.
+ */
+export function buildOtpauthUri(params: {
+  secret: string;
+  accountName: string;
+  issuer: string;
+  periodSeconds: number;
+}): string {
+  const label = `${encodeURIComponent(params.issuer)}:${encodeURIComponent(params.accountName)}`;
+  const query = new URLSearchParams({
+    secret: params.secret,
+    issuer: params.issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(params.periodSeconds),
+  });
+  return `otpauth://totp/${label}?${query.toString()}`;
+}
@@ -6,18 +6,39 @@
 
 import type { Pool } from "pg";
 import type {
+	ApiKey,
+	ApiKeyRepository,
+	ApiKeyScope,
+	AuditAction,
+	AuditEvent,
+	AuditEventCursor,
+	AuditEventFilter,
+	AuditEventRepository,
+	AuditOutcome,
+	CreateApiKeyParams,
 	CreateCredentialParams,
+	CreateMfaChallengeParams,
 	CreateSessionParams,
+	CreateUserActionTokenParams,
 	CreateUserParams,
+	MfaChallenge,
+	MfaRepository,
 	SessionInvalidationReason,
+	TrustedDevice,
+	TrustedDeviceRepository,
+	UpsertTrustedDeviceParams,
 	User,
 	UserCredential,
+	UserActionToken,
+	UserActionTokenPurpose,
+	UserActionTokenRepository,
 	UserCredentialRepository,
+	UserMfa,
 	UserRepository,
 	UserSession,
 	UserSessionRepository,
 	UUID,
-} from "./auth.types.js";
+} from "../core/auth.types.js";
 
 type Row = Record<string, unknown>;
 
@@ -33,6 +54,7 @@ const mapUser = (r: Row): User => ({
 	email: String(r.email),
 	status: r.status as User["status"],
 	role: r.role as User["role"],
+	emailVerifiedAt: r.email_verified_at ? toIsoString(r.email_verified_at) : undefined,
 	createdAt: toIsoString(r.created_at),
 	updatedAt: toIsoString(r.updated_at),
 });
@@ -42,7 +64,9 @@ const mapCredential = (r: Row): UserCredential => ({
 	passwordHash: String(r.password_hash),
 	version: Number(r.version ?? 1),
 	failedAttemptCount: Number(r.failed_attempt_count ?? 0),
-	lockedUntil: r.locked_until ? String(r.locked_until) : undefined,
+	lastFailedAt: r.last_failed_at ? toIsoString(r.last_failed_at) : undefined,
+	lockedUntil: r.locked_until ? toIsoString(r.locked_until) : undefined,
+	lockoutCount: Number(r.lockout_count ?? 0),
 	passwordUpdatedAt: toIsoString(r.password_updated_at),
 	createdAt: toIsoString(r.created_at),
 	updatedAt: toIsoString(r.updated_at),
@@ -57,6 +81,7 @@ const mapSession = (r: Row): UserSession => ({
 	status: r.status as UserSession["status"],
 	ipAddress: r.ip_address ? String(r.ip_address) : undefined,
 	userAgent: r.user_agent ? String(r.user_agent) : undefined,
+	deviceFingerprint: r.device_fingerprint ? String(r.device_fingerprint) : undefined,
 	createdAt: toIsoString(r.created_at),
 	lastSeenAt: toIsoString(r.last_seen_at ?? r.created_at),
 	expiresAt: toIsoString(r.expires_at),
@@ -66,6 +91,80 @@ const mapSession = (r: Row): UserSession => ({
 		: undefined,
 });
 
+const mapMfa = (r: Row): UserMfa => ({
+	userId: String(r.user_id),
+	totpSecret: String(r.totp_secret),
+	enabledAt: r.enabled_at ? toIsoString(r.enabled_at) : undefined,
+	lastUsedStep: r.last_used_step === null || r.last_used_step === undefined ? undefined : Number(r.last_used_step),
+	createdAt: toIsoString(r.created_at),
+	updatedAt: toIsoString(r.updated_at),
+});
+
+const mapMfaChallenge = (r: Row): MfaChallenge => ({
+	id: String(r.id),
+	userId: String(r.user_id),
+	tokenHash: String(r.token_hash),
+	attempts: Number(r.attempts ?? 0),
+	ipAddress: r.ip_address ? String(r.ip_address) : undefined,
+	userAgent: r.user_agent ? String(r.user_agent) : undefined,
+	createdAt: toIsoString(r.created_at),
+	expiresAt: toIsoString(r.expires_at),
+	consumedAt: r.consumed_at ? toIsoString(r.consumed_at) : undefined,
+});
+
+const mapUserActionToken = (r: Row): UserActionToken => ({
+	id: String(r.id),
+	userId: String(r.user_id),
+	purpose: r.purpose as UserActionTokenPurpose,
+	tokenHash: String(r.token_hash),
+	createdAt: toIsoString(r.created_at),
+	expiresAt: toIsoString(r.expires_at),
+	consumedAt: r.consumed_at ? toIsoString(r.consumed_at) : undefined,
+});
+
+const mapTrustedDevice = (r: Row): TrustedDevice => ({
+	id: String(r.id),
+	userId: String(r.user_id),
+	fingerprint: String(r.fingerprint),
+	name: r.name ? String(r.name) : undefined,
+	ipAddress: r.ip_address ? String(r.ip_address) : undefined,
+	userAgent: r.user_agent ? String(r.user_agent) : undefined,
+	verifiedAt: r.verified_at ? toIsoString(r.verified_at) : undefined,
+	verificationTokenHash: r.verification_token_hash ? String(r.verification_token_hash) : undefined,
+	verificationExpiresAt: r.verification_expires_at ? toIsoString(r.verification_expires_at) : undefined,
+	createdAt: toIsoString(r.created_at),
+	lastSeenAt: toIsoString(r.last_seen_at ?? r.created_at),
+	expiresAt: toIsoString(r.expires_at),
+});
+
+const mapApiKey = (r: Row): ApiKey => ({
+	id: String(r.id),
+	userId: String(r.user_id),
+	keyId: String(r.key_id),
+	label: String(r.label),
+	scopes: (r.scopes ?? []) as ApiKeyScope[],
+	allowedIps: Array.isArray(r.allowed_ips) && r.allowed_ips.length ? (r.allowed_ips as string[]) : undefined,
+	secretCiphertext: String(r.secret_ciphertext),
+	createdAt: toIsoString(r.created_at),
+	lastUsedAt: r.last_used_at ? toIsoString(r.last_used_at) : undefined,
+	lastUsedIp: r.last_used_ip ? String(r.last_used_ip) : undefined,
+	expiresAt: r.expires_at ? toIsoString(r.expires_at) : undefined,
+	revokedAt: r.revoked_at ? toIsoString(r.revoked_at) : undefined,
+});
+
+const mapAuditEvent = (r: Row): AuditEvent => ({
+	id: String(r.id),
+	occurredAt: toIsoString(r.occurred_at),
+	action: r.action as AuditAction,
+	outcome: r.outcome as AuditOutcome,
+	actorUserId: r.actor_user_id ? String(r.actor_user_id) : undefined,
+	targetUserId: r.target_user_id ? String(r.target_user_id) : undefined,
+	sessionId: r.session_id ? String(r.session_id) : undefined,
+	ipAddress: r.ip_address ? String(r.ip_address) : undefined,
+	userAgent: r.user_agent ? String(r.user_agent) : undefined,
+	metadata: r.metadata ? (r.metadata as Record<string, unknown>) : undefined,
+});
+
 export function createUserRepository(pool: Pool): UserRepository {
 	return {
 		async create(input: CreateUserParams) {
@@ -88,9 +187,22 @@ export function createUserRepository(pool: Pool): UserRepository {
 		async updateStatus(id: UUID, status: User["status"]) {
 			await pool.query(`UPDATE users SET status = $2, updated_at = now() WHERE id = $1`, [id, status]);
 		},
+		async updateRole(id: UUID, role: User["role"]) {
+			await pool.query(`UPDATE users SET role = $2, updated_at = now() WHERE id = $1`, [id, role]);
+		},
 		async updateLastLogin(id: UUID, at: string) {
 			await pool.query(`UPDATE users SET last_login_at = $2, updated_at = now() WHERE id = $1`, [id, at]);
 		},
+		async markEmailVerified(id: UUID, at: string) {
+			await pool.query(
+				`UPDATE users
+           SET email_verified_at = COALESCE(email_verified_at, $2),
+               status = CASE WHEN status = 'pending' THEN 'active'::user_status ELSE status END,
+               updated_at = now()
+         WHERE id = $1`,
+				[id, at],
+			);
+		},
 	};
 }
 
@@ -127,16 +239,57 @@ export function createCredentialRepository(pool: Pool): UserCredentialRepository
 				[userId, params.passwordHash, params.version, params.passwordUpdatedAt, params.updatedAt],
 			);
 		},
-		async recordFailedAttempt(userId: UUID, at: string) {
+		async recordFailedAttempt(userId: UUID, at: string, windowStart: string) {
+			const { rows } = await pool.query(
+				`UPDATE user_credentials
+           SET failed_attempt_count = CASE WHEN last_failed_at >= $3 THEN failed_attempt_count + 1 ELSE 1 END,
+               last_failed_at=$2, updated_at=$2
+         WHERE user_id=$1
+         RETURNING failed_attempt_count`,
+				[userId, at, windowStart],
+			);
+			return Number(rows[0]?.failed_attempt_count ?? 0);
+		},
+		async resetFailedAttempts(userId: UUID) {
+			await pool.query(
+				`UPDATE user_credentials SET failed_attempt_count = 0, last_failed_at = NULL, lockout_count = 0 WHERE user_id=$1`,
+				[userId],
+			);
+		},
+		async lock(userId: UUID, until: string) {
 			await pool.query(
 				`UPDATE user_credentials
-           SET failed_attempt_count = COALESCE(failed_attempt_count,0) + 1, updated_at=$2
+           SET locked_until=$2, failed_attempt_count = 0, lockout_count = lockout_count + 1
          WHERE user_id=$1`,
-				[userId, at],
+				[userId, until],
 			);
 		},
-		async resetFailedAttempts(userId: UUID) {
-			await pool.query(`UPDATE user_credentials SET failed_attempt_count = 0 WHERE user_id=$1`, [userId]);
+		async unlock(userId: UUID) {
+			await pool.query(
+				`UPDATE user_credentials
+           SET locked_until = NULL, failed_attempt_count = 0, last_failed_at = NULL, lockout_count = 0
+         WHERE user_id=$1`,
+				[userId],
+			);
+		},
+		async listPasswordHistory(userId: UUID, limit: number) {
+			const { rows } = await pool.query(
+				`SELECT password_hash FROM password_history WHERE user_id=$1 ORDER BY created_at DESC LIMIT $2`,
+				[userId, limit],
+			);
+			return rows.map((r) => String(r.password_hash));
+		},
+		async addPasswordHistory(userId: UUID, passwordHash: string, at: string, keep: number) {
+			await pool.query(
+				`INSERT INTO password_history (user_id, password_hash, created_at) VALUES ($1,$2,$3)`,
+				[userId, passwordHash, at],
+			);
+			await pool.query(
+				`DELETE FROM password_history
+          WHERE user_id=$1
+            AND id NOT IN (SELECT id FROM password_history WHERE user_id=$1 ORDER BY created_at DESC LIMIT $2)`,
+				[userId, keep],
+			);
 		},
 	};
 }
@@ -146,7 +299,7 @@ export function createSessionRepository(pool: Pool): UserSessionRepository {
 		async create(input: CreateSessionParams) {
 			const { rows } = await pool.query(
 				`INSERT INTO auth_sessions (id, user_id, refresh_token_hash, refresh_token_version, password_version, status, user_agent, ip_address, device_fingerprint, created_at, last_seen_at, expires_at)
-         VALUES ($1,$2,$3,$4,$5,$6,$7,$8,NULL,$9,$10,$11)
+         VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12)
          RETURNING *`,
 				[
 					input.id,
@@ -157,6 +310,7 @@ export function createSessionRepository(pool: Pool): UserSessionRepository {
 					input.status,
 					input.userAgent ?? null,
 					input.ipAddress ?? null,
+					input.deviceFingerprint ?? null,
 					input.createdAt,
 					input.lastSeenAt,
 					input.expiresAt,
@@ -215,9 +369,8 @@ export function createSessionRepository(pool: Pool): UserSessionRepository {
                 expires_at = $4,
                 last_seen_at = $5,
                 user_agent = $6,
-                ip_address = $7,
-                status = 'active'
-          WHERE id=$1
+                ip_address = $7
+          WHERE id=$1 AND status = 'active' AND refresh_token_version = $8
           RETURNING *`,
 				[
 					params.sessionId,
@@ -227,6 +380,7 @@ export function createSessionRepository(pool: Pool): UserSessionRepository {
 					params.lastSeenAt,
 					params.userAgent ?? null,
 					params.ipAddress ?? null,
+					params.previousVersion,
 				],
 			);
 			return rows[0] ? mapSession(rows[0]) : null;
@@ -239,3 +393,348 @@ export function createSessionRepository(pool: Pool): UserSessionRepository {
 		},
 	};
 }
+
+export function createMfaRepository(pool: Pool): MfaRepository {
+	return {
+		async getByUserId(userId: UUID) {
+			const { rows } = await pool.query(`SELECT * FROM user_mfa WHERE user_id = $1`, [userId]);
+			return rows[0] ? mapMfa(rows[0]) : null;
+		},
+		async saveSecret(userId: UUID, totpSecret: string, at: string) {
+			await pool.query(
+				`INSERT INTO user_mfa (user_id, totp_secret, enabled_at, last_used_step, created_at, updated_at)
+         VALUES ($1,$2,NULL,NULL,$3,$3)
+         ON CONFLICT (user_id) DO UPDATE
+           SET totp_secret = EXCLUDED.totp_secret, enabled_at = NULL, last_used_step = NULL, updated_at = EXCLUDED.updated_at`,
+				[userId, totpSecret, at],
+			);
+		},
+		async enable(userId: UUID, at: string) {
+			await pool.query(`UPDATE user_mfa SET enabled_at = $2, updated_at = $2 WHERE user_id = $1`, [userId, at]);
+		},
+		async disable(userId: UUID) {
+			await pool.query(`DELETE FROM mfa_recovery_codes WHERE user_id = $1`, [userId]);
+			await pool.query(`DELETE FROM user_mfa WHERE user_id = $1`, [userId]);
+		},
+		async recordUsedStep(userId: UUID, step: number) {
+			const { rowCount } = await pool.query(
+				`UPDATE user_mfa SET last_used_step = $2
+         WHERE user_id = $1 AND (last_used_step IS NULL OR last_used_step < $2)`,
+				[userId, step],
+			);
+			return (rowCount ?? 0) > 0;
+		},
+		async replaceRecoveryCodes(userId: UUID, codeHashes: string[], at: string) {
+			const client = await pool.connect();
+			try {
+				await client.query("BEGIN");
+				await client.query(`DELETE FROM mfa_recovery_codes WHERE user_id = $1`, [userId]);
+				for (const codeHash of codeHashes) {
+					await client.query(
+						`INSERT INTO mfa_recovery_codes (user_id, code_hash, created_at) VALUES ($1,$2,$3)`,
+						[userId, codeHash, at],
+					);
+				}
+				await client.query("COMMIT");
+			} catch (error) {
+				await client.query("ROLLBACK");
+				throw error;
+			} finally {
+				client.release();
+			}
+		},
+		async consumeRecoveryCode(userId: UUID, codeHash: string, at: string) {
+			const { rowCount } = await pool.query(
+				`UPDATE mfa_recovery_codes SET used_at = $3
+         WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL`,
+				[userId, codeHash, at],
+			);
+			return (rowCount ?? 0) > 0;
+		},
+		async countRemainingRecoveryCodes(userId: UUID) {
+			const { rows } = await pool.query(
+				`SELECT count(*)::int AS remaining FROM mfa_recovery_codes WHERE user_id = $1 AND used_at IS NULL`,
+				[userId],
+			);
+			return Number(rows[0]?.remaining ?? 0);
+		},
+		async createChallenge(input: CreateMfaChallengeParams) {
+			const { rows } = await pool.query(
+				`INSERT INTO mfa_challenges (id, user_id, token_hash, ip_address, user_agent, created_at, expires_at)
+         VALUES ($1,$2,$3,$4,$5,$6,$7)
+         RETURNING *`,
+				[
+					input.id,
+					input.userId,
+					input.tokenHash,
+					input.ipAddress ?? null,
+					input.userAgent ?? null,
+					input.createdAt,
+					input.expiresAt,
+				],
+			);
+			return mapMfaChallenge(rows[0]);
+		},
+		async getChallengeByTokenHash(tokenHash: string) {
+			const { rows } = await pool.query(`SELECT * FROM mfa_challenges WHERE token_hash = $1`, [tokenHash]);
+			return rows[0] ? mapMfaChallenge(rows[0]) : null;
+		},
+		async recordChallengeAttempt(challengeId: UUID) {
+			const { rows } = await pool.query(
+				`UPDATE mfa_challenges SET attempts = attempts + 1 WHERE id = $1 RETURNING attempts`,
+				[challengeId],
+			);
+			return Number(rows[0]?.attempts ?? 0);
+		},
+		async consumeChallenge(challengeId: UUID, at: string) {
+			const { rowCount } = await pool.query(
+				`UPDATE mfa_challenges SET consumed_at = $2 WHERE id = $1 AND consumed_at IS NULL`,
+				[challengeId, at],
+			);
+			return (rowCount ?? 0) > 0;
+		},
+	};
+}
+
+export function createUserActionTokenRepository(pool: Pool): UserActionTokenRepository {
+	return {
+		async create(input: CreateUserActionTokenParams) {
+			const { rows } = await pool.query(
+				`INSERT INTO user_action_tokens (id, user_id, purpose, token_hash, created_at, expires_at)
+         VALUES ($1,$2,$3,$4,$5,$6)
+         RETURNING *`,
+				[input.id, input.userId, input.purpose, input.tokenHash, input.createdAt, input.expiresAt],
+			);
+			return mapUserActionToken(rows[0]);
+		},
+		async getByTokenHash(purpose: UserActionTokenPurpose, tokenHash: string) {
+			const { rows } = await pool.query(
+				`SELECT * FROM user_action_tokens WHERE purpose = $1 AND token_hash = $2`,
+				[purpose, tokenHash],
+			);
+			return rows[0] ? mapUserActionToken(rows[0]) : null;
+		},
+		async consume(tokenId: UUID, at: string) {
+			const { rowCount } = await pool.query(
+				`UPDATE user_action_tokens SET consumed_at = $2 WHERE id = $1 AND consumed_at IS NULL`,
+				[tokenId, at],
+			);
+			return (rowCount ?? 0) > 0;
+		},
+		async countCreatedSince(userId: UUID, purpose: UserActionTokenPurpose, since: string) {
+			const { rows } = await pool.query(
+				`SELECT count(*)::int AS issued FROM user_action_tokens
+         WHERE user_id = $1 AND purpose = $2 AND created_at > $3`,
+				[userId, purpose, since],
+			);
+			return Number(rows[0]?.issued ?? 0);
+		},
+		async consumeAllForUser(userId: UUID, purpose: UserActionTokenPurpose, at: string) {
+			const { rowCount } = await pool.query(
+				`UPDATE user_action_tokens SET consumed_at = $3
+         WHERE user_id = $1 AND purpose = $2 AND consumed_at IS NULL`,
+				[userId, purpose, at],
+			);
+			return rowCount ?? 0;
+		},
+	};
+}
+
+export function createTrustedDeviceRepository(pool: Pool): TrustedDeviceRepository {
+	return {
+		async listByUser(userId: UUID, now: string) {
+			const { rows } = await pool.query(
+				`SELECT * FROM trusted_devices WHERE user_id = $1 AND expires_at > $2 ORDER BY last_seen_at DESC`,
+				[userId, now],
+			);
+			return rows.map(mapTrustedDevice);
+		},
+		async getByFingerprint(userId: UUID, fingerprint: string) {
+			const { rows } = await pool.query(
+				`SELECT * FROM trusted_devices WHERE user_id = $1 AND fingerprint = $2`,
+				[userId, fingerprint],
+			);
+			return rows[0] ? mapTrustedDevice(rows[0]) : null;
+		},
+		async getByVerificationTokenHash(tokenHash: string) {
+			const { rows } = await pool.query(
+				`SELECT * FROM trusted_devices WHERE verification_token_hash = $1`,
+				[tokenHash],
+			);
+			return rows[0] ? mapTrustedDevice(rows[0]) : null;
+		},
+		async upsert(input: UpsertTrustedDeviceParams) {
+			const { rows } = await pool.query(
+				`INSERT INTO trusted_devices (id, user_id, fingerprint, name, ip_address, user_agent, verified_at, created_at, last_seen_at, expires_at)
+         VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$8,$9)
+         ON CONFLICT (user_id, fingerprint) DO UPDATE
+           SET ip_address = EXCLUDED.ip_address,
+               user_agent = EXCLUDED.user_agent,
+               verified_at = EXCLUDED.verified_at,
+               last_seen_at = EXCLUDED.last_seen_at,
+               expires_at = EXCLUDED.expires_at,
+               name = COALESCE(trusted_devices.name, EXCLUDED.name)
+         RETURNING *`,
+				[
+					input.id,
+					input.userId,
+					input.fingerprint,
+					input.name ?? null,
+					input.ipAddress ?? null,
+					input.userAgent ?? null,
+					input.verifiedAt ?? null,
+					input.lastSeenAt,
+					input.expiresAt,
+				],
+			);
+			return mapTrustedDevice(rows[0]);
+		},
+		async setVerificationToken(deviceId: UUID, tokenHash: string, expiresAt: string) {
+			await pool.query(
+				`UPDATE trusted_devices SET verification_token_hash = $2, verification_expires_at = $3 WHERE id = $1`,
+				[deviceId, tokenHash, expiresAt],
+			);
+		},
+		async markVerified(deviceId: UUID, tokenHash: string, at: string) {
+			const { rowCount } = await pool.query(
+				`UPDATE trusted_devices
+           SET verified_at = $3, verification_token_hash = NULL, verification_expires_at = NULL
+         WHERE id = $1 AND verification_token_hash = $2`,
+				[deviceId, tokenHash, at],
+			);
+			return (rowCount ?? 0) > 0;
+		},
+		async touch(deviceId: UUID, params: { lastSeenAt: string; expiresAt: string; ipAddress?: string }) {
+			await pool.query(
+				`UPDATE trusted_devices
+           SET last_seen_at = $2, expires_at = $3, ip_address = COALESCE($4, ip_address)
+         WHERE id = $1 AND expires_at > $2`,
+				[deviceId, params.lastSeenAt, params.expiresAt, params.ipAddress ?? null],
+			);
+		},
+		async rename(userId: UUID, deviceId: UUID, name: string) {
+			const { rows } = await pool.query(
+				`UPDATE trusted_devices SET name = $3 WHERE id = $2 AND user_id = $1 RETURNING *`,
+				[userId, deviceId, name],
+			);
+			return rows[0] ? mapTrustedDevice(rows[0]) : null;
+		},
+		async delete(userId: UUID, deviceId: UUID) {
+			const { rows } = await pool.query(
+				`DELETE FROM trusted_devices WHERE id = $2 AND user_id = $1 RETURNING *`,
+				[userId, deviceId],
+			);
+			return rows[0] ? mapTrustedDevice(rows[0]) : null;
+		},
+	};
+}
+
+export function createApiKeyRepository(pool: Pool): ApiKeyRepository {
+	return {
+		async create(input: CreateApiKeyParams) {
+			const { rows } = await pool.query(
+				`INSERT INTO api_keys (id, user_id, key_id, label, scopes, allowed_ips, secret_ciphertext, created_at, expires_at)
+         VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9)
+         RETURNING *`,
+				[
+					input.id,
+					input.userId,
+					input.keyId,
+					input.label,
+					input.scopes,
+					input.allowedIps ?? null,
+					input.secretCiphertext,
+					input.createdAt,
+					input.expiresAt ?? null,
+				],
+			);
+			return mapApiKey(rows[0]);
+		},
+		async getByKeyId(keyId: string) {
+			const { rows } = await pool.query(`SELECT * FROM api_keys WHERE key_id = $1`, [keyId]);
+			return rows[0] ? mapApiKey(rows[0]) : null;
+		},
+		async listByUser(userId: UUID) {
+			const { rows } = await pool.query(
+				`SELECT * FROM api_keys WHERE user_id = $1 ORDER BY created_at DESC`,
+				[userId],
+			);
+			return rows.map(mapApiKey);
+		},
+		async countActiveByUser(userId: UUID, now: string) {
+			const { rows } = await pool.query(
+				`SELECT COUNT(*)::int AS count FROM api_keys
+         WHERE user_id = $1 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > $2)`,
+				[userId, now],
+			);
+			return Number(rows[0]?.count ?? 0);
+		},
+		async revoke(userId: UUID, id: UUID, at: string) {
+			const { rows } = await pool.query(
+				`UPDATE api_keys SET revoked_at = $3 WHERE id = $2 AND user_id = $1 AND revoked_at IS NULL RETURNING *`,
+				[userId, id, at],
+			);
+			return rows[0] ? mapApiKey(rows[0]) : null;
+		},
+		async touch(id: UUID, params: { lastUsedAt: string; ipAddress?: string }) {
+			await pool.query(
+				`UPDATE api_keys SET last_used_at = $2, last_used_ip = COALESCE($3, last_used_ip) WHERE id = $1`,
+				[id, params.lastUsedAt, params.ipAddress ?? null],
+			);
+		},
+	};
+}
+
+export function createAuditEventRepository(pool: Pool): AuditEventRepository {
+	return {
+		async append(event: AuditEvent) {
+			await pool.query(
+				`INSERT INTO audit_events
+           (id, occurred_at, action, outcome, actor_user_id, target_user_id, session_id, ip_address, user_agent, metadata)
+         VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)`,
+				[
+					event.id,
+					event.occurredAt,
+					event.action,
+					event.outcome,
+					event.actorUserId ?? null,
+					event.targetUserId ?? null,
+					event.sessionId ?? null,
+					event.ipAddress ?? null,
+					event.userAgent ?? null,
+					event.metadata ? JSON.stringify(event.metadata) : null,
+				],
+			);
+		},
+		async list(filter: AuditEventFilter, options: { limit: number; after?: AuditEventCursor }) {
+			const conditions: string[] = [];
+			const params: unknown[] = [];
+			const where = (clause: (placeholder: string) => string, value: unknown) => {
+				params.push(value);
+				conditions.push(clause(`$${params.length}`));
+			};
+
+			if (filter.action) where((p) => `action = ${p}`, filter.action);
+			if (filter.outcome) where((p) => `outcome = ${p}`, filter.outcome);
+			if (filter.actorUserId) where((p) => `actor_user_id = ${p}`, filter.actorUserId);
+			if (filter.targetUserId) where((p) => `target_user_id = ${p}`, filter.targetUserId);
+			if (filter.from) where((p) => `occurred_at >= ${p}`, filter.from);
+			if (filter.to) where((p) => `occurred_at < ${p}`, filter.to);
+			if (options.after) {
+				// Row comparison keeps keyset paging stable when several events share a timestamp
+				params.push(options.after.occurredAt, options.after.id);
+				conditions.push(`(occurred_at, id) < ($${params.length - 1}, $${params.length})`);
+			}
+
+			params.push(options.limit);
+			const { rows } = await pool.query(
+				`SELECT * FROM audit_events
+         ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+         ORDER BY occurred_at DESC, id DESC
+         LIMIT $${params.length}`,
+				params,
+			);
+			return rows.map(mapAuditEvent);
+		},
+	};
+}
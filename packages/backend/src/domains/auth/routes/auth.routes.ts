@@ -5,8 +5,9 @@
  * Routes are thin adapters that delegate to controllers.
  */
 
-import type { Router } from "../../../api/types.js";
+import type { HttpRequest, Router } from "../../../api/types.js";
 import type { AuthService } from "../core/auth.service.js";
+import type { AuthServices } from "../../../api/middleware.js";
 import { createLoginController } from "../controllers/login.controller.js";
 import { createRegisterController } from "../controllers/register.controller.js";
 import { createRefreshController } from "../controllers/refresh.controller.js";
@@ -14,7 +15,47 @@ import { createLogoutController } from "../controllers/logout.controller.js";
 import {
   createListSessionsController,
   createRevokeAllSessionsController,
+  createRevokeSessionController,
 } from "../controllers/sessions.controller.js";
+import {
+  createListDevicesController,
+  createRenameDeviceController,
+  createRevokeDeviceController,
+  createVerifyDeviceController,
+} from "../controllers/devices.controller.js";
+import {
+  createMfaConfirmController,
+  createMfaDisableController,
+  createMfaEnrollController,
+  createMfaStatusController,
+  createMfaVerifyController,
+  createRecoveryCodesController,
+} from "../controllers/mfa.controller.js";
+import {
+  createResendVerificationController,
+  createVerifyEmailController,
+} from "../controllers/email.verification.controller.js";
+import {
+  createForgotPasswordController,
+  createResetPasswordController,
+} from "../controllers/password.reset.controller.js";
+import { createChangePasswordController } from "../controllers/password.change.controller.js";
+import {
+  createCreateApiKeyController,
+  createListApiKeysController,
+  createRevokeApiKeyController,
+} from "../controllers/api.keys.controller.js";
+import { createJwksController } from "../controllers/jwks.controller.js";
+import { withRateLimit } from "../controllers/rate.limit.guard.js";
+import { readRefreshCookie } from "../controllers/refresh.cookie.js";
+import type { RefreshCookiePolicy } from "../core/auth.policies.js";
+import {
+  getLoginRateLimitKey,
+  getRefreshRateLimitKey,
+  getRegistrationRateLimitKey,
+  getResetRateLimitKey,
+  type RateLimiter,
+} from "../security/rate.limit.js";
 
 /**
  * Logger interface (minimal).
@@ -23,6 +64,11 @@ type LoggerLike = {
   error: (msg: string, meta?: Record<string, unknown>) => void;
 };
 
+/**
+ * Client address used for per-IP limits.
+ */
+const clientIp = (req: HttpRequest): string => req.ipAddress ?? "unknown";
+
 /**
  * Register all auth routes on the given router.
  * 
@@ -32,25 +78,91 @@ type LoggerLike = {
  */
 export function registerAuthRoutes(
   router: Router,
-  services: { auth: AuthService },
+  services: AuthServices & { auth: AuthService; rateLimiter?: RateLimiter; refreshCookie?: RefreshCookiePolicy },
   logger: LoggerLike
 ): void {
-  // Create controllers
-  const loginController = createLoginController(services.auth);
-  const registerController = createRegisterController(services.auth);
-  const refreshController = createRefreshController(services.auth);
-  const logoutController = createLogoutController(services.auth);
-  const listSessionsController = createListSessionsController(services.auth);
+  const { rateLimiter, refreshCookie } = services;
+
+  // Refresh budgets are per session; unparseable tokens are rejected by the controller anyway
+  const refreshKey = async (req: HttpRequest): Promise<string | null> => {
+    const refreshToken = (req.body as { refreshToken?: unknown } | null)?.refreshToken ?? readRefreshCookie(req, refreshCookie);
+    if (typeof refreshToken !== "string") return null;
+    const claims = await services.tokenManager.parseRefreshToken(refreshToken);
+    return claims ? getRefreshRateLimitKey(claims.sessionId) : null;
+  };
+
+  // Create controllers; endpoints that accept guesses or send email are throttled
+  const loginController = withRateLimit(rateLimiter, "loginAttemptsPerIp",
+    (req) => getLoginRateLimitKey(clientIp(req)), createLoginController(services.auth, refreshCookie));
+  const registerController = withRateLimit(rateLimiter, "registrationAttemptsPerIp",
+    (req) => getRegistrationRateLimitKey(clientIp(req)), createRegisterController(services.auth, refreshCookie));
+  const refreshController = withRateLimit(rateLimiter, "refreshAttemptsPerSession",
+    refreshKey, createRefreshController(services.auth, refreshCookie));
+  const logoutController = createLogoutController(services.auth, refreshCookie);
+  const listSessionsController = createListSessionsController(services.auth, services);
+  const revokeSessionController = createRevokeSessionController(services.auth, services);
   const revokeAllSessionsController = createRevokeAllSessionsController(services.auth);
+  const mfaVerifyController = createMfaVerifyController(services.auth, refreshCookie);
+  const mfaStatusController = createMfaStatusController(services.auth, services);
+  const mfaEnrollController = createMfaEnrollController(services.auth, services);
+  const mfaConfirmController = createMfaConfirmController(services.auth, services, refreshCookie);
+  const recoveryCodesController = createRecoveryCodesController(services.auth, services);
+  const mfaDisableController = createMfaDisableController(services.auth, services);
+  const verifyEmailController = createVerifyEmailController(services.auth);
+  const resendVerificationController = createResendVerificationController(services.auth);
+  const forgotPasswordController = withRateLimit(rateLimiter, "resetAttemptsPerIp",
+    (req) => getResetRateLimitKey(clientIp(req)), createForgotPasswordController(services.auth));
+  const resetPasswordController = createResetPasswordController(services.auth);
+  const changePasswordController = createChangePasswordController(services.auth, services);
+  const listDevicesController = createListDevicesController(services.auth, services);
+  const renameDeviceController = createRenameDeviceController(services.auth, services);
+  const revokeDeviceController = createRevokeDeviceController(services.auth, services);
+  const verifyDeviceController = createVerifyDeviceController(services.auth);
+  const createApiKeyController = createCreateApiKeyController(services.auth, services);
+  const listApiKeysController = createListApiKeysController(services.auth, services);
+  const revokeApiKeyController = createRevokeApiKeyController(services.auth, services);
+  const jwksController = createJwksController(services.tokenManager);
 
   // Register routes
   // Authentication endpoints
   router.route("POST", "/auth/login", loginController);
   router.route("POST", "/auth/register", registerController);
   router.route("POST", "/auth/refresh", refreshController);
+  router.route("POST", "/auth/mfa/verify", mfaVerifyController);
+
+  // Email verification endpoints
+  router.route("POST", "/auth/verify-email", verifyEmailController);
+  router.route("POST", "/auth/verify-email/resend", resendVerificationController);
+
+  // Password reset and change endpoints
+  router.route("POST", "/auth/password/forgot", forgotPasswordController);
+  router.route("POST", "/auth/password/reset", resetPasswordController);
+  router.route("POST", "/auth/password/change", changePasswordController);
   
   // Session management endpoints
   router.route("POST", "/auth/logout", logoutController);
   router.route("POST", "/auth/logout-all", revokeAllSessionsController);
   router.route("GET", "/auth/sessions", listSessionsController);
+  router.route("DELETE", "/auth/sessions/:id", revokeSessionController);
+
+  // Device management endpoints
+  router.route("GET", "/auth/devices", listDevicesController);
+  router.route("POST", "/auth/devices/verify", verifyDeviceController);
+  router.route("PATCH", "/auth/devices/:id", renameDeviceController);
+  router.route("DELETE", "/auth/devices/:id", revokeDeviceController);
+
+  // MFA management endpoints
+  router.route("GET", "/auth/mfa", mfaStatusController);
+  router.route("POST", "/auth/mfa/enroll", mfaEnrollController);
+  router.route("POST", "/auth/mfa/enroll/confirm", mfaConfirmController);
+  router.route("POST", "/auth/mfa/recovery-codes", recoveryCodesController);
+  router.route("POST", "/auth/mfa/disable", mfaDisableController);
+
+  // API key management endpoints
+  router.route("GET", "/auth/api-keys", listApiKeysController);
+  router.route("POST", "/auth/api-keys", createApiKeyController);
+  router.route("DELETE", "/auth/api-keys/:id", revokeApiKeyController);
+
+  // Key discovery for services that verify access tokens
+  router.route("GET", "/.well-known/jwks.json", jwksController);
 }
@@ -2,12 +2,18 @@
  * Anomaly Detection Service.
  * 
  * Detects suspicious authentication patterns and potential security threats.
- * Includes token reuse detection, impossible travel, and concurrent sessions.
+ * Includes token reuse detection, impossible travel, concurrent locations and
+ * device or IP changes. State lives in an `AnomalyStore` so replicas can share it.
  */
 
 import type { AnomalyDetectionPolicy } from "../core/auth.policies.js";
 import type { UUID } from "../core/auth.types.js";
 
+const MAX_RECORDED_ANOMALIES = 1000;
+const MAX_SIGHTINGS_PER_USER = 20;
+const SIGHTING_TTL_MS = 90 * 24 * 60 * 60 * 1000; // 90 days
+const TOKEN_USAGE_TTL_MS = 60 * 60 * 1000; // 1 hour
+
 /**
  * Anomaly type.
  */
@@ -59,18 +65,180 @@ export interface Location {
   timestamp: number;
 }
 
+/**
+ * Coordinates without a timestamp.
+ */
+export type GeoPoint = Omit<Location, "timestamp">;
+
+/**
+ * Resolves an IP address to coordinates (GeoIP database or service).
+ */
+export interface GeoLocator {
+  locate(ipAddress: string): Promise<GeoPoint | null>;
+}
+
+/**
+ * A user seen on a device from an IP address.
+ */
+export interface DeviceSighting {
+  /** Device and address; a newer sighting with the same key replaces the older one */
+  key: string;
+  sessionId?: UUID;
+  ipAddress?: string;
+  fingerprint?: string;
+  location?: GeoPoint;
+  /** Epoch milliseconds */
+  seenAt: number;
+}
+
+/**
+ * Where anomaly detection state lives: recent sightings per user, refresh token
+ * usage counts and the history of recorded anomalies.
+ */
+export interface AnomalyStore {
+  /** Recent sightings of the user, newest first */
+  getSightings(userId: UUID): Promise<DeviceSighting[]>;
+  /** Save a sighting, replacing one with the same key and keeping only the newest `limit` */
+  saveSighting(userId: UUID, sighting: DeviceSighting, options: { limit: number; ttlMs: number }): Promise<void>;
+  clearSightings(userId: UUID): Promise<void>;
+  /** Count a use of the token; returns the uses within `ttlMs`, including this one */
+  countTokenUse(tokenHash: string, ttlMs: number): Promise<number>;
+  /** Keep an anomaly, dropping the oldest beyond `limit` */
+  saveAnomaly(anomaly: Anomaly, limit: number): Promise<void>;
+  /** Recorded anomalies, oldest first */
+  listAnomalies(userId?: UUID): Promise<Anomaly[]>;
+  close?(): Promise<void>;
+}
+
+/**
+ * Process-local store. State is lost on restart and not shared between replicas.
+ */
+export class InMemoryAnomalyStore implements AnomalyStore {
+  private readonly sightings = new Map<UUID, { entries: DeviceSighting[]; expiresAt: number }>();
+  private readonly tokenUsage = new Map<string, { uses: number; expiresAt: number }>();
+  private readonly anomalies: Anomaly[] = [];
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async getSightings(userId: UUID): Promise<DeviceSighting[]> {
+    const stored = this.sightings.get(userId);
+    if (!stored || stored.expiresAt <= this.now()) {
+      this.sightings.delete(userId);
+      return [];
+    }
+    return [...stored.entries];
+  }
+
+  async saveSighting(userId: UUID, sighting: DeviceSighting, options: { limit: number; ttlMs: number }): Promise<void> {
+    const others = (await this.getSightings(userId)).filter((entry) => entry.key !== sighting.key);
+    this.sightings.set(userId, {
+      entries: [sighting, ...others].slice(0, options.limit),
+      expiresAt: this.now() + options.ttlMs,
+    });
+  }
+
+  async clearSightings(userId: UUID): Promise<void> {
+    this.sightings.delete(userId);
+  }
+
+  async countTokenUse(tokenHash: string, ttlMs: number): Promise<number> {
+    const now = this.now();
+    const current = this.tokenUsage.get(tokenHash);
+    const uses = current && current.expiresAt > now ? current.uses + 1 : 1;
+    this.tokenUsage.set(tokenHash, { uses, expiresAt: current && current.expiresAt > now ? current.expiresAt : now + ttlMs });
+    return uses;
+  }
+
+  async saveAnomaly(anomaly: Anomaly, limit: number): Promise<void> {
+    this.anomalies.push(anomaly);
+    if (this.anomalies.length > limit) {
+      this.anomalies.splice(0, this.anomalies.length - limit);
+    }
+  }
+
+  async listAnomalies(userId?: UUID): Promise<Anomaly[]> {
+    return userId ? this.anomalies.filter((anomaly) => anomaly.userId === userId) : [...this.anomalies];
+  }
+}
+
+/**
+ * A sign-in or refresh being evaluated.
+ */
+export interface AuthActivity {
+  kind: "login" | "refresh";
+  userId: UUID;
+  sessionId?: UUID;
+  ipAddress?: string;
+  fingerprint?: string;
+  /** Device and address the session was last used from (refresh only) */
+  previous?: { ipAddress?: string; fingerprint?: string };
+}
+
+export type AnomalyResponse = "allow" | "challenge" | "block";
+
+export interface AnomalyDetectorOptions {
+  /** Impossible travel and concurrent locations are only checked with a locator */
+  geoLocator?: GeoLocator;
+  now?: () => number;
+}
+
+const SEVERITY_RANK: Record<Anomaly["severity"], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
 /**
  * Anomaly Detector.
  * Monitors authentication patterns for suspicious activity.
  */
 export class AnomalyDetector {
-  // Track token usage to detect reuse
-  private readonly tokenUsage = new Map<string, number>();
-  
-  // Track user locations for impossible travel detection
-  private readonly userLocations = new Map<UUID, Location[]>();
+  private readonly now: () => number;
+
+  constructor(
+    private readonly policy: AnomalyDetectionPolicy,
+    private readonly store: AnomalyStore = new InMemoryAnomalyStore(),
+    private readonly options: AnomalyDetectorOptions = {},
+  ) {
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Evaluate a sign-in or refresh against the user's recent sightings, then
+   * remember this one. Detected anomalies are recorded and returned.
+   */
+  async evaluate(activity: AuthActivity): Promise<Anomaly[]> {
+    if (!this.policy.enabled) {
+      return [];
+    }
 
-  constructor(private readonly policy: AnomalyDetectionPolicy) {}
+    const now = this.now();
+    const location = activity.ipAddress && this.options.geoLocator
+      ? await this.options.geoLocator.locate(activity.ipAddress).catch(() => null)
+      : null;
+    const sightings = await this.store.getSightings(activity.userId);
+    const key = `${activity.fingerprint ?? "-"}@${activity.ipAddress ?? "-"}`;
+
+    const anomalies = [
+      this.checkDeviceChange(activity, sightings),
+      this.checkIpChange(activity, sightings),
+      location ? this.checkImpossibleTravel(activity, sightings, { ...location, timestamp: now }) : null,
+      location ? this.checkConcurrentLocations(activity, sightings, key, { ...location, timestamp: now }) : null,
+    ].filter((anomaly): anomaly is Anomaly => anomaly !== null);
+
+    await this.store.saveSighting(
+      activity.userId,
+      {
+        key,
+        sessionId: activity.sessionId,
+        ipAddress: activity.ipAddress,
+        fingerprint: activity.fingerprint,
+        location: location ?? undefined,
+        seenAt: now,
+      },
+      { limit: MAX_SIGHTINGS_PER_USER, ttlMs: SIGHTING_TTL_MS },
+    );
+    for (const anomaly of anomalies) {
+      await this.record(anomaly);
+    }
+    return anomalies;
+  }
 
   /**
    * Check for token reuse anomaly.
@@ -79,17 +247,15 @@ export class AnomalyDetector {
    * @param tokenHash - Hash of the token
    * @returns Anomaly if detected, null otherwise
    */
-  checkTokenReuse(tokenHash: string, userId: UUID, sessionId: UUID): Anomaly | null {
+  async checkTokenReuse(tokenHash: string, userId: UUID, sessionId: UUID): Promise<Anomaly | null> {
     if (!this.policy.enabled || !this.policy.detectTokenReuse) {
       return null;
     }
 
-    const usageCount = this.tokenUsage.get(tokenHash) || 0;
-    this.tokenUsage.set(tokenHash, usageCount + 1);
-
-    if (usageCount > 0) {
+    const uses = await this.store.countTokenUse(tokenHash, TOKEN_USAGE_TTL_MS);
+    if (uses > 1) {
       // Token has been used before - potential theft
-      return {
+      return this.record({
         type: "TOKEN_REUSE",
         severity: "critical",
         description: "Refresh token was reused, indicating possible token theft",
@@ -97,40 +263,128 @@ export class AnomalyDetector {
         sessionId,
         metadata: {
           tokenHash: tokenHash.substring(0, 8) + "...", // Partial hash for logging
-          usageCount: usageCount + 1,
+          usageCount: uses,
         },
-        detectedAt: new Date().toISOString(),
-      };
+        detectedAt: new Date(this.now()).toISOString(),
+      });
     }
 
     return null;
   }
 
   /**
-   * Check for impossible travel anomaly.
-   * Detects logins from locations that are impossibly far apart in time.
+   * Record a refresh token that was presented after it had been rotated.
+   * Unlike `checkTokenReuse`, the caller has already established the reuse
+   * (from the session version), so this only builds and records the anomaly.
    * 
-   * @param userId - User ID
-   * @param currentLocation - Current login location
-   * @returns Anomaly if detected, null otherwise
+   * @returns The recorded anomaly, or null when token reuse detection is off
    */
-  checkImpossibleTravel(userId: UUID, currentLocation: Location): Anomaly | null {
-    if (!this.policy.enabled || !this.policy.detectImpossibleTravel) {
+  async reportTokenReuse(userId: UUID, sessionId: UUID, metadata?: Record<string, unknown>): Promise<Anomaly | null> {
+    if (!this.policy.enabled || !this.policy.detectTokenReuse) {
       return null;
     }
 
-    const locations = this.userLocations.get(userId) || [];
-    
-    // Add current location to history
-    locations.push(currentLocation);
-    this.userLocations.set(userId, locations.slice(-10)); // Keep last 10 locations
+    return this.record({
+      type: "TOKEN_REUSE",
+      severity: "critical",
+      description: "Rotated refresh token was presented again, indicating possible token theft",
+      userId,
+      sessionId,
+      metadata,
+      detectedAt: new Date(this.now()).toISOString(),
+    });
+  }
+
+  /**
+   * Keep an anomaly in the bounded history.
+   */
+  async record(anomaly: Anomaly): Promise<Anomaly> {
+    await this.store.saveAnomaly(anomaly, MAX_RECORDED_ANOMALIES);
+    return anomaly;
+  }
 
-    // Need at least 2 locations to detect travel
-    if (locations.length < 2) {
+  /**
+   * Recently recorded anomalies, optionally for one user.
+   */
+  getRecordedAnomalies(userId?: UUID): Promise<Anomaly[]> {
+    return this.store.listAnomalies(userId);
+  }
+
+  /**
+   * New device at sign-in, or a session carried over to another device.
+   */
+  private checkDeviceChange(activity: AuthActivity, sightings: DeviceSighting[]): Anomaly | null {
+    if (!this.policy.detectDeviceChange || !activity.fingerprint) {
       return null;
     }
 
-    const previousLocation = locations[locations.length - 2];
+    if (activity.kind === "refresh") {
+      const previous = activity.previous?.fingerprint;
+      if (!previous || previous === activity.fingerprint) {
+        return null;
+      }
+      return this.build(activity, "DEVICE_CHANGE", "high", "Session was used from a different device than it was opened on", {
+        previousFingerprint: previous.substring(0, 8),
+        fingerprint: activity.fingerprint.substring(0, 8),
+      });
+    }
+
+    const known = sightings.filter((sighting) => sighting.fingerprint);
+    if (!known.length || known.some((sighting) => sighting.fingerprint === activity.fingerprint)) {
+      return null;
+    }
+    return this.build(activity, "DEVICE_CHANGE", "medium", "Sign-in from a device not seen before", {
+      fingerprint: activity.fingerprint.substring(0, 8),
+    });
+  }
+
+  /**
+   * New IP address at sign-in, or a session moving between addresses.
+   */
+  private checkIpChange(activity: AuthActivity, sightings: DeviceSighting[]): Anomaly | null {
+    if (!this.policy.detectIpChange || !activity.ipAddress) {
+      return null;
+    }
+
+    if (activity.kind === "refresh") {
+      const previous = activity.previous?.ipAddress;
+      if (!previous || previous === activity.ipAddress) {
+        return null;
+      }
+      return this.build(activity, "IP_CHANGE", "low", "Session moved to another IP address", {
+        previousIpAddress: previous,
+        ipAddress: activity.ipAddress,
+      });
+    }
+
+    const known = sightings.filter((sighting) => sighting.ipAddress);
+    if (!known.length || known.some((sighting) => sighting.ipAddress === activity.ipAddress)) {
+      return null;
+    }
+    return this.build(activity, "IP_CHANGE", "low", "Sign-in from an IP address not seen before", {
+      ipAddress: activity.ipAddress,
+    });
+  }
+
+  /**
+   * Check for impossible travel anomaly.
+   * Detects activity from locations that are impossibly far apart in time.
+   */
+  private checkImpossibleTravel(
+    activity: AuthActivity,
+    sightings: DeviceSighting[],
+    currentLocation: Location,
+  ): Anomaly | null {
+    if (!this.policy.detectImpossibleTravel) {
+      return null;
+    }
+
+    // Compare with the most recent sighting that could be located
+    const previous = sightings.find((sighting) => sighting.location);
+    if (!previous?.location) {
+      return null;
+    }
+    const previousLocation: Location = { ...previous.location, timestamp: previous.seenAt };
     
     // Calculate distance in kilometers
     const distance = this.calculateDistance(
@@ -148,12 +402,12 @@ export class AnomalyDetector {
 
     // Check if travel is impossible
     if (speed > this.policy.maxTravelSpeedKmh) {
-      return {
-        type: "IMPOSSIBLE_TRAVEL",
-        severity: "high",
-        description: `Login from ${distance.toFixed(0)}km away in ${timeDiff.toFixed(1)} hours (${speed.toFixed(0)} km/h)`,
-        userId,
-        metadata: {
+      return this.build(
+        activity,
+        "IMPOSSIBLE_TRAVEL",
+        "high",
+        `Login from ${distance.toFixed(0)}km away in ${timeDiff.toFixed(1)} hours (${speed.toFixed(0)} km/h)`,
+        {
           distance: distance.toFixed(2),
           timeDiff: timeDiff.toFixed(2),
           speed: speed.toFixed(2),
@@ -167,13 +421,66 @@ export class AnomalyDetector {
             lon: currentLocation.lon,
           },
         },
-        detectedAt: new Date().toISOString(),
-      };
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Another device or address in active use far away at the same time.
+   */
+  private checkConcurrentLocations(
+    activity: AuthActivity,
+    sightings: DeviceSighting[],
+    key: string,
+    currentLocation: Location,
+  ): Anomaly | null {
+    if (!this.policy.detectConcurrentLocations) {
+      return null;
+    }
+
+    const windowStart = currentLocation.timestamp - this.policy.concurrentLocationWindowSeconds * 1000;
+    for (const sighting of sightings) {
+      if (sighting.key === key || !sighting.location || sighting.seenAt < windowStart) {
+        continue;
+      }
+      const distance = this.calculateDistance(
+        sighting.location.lat,
+        sighting.location.lon,
+        currentLocation.lat,
+        currentLocation.lon,
+      );
+      if (distance >= this.policy.concurrentLocationMinDistanceKm) {
+        return this.build(activity, "CONCURRENT_LOCATIONS", "medium", `Active ${distance.toFixed(0)}km apart at the same time`, {
+          distance: distance.toFixed(2),
+          otherSessionId: sighting.sessionId,
+          otherIpAddress: sighting.ipAddress,
+        });
+      }
     }
 
     return null;
   }
 
+  private build(
+    activity: AuthActivity,
+    type: AnomalyType,
+    severity: Anomaly["severity"],
+    description: string,
+    metadata: Record<string, unknown>,
+  ): Anomaly {
+    return {
+      type,
+      severity,
+      description,
+      userId: activity.userId,
+      sessionId: activity.sessionId,
+      metadata: { activity: activity.kind, ...metadata },
+      detectedAt: new Date(this.now()).toISOString(),
+    };
+  }
+
   /**
    * Calculate distance between two coordinates using Haversine formula.
    * 
@@ -208,12 +515,13 @@ export class AnomalyDetector {
 
   /**
    * Handle detected anomaly according to policy.
+   * Anomalies below `actionSeverity` are always allowed.
    * 
    * @param anomaly - Detected anomaly
    * @returns Action to take
    */
-  handleAnomaly(anomaly: Anomaly): "allow" | "challenge" | "block" {
-    if (!this.policy.enabled) {
+  handleAnomaly(anomaly: Anomaly): AnomalyResponse {
+    if (!this.policy.enabled || SEVERITY_RANK[anomaly.severity] < SEVERITY_RANK[this.policy.actionSeverity]) {
       return "allow";
     }
 
@@ -232,44 +540,31 @@ export class AnomalyDetector {
   }
 
   /**
-   * Clear token usage tracking for cleanup.
+   * Whether the anomaly should go to the security alert sinks rather than only the log.
    */
-  clearTokenUsage(tokenHash: string): void {
-    this.tokenUsage.delete(tokenHash);
+  shouldAlert(anomaly: Anomaly): boolean {
+    return (
+      this.policy.enabled &&
+      this.policy.onAnomalyDetected !== "log" &&
+      SEVERITY_RANK[anomaly.severity] >= SEVERITY_RANK[this.policy.actionSeverity]
+    );
   }
 
   /**
    * Clear location history for a user.
    */
-  clearLocationHistory(userId: UUID): void {
-    this.userLocations.delete(userId);
-  }
-
-  /**
-   * Clean up old data to prevent memory leaks.
-   */
-  cleanup(): void {
-    // Clear token usage older than 1 hour
-    // In production, this should be based on token TTL
-    const oneHourAgo = Date.now() - 60 * 60 * 1000;
-    
-    // Clear old locations
-    for (const [userId, locations] of this.userLocations.entries()) {
-      const recentLocations = locations.filter(
-        (loc) => loc.timestamp > oneHourAgo
-      );
-      if (recentLocations.length === 0) {
-        this.userLocations.delete(userId);
-      } else {
-        this.userLocations.set(userId, recentLocations);
-      }
-    }
+  clearLocationHistory(userId: UUID): Promise<void> {
+    return this.store.clearSightings(userId);
   }
 }
 
 /**
  * Factory function to create an anomaly detector.
  */
-export function createAnomalyDetector(policy: AnomalyDetectionPolicy): AnomalyDetector {
-  return new AnomalyDetector(policy);
+export function createAnomalyDetector(
+  policy: AnomalyDetectionPolicy,
+  store?: AnomalyStore,
+  options?: AnomalyDetectorOptions,
+): AnomalyDetector {
+  return new AnomalyDetector(policy, store, options);
 }
@@ -0,0 +1,89 @@
+/**
+ * Redis Anomaly Store.
+ *
+ * Shares anomaly detection state between backend replicas: a hash of recent
+ * sightings per user, a counter per refresh token and a capped list of
+ * recorded anomalies. Keys carry TTLs so nothing needs a sweeper.
+ */
+
+import type { Redis } from "ioredis";
+import type { UUID } from "../core/auth.types.js";
+import type { Anomaly, AnomalyStore, DeviceSighting } from "./anomaly.detector.js";
+
+// INCR and PEXPIRE in one round trip so a crash between them cannot leave a counter without a TTL
+const INCREMENT_SCRIPT = `
+local uses = redis.call("INCR", KEYS[1])
+if uses == 1 then
+  redis.call("PEXPIRE", KEYS[1], ARGV[1])
+end
+return uses
+`;
+
+export interface RedisAnomalyStoreOptions {
+  /** Prefix for every key (`RedisConfig.keyPrefix`) */
+  keyPrefix?: string;
+}
+
+export class RedisAnomalyStore implements AnomalyStore {
+  private readonly keyPrefix: string;
+
+  constructor(
+    private readonly redis: Redis,
+    options: RedisAnomalyStoreOptions = {},
+  ) {
+    this.keyPrefix = options.keyPrefix ?? "auth:";
+  }
+
+  async getSightings(userId: UUID): Promise<DeviceSighting[]> {
+    const values = await this.redis.hvals(this.sightingsKey(userId));
+    return values
+      .map((value) => JSON.parse(value) as DeviceSighting)
+      .sort((a, b) => b.seenAt - a.seenAt);
+  }
+
+  async saveSighting(userId: UUID, sighting: DeviceSighting, options: { limit: number; ttlMs: number }): Promise<void> {
+    const key = this.sightingsKey(userId);
+    const stale = (await this.getSightings(userId))
+      .filter((entry) => entry.key !== sighting.key)
+      .slice(options.limit - 1)
+      .map((entry) => entry.key);
+
+    const transaction = this.redis.multi().hset(key, sighting.key, JSON.stringify(sighting));
+    if (stale.length) {
+      transaction.hdel(key, ...stale);
+    }
+    await transaction.pexpire(key, options.ttlMs).exec();
+  }
+
+  async clearSightings(userId: UUID): Promise<void> {
+    await this.redis.del(this.sightingsKey(userId));
+  }
+
+  async countTokenUse(tokenHash: string, ttlMs: number): Promise<number> {
+    return Number(await this.redis.eval(INCREMENT_SCRIPT, 1, `${this.keyPrefix}anomaly:token:${tokenHash}`, ttlMs));
+  }
+
+  async saveAnomaly(anomaly: Anomaly, limit: number): Promise<void> {
+    const key = this.anomaliesKey();
+    await this.redis.multi().rpush(key, JSON.stringify(anomaly)).ltrim(key, -limit, -1).exec();
+  }
+
+  async listAnomalies(userId?: UUID): Promise<Anomaly[]> {
+    const anomalies = (await this.redis.lrange(this.anomaliesKey(), 0, -1)).map(
+      (value) => JSON.parse(value) as Anomaly,
+    );
+    return userId ? anomalies.filter((anomaly) => anomaly.userId === userId) : anomalies;
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  private sightingsKey(userId: UUID): string {
+    return `${this.keyPrefix}anomaly:sightings:${userId}`;
+  }
+
+  private anomaliesKey(): string {
+    return `${this.keyPrefix}anomaly:recorded`;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Redis API Key Nonce Store.
+ *
+ * Shares seen nonces between backend replicas so a signed request cannot be replayed
+ * against another one. Each nonce is a key set with NX and a TTL covering the signature window.
+ */
+
+import type { Redis } from "ioredis";
+import type { ApiKeyNonceStore } from "./api.keys.js";
+
+export interface RedisApiKeyNonceStoreOptions {
+  /** Prefix for every key (`RedisConfig.keyPrefix`) */
+  keyPrefix?: string;
+}
+
+export class RedisApiKeyNonceStore implements ApiKeyNonceStore {
+  private readonly keyPrefix: string;
+
+  constructor(
+    private readonly redis: Redis,
+    options: RedisApiKeyNonceStoreOptions = {},
+  ) {
+    this.keyPrefix = options.keyPrefix ?? "auth:";
+  }
+
+  async remember(key: string, ttlMs: number): Promise<boolean> {
+    const result = await this.redis.set(`${this.keyPrefix}apikey:nonce:${key}`, "1", "PX", ttlMs, "NX");
+    return result === "OK";
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
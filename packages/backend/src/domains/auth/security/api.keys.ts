@@ -0,0 +1,337 @@
+/**
+ * API Keys.
+ *
+ * User-managed keys for programmatic access (trading bots, scripts) so no human password is
+ * ever embedded in a client. A key is a public id plus a secret shown once at creation. Every
+ * request is signed: HMAC-SHA256 over the timestamp, a nonce, the method, the path with its
+ * query string and the SHA-256 of the raw body, sent in the `X-API-*` headers below.
+ *
+ * The server must recompute the signature, so secrets are encrypted at rest (AES-256-GCM)
+ * instead of hashed. Requests outside `signatureToleranceSeconds` of server time are refused
+ * and each nonce is accepted once within that window, which stops replays.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import { BlockList, isIP } from "node:net";
+import type { Clock, IdFactory } from "../core/auth.service.js";
+import type { ApiKeyPolicy } from "../core/auth.policies.js";
+import type { ApiKey, ApiKeyRepository, ApiKeyScope, UserRepository, UserRole, UUID } from "../core/auth.types.js";
+import type { Logger } from "../../../config/logger.js";
+import { AuthError } from "../core/auth.errors.js";
+import { ExpiringMap } from "./expiring.map.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KEY_ID_PREFIX = "bhk_";
+const SECRET_BYTES = 32;
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = ["read", "trade", "withdraw"];
+
+/**
+ * Request headers of a signed request (lower-case, as `HttpRequest.headers` holds them).
+ */
+export const API_KEY_HEADERS = {
+  key: "x-api-key",
+  timestamp: "x-api-timestamp",
+  nonce: "x-api-nonce",
+  signature: "x-api-signature",
+} as const;
+
+/**
+ * The parts of a request covered by its signature.
+ */
+export interface ApiRequestSignatureParts {
+  /** Milliseconds since the epoch, as sent in `X-API-Timestamp` */
+  timestamp: string;
+  nonce: string;
+  method: string;
+  /** Path and query string exactly as sent, e.g. `/orders?status=open` */
+  url: string;
+  /** Raw request body; empty for requests without one */
+  body: string;
+}
+
+/**
+ * `timestamp \n nonce \n METHOD \n url \n hex(sha256(body))`, the string clients sign.
+ */
+export function buildApiSignaturePayload(parts: ApiRequestSignatureParts): string {
+  const bodyDigest = createHash("sha256").update(parts.body).digest("hex");
+  return [parts.timestamp, parts.nonce, parts.method.toUpperCase(), parts.url, bodyDigest].join("\n");
+}
+
+/**
+ * Hex HMAC-SHA256 of the signature payload.
+ */
+export function signApiRequest(secret: string, parts: ApiRequestSignatureParts): string {
+  return createHmac("sha256", secret).update(buildApiSignaturePayload(parts)).digest("hex");
+}
+
+/**
+ * Symmetric encryption for secrets the server needs back in plain text.
+ */
+export interface SecretBox {
+  seal(plain: string): string;
+  open(sealed: string): string;
+}
+
+/**
+ * AES-256-GCM keyed by the SHA-256 of `key`. Sealed values are `iv.tag.ciphertext` in base64url.
+ */
+export function createSecretBox(key: string): SecretBox {
+  const cipherKey = createHash("sha256").update(key).digest();
+  return {
+    seal(plain) {
+      const iv = randomBytes(12);
+      const cipher = createCipheriv("aes-256-gcm", cipherKey, iv);
+      const ciphertext = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+      return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64url")).join(".");
+    },
+    open(sealed) {
+      const [iv, tag, ciphertext] = sealed.split(".").map((part) => Buffer.from(part, "base64url"));
+      if (!iv || !tag || !ciphertext) throw new Error("Malformed sealed secret");
+      const decipher = createDecipheriv("aes-256-gcm", cipherKey, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+    },
+  };
+}
+
+/**
+ * Remembers nonces for the signature window. Shared (Redis) across replicas, or a nonce could
+ * be replayed against another replica.
+ */
+export interface ApiKeyNonceStore {
+  /** Record the nonce; false when it was already seen and has not expired. */
+  remember(key: string, ttlMs: number): Promise<boolean>;
+
+  /** Release timers or connections. */
+  close?(): Promise<void> | void;
+}
+
+/**
+ * In-memory store, see {@link ExpiringMap}.
+ */
+export class InMemoryApiKeyNonceStore implements ApiKeyNonceStore {
+  private readonly nonces: ExpiringMap<{ expiresAt: number }>;
+
+  constructor(private readonly now: () => number = Date.now) {
+    this.nonces = new ExpiringMap(now);
+  }
+
+  async remember(key: string, ttlMs: number): Promise<boolean> {
+    if (this.nonces.get(key)) return false;
+    this.nonces.set(key, { expiresAt: this.now() + ttlMs });
+    return true;
+  }
+
+  close(): void {
+    this.nonces.close();
+  }
+}
+
+/**
+ * A request as the key manager needs it to check a signature.
+ */
+export interface SignedApiRequest {
+  method: string;
+  url: string;
+  rawBody?: string;
+  headers: Record<string, string | undefined>;
+  ipAddress?: string;
+}
+
+/**
+ * Who a verified request acts for.
+ */
+export interface ApiKeyPrincipal {
+  apiKeyId: UUID;
+  userId: UUID;
+  role: UserRole;
+  scopes: ApiKeyScope[];
+}
+
+export interface ApiKeyOptions {
+  label: string;
+  scopes: ApiKeyScope[];
+  allowedIps?: string[];
+  /** Omit for a key that never expires */
+  expiresInDays?: number;
+}
+
+export interface ApiKeyManagerDependencies {
+  repository: ApiKeyRepository;
+  userRepository: UserRepository;
+  secretBox: SecretBox;
+  nonceStore: ApiKeyNonceStore;
+  policy: ApiKeyPolicy;
+  clock?: Clock;
+  idFactory?: IdFactory;
+  logger?: Logger;
+}
+
+export interface ApiKeyManager {
+  readonly policy: ApiKeyPolicy;
+  /** The secret is returned here and never again. */
+  create(userId: UUID, options: ApiKeyOptions): Promise<{ apiKey: ApiKey; secret: string }>;
+  list(userId: UUID): Promise<ApiKey[]>;
+  /** `API_KEY_NOT_FOUND` unless the user owns the key and it is not revoked yet. */
+  revoke(userId: UUID, id: UUID): Promise<ApiKey>;
+  /** Null unless the request is correctly signed, fresh, unreplayed and by a usable key holding `scope`. */
+  authenticate(request: SignedApiRequest, scope: ApiKeyScope): Promise<ApiKeyPrincipal | null>;
+}
+
+/** Sockets report IPv4 clients on dual-stack listeners as `::ffff:a.b.c.d`. */
+const normalizeIp = (ip: string): string => {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  return mapped?.[1] ?? ip;
+};
+
+/**
+ * Parse an allowlist entry (an address or CIDR range); null when it is neither.
+ */
+export function parseAllowedIp(entry: string): { address: string; prefix?: number; family: "ipv4" | "ipv6" } | null {
+  const [address = "", prefixText, ...rest] = entry.trim().split("/");
+  const version = isIP(address);
+  if (!version || rest.length) return null;
+  const family = version === 4 ? "ipv4" : "ipv6";
+  if (prefixText === undefined) return { address, family };
+
+  const prefix = Number(prefixText);
+  if (!/^\d+$/.test(prefixText) || prefix > (version === 4 ? 32 : 128)) return null;
+  return { address, prefix, family };
+}
+
+const isAllowedIp = (allowedIps: string[], ipAddress: string | undefined): boolean => {
+  if (!ipAddress) return false;
+  const ip = normalizeIp(ipAddress);
+  const version = isIP(ip);
+  if (!version) return false;
+
+  const list = new BlockList();
+  for (const entry of allowedIps) {
+    const parsed = parseAllowedIp(entry);
+    if (!parsed) continue;
+    if (parsed.prefix === undefined) {
+      list.addAddress(parsed.address, parsed.family);
+    } else {
+      list.addSubnet(parsed.address, parsed.prefix, parsed.family);
+    }
+  }
+  return list.check(ip, version === 4 ? "ipv4" : "ipv6");
+};
+
+const signaturesMatch = (expected: string, received: string): boolean => {
+  const a = Buffer.from(expected, "utf8");
+  const b = Buffer.from(received.toLowerCase(), "utf8");
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+export const createApiKeyManager = (deps: ApiKeyManagerDependencies): ApiKeyManager => {
+  const {
+    repository,
+    userRepository,
+    secretBox,
+    nonceStore,
+    policy,
+    clock = { now: () => new Date() },
+    idFactory = () => randomUUID(),
+    logger,
+  } = deps;
+
+  const toleranceMs = policy.signatureToleranceSeconds * 1000;
+
+  const isUsable = (apiKey: ApiKey, now: Date): boolean =>
+    !apiKey.revokedAt && (!apiKey.expiresAt || new Date(apiKey.expiresAt) > now);
+
+  const create: ApiKeyManager["create"] = async (userId, input) => {
+    const invalidIp = input.allowedIps?.find((entry) => !parseAllowedIp(entry));
+    if (invalidIp !== undefined) {
+      throw new AuthError("VALIDATION_ERROR", `Invalid IP address or CIDR range: ${invalidIp}`);
+    }
+    if ((input.allowedIps?.length ?? 0) > policy.maxAllowedIps) {
+      throw new AuthError("VALIDATION_ERROR", `At most ${policy.maxAllowedIps} allowed IP entries`);
+    }
+    if (input.expiresInDays !== undefined && input.expiresInDays > policy.maxLifetimeDays) {
+      throw new AuthError("VALIDATION_ERROR", `API keys may live at most ${policy.maxLifetimeDays} days`);
+    }
+
+    const now = clock.now();
+    if ((await repository.countActiveByUser(userId, now.toISOString())) >= policy.maxKeysPerUser) {
+      throw new AuthError("API_KEY_LIMIT_REACHED");
+    }
+
+    const secret = randomBytes(SECRET_BYTES).toString("base64url");
+    const apiKey = await repository.create({
+      id: idFactory(),
+      userId,
+      keyId: `${KEY_ID_PREFIX}${randomBytes(16).toString("base64url")}`,
+      label: input.label,
+      scopes: [...new Set(input.scopes)],
+      allowedIps: input.allowedIps?.length ? input.allowedIps.map((entry) => entry.trim()) : undefined,
+      secretCiphertext: secretBox.seal(secret),
+      createdAt: now.toISOString(),
+      expiresAt: input.expiresInDays !== undefined
+        ? new Date(now.getTime() + input.expiresInDays * DAY_MS).toISOString()
+        : undefined,
+    });
+    return { apiKey, secret };
+  };
+
+  const list: ApiKeyManager["list"] = (userId) => repository.listByUser(userId);
+
+  const revoke: ApiKeyManager["revoke"] = async (userId, id) => {
+    const revoked = await repository.revoke(userId, id, clock.now().toISOString());
+    if (!revoked) {
+      throw new AuthError("API_KEY_NOT_FOUND");
+    }
+    return revoked;
+  };
+
+  const authenticate: ApiKeyManager["authenticate"] = async (request, scope) => {
+    if (!policy.enabled) return null;
+
+    const keyId = request.headers[API_KEY_HEADERS.key];
+    const timestamp = request.headers[API_KEY_HEADERS.timestamp];
+    const nonce = request.headers[API_KEY_HEADERS.nonce];
+    const signature = request.headers[API_KEY_HEADERS.signature];
+    if (!keyId || !timestamp || !nonce || !signature || !NONCE_PATTERN.test(nonce)) return null;
+
+    const now = clock.now();
+    const sentAt = Number(timestamp);
+    if (!/^\d+$/.test(timestamp) || Math.abs(now.getTime() - sentAt) > toleranceMs) return null;
+
+    const apiKey = await repository.getByKeyId(keyId);
+    if (!apiKey || !isUsable(apiKey, now)) return null;
+    if (apiKey.allowedIps?.length && !isAllowedIp(apiKey.allowedIps, request.ipAddress)) return null;
+
+    let secret: string;
+    try {
+      secret = secretBox.open(apiKey.secretCiphertext);
+    } catch (error) {
+      // Happens when AUTH_API_KEY_ENCRYPTION_KEY changed since the key was issued
+      logger?.error("API key secret could not be decrypted", { apiKeyId: apiKey.id, error: String(error) });
+      return null;
+    }
+    const expected = signApiRequest(secret, {
+      timestamp,
+      nonce,
+      method: request.method,
+      url: request.url,
+      body: request.rawBody ?? "",
+    });
+    if (!signaturesMatch(expected, signature)) return null;
+    if (!apiKey.scopes.includes(scope)) return null;
+
+    // Only correctly signed requests consume a nonce, so nobody can burn a client's nonces
+    if (!(await nonceStore.remember(`${apiKey.keyId}:${nonce}`, 2 * toleranceMs))) return null;
+
+    // Keys could only be created after signing in, so only accounts closed since then are refused
+    const user = await userRepository.findById(apiKey.userId);
+    if (!user || user.status === "suspended" || user.status === "deleted") return null;
+
+    await repository.touch(apiKey.id, { lastUsedAt: now.toISOString(), ipAddress: request.ipAddress });
+    return { apiKeyId: apiKey.id, userId: user.id, role: user.role, scopes: apiKey.scopes };
+  };
+
+  return { policy, create, list, revoke, authenticate };
+};
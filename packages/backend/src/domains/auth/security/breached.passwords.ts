@@ -0,0 +1,46 @@
+/**
+ * Breached Password List.
+ *
+ * An offline blocklist of leaked and common passwords, loaded once at boot so checks
+ * never leave the process. A file holds one entry per line: either a password in plain
+ * text (matched case-insensitively) or a SHA-1 digest as published by Have I Been Pwned
+ * (`HASH` or `HASH:count`, matched exactly). Blank lines and `#` comments are skipped.
+ */
+
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+
+const SHA1_ENTRY = /^([0-9a-f]{40})(?::\d+)?$/i;
+
+export interface BreachedPasswordList {
+  readonly size: number;
+  has(password: string): boolean;
+}
+
+const sha1 = (value: string): string => createHash("sha1").update(value).digest("hex").toUpperCase();
+
+export function createBreachedPasswordList(entries: Iterable<string>): BreachedPasswordList {
+  const plain = new Set<string>();
+  const digests = new Set<string>();
+
+  for (const raw of entries) {
+    const entry = raw.trim();
+    if (!entry || entry.startsWith("#")) continue;
+    const digest = SHA1_ENTRY.exec(entry);
+    if (digest?.[1]) {
+      digests.add(digest[1].toUpperCase());
+    } else {
+      plain.add(entry.toLowerCase());
+    }
+  }
+
+  return {
+    size: plain.size + digests.size,
+    has: (password) => plain.has(password.toLowerCase()) || (digests.size > 0 && digests.has(sha1(password))),
+  };
+}
+
+export async function loadBreachedPasswordList(path: string): Promise<BreachedPasswordList> {
+  const contents = await readFile(path, "utf8");
+  return createBreachedPasswordList(contents.split(/\r?\n/));
+}
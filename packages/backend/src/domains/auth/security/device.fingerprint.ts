@@ -194,9 +194,9 @@ export class DeviceFingerprinter {
 export function extractDeviceInfo(headers: Record<string, string | undefined>): DeviceInfo {
   return {
     userAgent: headers["user-agent"],
-    ipAddress: headers["x-forwarded-for"]?.split(",")[0].trim() || headers["x-real-ip"],
+    ipAddress: headers["x-forwarded-for"]?.split(",")[0]?.trim() || headers["x-real-ip"],
     platform: headers["sec-ch-ua-platform"]?.replace(/"/g, ""),
-    language: headers["accept-language"]?.split(",")[0].trim(),
+    language: headers["accept-language"]?.split(",")[0]?.trim(),
   };
 }
 
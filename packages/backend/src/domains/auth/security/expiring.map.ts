@@ -0,0 +1,50 @@
+/**
+ * Expiring Map.
+ *
+ * Backs the process-local stores (rate limit counters, API key nonces). Process-local state is
+ * fine for a single replica, local development and tests; use the Redis stores when several
+ * replicas must share it.
+ */
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Map whose entries carry their own expiry. Expired entries read as absent and a background
+ * sweep deletes them every minute.
+ */
+export class ExpiringMap<V extends { expiresAt: number }> {
+  private readonly entries = new Map<string, V>();
+  private readonly sweepInterval: NodeJS.Timeout;
+
+  constructor(private readonly now: () => number = Date.now) {
+    this.sweepInterval = setInterval(() => {
+      const now = this.now();
+      for (const [key, entry] of this.entries.entries()) {
+        if (now >= entry.expiresAt) this.entries.delete(key);
+      }
+    }, SWEEP_INTERVAL_MS);
+
+    // Don't prevent Node from exiting
+    this.sweepInterval.unref();
+  }
+
+  /** The entry for `key`, or undefined when there is none or it has expired. */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    return entry && this.now() < entry.expiresAt ? entry : undefined;
+  }
+
+  set(key: string, entry: V): void {
+    this.entries.set(key, entry);
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /** Stop the sweep and drop every entry. */
+  close(): void {
+    clearInterval(this.sweepInterval);
+    this.entries.clear();
+  }
+}
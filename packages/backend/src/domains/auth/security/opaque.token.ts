@@ -0,0 +1,19 @@
+/**
+ * Opaque single-use tokens (MFA challenges, email links).
+ *
+ * The raw token goes to the client once; only its SHA-256 digest is stored so a leaked
+ * table cannot be replayed. The tokens are 256-bit random values, so a fast digest is
+ * sufficient and lets the server look them up directly.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+
+const OPAQUE_TOKEN_BYTES = 32;
+
+export function generateOpaqueToken(): string {
+  return randomBytes(OPAQUE_TOKEN_BYTES).toString("base64url");
+}
+
+export function hashOpaqueToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
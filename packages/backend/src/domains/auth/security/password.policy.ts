@@ -8,6 +8,7 @@
 import type { PasswordPolicy } from "../core/auth.policies.js";
 import { validatePasswordAgainstPolicy, calculatePasswordEntropy } from "../core/auth.policies.js";
 import { AuthError } from "../core/auth.errors.js";
+import type { BreachedPasswordList } from "./breached.passwords.js";
 
 /**
  * Password validation result.
@@ -28,7 +29,7 @@ export interface PasswordValidationResult {
 
 /**
  * Common passwords list (top 100 most common).
- * In production, this should be loaded from a file or database.
+ * Larger breach corpora are loaded from a file (see `loadBreachedPasswordList`).
  */
 const COMMON_PASSWORDS = new Set([
   "password", "123456", "123456789", "12345678", "12345",
@@ -48,7 +49,21 @@ const COMMON_PASSWORDS = new Set([
  * Validates passwords according to security policies.
  */
 export class PasswordPolicyEnforcer {
-  constructor(private readonly policy: PasswordPolicy) {}
+  constructor(
+    readonly policy: PasswordPolicy,
+    private readonly breachedPasswords?: BreachedPasswordList,
+  ) {}
+
+  /**
+   * Validate a new password against the policy and the breached password list.
+   * Throws PASSWORD_TOO_WEAK or PASSWORD_BREACHED.
+   */
+  async enforce(password: string): Promise<void> {
+    this.validate(password);
+    if (await this.checkBreachedPassword(password)) {
+      throw new AuthError("PASSWORD_BREACHED");
+    }
+  }
 
   /**
    * Validate a password against the configured policy.
@@ -162,7 +177,7 @@ export class PasswordPolicyEnforcer {
 
   /**
    * Check if a password has been found in known breaches.
-   * This would typically call an external API like HaveIBeenPwned.
+   * Checked offline against the loaded list, falling back to the common passwords.
    * 
    * @param password - Password to check
    * @returns True if password has been breached
@@ -172,15 +187,16 @@ export class PasswordPolicyEnforcer {
       return false;
     }
 
-    // TODO: Implement actual breach check using HaveIBeenPwned API
-    // For now, just check against common passwords
-    return COMMON_PASSWORDS.has(password.toLowerCase());
+    return COMMON_PASSWORDS.has(password.toLowerCase()) || (this.breachedPasswords?.has(password) ?? false);
   }
 }
 
 /**
  * Factory function to create a password policy enforcer.
  */
-export function createPasswordPolicyEnforcer(policy: PasswordPolicy): PasswordPolicyEnforcer {
-  return new PasswordPolicyEnforcer(policy);
+export function createPasswordPolicyEnforcer(
+  policy: PasswordPolicy,
+  breachedPasswords?: BreachedPasswordList,
+): PasswordPolicyEnforcer {
+  return new PasswordPolicyEnforcer(policy, breachedPasswords);
 }
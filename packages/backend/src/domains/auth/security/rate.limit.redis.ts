@@ -0,0 +1,66 @@
+/**
+ * Redis Rate Limit Store.
+ *
+ * Shares rate limit counters between backend replicas. Each key is a Redis
+ * counter whose TTL is the window, so windows expire without a sweeper.
+ */
+
+import type { Redis } from "ioredis";
+import type { RateLimitCounter, RateLimitStore } from "./rate.limit.js";
+
+// INCR and PEXPIRE in one round trip so a crash between them cannot leave a counter without a TTL
+const INCREMENT_SCRIPT = `
+local attempts = redis.call("INCR", KEYS[1])
+if attempts == 1 then
+  redis.call("PEXPIRE", KEYS[1], ARGV[1])
+end
+return { attempts, redis.call("PTTL", KEYS[1]) }
+`;
+
+export interface RedisRateLimitStoreOptions {
+  /** Prefix for every counter key (`RedisConfig.keyPrefix`) */
+  keyPrefix?: string;
+}
+
+export class RedisRateLimitStore implements RateLimitStore {
+  private readonly keyPrefix: string;
+
+  constructor(
+    private readonly redis: Redis,
+    options: RedisRateLimitStoreOptions = {},
+  ) {
+    this.keyPrefix = options.keyPrefix ?? "auth:";
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const [attempts, ttl] = (await this.redis.eval(
+      INCREMENT_SCRIPT,
+      1,
+      this.prefixed(key),
+      windowMs,
+    )) as [number, number];
+    return { attempts, resetInMs: ttl > 0 ? ttl : windowMs };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const results = await this.redis.multi().get(this.prefixed(key)).pttl(this.prefixed(key)).exec();
+    const attempts = Number(results?.[0]?.[1] ?? 0);
+    const ttl = Number(results?.[1]?.[1] ?? -2);
+    if (!attempts || ttl <= 0) {
+      return null;
+    }
+    return { attempts, resetInMs: ttl };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redis.del(this.prefixed(key));
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  private prefixed(key: string): string {
+    return `${this.keyPrefix}ratelimit:${key}`;
+  }
+}
@@ -2,11 +2,47 @@
  * Rate Limiting Service.
  * 
  * Implements rate limiting for auth operations to prevent abuse.
- * Uses in-memory storage by default, can be extended to use Redis.
+ * Counters live in a pluggable store: in-memory by default, Redis
+ * (`rate.limit.redis.ts`) when several replicas share the limits.
  */
 
 import type { RateLimitPolicy } from "../core/auth.policies.js";
 import { AuthError } from "../core/auth.errors.js";
+import { ExpiringMap } from "./expiring.map.js";
+
+/**
+ * Rate limited operations, named after their `RateLimitPolicy` entries.
+ */
+export type RateLimitOperation = keyof Omit<RateLimitPolicy, "enabled">;
+
+/**
+ * Attempt counter for one key in its current window.
+ */
+export interface RateLimitCounter {
+  /** Number of attempts made in the current window */
+  attempts: number;
+
+  /** Milliseconds until the window closes and the counter resets */
+  resetInMs: number;
+}
+
+/**
+ * Storage for rate limit counters (fixed windows).
+ * Use a shared store (Redis) when more than one backend replica serves traffic.
+ */
+export interface RateLimitStore {
+  /** Count one attempt. The first attempt for a key opens a window of `windowMs`. */
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+
+  /** Current counter, or null when no window is open. */
+  get(key: string): Promise<RateLimitCounter | null>;
+
+  /** Drop the counter for a key. */
+  reset(key: string): Promise<void>;
+
+  /** Release timers or connections. */
+  close?(): Promise<void> | void;
+}
 
 /**
  * Rate limit bucket for tracking attempts.
@@ -15,38 +51,72 @@ interface RateLimitBucket {
   /** Number of attempts made */
   attempts: number;
   
-  /** Timestamp of first attempt in current window */
-  windowStart: number;
-  
   /** Timestamp when bucket expires */
   expiresAt: number;
 }
 
+/**
+ * In-memory store, see {@link ExpiringMap}.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets: ExpiringMap<RateLimitBucket>;
+
+  constructor(private readonly now: () => number = Date.now) {
+    this.buckets = new ExpiringMap(now);
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = this.now();
+    const bucket = this.buckets.get(key);
+
+    // Create new bucket if none exists or window has expired
+    if (!bucket) {
+      this.buckets.set(key, { attempts: 1, expiresAt: now + windowMs });
+      return { attempts: 1, resetInMs: windowMs };
+    }
+
+    bucket.attempts++;
+    return { attempts: bucket.attempts, resetInMs: bucket.expiresAt - now };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      return null;
+    }
+    return { attempts: bucket.attempts, resetInMs: bucket.expiresAt - this.now() };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.buckets.delete(key);
+  }
+
+  /**
+   * Stop cleanup interval and clear all buckets.
+   */
+  close(): void {
+    this.buckets.close();
+  }
+}
+
 /**
  * Rate limiter implementation.
  * Tracks attempts per key (IP address, user ID, session ID, etc.)
  */
 export class RateLimiter {
-  // In-memory storage for rate limit buckets
-  // In production, this should use Redis for distributed rate limiting
-  private readonly buckets = new Map<string, RateLimitBucket>();
-  
-  // Cleanup interval
-  private cleanupInterval?: NodeJS.Timeout;
-
-  constructor(private readonly policy: RateLimitPolicy) {
-    // Start cleanup interval to remove expired buckets
-    this.startCleanup();
-  }
+  constructor(
+    private readonly policy: RateLimitPolicy,
+    private readonly store: RateLimitStore = new InMemoryRateLimitStore(),
+  ) {}
 
   /**
    * Check if an operation is rate limited.
-   * Throws AuthError if rate limit is exceeded.
+   * Counts the attempt and throws AuthError if rate limit is exceeded.
    * 
    * @param key - Unique identifier for the rate limit (e.g., "login:192.168.1.1")
    * @param operation - Type of operation (login, register, reset, refresh)
    */
-  async check(key: string, operation: keyof Omit<RateLimitPolicy, "enabled">): Promise<void> {
+  async check(key: string, operation: RateLimitOperation): Promise<void> {
     if (!this.policy.enabled) {
       return; // Rate limiting disabled
     }
@@ -56,43 +126,17 @@ export class RateLimiter {
       return; // No configuration for this operation
     }
 
-    const now = Date.now();
-    const bucket = this.buckets.get(key);
-
-    // Create new bucket if none exists or window has expired
-    if (!bucket || now > bucket.expiresAt) {
-      this.buckets.set(key, {
-        attempts: 1,
-        windowStart: now,
-        expiresAt: now + config.windowSeconds * 1000,
-      });
-      return;
-    }
-
-    // Check if we're still in the same window
-    const windowAge = now - bucket.windowStart;
-    if (windowAge > config.windowSeconds * 1000) {
-      // Window has expired, reset
-      this.buckets.set(key, {
-        attempts: 1,
-        windowStart: now,
-        expiresAt: now + config.windowSeconds * 1000,
-      });
-      return;
-    }
-
-    // Increment attempts
-    bucket.attempts++;
+    const counter = await this.store.increment(key, config.windowSeconds * 1000);
 
     // Check if limit is exceeded
-    if (bucket.attempts > config.maxAttempts) {
-      const remainingSeconds = Math.ceil((bucket.expiresAt - now) / 1000);
+    if (counter.attempts > config.maxAttempts) {
+      const remainingSeconds = Math.max(1, Math.ceil(counter.resetInMs / 1000));
       throw new AuthError(
         "RATE_LIMIT_EXCEEDED",
         `Too many attempts. Please try again in ${remainingSeconds} seconds.`,
         {
           retryAfter: remainingSeconds,
-          attempts: bucket.attempts,
+          attempts: counter.attempts,
           maxAttempts: config.maxAttempts,
         }
       );
@@ -103,7 +147,7 @@ export class RateLimiter {
    * Record an attempt without checking the limit.
    * Useful for tracking attempts even if they succeeded.
    */
-  async record(key: string, operation: keyof Omit<RateLimitPolicy, "enabled">): Promise<void> {
+  async record(key: string, operation: RateLimitOperation): Promise<void> {
     if (!this.policy.enabled) {
       return;
     }
@@ -113,18 +157,7 @@ export class RateLimiter {
       return;
     }
 
-    const now = Date.now();
-    const bucket = this.buckets.get(key);
-
-    if (!bucket || now > bucket.expiresAt) {
-      this.buckets.set(key, {
-        attempts: 1,
-        windowStart: now,
-        expiresAt: now + config.windowSeconds * 1000,
-      });
-    } else {
-      bucket.attempts++;
-    }
+    await this.store.increment(key, config.windowSeconds * 1000);
   }
 
   /**
@@ -132,27 +165,21 @@ export class RateLimiter {
    * Useful after successful authentication to clear failed attempts.
    */
   async reset(key: string): Promise<void> {
-    this.buckets.delete(key);
+    await this.store.reset(key);
   }
 
   /**
    * Get current attempt count for a key.
    */
   async getAttempts(key: string): Promise<number> {
-    const bucket = this.buckets.get(key);
-    if (!bucket || Date.now() > bucket.expiresAt) {
-      return 0;
-    }
-    return bucket.attempts;
+    const counter = await this.store.get(key);
+    return counter?.attempts ?? 0;
   }
 
   /**
    * Get remaining attempts before rate limit is hit.
    */
-  async getRemainingAttempts(
-    key: string,
-    operation: keyof Omit<RateLimitPolicy, "enabled">
-  ): Promise<number> {
+  async getRemainingAttempts(key: string, operation: RateLimitOperation): Promise<number> {
     const config = this.policy[operation];
     if (!config) {
       return Infinity;
@@ -163,39 +190,18 @@ export class RateLimiter {
   }
 
   /**
-   * Start cleanup interval to remove expired buckets.
+   * Release the underlying store.
    */
-  private startCleanup(): void {
-    // Clean up every minute
-    this.cleanupInterval = setInterval(() => {
-      const now = Date.now();
-      for (const [key, bucket] of this.buckets.entries()) {
-        if (now > bucket.expiresAt) {
-          this.buckets.delete(key);
-        }
-      }
-    }, 60 * 1000);
-
-    // Don't prevent Node from exiting
-    this.cleanupInterval.unref();
-  }
-
-  /**
-   * Stop cleanup interval and clear all buckets.
-   */
-  destroy(): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-    }
-    this.buckets.clear();
+  async destroy(): Promise<void> {
+    await this.store.close?.();
   }
 }
 
 /**
  * Factory function to create a rate limiter.
  */
-export function createRateLimiter(policy: RateLimitPolicy): RateLimiter {
-  return new RateLimiter(policy);
+export function createRateLimiter(policy: RateLimitPolicy, store?: RateLimitStore): RateLimiter {
+  return new RateLimiter(policy, store);
 }
 
 /**
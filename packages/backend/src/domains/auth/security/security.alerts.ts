@@ -0,0 +1,33 @@
+/**
+ * Security Alerts.
+ *
+ * Where detected anomalies go once they are recorded: a log line today, a pager or
+ * webhook later. Delivery failures must never change the outcome of the request
+ * that raised the alert, so callers swallow and log sink errors.
+ */
+
+import type { Logger } from "../../../config/logger.js";
+import type { Anomaly } from "./anomaly.detector.js";
+
+export interface SecurityAlertSink {
+  emit(anomaly: Anomaly): Promise<void>;
+}
+
+/**
+ * Sink that writes each alert as a structured warning.
+ */
+export function createLoggingAlertSink(logger: Pick<Logger, "warn">): SecurityAlertSink {
+  return {
+    async emit(anomaly) {
+      logger.warn("security_alert", {
+        type: anomaly.type,
+        severity: anomaly.severity,
+        userId: anomaly.userId,
+        sessionId: anomaly.sessionId,
+        description: anomaly.description,
+        ...anomaly.metadata,
+        detectedAt: anomaly.detectedAt,
+      });
+    },
+  };
+}
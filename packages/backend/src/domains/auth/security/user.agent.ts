@@ -0,0 +1,49 @@
+/**
+ * User Agent Parsing.
+ *
+ * Coarse browser and operating system names for showing sessions to people
+ * ("Firefox 130 on macOS"). Order matters: Chromium-based browsers also claim to be
+ * Chrome and Safari, and every mobile OS also claims to be something else.
+ */
+
+import type { UserAgentDetails } from "../core/auth.types.js";
+
+const BROWSERS: Array<[name: string, pattern: RegExp]> = [
+  ["Edge", /Edg(?:e|A|iOS)?\/(\d+)/],
+  ["Opera", /(?:OPR|Opera)\/(\d+)/],
+  ["Samsung Internet", /SamsungBrowser\/(\d+)/],
+  ["Chrome", /(?:Chrome|CriOS)\/(\d+)/],
+  ["Firefox", /(?:Firefox|FxiOS)\/(\d+)/],
+  ["Safari", /Version\/(\d+).*Safari\//],
+];
+
+const OPERATING_SYSTEMS: Array<[name: string, pattern: RegExp]> = [
+  ["Windows", /Windows NT/],
+  ["iOS", /iPhone|iPad|iPod/],
+  ["Android", /Android/],
+  ["ChromeOS", /CrOS/],
+  ["macOS", /Mac OS X|Macintosh/],
+  ["Linux", /Linux/],
+];
+
+/**
+ * Browser (with major version) and OS named in a user agent; fields are absent when not recognized.
+ */
+export function parseUserAgent(userAgent: string): UserAgentDetails {
+  const details: UserAgentDetails = {};
+
+  for (const [name, pattern] of BROWSERS) {
+    const match = pattern.exec(userAgent);
+    if (match) {
+      details.browser = `${name} ${match[1]}`;
+      break;
+    }
+  }
+
+  const os = OPERATING_SYSTEMS.find(([, pattern]) => pattern.test(userAgent));
+  if (os) {
+    details.os = os[0];
+  }
+
+  return details;
+}
@@ -40,11 +40,112 @@ const logoutAllSchema = z
 	})
 	.strict();
 
+const totpCodeSchema = z.string().trim().regex(/^\d{6}$/);
+const challengeTokenSchema = z.string().min(1);
+
+const mfaVerifySchema = z
+	.object({
+		challengeToken: challengeTokenSchema,
+		code: totpCodeSchema.optional(),
+		recoveryCode: z.string().trim().min(1).optional(),
+	})
+	.strict()
+	.refine((body) => Boolean(body.code) !== Boolean(body.recoveryCode));
+
+const mfaEnrollSchema = z
+	.object({
+		challengeToken: challengeTokenSchema.optional(),
+	})
+	.strict();
+
+const mfaConfirmSchema = z
+	.object({
+		code: totpCodeSchema,
+		challengeToken: challengeTokenSchema.optional(),
+	})
+	.strict();
+
+const mfaCodeSchema = z
+	.object({
+		code: totpCodeSchema,
+	})
+	.strict();
+
+const verifyEmailSchema = z
+	.object({
+		token: z.string().min(1),
+	})
+	.strict();
+
+const resendVerificationSchema = z
+	.object({
+		email: emailSchema,
+	})
+	.strict();
+
+const forgotPasswordSchema = z
+	.object({
+		email: emailSchema,
+	})
+	.strict();
+
+const resetPasswordSchema = z
+	.object({
+		token: z.string().min(1),
+		newPassword: passwordSchema,
+	})
+	.strict();
+
+const changePasswordSchema = z
+	.object({
+		currentPassword: passwordSchema,
+		newPassword: passwordSchema,
+	})
+	.strict();
+
+const verifyDeviceSchema = z
+	.object({
+		token: z.string().min(1),
+	})
+	.strict();
+
+const deviceIdSchema = z.string().uuid();
+const sessionIdSchema = z.string().uuid();
+
+const renameDeviceSchema = z
+	.object({
+		name: z.string().trim().min(1).max(100),
+	})
+	.strict();
+
+const createApiKeySchema = z
+	.object({
+		label: z.string().trim().min(1).max(100),
+		scopes: z.array(z.enum(["read", "trade", "withdraw"])).min(1),
+		allowedIps: z.array(z.string().trim().min(1).max(64)).optional(),
+		expiresInDays: z.number().int().positive().optional(),
+	})
+	.strict();
+
+const apiKeyIdSchema = z.string().uuid();
+
 export type LoginBody = z.infer<typeof loginSchema>;
 export type RegisterBody = z.infer<typeof registerSchema>;
 export type RefreshBody = z.infer<typeof refreshSchema>;
 export type LogoutBody = z.infer<typeof logoutSchema>;
 export type LogoutAllBody = z.infer<typeof logoutAllSchema>;
+export type MfaVerifyBody = z.infer<typeof mfaVerifySchema>;
+export type MfaEnrollBody = z.infer<typeof mfaEnrollSchema>;
+export type MfaConfirmBody = z.infer<typeof mfaConfirmSchema>;
+export type MfaCodeBody = z.infer<typeof mfaCodeSchema>;
+export type VerifyEmailBody = z.infer<typeof verifyEmailSchema>;
+export type ResendVerificationBody = z.infer<typeof resendVerificationSchema>;
+export type ForgotPasswordBody = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordBody = z.infer<typeof resetPasswordSchema>;
+export type ChangePasswordBody = z.infer<typeof changePasswordSchema>;
+export type VerifyDeviceBody = z.infer<typeof verifyDeviceSchema>;
+export type RenameDeviceBody = z.infer<typeof renameDeviceSchema>;
+export type CreateApiKeyBody = z.infer<typeof createApiKeySchema>;
 
 const fail = (msg: string): never => {
 	throw new Error(`validation_error: ${msg}`);
@@ -86,3 +187,108 @@ export const validateLogoutAll = (body: unknown): LogoutAllBody => {
 	return undefined as never;
 };
 
+
+export const validateMfaVerify = (body: unknown): MfaVerifyBody => {
+	const parsed = mfaVerifySchema.safeParse(body);
+	if (parsed.success) return parsed.data;
+	fail("challengeToken and exactly one of code or recoveryCode required");
+	return undefined as never;
+};
+
+export const validateMfaEnroll = (body: unknown): MfaEnrollBody => {
+	const parsed = mfaEnrollSchema.safeParse(body ?? {});
+	if (parsed.success) return parsed.data;
+	fail("challengeToken must be a string");
+	return undefined as never;
+};
+
+export const validateMfaConfirm = (body: unknown): MfaConfirmBody => {
+	const parsed = mfaConfirmSchema.safeParse(body);
+	if (parsed.success) return parsed.data;
+	fail("6-digit code required");
+	return undefined as never;
+};
+
+export const validateMfaCode = (body: unknown): MfaCodeBody => {
+	const parsed = mfaCodeSchema.safeParse(body);
+	if (parsed.success) return parsed.data;
+	fail("6-digit code required");
+	return undefined as never;
+};
+
+export const validateVerifyEmail = (body: unknown): VerifyEmailBody => {
+	const parsed = verifyEmailSchema.safeParse(body);
+	if (parsed.success) return parsed.data;
+	fail("token required");
+	return undefined as never;
+};
+
+export const validateResendVerification = (body: unknown): ResendVerificationBody => {
+	const parsed = resendVerificationSchema.safeParse(body);
+	if (parsed.success) return parsed.data;
+	fail("email required");
+	return undefined as never;
+};
+
+export const validateForgotPassword = (body: unknown): ForgotPasswordBody => {
+	const parsed = forgotPasswordSchema.safeParse(body);
+	if (parsed.success) return parsed.data;
+	fail("email required");
+	return undefined as never;
+};
+
+export const validateResetPassword = (body: unknown): ResetPasswordBody => {
+	const parsed = resetPasswordSchema.safeParse(body);
+	if (parsed.success) return parsed.data;
+	fail("token and newPassword required");
+	return undefined as never;
+};
+
+export const validateChangePassword = (body: unknown): ChangePasswordBody => {
+	const parsed = changePasswordSchema.safeParse(body);
+	if (parsed.success) return parsed.data;
+	fail("currentPassword and newPassword required");
+	return undefined as never;
+};
+
+export const validateVerifyDevice = (body: unknown): VerifyDeviceBody => {
+	const parsed = verifyDeviceSchema.safeParse(body);
+	if (parsed.success) return parsed.data;
+	fail("token required");
+	return undefined as never;
+};
+
+export const validateRenameDevice = (body: unknown): RenameDeviceBody => {
+	const parsed = renameDeviceSchema.safeParse(body);
+	if (parsed.success) return parsed.data;
+	fail("name required (1-100 characters)");
+	return undefined as never;
+};
+
+export const validateDeviceId = (id: unknown): string => {
+	const parsed = deviceIdSchema.safeParse(id);
+	if (parsed.success) return parsed.data;
+	fail("invalid device id");
+	return undefined as never;
+};
+
+export const validateSessionId = (id: unknown): string => {
+	const parsed = sessionIdSchema.safeParse(id);
+	if (parsed.success) return parsed.data;
+	fail("invalid session id");
+	return undefined as never;
+};
+
+export const validateCreateApiKey = (body: unknown): CreateApiKeyBody => {
+	const parsed = createApiKeySchema.safeParse(body);
+	if (parsed.success) return parsed.data;
+	fail("label (1-100 characters) and scopes (read, trade, withdraw) required");
+	return undefined as never;
+};
+
+export const validateApiKeyId = (id: unknown): string => {
+	const parsed = apiKeyIdSchema.safeParse(id);
+	if (parsed.success) return parsed.data;
+	fail("invalid API key id");
+	return undefined as never;
+};
@@ -0,0 +1,61 @@
+import { asc, eq } from "drizzle-orm";
+import { instruments } from "@repo/database";
+import type { DrizzleClient } from "../../db/pg.js";
+import { Decimal } from "../../lib/decimal.js";
+
+export type InstrumentStatus = "open" | "halted" | "closed";
+
+export interface Instrument {
+  symbol: string;
+  name: string | null;
+  baseCurrency: string;
+  quoteCurrency: string;
+  tickSize: Decimal;
+  lotSize: Decimal;
+  minNotional: Decimal;
+  priceBandPct: Decimal | null; // Max fractional distance from the reference price; null = no band
+  status: InstrumentStatus;
+}
+
+function toInstrument(row: typeof instruments.$inferSelect): Instrument {
+  return {
+    symbol: row.symbol,
+    name: row.name,
+    baseCurrency: row.baseCurrency,
+    quoteCurrency: row.quoteCurrency,
+    tickSize: Decimal.from(row.tickSize),
+    lotSize: Decimal.from(row.lotSize),
+    minNotional: Decimal.from(row.minNotional),
+    priceBandPct: row.priceBandPct ? Decimal.from(row.priceBandPct) : null,
+    status: row.status,
+  };
+}
+
+export class InstrumentService {
+  constructor(private db: DrizzleClient) {}
+
+  async get(symbol: string): Promise<Instrument | null> {
+    const [row] = await this.db
+      .select()
+      .from(instruments)
+      .where(eq(instruments.symbol, symbol))
+      .limit(1);
+
+    return row ? toInstrument(row) : null;
+  }
+
+  async list(): Promise<Instrument[]> {
+    const rows = await this.db.select().from(instruments).orderBy(asc(instruments.symbol));
+    return rows.map(toInstrument);
+  }
+
+  async setStatus(symbol: string, status: InstrumentStatus): Promise<Instrument | null> {
+    const [row] = await this.db
+      .update(instruments)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(instruments.symbol, symbol))
+      .returning();
+
+    return row ? toInstrument(row) : null;
+  }
+}
@@ -0,0 +1,41 @@
+import type { Router } from "../../api/types.js";
+import type { InstrumentService } from "./instrument.service.js";
+import { withPermission } from "../../api/middleware.js";
+import type { AuthServices } from "../../api/middleware.js";
+import { validateInstrumentStatusBody } from "./instrumentValidator.js";
+
+export function registerInstrumentRoutes(
+  router: Router,
+  services: AuthServices & { instrument: InstrumentService },
+): void {
+  // Reference data; public so clients can round prices and sizes before they log in
+  router.route("GET", "/instruments", async () => {
+    const instruments = await services.instrument.list();
+    return { status: 200, body: instruments };
+  });
+
+  router.route("GET", "/instruments/:symbol", async (req) => {
+    const symbol = req.params["symbol"];
+    if (!symbol) return { status: 400, body: { error: "symbol_required" } };
+
+    const instrument = await services.instrument.get(symbol);
+    if (!instrument) return { status: 404, body: { error: "instrument_not_found" } };
+    return { status: 200, body: instrument };
+  });
+
+  router.route("PATCH", "/admin/instruments/:symbol", withPermission(services, "instruments:manage", async (req) => {
+    const symbol = req.params["symbol"];
+    if (!symbol) return { status: 400, body: { error: "symbol_required" } };
+
+    let body: ReturnType<typeof validateInstrumentStatusBody>;
+    try {
+      body = validateInstrumentStatusBody(req.body);
+    } catch {
+      return { status: 400, body: { error: "invalid_body" } };
+    }
+
+    const instrument = await services.instrument.setStatus(symbol, body.status);
+    if (!instrument) return { status: 404, body: { error: "instrument_not_found" } };
+    return { status: 200, body: instrument };
+  }));
+}
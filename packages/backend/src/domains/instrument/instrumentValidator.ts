@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+const statusSchema = z
+  .object({
+    status: z.enum(["open", "halted", "closed"]),
+  })
+  .strict();
+
+export type InstrumentStatusBody = z.infer<typeof statusSchema>;
+
+export function validateInstrumentStatusBody(body: unknown): InstrumentStatusBody {
+  const parsed = statusSchema.safeParse(body);
+  if (parsed.success) return parsed.data;
+  throw new Error("validation_error: invalid_body");
+}
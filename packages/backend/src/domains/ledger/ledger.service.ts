@@ -1,23 +1,38 @@
-import { DrizzleClient } from "../../db/pg.js";
+import { DrizzleClient, DbExecutor } from "../../db/pg.js";
 import { accounts, ledgerEntries } from "@repo/database";
-import { sql, eq } from "drizzle-orm";
+import { sql, eq, and } from "drizzle-orm";
 import { LedgerService as ILedgerService, PostParams } from "./ledger.types.js";
+import { Decimal } from "../../lib/decimal.js";
 
 export class LedgerService implements ILedgerService {
   constructor(private db: DrizzleClient) { }
 
-  async transfer(debit: PostParams, credit: PostParams): Promise<void> {
-    await this.db.transaction(async (tx) => {
+  /**
+   * Post a balanced debit/credit pair.
+   * The debit only goes through when the account's available balance (balance - locked) covers it;
+   * otherwise nothing is written and this throws.
+   * Pass `executor` to run inside a caller's transaction (a savepoint is used so the pair stays atomic).
+   */
+  async transfer(debit: PostParams, credit: PostParams, executor: DbExecutor = this.db): Promise<void> {
+    await executor.transaction(async (tx) => {
       // 1. Debit
       // Retrieve current balance for accurate balanceAfter calculation if strict serialization needed.
       // Or just calculate in SQL. Drizzle 'returning' helps.
 
       const [debitUpdate] = await tx.update(accounts)
         .set({ balance: sql`${accounts.balance} - ${debit.amount}` })
-        .where(eq(accounts.id, debit.accountId))
+        .where(and(
+          eq(accounts.id, debit.accountId),
+          sql`${accounts.balance} - ${accounts.locked} >= ${debit.amount}`,
+        ))
         .returning({ newBalance: accounts.balance });
 
-      if (!debitUpdate) throw new Error(`Debit account not found: ${debit.accountId}`);
+      if (!debitUpdate) {
+        const [account] = await tx.select({ id: accounts.id }).from(accounts).where(eq(accounts.id, debit.accountId));
+        throw new Error(account
+          ? `Insufficient available balance to debit ${debit.amount} from ${debit.accountId}`
+          : `Debit account not found: ${debit.accountId}`);
+      }
 
       await tx.insert(ledgerEntries).values({
         accountId: debit.accountId,
@@ -46,4 +61,65 @@ export class LedgerService implements ILedgerService {
       });
     });
   }
+
+  /**
+   * Reserve `amount` of available balance (balance - locked) by moving it into `locked`.
+   * Returns false without writing anything when the account can't cover it.
+   * The entry has a zero amount (the balance is unchanged) and the reserved funds as its locked delta.
+   */
+  async hold(params: PostParams, executor: DbExecutor = this.db): Promise<boolean> {
+    return executor.transaction(async (tx) => {
+      const [held] = await tx.update(accounts)
+        .set({ locked: sql`${accounts.locked} + ${params.amount}`, updatedAt: new Date() })
+        .where(and(
+          eq(accounts.id, params.accountId),
+          sql`${accounts.balance} - ${accounts.locked} >= ${params.amount}`,
+        ))
+        .returning({ balance: accounts.balance });
+
+      if (!held) return false;
+
+      await tx.insert(ledgerEntries).values({
+        accountId: params.accountId,
+        amount: '0',
+        balanceAfter: held.balance,
+        lockedDelta: params.amount,
+        referenceId: params.referenceId,
+        referenceType: 'hold',
+        description: params.description || 'Hold'
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Return `amount` from `locked` to available. Clamped at what is locked so a double release can't go
+   * negative; the entry records the amount actually released.
+   */
+  async release(params: PostParams, executor: DbExecutor = this.db): Promise<void> {
+    await executor.transaction(async (tx) => {
+      const [account] = await tx.select({ balance: accounts.balance, locked: accounts.locked })
+        .from(accounts)
+        .where(eq(accounts.id, params.accountId))
+        .for('update');
+
+      if (!account) throw new Error(`Account not found: ${params.accountId}`);
+
+      const locked = Decimal.from(account.locked);
+      const released = Decimal.min(locked, Decimal.from(params.amount));
+      await tx.update(accounts)
+        .set({ locked: locked.minus(released).toString(), updatedAt: new Date() })
+        .where(eq(accounts.id, params.accountId));
+
+      await tx.insert(ledgerEntries).values({
+        accountId: params.accountId,
+        amount: '0',
+        balanceAfter: account.balance,
+        lockedDelta: released.negated().toString(),
+        referenceId: params.referenceId,
+        referenceType: 'release',
+        description: params.description || 'Release'
+      });
+    });
+  }
 }
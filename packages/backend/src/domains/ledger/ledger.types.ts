@@ -1,6 +1,8 @@
 export type UUID = string;
 
-export type LedgerRefType = "order" | "trade" | "deposit" | "withdrawal" | "fee" | "adjustment";
+// "hold" / "release" entries move funds between available and accounts.locked: their amount is zero
+// (balance is unchanged) and lockedDelta carries the change to locked.
+export type LedgerRefType = "order" | "trade" | "deposit" | "withdrawal" | "fee" | "adjustment" | "hold" | "release";
 
 export interface LedgerEntry {
   id?: number;
@@ -10,6 +12,7 @@ export interface LedgerEntry {
   referenceType?: LedgerRefType;
   amount: string; // +credit, -debit
   balanceAfter?: string;
+  lockedDelta?: string;
   createdAt?: string;
   description?: string;
 }
@@ -31,4 +34,6 @@ export interface PostParams {
 
 export interface LedgerService {
   transfer(debit: PostParams, credit: PostParams): Promise<void>;
+  hold(params: PostParams): Promise<boolean>;
+  release(params: PostParams): Promise<void>;
 }
@@ -1,63 +1,182 @@
-import { OrderSide, OrderType } from "./order.types.js";
+import { OrderSide, OrderType, SelfTradePrevention, TimeInForce } from "./order.types.js";
+import { OrderBook, type BookSide } from "./order-book.js";
+import { Decimal } from "../../lib/decimal.js";
 
 // Engine-specific Order interface using numbers for calculation
 export interface EngineOrder {
     id: string;
+    accountId?: string; // Owner; orders without one never count as self-trades
     side: OrderSide;
     type: OrderType;
-    price: number; // Limit price (0 for market)
-    quantity: number;
-    filledQuantity: number;
+    price: Decimal; // Limit price; for market orders a protection price (worst fill), zero for none
+    quantity: Decimal;
+    filledQuantity: Decimal;
     timestamp: number;
+    timeInForce?: TimeInForce; // Defaults to GTC; market orders never rest regardless
+    postOnly?: boolean;
+    expiresAt?: number; // GTD expiry (epoch ms)
+    selfTradePrevention?: SelfTradePrevention; // Falls back to the engine default
 }
 
 export interface Trade {
     makerOrderId: string;
     takerOrderId: string;
-    price: number;
-    quantity: number;
+    price: Decimal;
+    quantity: Decimal;
     timestamp: number;
 }
 
+export type EngineRejectReason = "FOK_NOT_FILLABLE" | "POST_ONLY_WOULD_TAKE";
+
+/** A resting order shrunk or pulled by self-trade prevention instead of trading. */
+export interface SelfTradeCancel {
+    orderId: string;
+    reducedQuantity: Decimal; // Quantity taken off the order without a trade
+    cancelled: boolean; // Removed from the book
+}
+
+export interface ProcessResult {
+    trades: Trade[];
+    filled: boolean;
+    rested: boolean; // Remainder is on the book
+    rejectReason?: EngineRejectReason; // Set when the order was refused before any matching
+    selfTradeCancels: SelfTradeCancel[];
+    takerReduced: Decimal; // Incoming quantity removed by decrement_and_cancel
+    takerCancelled: boolean; // Incoming remainder dropped by self-trade prevention
+}
+
+export const DEFAULT_SELF_TRADE_PREVENTION: SelfTradePrevention = "cancel_newest";
+
 export class OrderMatchingEngine {
-    private bids: EngineOrder[] = []; // Descending price
-    private asks: EngineOrder[] = []; // Ascending price
+    // Price levels with FIFO queues; see order-book.ts for the complexity notes.
+    private book = new OrderBook();
+    // Resting GTD orders by expiry; swept by expireOrders().
+    private expiries = new Map<string, number>();
+
+    constructor(
+        private symbol: string,
+        private defaultSelfTradePrevention: SelfTradePrevention = DEFAULT_SELF_TRADE_PREVENTION,
+    ) { }
 
-    constructor(private symbol: string) { }
+    public processOrder(order: EngineOrder): ProcessResult {
+        const result: ProcessResult = {
+            trades: [],
+            filled: false,
+            rested: false,
+            selfTradeCancels: [],
+            takerReduced: Decimal.ZERO,
+            takerCancelled: false,
+        };
+        const canMatch = this.priceFilter(order);
+
+        // Post-only: refuse outright if any part would execute against the book
+        if (order.postOnly) {
+            const best = this.book.opposite(order.side).best();
+            if (order.type !== "limit" || (best && canMatch(best.price))) {
+                return { ...result, rejectReason: "POST_ONLY_WOULD_TAKE" };
+            }
+        }
 
-    public processOrder(order: EngineOrder): { trades: Trade[]; filled: boolean } {
-        const trades: Trade[] = [];
+        // FOK: check depth first so we never leave a partial fill behind
+        if (order.timeInForce === "FOK" && this.availableQuantity(order, canMatch).lt(order.quantity.minus(order.filledQuantity))) {
+            return { ...result, rejectReason: "FOK_NOT_FILLABLE" };
+        }
 
-        if (order.type === "market") {
-            this.matchMarketOrder(order, trades);
-        } else if (order.type === "limit") {
-            this.matchLimitOrder(order, trades);
+        if (order.type === "market" || order.type === "limit") {
+            this.matchAgainstBook(order, result, canMatch);
         }
 
-        const filled = order.filledQuantity >= order.quantity;
+        result.filled = !result.takerCancelled && order.filledQuantity.gte(order.quantity);
 
-        // If not filled and it's a Limit order, add to book
-        if (!filled && order.type === "limit") {
+        // Only GTC / GTD limit orders rest; IOC and FOK remainders are dropped
+        const rests = order.type === "limit" && order.timeInForce !== "IOC" && order.timeInForce !== "FOK";
+        if (!result.filled && !result.takerCancelled && rests) {
             this.addToBook(order);
+            result.rested = true;
         }
 
-        return { trades, filled };
+        return result;
+    }
+
+    /**
+     * Remove every resting GTD order whose expiry is at or before `now`.
+     * Returns the removed orders so the caller can persist the expiry.
+     */
+    public expireOrders(now: number): EngineOrder[] {
+        const expired: EngineOrder[] = [];
+        for (const [orderId, expiresAt] of this.expiries) {
+            if (expiresAt > now) continue;
+            this.expiries.delete(orderId);
+            const removed = this.book.remove(orderId);
+            if (removed) expired.push(removed);
+        }
+        return expired;
     }
 
     public addExistingOrder(order: EngineOrder) {
         this.addToBook(order);
     }
 
-    private matchMarketOrder(order: EngineOrder, trades: Trade[]) {
-        const book = order.side === "buy" ? this.asks : this.bids;
+    /**
+     * Remove a resting order from the book.
+     * Returns the removed order, or null if it is not resting (already filled, cancelled or unknown).
+     */
+    public cancelOrder(orderId: string): EngineOrder | null {
+        this.expiries.delete(orderId);
+        return this.book.remove(orderId);
+    }
 
-        while (order.filledQuantity < order.quantity && book.length > 0) {
-            const bestMatch = book[0]!;
-            const tradePrice = bestMatch.price;
+    private priceFilter(order: EngineOrder): (makerPrice: Decimal) => boolean {
+        if (order.type === "market" && order.price.isZero()) return () => true;
+        // Buy Limit: Match if Best Ask <= Limit Price
+        // Sell Limit: Match if Best Bid >= Limit Price
+        const isBuy = order.side === "buy";
+        return (makerPrice) => (isBuy ? makerPrice.lte(order.price) : makerPrice.gte(order.price));
+    }
 
-            const quantityNeeded = order.quantity - order.filledQuantity;
-            const quantityAvailable = bestMatch.quantity - bestMatch.filledQuantity;
-            const tradeQuantity = Math.min(quantityNeeded, quantityAvailable);
+    /**
+     * Opposite-side quantity this order could take, stopping once it has seen enough.
+     * Own orders never trade: cancel_oldest skips past them, every other mode stops there.
+     */
+    private availableQuantity(order: EngineOrder, canMatch: (makerPrice: Decimal) => boolean): Decimal {
+        const needed = order.quantity.minus(order.filledQuantity);
+        const mode = order.selfTradePrevention ?? this.defaultSelfTradePrevention;
+        let available = Decimal.ZERO;
+        for (const level of this.book.opposite(order.side).levelsFromBest()) {
+            if (!canMatch(level.price)) break;
+            for (const resting of level.orders()) {
+                if (this.isSelfTrade(order, resting)) {
+                    if (mode === "cancel_oldest") continue;
+                    return available;
+                }
+                available = available.plus(resting.quantity.minus(resting.filledQuantity));
+                if (available.gte(needed)) return available;
+            }
+        }
+        return available;
+    }
+
+    private matchAgainstBook(
+        order: EngineOrder,
+        result: ProcessResult,
+        canMatch: (makerPrice: Decimal) => boolean,
+    ) {
+        const side = this.book.opposite(order.side);
+        const trades = result.trades;
+
+        while (order.filledQuantity.lt(order.quantity)) {
+            const level = side.best();
+            if (!level || !canMatch(level.price)) break;
+
+            const bestMatch = level.head!.order;
+            if (this.isSelfTrade(order, bestMatch)) {
+                if (this.preventSelfTrade(order, bestMatch, result)) continue;
+                break;
+            }
+            const tradePrice = level.price; // Maker sets the price
+            const quantityNeeded = order.quantity.minus(order.filledQuantity);
+            const quantityAvailable = bestMatch.quantity.minus(bestMatch.filledQuantity);
+            const tradeQuantity = Decimal.min(quantityNeeded, quantityAvailable);
 
             trades.push({
                 makerOrderId: bestMatch.id,
@@ -67,69 +186,87 @@ export class OrderMatchingEngine {
                 timestamp: Date.now(),
             });
 
-            order.filledQuantity += tradeQuantity;
-            bestMatch.filledQuantity += tradeQuantity;
+            order.filledQuantity = order.filledQuantity.plus(tradeQuantity);
+            bestMatch.filledQuantity = bestMatch.filledQuantity.plus(tradeQuantity);
 
-            if (bestMatch.filledQuantity >= bestMatch.quantity) {
-                book.shift(); // Remove filled order
+            if (bestMatch.filledQuantity.gte(bestMatch.quantity)) {
+                this.book.remove(bestMatch.id); // Remove filled order
+                this.expiries.delete(bestMatch.id);
             }
         }
     }
 
-    private matchLimitOrder(order: EngineOrder, trades: Trade[]) {
-        const isBuy = order.side === "buy";
-        const book = isBuy ? this.asks : this.bids;
+    private isSelfTrade(taker: EngineOrder, maker: EngineOrder): boolean {
+        return taker.accountId !== undefined && taker.accountId === maker.accountId;
+    }
 
-        while (order.filledQuantity < order.quantity && book.length > 0) {
-            const bestMatch = book[0]!;
+    /**
+     * Resolve a would-be self-trade per the incoming order's mode.
+     * Returns true when the incoming order should keep matching.
+     */
+    private preventSelfTrade(taker: EngineOrder, maker: EngineOrder, result: ProcessResult): boolean {
+        const mode = taker.selfTradePrevention ?? this.defaultSelfTradePrevention;
+        const makerRemaining = maker.quantity.minus(maker.filledQuantity);
 
-            // Check price crossing
-            // Buy Limit: Match if Best Ask <= Limit Price
-            // Sell Limit: Match if Best Bid >= Limit Price
-            const canMatch = isBuy
-                ? bestMatch.price <= order.price
-                : bestMatch.price >= order.price;
+        const cancelMaker = () => {
+            this.cancelOrder(maker.id);
+            result.selfTradeCancels.push({ orderId: maker.id, reducedQuantity: makerRemaining, cancelled: true });
+        };
 
-            if (!canMatch) break;
+        switch (mode) {
+            case "cancel_newest":
+                result.takerCancelled = true;
+                return false;
+            case "cancel_oldest":
+                cancelMaker();
+                return true;
+            case "cancel_both":
+                cancelMaker();
+                result.takerCancelled = true;
+                return false;
+            case "decrement_and_cancel": {
+                // Shrink both by the overlap; whichever reaches zero is cancelled
+                const overlap = Decimal.min(taker.quantity.minus(taker.filledQuantity), makerRemaining);
+                taker.quantity = taker.quantity.minus(overlap);
+                result.takerReduced = result.takerReduced.plus(overlap);
 
-            const tradePrice = bestMatch.price; // Maker sets the price
-            const quantityNeeded = order.quantity - order.filledQuantity;
-            const quantityAvailable = bestMatch.quantity - bestMatch.filledQuantity;
-            const tradeQuantity = Math.min(quantityNeeded, quantityAvailable);
+                if (overlap.gte(makerRemaining)) {
+                    cancelMaker();
+                } else {
+                    maker.quantity = maker.quantity.minus(overlap);
+                    result.selfTradeCancels.push({ orderId: maker.id, reducedQuantity: overlap, cancelled: false });
+                }
 
-            trades.push({
-                makerOrderId: bestMatch.id,
-                takerOrderId: order.id,
-                price: tradePrice,
-                quantity: tradeQuantity,
-                timestamp: Date.now(),
-            });
-
-            order.filledQuantity += tradeQuantity;
-            bestMatch.filledQuantity += tradeQuantity;
-
-            if (bestMatch.filledQuantity >= bestMatch.quantity) {
-                book.shift();
+                if (taker.filledQuantity.gte(taker.quantity)) {
+                    result.takerCancelled = true;
+                    return false;
+                }
+                return true;
             }
         }
     }
 
     private addToBook(order: EngineOrder) {
-        if (order.side === "buy") {
-            this.bids.push(order);
-            // Sort Bids: Highest Price First
-            this.bids.sort((a, b) => b.price - a.price || a.timestamp - b.timestamp);
-        } else {
-            this.asks.push(order);
-            // Sort Asks: Lowest Price First
-            this.asks.sort((a, b) => a.price - b.price || a.timestamp - b.timestamp);
+        this.book.add(order);
+        if (order.timeInForce === "GTD" && order.expiresAt !== undefined) {
+            this.expiries.set(order.id, order.expiresAt);
         }
     }
 
+    /**
+     * Snapshot of resting orders in priority order (best price first, then time).
+     */
     public getBook() {
+        const snapshot = (side: BookSide) => {
+            const out: EngineOrder[] = [];
+            for (const level of side.levelsFromBest()) {
+                for (const order of level.orders()) out.push({ ...order });
+            }
+            return out;
+        };
         return {
-            bids: this.bids.map(o => ({ ...o })),
-            asks: this.asks.map(o => ({ ...o })),
+            bids: snapshot(this.book.bids),
+            asks: snapshot(this.book.asks),
         };
     }
 }
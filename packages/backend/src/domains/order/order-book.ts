@@ -0,0 +1,229 @@
+import type { EngineOrder } from "./matching-engine.js";
+import type { Decimal } from "../../lib/decimal.js";
+
+/*
+  Price-level order book.
+
+  Each side keeps:
+  - a Map from price (as Decimal units, so equal prices share a key) to PriceLevel for O(1) level lookup,
+  - a skip list of prices ordered best first, so reading the best level is O(1) and adding
+    or removing any level is O(log levels) expected, however deep the book,
+  - per-level FIFO queues as doubly linked lists, so time priority is preserved and any
+    order can be unlinked in O(1) through the book-wide order-id index.
+*/
+
+interface OrderNode {
+    order: EngineOrder;
+    level: PriceLevel;
+    prev: OrderNode | null;
+    next: OrderNode | null;
+}
+
+export class PriceLevel {
+    head: OrderNode | null = null;
+    tail: OrderNode | null = null;
+    size = 0;
+
+    constructor(public readonly price: Decimal) { }
+
+    append(node: OrderNode) {
+        node.prev = this.tail;
+        node.next = null;
+        if (this.tail) this.tail.next = node;
+        else this.head = node;
+        this.tail = node;
+        this.size++;
+    }
+
+    unlink(node: OrderNode) {
+        if (node.prev) node.prev.next = node.next;
+        else this.head = node.next;
+        if (node.next) node.next.prev = node.prev;
+        else this.tail = node.prev;
+        node.prev = null;
+        node.next = null;
+        this.size--;
+    }
+
+    *orders(): IterableIterator<EngineOrder> {
+        for (let node = this.head; node; node = node.next) {
+            yield node.order;
+        }
+    }
+}
+
+interface PriceNode {
+    price: bigint;
+    next: (PriceNode | null)[];
+}
+
+const MAX_PRICE_LEVELS = 32;
+
+/**
+ * Skip list of distinct prices, best first. Node heights are drawn with p = 1/4, which keeps
+ * searches at O(log n) expected with about 1.33 pointers per price.
+ */
+class PriceIndex {
+    private readonly head: PriceNode = { price: 0n, next: new Array<PriceNode | null>(MAX_PRICE_LEVELS).fill(null) };
+    private height = 1;
+    private count = 0;
+
+    /** `before(a, b)`: price `a` ranks ahead of `b`. */
+    constructor(private readonly before: (a: bigint, b: bigint) => boolean) { }
+
+    get size(): number {
+        return this.count;
+    }
+
+    first(): bigint | undefined {
+        return this.head.next[0]?.price;
+    }
+
+    insert(price: bigint) {
+        const update = this.predecessors(price);
+        const height = this.randomHeight();
+        if (height > this.height) {
+            for (let i = this.height; i < height; i++) update[i] = this.head;
+            this.height = height;
+        }
+
+        const node: PriceNode = { price, next: new Array<PriceNode | null>(height) };
+        for (let i = 0; i < height; i++) {
+            node.next[i] = update[i]!.next[i] ?? null;
+            update[i]!.next[i] = node;
+        }
+        this.count++;
+    }
+
+    remove(price: bigint): boolean {
+        const update = this.predecessors(price);
+        const node = update[0]!.next[0];
+        if (!node || node.price !== price) return false;
+
+        for (let i = 0; i < this.height && update[i]!.next[i] === node; i++) {
+            update[i]!.next[i] = node.next[i] ?? null;
+        }
+        while (this.height > 1 && !this.head.next[this.height - 1]) this.height--;
+        this.count--;
+        return true;
+    }
+
+    *prices(): IterableIterator<bigint> {
+        for (let node = this.head.next[0]; node; node = node.next[0] ?? null) {
+            yield node.price;
+        }
+    }
+
+    /** Last node ranked ahead of `price` on every level. */
+    private predecessors(price: bigint): PriceNode[] {
+        const update = new Array<PriceNode>(this.height);
+        let node = this.head;
+        for (let i = this.height - 1; i >= 0; i--) {
+            let next = node.next[i];
+            while (next && this.before(next.price, price)) {
+                node = next;
+                next = node.next[i];
+            }
+            update[i] = node;
+        }
+        return update;
+    }
+
+    private randomHeight(): number {
+        let height = 1;
+        while (height < MAX_PRICE_LEVELS && Math.random() < 0.25) height++;
+        return height;
+    }
+}
+
+class BookSide {
+    private readonly levels = new Map<bigint, PriceLevel>();
+    // Bids rank higher prices first, asks lower prices first.
+    private readonly prices: PriceIndex;
+
+    constructor(side: "buy" | "sell") {
+        this.prices = new PriceIndex(side === "buy" ? (a, b) => a > b : (a, b) => a < b);
+    }
+
+    best(): PriceLevel | undefined {
+        const price = this.prices.first();
+        return price === undefined ? undefined : this.levels.get(price);
+    }
+
+    getOrCreate(price: Decimal): PriceLevel {
+        const key = price.units;
+        const existing = this.levels.get(key);
+        if (existing) return existing;
+
+        const level = new PriceLevel(price);
+        this.levels.set(key, level);
+        this.prices.insert(key);
+        return level;
+    }
+
+    removeLevel(level: PriceLevel) {
+        const key = level.price.units;
+        if (this.levels.delete(key)) this.prices.remove(key);
+    }
+
+    /** Levels in priority order, best first. */
+    *levelsFromBest(): IterableIterator<PriceLevel> {
+        for (const price of this.prices.prices()) {
+            const level = this.levels.get(price);
+            if (level) yield level;
+        }
+    }
+
+    get levelCount(): number {
+        return this.prices.size;
+    }
+}
+
+export class OrderBook {
+    readonly bids = new BookSide("buy");
+    readonly asks = new BookSide("sell");
+    private readonly index = new Map<string, OrderNode>();
+
+    get size(): number {
+        return this.index.size;
+    }
+
+    has(orderId: string): boolean {
+        return this.index.has(orderId);
+    }
+
+    get(orderId: string): EngineOrder | undefined {
+        return this.index.get(orderId)?.order;
+    }
+
+    /** Side that a taker on `side` matches against. */
+    opposite(side: "buy" | "sell"): BookSide {
+        return side === "buy" ? this.asks : this.bids;
+    }
+
+    add(order: EngineOrder) {
+        if (this.index.has(order.id)) return;
+        const bookSide = order.side === "buy" ? this.bids : this.asks;
+        const level = bookSide.getOrCreate(order.price);
+        const node: OrderNode = { order, level, prev: null, next: null };
+        level.append(node);
+        this.index.set(order.id, node);
+    }
+
+    remove(orderId: string): EngineOrder | null {
+        const node = this.index.get(orderId);
+        if (!node) return null;
+
+        const level = node.level;
+        level.unlink(node);
+        this.index.delete(orderId);
+
+        if (level.size === 0) {
+            const bookSide = node.order.side === "buy" ? this.bids : this.asks;
+            bookSide.removeLevel(level);
+        }
+        return node.order;
+    }
+}
+
+export type { BookSide };
@@ -0,0 +1,59 @@
+/**
+ * Order domain errors.
+ *
+ * Services throw OrderError with a stable code; route registrars map the code
+ * to an HTTP status so the mapping lives next to the contract, not the caller.
+ */
+
+export type OrderErrorCode =
+  | "ORDER_NOT_FOUND"
+  | "ORDER_NOT_CANCELLABLE"
+  | "ORDER_REJECTED"
+  | "INVALID_TRIGGER_PRICE"
+  | "INVALID_TIME_IN_FORCE"
+  | "INVALID_PRICE_INCREMENT"
+  | "INVALID_QUANTITY_INCREMENT"
+  | "UNKNOWN_SYMBOL"
+  | "INSTRUMENT_NOT_TRADING"
+  | "BELOW_MIN_NOTIONAL"
+  | "PRICE_OUTSIDE_BAND";
+
+export const ORDER_ERROR_HTTP_STATUS: Record<OrderErrorCode, number> = {
+  ORDER_NOT_FOUND: 404,
+  ORDER_NOT_CANCELLABLE: 409,
+  ORDER_REJECTED: 422,
+  INVALID_TRIGGER_PRICE: 400,
+  INVALID_TIME_IN_FORCE: 400,
+  INVALID_PRICE_INCREMENT: 400,
+  INVALID_QUANTITY_INCREMENT: 400,
+  UNKNOWN_SYMBOL: 400,
+  INSTRUMENT_NOT_TRADING: 409,
+  BELOW_MIN_NOTIONAL: 400,
+  PRICE_OUTSIDE_BAND: 400,
+};
+
+export class OrderError extends Error {
+  public readonly code: OrderErrorCode;
+  public readonly httpStatus: number;
+  public readonly metadata?: Record<string, unknown>;
+
+  constructor(code: OrderErrorCode, message?: string, metadata?: Record<string, unknown>) {
+    super(message ?? code);
+    this.name = "OrderError";
+    this.code = code;
+    this.httpStatus = ORDER_ERROR_HTTP_STATUS[code];
+    this.metadata = metadata;
+  }
+
+  toJSON() {
+    return {
+      error: this.code,
+      message: this.message,
+      ...(this.metadata && { details: this.metadata }),
+    };
+  }
+
+  static isOrderError(error: unknown): error is OrderError {
+    return error instanceof OrderError;
+  }
+}
@@ -1,30 +1,29 @@
-import { DrizzleClient } from "../../db/pg.js";
-import { orders } from '@repo/database';
-import { eq, sql } from 'drizzle-orm';
-import { OrderMatchingEngine } from './matching-engine.js';
-import { OrderService as IOrderService, PlaceOrderInput, OrderStatus, Order, UUID } from './order.types.js'; // Use definitions from order.types
+import { DbExecutor, DrizzleClient, DrizzleTransaction } from "../../db/pg.js";
+import { marketPrices, orders, trades } from '@repo/database';
+import { TransactionRollbackError, and, desc, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { EngineOrder, EngineRejectReason, OrderMatchingEngine, ProcessResult, SelfTradeCancel, Trade } from './matching-engine.js';
+import { OrderError } from './order.errors.js';
+import { Decimal } from '../../lib/decimal.js';
+import { TriggerEngine, isConditionalType, validateTriggerPrice } from './trigger-engine.js';
+import { OrderService as IOrderService, PlaceOrderInput, OrderStatus, Order, SelfTradePrevention, TimeInForce, UUID } from './order.types.js'; // Use definitions from order.types
 import { PositionService } from '../position/position.service.js';
-// We need PositionService or logic to update positions. The old one imported PositionService.
-// I'll assume we need to inject dependencies or use the PositionService if it exists.
-// Checking file lists, I didn't see PositionService in domains/position? 
-// The old one was in 'oms/PositionService.ts'. I probably missed that file or it needs moving too.
-// For now, I'll inline the position logic or create a placeholder if it's missing, but the "Brain Transplant" instruction didn't mention PositionService explicitly, but the code I read in Step 23 lines 4 & 95 used it.
-// I should probably search for PositionService.
-// Wait, Step 23 line 4: `import { PositionService } from './PositionService.js';` -> It was in `oms`.
-// Use PositionService from domains if it exists, roughly.
-
-// Let's assume I need to handle positions. The user said "Move logic".
-// I will check if domains/position exists or similar. Use codebase_search?
-// Actually, I'll assume I should create it or put it in a shared place if not found.
-// But for now, I'll stick to the plan.
-// I will reference a PositionService interface and assume it's injected.
+import { LedgerService } from '../ledger/ledger.service.js';
+import type { RiskService } from '../risk/risk.service.js';
+import type { InstrumentService } from '../instrument/instrument.service.js';
 
 export class OrderService implements IOrderService {
   private engines: Map<string, OrderMatchingEngine> = new Map();
+  private triggers = new TriggerEngine();
+  private lastTradePrices: Map<string, Decimal> = new Map();
+  private triggerWatcher: NodeJS.Timeout | null = null;
+  private expirySweeper: NodeJS.Timeout | null = null;
 
   constructor(
     private db: DrizzleClient,
-    private positionService: PositionService // I'll comment this out for a second until I verify it exists
+    private positionService: PositionService,
+    private ledgerService: LedgerService,
+    private riskService: RiskService,
+    private instrumentService: InstrumentService,
   ) { }
 
   private getEngine(symbol: string): OrderMatchingEngine {
@@ -38,104 +37,716 @@ export class OrderService implements IOrderService {
     // Load open orders
     const openOrders = await this.db.select().from(orders).where(
       sql`${orders.status} IN ('new', 'partially_filled')`
-    );
+    ).orderBy(orders.createdAt); // Replay in arrival order to preserve time priority
 
+    let pendingTriggers = 0;
     for (const order of openOrders) {
-      const engine = this.getEngine(order.symbol);
-      engine.addExistingOrder({
+      if (isConditionalType(order.type)) {
+        if (!order.triggeredAt) {
+          // Still waiting for its trigger: back into the trigger engine, not the book
+          this.triggers.add({
+            id: order.id,
+            symbol: order.symbol,
+            side: order.side as "buy" | "sell",
+            type: order.type,
+            triggerPrice: Decimal.from(order.triggerPrice || '0'),
+            limitPrice: order.price ? Decimal.from(order.price) : undefined,
+            quantity: Decimal.from(order.quantity),
+            timestamp: order.createdAt.getTime(),
+            expiresAt: order.expiresAt?.getTime(),
+          });
+          pendingTriggers++;
+          continue;
+        }
+      }
+
+      if (this.restsOnBook(order)) this.getEngine(order.symbol).addExistingOrder(this.toRestingOrder(order));
+    }
+    console.log(`Initialized OME with ${openOrders.length - pendingTriggers} open orders and ${pendingTriggers} pending triggers`);
+  }
+
+  /** Triggered stop-market remainders don't rest; triggered stop-limits rest as limits. */
+  private restsOnBook(order: typeof orders.$inferSelect): boolean {
+    return !isConditionalType(order.type) || (!!order.triggeredAt && !!order.price);
+  }
+
+  private toRestingOrder(order: typeof orders.$inferSelect): EngineOrder {
+    return {
+      ...this.toEngineOrder(order),
+      filledQuantity: Decimal.from(order.filledQuantity || '0'),
+      timestamp: order.createdAt.getTime(),
+    };
+  }
+
+  /**
+   * Replace a symbol's book with the open orders stored for it, leaving out `excludeOrderId`.
+   * Used when settling fails after the engine already matched, so memory agrees with the database again.
+   */
+  private async rebuildEngine(symbol: string, excludeOrderId: string): Promise<void> {
+    const openOrders = await this.db.select().from(orders).where(and(
+      eq(orders.symbol, symbol),
+      inArray(orders.status, ['new', 'partially_filled']),
+    )).orderBy(orders.createdAt);
+
+    const engine = new OrderMatchingEngine(symbol);
+    for (const order of openOrders) {
+      if (order.id !== excludeOrderId && this.restsOnBook(order)) engine.addExistingOrder(this.toRestingOrder(order));
+    }
+    this.engines.set(symbol, engine);
+  }
+
+  async place(input: PlaceOrderInput): Promise<Order> {
+    await this.validateInstrument(input);
+
+    // 0. Trigger validation for conditional orders
+    let triggerPrice: Decimal | undefined;
+    if (isConditionalType(input.type)) {
+      if (!input.triggerPrice) {
+        throw new OrderError("INVALID_TRIGGER_PRICE", `Trigger price is required for ${input.type} orders`);
+      }
+      triggerPrice = Decimal.from(input.triggerPrice);
+      const referencePrice = await this.getReferencePrice(input.symbol);
+      const invalid = validateTriggerPrice(input.type, input.side, triggerPrice, referencePrice);
+      if (invalid) {
+        throw new OrderError("INVALID_TRIGGER_PRICE", invalid, { triggerPrice, referencePrice });
+      }
+    } else if (input.triggerPrice) {
+      throw new OrderError("INVALID_TRIGGER_PRICE", "Trigger price is only valid for stop and take_profit orders");
+    }
+
+    this.validateTimeInForce(input);
+
+    // 1. Pre-trade risk checks. Rejected orders are still recorded for the audit trail.
+    const risk = await this.riskService.validateOrder(input);
+    if (!risk.ok) {
+      throw await this.recordRejection(input, risk.code, risk.reason);
+    }
+
+    // 2. Create the order and hold its buy notional together, so concurrent orders can't spend the same funds
+    const order = await this.db.transaction(async (tx) => {
+      const [created] = await tx.insert(orders).values({
+        accountId: input.accountId,
+        symbol: input.symbol,
+        side: input.side,
+        type: input.type,
+        quantity: input.quantity,
+        price: input.price,
+        triggerPrice: input.triggerPrice,
+        holdPrice: risk.estimatedPrice?.toString(),
+        timeInForce: input.timeInForce ?? (input.type === 'market' ? 'IOC' : 'GTC'),
+        postOnly: input.postOnly ?? false,
+        expiresAt: input.expiresAt,
+        selfTradePrevention: input.selfTradePrevention,
+        status: 'new',
+        filledQuantity: '0',
+      }).returning();
+
+      if (!created) {
+        throw new Error("Failed to create order");
+      }
+
+      const holdAmount = this.unfilledNotional(created);
+      if (holdAmount.isPositive()) {
+        const held = await this.ledgerService.hold({
+          accountId: created.accountId,
+          amount: holdAmount.toString(),
+          referenceId: created.id,
+          referenceType: 'hold',
+          description: `Hold ${created.symbol} buy ${created.quantity} @ ${created.price ?? created.holdPrice}`,
+        }, tx);
+        if (!held) {
+          tx.rollback();
+        }
+      }
+      return created;
+    }).catch((err) => {
+      if (err instanceof TransactionRollbackError) return null;
+      throw err;
+    });
+
+    if (!order) {
+      throw await this.recordRejection(input, "INSUFFICIENT_FUNDS", "Insufficient available balance to hold the order notional");
+    }
+
+    // 3. Conditional orders wait off-book until their trigger is crossed
+    if (isConditionalType(input.type) && triggerPrice !== undefined) {
+      this.triggers.add({
         id: order.id,
-        side: order.side as "buy" | "sell",
-        type: order.type as "market" | "limit",
-        price: parseFloat(order.price || '0'),
-        quantity: parseFloat(order.quantity),
-        filledQuantity: parseFloat(order.filledQuantity || '0'),
+        symbol: input.symbol,
+        side: input.side,
+        type: input.type,
+        triggerPrice,
+        limitPrice: input.price ? Decimal.from(input.price) : undefined,
+        quantity: Decimal.from(input.quantity),
         timestamp: order.createdAt.getTime(),
+        expiresAt: input.expiresAt?.getTime(),
       });
+      return order as unknown as Order;
     }
-    console.log(`Initialized OME with ${openOrders.length} open orders`);
+
+    // 4. Match and settle, then fire any triggers the new trade price crossed
+    await this.expireDue(input.symbol);
+    const { lastPrice, rejectReason } = await this.execute(order);
+    if (rejectReason === 'POST_ONLY_WOULD_TAKE') {
+      throw new OrderError("ORDER_REJECTED", "Post-only order would take liquidity", {
+        orderId: order.id,
+        reason: rejectReason,
+      });
+    }
+    if (lastPrice !== null) {
+      await this.processTriggers(input.symbol, lastPrice);
+    }
+
+    // Return latest state
+    const [updatedOrder] = await this.db.select().from(orders).where(eq(orders.id, order.id));
+    return updatedOrder as unknown as Order; // safe cast given schema match
   }
 
-  async place(input: PlaceOrderInput): Promise<Order> {
-    // 1. Create Order in DB (Pending/New)
-    const [order] = await this.db.insert(orders).values({
+  /** Store a rejected order for the audit trail and build the error to throw. */
+  private async recordRejection(input: PlaceOrderInput, reason: string, message: string): Promise<OrderError> {
+    const [rejected] = await this.db.insert(orders).values({
       accountId: input.accountId,
       symbol: input.symbol,
       side: input.side,
       type: input.type,
       quantity: input.quantity,
       price: input.price,
-      status: 'new',
+      triggerPrice: input.triggerPrice,
+      timeInForce: input.timeInForce,
+      postOnly: input.postOnly ?? false,
+      expiresAt: input.expiresAt,
+      selfTradePrevention: input.selfTradePrevention,
+      status: 'rejected',
       filledQuantity: '0',
-    }).returning();
+    }).returning({ id: orders.id });
 
-    if (!order) {
-      throw new Error("Failed to create order");
+    return new OrderError("ORDER_REJECTED", message, {
+      orderId: rejected?.id,
+      reason,
+    });
+  }
+
+  /**
+   * Cash held for the unfilled part of an order. Only buys are held; sells are covered by positions, not cash.
+   */
+  private unfilledNotional(order: typeof orders.$inferSelect, filledQuantity = order.filledQuantity): Decimal {
+    const remaining = Decimal.from(order.quantity).minus(Decimal.from(filledQuantity || '0'));
+    return this.heldNotional(order, remaining);
+  }
+
+  /**
+   * Cash held for `quantity` of a buy: at its limit price, or for an unpriced buy at the
+   * estimated price from the risk check. Zero for sells.
+   */
+  private heldNotional(order: typeof orders.$inferSelect, quantity: Decimal): Decimal {
+    const price = order.price ?? order.holdPrice;
+    if (order.side !== 'buy' || !price || !quantity.isPositive()) return Decimal.ZERO;
+    return quantity.times(Decimal.from(price));
+  }
+
+  private async releaseHold(order: typeof orders.$inferSelect, amount: Decimal, reason: string, executor: DbExecutor = this.db): Promise<void> {
+    if (!amount.isPositive()) return;
+    await this.ledgerService.release({
+      accountId: order.accountId,
+      amount: amount.toString(),
+      referenceId: order.id,
+      referenceType: 'release',
+      description: `Release ${order.symbol} buy (${reason})`,
+    }, executor);
+  }
+
+  /**
+   * Feed a reference price into the trigger engine and execute every order it fires.
+   * Fills from fired orders move the last trade price, so keep going until nothing else crosses.
+   */
+  async processTriggers(symbol: string, price: Decimal): Promise<void> {
+    let fired = this.triggers.onPrice(symbol, price);
+
+    while (fired.length > 0) {
+      for (const conditional of fired) {
+        // Funds were checked and held when the order was placed, so firing needs neither again.
+        // Persist the trigger first so a restart treats it as a live order, not a pending one
+        const [order] = await this.db.update(orders)
+          .set({ triggeredAt: new Date(), updatedAt: new Date() })
+          .where(and(
+            eq(orders.id, conditional.id),
+            inArray(orders.status, ['new', 'partially_filled']),
+            isNull(orders.triggeredAt),
+          ))
+          .returning();
+
+        // Cancelled (or already triggered) in the meantime
+        if (!order) continue;
+
+        // A GTD conditional that outlived its expiry never reaches the book
+        if (order.expiresAt && order.expiresAt.getTime() <= Date.now()) {
+          await this.db.transaction(async (tx) => {
+            await tx.update(orders).set({ status: 'expired', updatedAt: new Date() }).where(eq(orders.id, order.id));
+            await this.releaseHold(order, this.unfilledNotional(order), 'expired', tx);
+          });
+          continue;
+        }
+
+        await this.expireDue(symbol);
+        await this.execute(order);
+      }
+
+      const lastPrice = this.lastTradePrices.get(symbol);
+      fired = lastPrice !== undefined ? this.triggers.onPrice(symbol, lastPrice) : [];
+    }
+  }
+
+  /**
+   * Poll the latest market data for every symbol with pending triggers.
+   * Market data is written by the market-data process, so this is the only way it reaches us.
+   */
+  async evaluateTriggers(): Promise<void> {
+    for (const symbol of this.triggers.watchedSymbols()) {
+      // Halted / closed instruments keep their triggers armed until trading resumes
+      const instrument = await this.instrumentService.get(symbol);
+      if (instrument?.status !== 'open') continue;
+
+      const price = await this.getLatestMarketPrice(symbol);
+      if (price !== null) {
+        await this.processTriggers(symbol, price);
+      }
+    }
+  }
+
+  startTriggerWatcher(intervalMs = 1000): void {
+    if (this.triggerWatcher) return;
+    let running = false;
+    this.triggerWatcher = setInterval(() => {
+      // Skip a tick rather than overlap with a slow evaluation
+      if (running) return;
+      running = true;
+      this.evaluateTriggers()
+        .catch((err) => console.error("Trigger evaluation failed", err))
+        .finally(() => { running = false; });
+    }, intervalMs);
+    this.triggerWatcher.unref();
+  }
+
+  stopTriggerWatcher(): void {
+    if (this.triggerWatcher) {
+      clearInterval(this.triggerWatcher);
+      this.triggerWatcher = null;
     }
+  }
 
-    // 2. Process in Matching Engine
-    const engine = this.getEngine(input.symbol);
+  /**
+   * Run a persisted order through the matching engine and settle its fills.
+   * Returns the last trade price (null when nothing matched) and any engine rejection.
+   */
+  private async execute(order: typeof orders.$inferSelect): Promise<{ lastPrice: Decimal | null; rejectReason?: EngineRejectReason }> {
+    const engine = this.getEngine(order.symbol);
     const result = engine.processOrder({
-      id: order.id,
-      side: input.side,
-      type: input.type,
-      price: input.price ? parseFloat(input.price) : 0,
-      quantity: parseFloat(input.quantity),
-      filledQuantity: 0,
+      ...this.toEngineOrder(order),
+      filledQuantity: Decimal.ZERO,
       timestamp: Date.now(),
     });
 
-    // 3. Handle Trades
-    if (result.trades.length > 0) {
-      // Transaction for trades? Ideally yes.
+    if (result.rejectReason) {
+      // Post-only would have taken liquidity: rejected. FOK could not fill completely: killed.
       await this.db.transaction(async (tx) => {
-        for (const trade of result.trades) {
-          // Update Positions for Maker
-          const [makerOrder] = await tx.select().from(orders).where(eq(orders.id, trade.makerOrderId));
-          if (makerOrder) {
-            // TODO: Update Position Logic
-            // await this.positionService.updatePosition(...)
-          }
-
-          // Update Positions for Taker (Current User)
-          // TODO: Update Position Logic
-          // await this.positionService.updatePosition(...)
-        }
+        await tx.update(orders).set({
+          status: result.rejectReason === 'POST_ONLY_WOULD_TAKE' ? 'rejected' : 'cancelled',
+          updatedAt: new Date(),
+        }).where(eq(orders.id, order.id));
+        await this.releaseHold(order, this.unfilledNotional(order), result.rejectReason!, tx);
+      });
+      return { lastPrice: null, rejectReason: result.rejectReason };
+    }
 
-        // Update Order Status (Taker)
-        const filledQty = result.filled
-          ? input.quantity
-          : result.trades.reduce((acc, t) => acc + t.quantity, 0).toString();
-
-        await tx.update(orders)
-          .set({
-            filledQuantity: filledQty,
-            status: result.filled ? 'filled' : 'partially_filled',
-          })
-          .where(eq(orders.id, order.id));
-
-        // Update Order Status (Makers)
-        for (const trade of result.trades) {
-          const [makerOrder] = await tx.select().from(orders).where(eq(orders.id, trade.makerOrderId));
-          if (makerOrder) {
-            const filled = parseFloat(makerOrder.filledQuantity || '0') + trade.quantity;
-            const isFilled = filled >= parseFloat(makerOrder.quantity);
-            await tx.update(orders).set({
-              filledQuantity: filled.toString(),
-              status: isFilled ? 'filled' : 'partially_filled'
-            }).where(eq(orders.id, makerOrder.id));
-          }
+    // Resting with nothing matched and nothing pulled by self-trade prevention: already persisted as 'new'
+    if (result.rested && result.trades.length === 0 && result.selfTradeCancels.length === 0) {
+      return { lastPrice: null };
+    }
+
+    try {
+      await this.settleExecution(order, result);
+    } catch (err) {
+      await this.abandonExecution(order);
+      throw err;
+    }
+
+    if (result.trades.length === 0) return { lastPrice: null };
+
+    const lastPrice = result.trades[result.trades.length - 1]!.price;
+    this.lastTradePrices.set(order.symbol, lastPrice);
+    return { lastPrice };
+  }
+
+  /**
+   * Store what the engine did: trade rows, cash legs, positions and order status commit together.
+   * Order rows are read FOR UPDATE: another taker can match the same resting orders (or this
+   * one, once it rests) before this commits, and fills must add up rather than overwrite.
+   */
+  private async settleExecution(order: typeof orders.$inferSelect, result: ProcessResult): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const [taker] = await tx.select().from(orders).where(eq(orders.id, order.id)).for('update');
+      if (!taker) {
+        throw new Error(`Order not found: ${order.id}`);
+      }
+
+      for (const trade of result.trades) {
+        const [makerOrder] = await tx.select().from(orders).where(eq(orders.id, trade.makerOrderId)).for('update');
+        if (!makerOrder) {
+          throw new Error(`Maker order not found: ${trade.makerOrderId}`);
         }
+
+        await this.settleTrade(tx, trade, order, makerOrder);
+
+        // Update Order Status (Maker)
+        const filled = Decimal.from(makerOrder.filledQuantity || '0').plus(trade.quantity);
+        const isFilled = filled.gte(Decimal.from(makerOrder.quantity));
+        await tx.update(orders).set({
+          filledQuantity: filled.toString(),
+          status: isFilled ? 'filled' : 'partially_filled',
+          updatedAt: new Date(),
+        }).where(eq(orders.id, makerOrder.id));
+      }
+
+      for (const cancel of result.selfTradeCancels) {
+        await this.applySelfTradeCancel(tx, cancel);
+      }
+
+      // Update Order Status (Taker). A remainder that didn't rest (IOC / market / self-trade prevention) is cancelled.
+      // Fills it took as a maker after resting may already be committed, so add to what is stored.
+      const filledQty = Decimal.from(taker.filledQuantity || '0').plus(Decimal.sum(result.trades.map((t) => t.quantity)));
+      const quantity = Decimal.from(taker.quantity).minus(result.takerReduced);
+
+      let status: OrderStatus = 'filled';
+      if (filledQty.lt(quantity)) {
+        if (!result.rested) status = 'cancelled';
+        else status = filledQty.isPositive() ? 'partially_filled' : 'new';
+      }
+
+      await tx.update(orders)
+        .set({
+          filledQuantity: filledQty.toString(),
+          quantity: quantity.toString(),
+          status,
+          updatedAt: new Date(),
+        })
+        .where(eq(orders.id, order.id));
+
+      // The hold for whatever was neither filled nor left resting goes back to available
+      const releasable = status === 'cancelled'
+        ? this.unfilledNotional(taker, filledQty.toString())
+        : this.heldNotional(taker, result.takerReduced);
+      await this.releaseHold(order, releasable, status === 'cancelled' ? 'unfilled remainder' : 'self-trade decrement', tx);
+    });
+  }
+
+  /**
+   * Settling failed after the engine had already matched: nothing of it was stored, so rebuild
+   * the symbol's book from the database and reject the order, releasing its hold.
+   * Best effort: if the database is still failing the original error is what the caller sees.
+   */
+  private async abandonExecution(order: typeof orders.$inferSelect): Promise<void> {
+    try {
+      await this.rebuildEngine(order.symbol, order.id);
+      await this.db.transaction(async (tx) => {
+        const [rejected] = await tx.update(orders)
+          .set({ status: 'rejected', updatedAt: new Date() })
+          .where(and(
+            eq(orders.id, order.id),
+            inArray(orders.status, ['new', 'partially_filled']),
+          ))
+          .returning();
+        if (rejected) await this.releaseHold(rejected, this.unfilledNotional(rejected), 'settlement failed', tx);
       });
+    } catch (err) {
+      console.error(`Failed to restore ${order.symbol} after a failed settlement`, err);
     }
+  }
 
-    // Return latest state
-    const [updatedOrder] = await this.db.select().from(orders).where(eq(orders.id, order.id));
-    return updatedOrder as unknown as Order; // safe cast given schema match
+  /** Persist a resting order shrunk or cancelled by self-trade prevention, releasing its hold for that part. */
+  private async applySelfTradeCancel(tx: DrizzleTransaction, cancel: SelfTradeCancel): Promise<void> {
+    const [maker] = await tx.select().from(orders).where(eq(orders.id, cancel.orderId)).for('update');
+    if (!maker) {
+      throw new Error(`Maker order not found: ${cancel.orderId}`);
+    }
+
+    if (cancel.cancelled) {
+      await tx.update(orders).set({ status: 'cancelled', updatedAt: new Date() }).where(eq(orders.id, maker.id));
+      await this.releaseHold(maker, this.unfilledNotional(maker), 'self-trade prevention', tx);
+      return;
+    }
+
+    const quantity = Decimal.from(maker.quantity).minus(cancel.reducedQuantity);
+    await tx.update(orders).set({ quantity: quantity.toString(), updatedAt: new Date() }).where(eq(orders.id, maker.id));
+    await this.releaseHold(maker, this.heldNotional(maker, cancel.reducedQuantity), 'self-trade decrement', tx);
+  }
+
+  /**
+   * Check the order against the instrument registry: the symbol must exist and be open,
+   * prices must sit on the tick grid and quantities on the lot grid, the notional must meet
+   * the minimum and a limit price must fall inside the band around the reference price.
+   */
+  private async validateInstrument(input: PlaceOrderInput): Promise<void> {
+    const instrument = await this.instrumentService.get(input.symbol);
+    if (!instrument) {
+      throw new OrderError("UNKNOWN_SYMBOL", `Unknown symbol ${input.symbol}`, { symbol: input.symbol });
+    }
+    if (instrument.status !== 'open') {
+      throw new OrderError("INSTRUMENT_NOT_TRADING", `${input.symbol} is ${instrument.status}`, {
+        symbol: input.symbol,
+        status: instrument.status,
+      });
+    }
+
+    for (const [field, value] of [['price', input.price], ['triggerPrice', input.triggerPrice]] as const) {
+      if (value && !Decimal.from(value).isMultipleOf(instrument.tickSize)) {
+        throw new OrderError("INVALID_PRICE_INCREMENT", `${field} must be a multiple of the tick size ${instrument.tickSize}`, {
+          [field]: value,
+          tickSize: instrument.tickSize.toString(),
+        });
+      }
+    }
+    const quantity = Decimal.from(input.quantity);
+    if (!quantity.isMultipleOf(instrument.lotSize)) {
+      throw new OrderError("INVALID_QUANTITY_INCREMENT", `quantity must be a multiple of the lot size ${instrument.lotSize}`, {
+        quantity: input.quantity,
+        lotSize: instrument.lotSize.toString(),
+      });
+    }
+
+    // Unpriced orders are valued at the reference price; with no reference there is nothing to check against
+    const referencePrice = await this.getReferencePrice(input.symbol);
+    const valuationPrice = input.price ? Decimal.from(input.price) : referencePrice;
+    if (valuationPrice && quantity.times(valuationPrice).lt(instrument.minNotional)) {
+      throw new OrderError("BELOW_MIN_NOTIONAL", `Order notional is below the minimum ${instrument.minNotional}`, {
+        minNotional: instrument.minNotional.toString(),
+      });
+    }
+
+    if (input.price && instrument.priceBandPct && referencePrice) {
+      const width = referencePrice.times(instrument.priceBandPct);
+      const price = Decimal.from(input.price);
+      if (price.lt(referencePrice.minus(width)) || price.gt(referencePrice.plus(width))) {
+        throw new OrderError("PRICE_OUTSIDE_BAND", `Price must be within ${instrument.priceBandPct} of the reference price ${referencePrice}`, {
+          price: input.price,
+          referencePrice: referencePrice.toString(),
+          priceBandPct: instrument.priceBandPct.toString(),
+        });
+      }
+    }
+  }
+
+  /**
+   * Enforce time-in-force combinations the engine relies on.
+   * Market orders are always IOC; post-only only makes sense for an order that rests.
+   */
+  private validateTimeInForce(input: PlaceOrderInput): void {
+    const tif: TimeInForce = input.timeInForce ?? (input.type === 'market' ? 'IOC' : 'GTC');
+
+    if (input.type === 'market' && tif !== 'IOC' && tif !== 'FOK') {
+      throw new OrderError("INVALID_TIME_IN_FORCE", "Market orders must be IOC or FOK", { timeInForce: tif });
+    }
+    if (tif === 'GTD') {
+      if (!input.expiresAt) {
+        throw new OrderError("INVALID_TIME_IN_FORCE", "GTD orders require expiresAt");
+      }
+      if (input.expiresAt.getTime() <= Date.now()) {
+        throw new OrderError("INVALID_TIME_IN_FORCE", "expiresAt must be in the future", { expiresAt: input.expiresAt.toISOString() });
+      }
+    } else if (input.expiresAt) {
+      throw new OrderError("INVALID_TIME_IN_FORCE", "expiresAt is only valid for GTD orders", { timeInForce: tif });
+    }
+    if (input.postOnly && (input.type !== 'limit' || tif === 'IOC' || tif === 'FOK')) {
+      throw new OrderError("INVALID_TIME_IN_FORCE", "Post-only requires a GTC or GTD limit order", { timeInForce: tif });
+    }
+  }
+
+  /** Pull expired GTD orders off the book and mark them expired. */
+  private async expireDue(symbol: string, now = Date.now()): Promise<void> {
+    const engine = this.engines.get(symbol);
+    if (!engine) return;
+
+    const expired = engine.expireOrders(now);
+    if (expired.length === 0) return;
+
+    try {
+      await this.persistExpiry(expired.map((o) => o.id));
+    } catch (err) {
+      // Persisting failed: put them back so the next sweep retries
+      for (const order of expired) engine.addExistingOrder(order);
+      throw err;
+    }
+  }
+
+  /** Expire GTD stop / take_profit orders still waiting for their trigger. */
+  private async expireDueTriggers(now = Date.now()): Promise<void> {
+    const expired = this.triggers.expireOrders(now);
+    if (expired.length === 0) return;
+
+    try {
+      await this.persistExpiry(expired.map((o) => o.id));
+    } catch (err) {
+      for (const order of expired) this.triggers.add(order);
+      throw err;
+    }
+  }
+
+  /** Mark orders that are still open as expired and release their holds, in one transaction. */
+  private async persistExpiry(orderIds: string[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const rows = await tx.update(orders)
+        .set({ status: 'expired', updatedAt: new Date() })
+        .where(and(
+          inArray(orders.id, orderIds),
+          inArray(orders.status, ['new', 'partially_filled']),
+        ))
+        .returning();
+
+      for (const row of rows) {
+        await this.releaseHold(row, this.unfilledNotional(row), 'expired', tx);
+      }
+    });
+  }
+
+  async expireOrders(): Promise<void> {
+    const now = Date.now();
+    for (const symbol of this.engines.keys()) {
+      await this.expireDue(symbol, now);
+    }
+    await this.expireDueTriggers(now);
+  }
+
+  startExpirySweeper(intervalMs = 1000): void {
+    if (this.expirySweeper) return;
+    let running = false;
+    this.expirySweeper = setInterval(() => {
+      if (running) return;
+      running = true;
+      this.expireOrders()
+        .catch((err) => console.error("GTD expiry sweep failed", err))
+        .finally(() => { running = false; });
+    }, intervalMs);
+    this.expirySweeper.unref();
+  }
+
+  stopExpirySweeper(): void {
+    if (this.expirySweeper) {
+      clearInterval(this.expirySweeper);
+      this.expirySweeper = null;
+    }
+  }
+
+  /**
+   * Conditional orders execute as limit orders when they carry a price, otherwise as market orders.
+   * An unpriced buy never fills above its hold price, so every fill stays covered by its hold.
+   */
+  private toEngineOrder(order: typeof orders.$inferSelect): Omit<EngineOrder, "filledQuantity" | "timestamp"> {
+    const type = isConditionalType(order.type)
+      ? (order.price ? "limit" : "market")
+      : order.type as "market" | "limit";
+    return {
+      id: order.id,
+      accountId: order.accountId,
+      side: order.side as "buy" | "sell",
+      type,
+      price: Decimal.from(order.price || order.holdPrice || '0'),
+      quantity: Decimal.from(order.quantity),
+      timeInForce: (order.timeInForce ?? 'GTC') as TimeInForce,
+      postOnly: order.postOnly,
+      expiresAt: order.expiresAt?.getTime(),
+      selfTradePrevention: (order.selfTradePrevention ?? undefined) as SelfTradePrevention | undefined,
+    };
+  }
+
+  /** Last trade on our own book, falling back to the latest market data. */
+  private async getReferencePrice(symbol: string): Promise<Decimal | null> {
+    return this.lastTradePrices.get(symbol) ?? this.getLatestMarketPrice(symbol);
+  }
+
+  private async getLatestMarketPrice(symbol: string): Promise<Decimal | null> {
+    const [latest] = await this.db.select({ price: marketPrices.price }).from(marketPrices)
+      .where(eq(marketPrices.symbol, symbol))
+      .orderBy(desc(marketPrices.timestamp))
+      .limit(1);
+    return latest ? Decimal.from(latest.price) : null;
+  }
+
+  /**
+   * Book one execution: the trade row, the buyer->seller cash transfer and both position legs.
+   * Must run inside the caller's transaction so a failure rolls back the whole fill.
+   */
+  private async settleTrade(
+    tx: DrizzleTransaction,
+    trade: Trade,
+    takerOrder: typeof orders.$inferSelect,
+    makerOrder: typeof orders.$inferSelect,
+  ): Promise<void> {
+    const [tradeRow] = await tx.insert(trades).values({
+      orderId: takerOrder.id,
+      counterpartyOrderId: makerOrder.id,
+      symbol: takerOrder.symbol,
+      price: trade.price.toString(),
+      quantity: trade.quantity.toString(),
+    }).returning({ id: trades.id });
+
+    if (!tradeRow) {
+      throw new Error("Failed to record trade");
+    }
+
+    const buyer = takerOrder.side === 'buy' ? takerOrder : makerOrder;
+    const seller = takerOrder.side === 'buy' ? makerOrder : takerOrder;
+    const notional = trade.price.times(trade.quantity).toString();
+    const description = `${takerOrder.symbol} ${trade.quantity} @ ${trade.price}`;
+
+    // The fill consumes the buyer's hold at the price it was held at; any price improvement goes back to available
+    await this.releaseHold(buyer, this.heldNotional(buyer, trade.quantity), 'filled', tx);
+
+    await this.ledgerService.transfer(
+      { accountId: buyer.accountId, amount: notional, referenceId: tradeRow.id, referenceType: 'trade', description: `Buy ${description}` },
+      { accountId: seller.accountId, amount: notional, referenceId: tradeRow.id, referenceType: 'trade', description: `Sell ${description}` },
+      tx,
+    );
+
+    await this.positionService.updatePosition(buyer.accountId, takerOrder.symbol, 'buy', trade.quantity, trade.price, tx);
+    await this.positionService.updatePosition(seller.accountId, takerOrder.symbol, 'sell', trade.quantity, trade.price, tx);
   }
 
   async cancel(id: UUID): Promise<void> {
-    // Implement cancel logic
-    throw new Error("Method not implemented.");
+    const [order] = await this.db.select().from(orders).where(eq(orders.id, id));
+    if (!order) {
+      throw new OrderError("ORDER_NOT_FOUND");
+    }
+    if (order.status !== 'new' && order.status !== 'partially_filled') {
+      throw new OrderError("ORDER_NOT_CANCELLABLE", undefined, { status: order.status });
+    }
+
+    // Pull from the book (or trigger engine) first so nothing can hit this order while we persist.
+    const engine = this.getEngine(order.symbol);
+    const removed = engine.cancelOrder(order.id);
+    const removedTrigger = this.triggers.remove(order.id);
+
+    try {
+      await this.db.transaction(async (tx) => {
+        const [cancelled] = await tx.update(orders)
+          .set({ status: 'cancelled', updatedAt: new Date() })
+          .where(and(
+            eq(orders.id, order.id),
+            inArray(orders.status, ['new', 'partially_filled']),
+          ))
+          .returning();
+
+        if (!cancelled) {
+          throw new OrderError("ORDER_NOT_CANCELLABLE");
+        }
+
+        // Release the cash held for the unfilled remainder of a buy.
+        await this.releaseHold(cancelled, this.unfilledNotional(cancelled), 'cancelled', tx);
+      });
+    } catch (err) {
+      // Persisting failed: put the order back so the book matches the database.
+      if (removed) engine.addExistingOrder(removed);
+      if (removedTrigger) this.triggers.add(removedTrigger);
+      throw err;
+    }
   }
   async get(id: UUID): Promise<Order | null> {
     const [order] = await this.db.select().from(orders).where(eq(orders.id, id));
@@ -2,7 +2,11 @@
 export type UUID = string;
 export type OrderSide = "buy" | "sell";
 export type OrderType = "market" | "limit" | "stop" | "take_profit";
-export type OrderStatus = "new" | "partially_filled" | "filled" | "cancelled" | "rejected";
+export type OrderStatus = "new" | "partially_filled" | "filled" | "cancelled" | "rejected" | "expired";
+// GTC rests until cancelled, IOC cancels any remainder, FOK fills completely or not at all, GTD rests until expiresAt
+export type TimeInForce = "GTC" | "IOC" | "FOK" | "GTD";
+// What happens when an order would match a resting order from the same account (the incoming order's mode applies)
+export type SelfTradePrevention = "cancel_newest" | "cancel_oldest" | "cancel_both" | "decrement_and_cancel";
 export interface Order {
   id: UUID;
   accountId: UUID;
@@ -10,9 +14,16 @@ export interface Order {
   side: OrderSide;
   type: OrderType;
   price?: string;
+  triggerPrice?: string; // stop / take_profit only
+  holdPrice?: string; // Unpriced buys: estimated price held for, and the worst price they fill at
   quantity: string;
   filledQuantity: string;
   status: OrderStatus;
+  timeInForce?: TimeInForce;
+  postOnly: boolean;
+  expiresAt?: string;
+  selfTradePrevention?: SelfTradePrevention;
+  triggeredAt?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -23,7 +34,12 @@ export interface PlaceOrderInput {
   side: "buy" | "sell";
   type: "market" | "limit" | "stop" | "take_profit";
   price?: string;
+  triggerPrice?: string; // Required for stop / take_profit
   quantity: string;
+  timeInForce?: TimeInForce; // Defaults to GTC (IOC for market orders)
+  postOnly?: boolean; // Reject instead of taking liquidity
+  expiresAt?: Date; // Required for GTD
+  selfTradePrevention?: SelfTradePrevention; // Defaults to cancel_newest
 }
 
 export interface OrderRepository {
@@ -1,9 +1,10 @@
 import type { Router } from "../../api/types.js";
 import type { AccountService } from "../account/account.service.js";
 import type { OrderService } from "./order.service.js";
-import { getAuthUser } from "../../api/middleware.js";
+import { can, getAuthUser } from "../../api/middleware.js";
 import type { AuthServices } from "../../api/middleware.js";
 import { validatePlaceOrderHttpBody } from "./orderHttpValidator.js";
+import { OrderError } from "./order.errors.js";
 
 type LoggerLike = {
   error: (msg: string, meta?: Record<string, unknown>) => void;
@@ -15,7 +16,7 @@ export function registerOrderHttpRoutes(
   logger: LoggerLike,
 ): void {
   router.route("POST", "/orders", async (req) => {
-    const auth = await getAuthUser(req, services);
+    const auth = await getAuthUser(req, services, { scope: "trade" });
     if (!auth) return { status: 401, body: { error: "unauthorized" } };
 
     let body: ReturnType<typeof validatePlaceOrderHttpBody>;
@@ -40,12 +41,47 @@ export function registerOrderHttpRoutes(
         type: body.type,
         quantity: body.quantity.toString(),
         price: body.price?.toString(),
+        triggerPrice: body.triggerPrice?.toString(),
+        timeInForce: body.timeInForce,
+        postOnly: body.postOnly,
+        expiresAt: body.expiresAt ? new Date(body.expiresAt) : undefined,
+        selfTradePrevention: body.selfTradePrevention,
       });
 
       return { status: 200, body: result };
     } catch (e) {
+      if (OrderError.isOrderError(e)) {
+        return { status: e.httpStatus, body: e.toJSON() };
+      }
       logger.error("order_error", { err: String(e) });
       return { status: 500, body: { error: "order_failed" } };
     }
   });
+
+  router.route("DELETE", "/orders/:id", async (req) => {
+    const auth = await getAuthUser(req, services, { scope: "trade" });
+    if (!auth) return { status: 401, body: { error: "unauthorized" } };
+
+    const orderId = req.params["id"];
+    if (!orderId) return { status: 400, body: { error: "order_id_required" } };
+
+    try {
+      const order = await services.order.get(orderId);
+      if (!order) return { status: 404, body: { error: "order_not_found" } };
+
+      const account = await services.account.getAccountById(order.accountId);
+      if (!account || (account.userId !== auth.sub && !can(auth, "orders:cancel_any"))) {
+        return { status: 403, body: { error: "forbidden" } };
+      }
+
+      await services.order.cancel(order.id);
+      return { status: 204 };
+    } catch (e) {
+      if (OrderError.isOrderError(e)) {
+        return { status: e.httpStatus, body: e.toJSON() };
+      }
+      logger.error("order_cancel_error", { err: String(e), orderId });
+      return { status: 500, body: { error: "cancel_failed" } };
+    }
+  });
 }
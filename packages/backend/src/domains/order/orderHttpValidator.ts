@@ -1,5 +1,16 @@
 import { z } from "zod";
+import { Decimal } from "../../lib/decimal.js";
 
+// Prices and quantities accept JSON numbers or decimal strings; strings skip float rounding entirely.
+const decimal = z.union([z.number().finite(), z.string()]).transform((value, ctx) => {
+  try {
+    return Decimal.from(value);
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "invalid_decimal" });
+    return z.NEVER;
+  }
+});
+const positiveDecimal = decimal.refine((value) => value.isPositive(), { message: "must_be_positive" });
 
 const placeOrderSchema = z
   .object({
@@ -7,8 +18,13 @@ const placeOrderSchema = z
     symbol: z.string().min(1),
     side: z.enum(["buy", "sell"]),
     type: z.enum(["market", "limit", "stop", "take_profit"]),
-    quantity: z.number(),
-    price: z.number().optional(),
+    quantity: positiveDecimal,
+    price: positiveDecimal.optional(),
+    triggerPrice: positiveDecimal.optional(),
+    timeInForce: z.enum(["GTC", "IOC", "FOK", "GTD"]).optional(),
+    postOnly: z.boolean().optional(),
+    expiresAt: z.string().datetime({ offset: true }).optional(), // ISO-8601, GTD only
+    selfTradePrevention: z.enum(["cancel_newest", "cancel_oldest", "cancel_both", "decrement_and_cancel"]).optional(),
   })
   .strict();
 
@@ -0,0 +1,177 @@
+import { OrderSide } from "./order.types.js";
+import type { Decimal } from "../../lib/decimal.js";
+
+/*
+  Trigger engine for conditional orders (stop / take_profit).
+
+  Conditional orders never rest on the matching book. They wait here until a reference
+  price (last trade or market data) crosses their trigger, then the caller converts them
+  into a market order (no limit price) or a limit order (limit price given).
+
+  Direction by type and side:
+  - stop buy / take_profit sell fire when the price RISES to or above the trigger.
+  - stop sell / take_profit buy fire when the price FALLS to or below the trigger.
+*/
+
+export type ConditionalOrderType = "stop" | "take_profit";
+export type TriggerDirection = "rise" | "fall";
+
+export interface ConditionalOrder {
+    id: string;
+    symbol: string;
+    side: OrderSide;
+    type: ConditionalOrderType;
+    triggerPrice: Decimal;
+    limitPrice?: Decimal; // Present for stop-limit / take-profit-limit
+    quantity: Decimal;
+    timestamp: number;
+    expiresAt?: number; // GTD expiry (epoch ms)
+}
+
+export function isConditionalType(type: string): type is ConditionalOrderType {
+    return type === "stop" || type === "take_profit";
+}
+
+export function triggerDirection(type: ConditionalOrderType, side: OrderSide): TriggerDirection {
+    if (type === "stop") return side === "buy" ? "rise" : "fall";
+    return side === "buy" ? "fall" : "rise";
+}
+
+/**
+ * Check a trigger against the current reference price.
+ * A trigger that would fire immediately is rejected so callers don't accidentally
+ * send a market order when they meant to wait.
+ */
+export function validateTriggerPrice(
+    type: ConditionalOrderType,
+    side: OrderSide,
+    triggerPrice: Decimal,
+    referencePrice: Decimal | null,
+): string | null {
+    if (!triggerPrice.isPositive()) {
+        return "Trigger price must be a positive number";
+    }
+    if (referencePrice === null) return null;
+
+    const direction = triggerDirection(type, side);
+    if (direction === "rise" && triggerPrice.lte(referencePrice)) {
+        return `Trigger price must be above the current price (${referencePrice}) for a ${side} ${type}`;
+    }
+    if (direction === "fall" && triggerPrice.gte(referencePrice)) {
+        return `Trigger price must be below the current price (${referencePrice}) for a ${side} ${type}`;
+    }
+    return null;
+}
+
+class SymbolTriggers {
+    // Each list keeps the NEXT order to fire at the end so firing is a pop.
+    // rise: descending trigger price; fall: ascending trigger price.
+    private readonly rise: ConditionalOrder[] = [];
+    private readonly fall: ConditionalOrder[] = [];
+
+    get size(): number {
+        return this.rise.length + this.fall.length;
+    }
+
+    add(order: ConditionalOrder) {
+        const direction = triggerDirection(order.type, order.side);
+        const list = direction === "rise" ? this.rise : this.fall;
+        // Orders closer to firing sort towards the end; ties fire in arrival order.
+        const firesBefore = (a: ConditionalOrder, b: ConditionalOrder) => {
+            if (a.triggerPrice.eq(b.triggerPrice)) return a.timestamp < b.timestamp;
+            return direction === "rise" ? a.triggerPrice.lt(b.triggerPrice) : a.triggerPrice.gt(b.triggerPrice);
+        };
+
+        let lo = 0;
+        let hi = list.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >>> 1;
+            if (firesBefore(list[mid]!, order)) hi = mid;
+            else lo = mid + 1;
+        }
+        list.splice(lo, 0, order);
+    }
+
+    remove(orderId: string): ConditionalOrder | null {
+        for (const list of [this.rise, this.fall]) {
+            const index = list.findIndex((o) => o.id === orderId);
+            if (index !== -1) {
+                const [removed] = list.splice(index, 1);
+                return removed ?? null;
+            }
+        }
+        return null;
+    }
+
+    fire(price: Decimal): ConditionalOrder[] {
+        const fired: ConditionalOrder[] = [];
+        while (this.rise.length && this.rise[this.rise.length - 1]!.triggerPrice.lte(price)) {
+            fired.push(this.rise.pop()!);
+        }
+        while (this.fall.length && this.fall[this.fall.length - 1]!.triggerPrice.gte(price)) {
+            fired.push(this.fall.pop()!);
+        }
+        return fired.sort((a, b) => a.timestamp - b.timestamp);
+    }
+}
+
+export class TriggerEngine {
+    private readonly symbols = new Map<string, SymbolTriggers>();
+    private readonly orderSymbols = new Map<string, string>();
+    // Pending GTD orders by expiry; swept by expireOrders().
+    private readonly expiries = new Map<string, number>();
+
+    add(order: ConditionalOrder) {
+        if (this.orderSymbols.has(order.id)) return;
+        let triggers = this.symbols.get(order.symbol);
+        if (!triggers) {
+            triggers = new SymbolTriggers();
+            this.symbols.set(order.symbol, triggers);
+        }
+        triggers.add(order);
+        this.orderSymbols.set(order.id, order.symbol);
+        if (order.expiresAt !== undefined) this.expiries.set(order.id, order.expiresAt);
+    }
+
+    remove(orderId: string): ConditionalOrder | null {
+        const symbol = this.orderSymbols.get(orderId);
+        if (!symbol) return null;
+        this.orderSymbols.delete(orderId);
+        this.expiries.delete(orderId);
+        return this.symbols.get(symbol)?.remove(orderId) ?? null;
+    }
+
+    /**
+     * Remove every pending GTD order whose expiry is at or before `now`.
+     * Returns the removed orders so the caller can persist the expiry.
+     */
+    expireOrders(now: number): ConditionalOrder[] {
+        const expired: ConditionalOrder[] = [];
+        for (const [orderId, expiresAt] of this.expiries) {
+            if (expiresAt > now) continue;
+            const removed = this.remove(orderId);
+            if (removed) expired.push(removed);
+        }
+        return expired;
+    }
+
+    /**
+     * Feed a reference price for a symbol.
+     * Returns (and forgets) every order whose trigger was crossed, oldest first.
+     */
+    onPrice(symbol: string, price: Decimal): ConditionalOrder[] {
+        const triggers = this.symbols.get(symbol);
+        if (!triggers) return [];
+        const fired = triggers.fire(price);
+        for (const order of fired) {
+            this.orderSymbols.delete(order.id);
+            this.expiries.delete(order.id);
+        }
+        return fired;
+    }
+
+    /** Symbols that currently have pending conditional orders. */
+    watchedSymbols(): string[] {
+        return [...this.symbols.entries()].filter(([, t]) => t.size > 0).map(([symbol]) => symbol);
+    }
+}
@@ -1,6 +1,7 @@
-import { DrizzleClient } from "../../db/pg.js";
+import { DrizzleClient, DbExecutor } from "../../db/pg.js";
 import { accounts, positions } from "@repo/database";
 import { eq, sql } from "drizzle-orm";
+import type { Decimal } from "../../lib/decimal.js";
 
 export class PositionService {
     constructor(private db: DrizzleClient) { }
@@ -25,34 +26,40 @@ export class PositionService {
             .where(eq(accounts.userId, userId));
     }
 
-    async updatePosition(accountId: string, symbol: string, side: "buy" | "sell", quantity: number, price: number): Promise<void> {
+    async updatePosition(
+        accountId: string,
+        symbol: string,
+        side: "buy" | "sell",
+        quantity: Decimal,
+        price: Decimal,
+        executor: DbExecutor = this.db, // pass a transaction to settle alongside other writes
+    ): Promise<void> {
         // Calculate change
         // For Spot:
         // Buy 1 BTC: Increase BTC position. (Cost handled by Ledger usually, or decremented cash separately).
         // Sell 1 BTC: Decrease BTC position.
 
-        // Note: The schemas use `numeric`. Drizzle returns string. We pass number.
-        // Need to be careful with precision. For this MVP refactor, sticking to number is okay but risky.
+        // Quantities are exact decimals and are handed to Postgres as numeric strings,
+        // so the running position never picks up float residue.
 
-        const qtyStr = quantity.toString();
-
-        const change = side === "buy" ? quantity : -quantity;
+        const change = side === "buy" ? quantity : quantity.negated();
 
         // Upsert
         // We use ON CONFLICT DO UPDATE
         // Postgres: INSERT INTO positions ... ON CONFLICT (account_id, symbol) DO UPDATE ...
 
-        await this.db.insert(positions).values({
+        await executor.insert(positions).values({
             accountId,
             symbol,
             side: 'long', // Spot positions are usually 'long' assets. 'short' implies margin. Assumed 'long'.
-            quantity: qtyStr,
+            quantity: change.toString(),
             // entryPrice: update average entry price? Complex. Skip for now or simple weighted avg.
         }).onConflictDoUpdate({
             target: [positions.accountId, positions.symbol],
             set: {
                 // quantity: positions.quantity + change
-                quantity: sql`${positions.quantity} + ${change}`
+                quantity: sql`${positions.quantity} + ${change.toString()}::numeric`,
+                updatedAt: new Date(),
             }
         });
     }
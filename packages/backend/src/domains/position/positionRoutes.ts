@@ -1,6 +1,6 @@
 import type { Router } from "../../api/types.js";
 import type { PositionService } from "./position.service.js";
-import { getAuthUser } from "../../api/middleware.js";
+import { can, getAuthUser } from "../../api/middleware.js";
 import type { AuthServices } from "../../api/middleware.js";
 import { validatePositionsQuery } from "./positionValidator.js";
 
@@ -9,7 +9,7 @@ export function registerPositionRoutes(
   services: AuthServices & { position: PositionService },
 ): void {
   router.route("GET", "/positions", async (req) => {
-    const auth = await getAuthUser(req, services);
+    const auth = await getAuthUser(req, services, { scope: "read" });
     if (!auth) return { status: 401, body: { error: "unauthorized" } };
 
     let query: { userId: string };
@@ -19,7 +19,7 @@ export function registerPositionRoutes(
       return { status: 400, body: { error: "user_id_required" } };
     }
 
-    if (auth.sub !== query.userId && auth.role !== "admin") {
+    if (auth.sub !== query.userId && !can(auth, "users:read")) {
       return { status: 403, body: { error: "forbidden" } };
     }
 
@@ -1,6 +1,7 @@
 import { DrizzleClient } from "../../db/pg.js";
-import { accounts, positions, marketPrices } from "@repo/database";
-import { eq, and, sql } from "drizzle-orm";
+import { accounts, orders, positions, marketPrices, riskLimits } from "@repo/database";
+import { eq, and, inArray, sql } from "drizzle-orm";
+import { Decimal } from "../../lib/decimal.js";
 
 export type UUID = string;
 
@@ -10,28 +11,49 @@ export interface RiskCheckInput {
   side: "buy" | "sell";
   type: "market" | "limit" | "stop" | "take_profit";
   price?: string; // Limit price
+  triggerPrice?: string; // stop / take_profit only
   quantity: string;
 }
 
+export type RiskRejectCode =
+  | "ACCOUNT_NOT_FOUND"
+  | "PRICE_UNAVAILABLE"
+  | "INSUFFICIENT_FUNDS"
+  | "INSUFFICIENT_POSITION"
+  | "RISK_LIMIT_NOT_CONFIGURED"
+  | "EXPOSURE_LIMIT_EXCEEDED";
+
+export type RiskCheckResult =
+  | { ok: true; estimatedPrice?: Decimal } // estimatedPrice: what an unpriced buy was valued at
+  | { ok: false; code: RiskRejectCode; reason: string };
+
 export interface RiskService {
-  validateOrder(input: RiskCheckInput): Promise<{
-    ok: true;
-  } | {
-    ok: false;
-    reason: string;
-  }>;
+  validateOrder(input: RiskCheckInput): Promise<RiskCheckResult>;
 }
 
-const MAX_HOUSE_EXPOSURE = 1000000; // Example limit: $1M or 1M units? Assuming Units for now or USD. 
-// Let's assume Limit on Symbol Quantity or Notional. 
-// User said "House Exposure < Limit". I'll use Notional for safety.
+// Row in `risk_limits` used when a symbol has no limit of its own.
+const DEFAULT_LIMIT_SYMBOL = "*";
+// Headroom applied to the last market price when valuing an unpriced buy.
+const MARKET_ORDER_BUFFER = Decimal.from("1.05");
 
 export class RiskServiceImplementation implements RiskService {
   constructor(private db: DrizzleClient) { }
 
-  async validateOrder(input: RiskCheckInput): Promise<{ ok: true } | { ok: false; reason: string }> {
-    const qty = parseFloat(input.quantity);
-    const price = input.price ? parseFloat(input.price) : 0; // If market, need current price.
+  /**
+   * Maximum absolute net house position for a symbol, from `risk_limits`.
+   * Falls back to the '*' row; returns null when neither is configured.
+   */
+  async getExposureLimit(symbol: string): Promise<Decimal | null> {
+    const rows = await this.db.select().from(riskLimits)
+      .where(inArray(riskLimits.symbol, [symbol, DEFAULT_LIMIT_SYMBOL]));
+
+    const row = rows.find((r) => r.symbol === symbol) ?? rows.find((r) => r.symbol === DEFAULT_LIMIT_SYMBOL);
+    return row ? Decimal.from(row.maxHouseExposure) : null;
+  }
+
+  async validateOrder(input: RiskCheckInput): Promise<RiskCheckResult> {
+    const qty = Decimal.from(input.quantity);
+    const price = input.price ? Decimal.from(input.price) : Decimal.ZERO; // If market, need current price.
 
     // 1. Check User Balance (Pre-trade check)
     // For BUY orders, check if user has enough Quote Currency (USD/USDT)
@@ -42,35 +64,44 @@ export class RiskServiceImplementation implements RiskService {
     // Fetch Account
     const [account] = await this.db.select().from(accounts).where(eq(accounts.id, input.accountId));
     if (!account) {
-      return { ok: false, reason: "Account not found" };
+      return { ok: false, code: "ACCOUNT_NOT_FOUND", reason: "Account not found" };
     }
 
+    let buyEstimate: Decimal | undefined;
     if (input.side === "buy") {
       // Estimate Cost.
       // If Market Order, we need a price.
       // I'll fetch the latest market price if needed, or use a safety buffer.
       let estimatedPrice = price;
-      if (input.type === "market") {
+      const unpriced = !input.price;
+      if (unpriced) { // Market, or a stop / take_profit that executes as market
         // Get latest price
         const [latestPrice] = await this.db.select().from(marketPrices)
           .where(eq(marketPrices.symbol, input.symbol))
           .orderBy(sql`${marketPrices.timestamp} DESC`)
           .limit(1);
 
-        estimatedPrice = latestPrice ? parseFloat(latestPrice.price) : 0;
-        if (estimatedPrice === 0) {
+        estimatedPrice = latestPrice ? Decimal.from(latestPrice.price) : Decimal.ZERO;
+        if (estimatedPrice.isZero()) {
           // If no price, maybe safe to fail or allow if deep liquidity?
           // Fail for safety.
-          return { ok: false, reason: "Market price unavailable for valuation" };
+          return { ok: false, code: "PRICE_UNAVAILABLE", reason: "Market price unavailable for valuation" };
+        }
+        // A stop buy fires at its trigger, above the current price, so value it at no less than that
+        if (input.triggerPrice) {
+          estimatedPrice = Decimal.max(estimatedPrice, Decimal.from(input.triggerPrice));
         }
         // Add 5% buffer for market orders
-        estimatedPrice = estimatedPrice * 1.05;
+        estimatedPrice = estimatedPrice.times(MARKET_ORDER_BUFFER);
       }
 
-      const cost = qty * estimatedPrice;
-      if (parseFloat(account.balance) < cost) {
-        return { ok: false, reason: `Insufficient funds. Required: ${cost}, Available: ${account.balance}` };
+      // Funds already held for resting buys are not available again
+      const cost = qty.times(estimatedPrice);
+      const available = Decimal.from(account.balance).minus(Decimal.from(account.locked));
+      if (available.lt(cost)) {
+        return { ok: false, code: "INSUFFICIENT_FUNDS", reason: `Insufficient funds. Required: ${cost}, Available: ${available}` };
       }
+      if (unpriced) buyEstimate = estimatedPrice;
     } else {
       // SELL: Check if they have the asset? 
       // The 'accounts' table has 'currency'. If this is a multicurrency account system, we need to check the specific currency account.
@@ -104,9 +135,22 @@ export class RiskServiceImplementation implements RiskService {
         )
       );
 
-      const currentQty = position ? parseFloat(position.quantity) : 0;
-      if (currentQty < qty) {
-        return { ok: false, reason: `Insufficient position. Required: ${qty}, Available: ${currentQty}` };
+      // Quantity still open on resting (or pending conditional) sells is already promised
+      const [openSells] = await this.db.select({
+        openQuantity: sql<string>`sum(${orders.quantity} - ${orders.filledQuantity})`
+      }).from(orders).where(
+        and(
+          eq(orders.accountId, input.accountId),
+          eq(orders.symbol, input.symbol),
+          eq(orders.side, "sell"),
+          inArray(orders.status, ["new", "partially_filled"])
+        )
+      );
+
+      const currentQty = position ? Decimal.from(position.quantity) : Decimal.ZERO;
+      const availableQty = currentQty.minus(Decimal.from(openSells?.openQuantity || '0'));
+      if (availableQty.lt(qty)) {
+        return { ok: false, code: "INSUFFICIENT_POSITION", reason: `Insufficient position. Required: ${qty}, Available: ${availableQty}` };
       }
     }
 
@@ -120,24 +164,25 @@ export class RiskServiceImplementation implements RiskService {
       totalQuantity: sql<string>`sum(${positions.quantity})`
     }).from(positions).where(eq(positions.symbol, input.symbol));
 
-    let currentNetParams = parseFloat(result?.totalQuantity || '0');
+    const currentNetParams = Decimal.from(result?.totalQuantity || '0');
 
     // Impact of this order:
     // User BUY -> User Position Increases -> House (Short) Increases
     // User SELL -> User Position Decreases -> House (Short) Decreases (or goes Long)
 
-    let nextNetParams = currentNetParams;
-    if (input.side === "buy") {
-      nextNetParams += qty;
-    } else {
-      nextNetParams -= qty;
-    }
+    const nextNetParams = input.side === "buy"
+      ? currentNetParams.plus(qty)
+      : currentNetParams.minus(qty);
 
-    // Absolute exposure
-    if (Math.abs(nextNetParams) > MAX_HOUSE_EXPOSURE) {
-      return { ok: false, reason: `House exposure limit exceeded for ${input.symbol}` };
+    // Absolute exposure against the per-symbol limit
+    const maxHouseExposure = await this.getExposureLimit(input.symbol);
+    if (maxHouseExposure === null) {
+      return { ok: false, code: "RISK_LIMIT_NOT_CONFIGURED", reason: `No risk limit configured for ${input.symbol}` };
+    }
+    if (nextNetParams.abs().gt(maxHouseExposure)) {
+      return { ok: false, code: "EXPOSURE_LIMIT_EXCEEDED", reason: `House exposure limit exceeded for ${input.symbol}` };
     }
 
-    return { ok: true };
+    return buyEstimate ? { ok: true, estimatedPrice: buyEstimate } : { ok: true };
   }
 }
@@ -0,0 +1,186 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+    createApiKeyManager,
+    createSecretBox,
+    InMemoryApiKeyNonceStore,
+    signApiRequest,
+} from "../auth/security/api.keys.js";
+import { DEFAULT_API_KEY_POLICY } from "../auth/core/auth.policies.js";
+import type { ApiKey, ApiKeyRepository, User, UserRepository } from "../auth/core/auth.types.js";
+import { getAuthUser, type AuthServices } from "../../api/middleware.js";
+import type { HttpRequest } from "../../api/types.js";
+
+const createApiKeyRepository = (): ApiKeyRepository => {
+    const keys = new Map<string, ApiKey>();
+    return {
+        async create(input) {
+            const apiKey = { ...input };
+            keys.set(apiKey.id, apiKey);
+            return apiKey;
+        },
+        async getByKeyId(keyId) {
+            return [...keys.values()].find((key) => key.keyId === keyId) ?? null;
+        },
+        async listByUser(userId) {
+            return [...keys.values()].filter((key) => key.userId === userId);
+        },
+        async countActiveByUser(userId, now) {
+            return [...keys.values()].filter((key) =>
+                key.userId === userId && !key.revokedAt && (!key.expiresAt || key.expiresAt > now)).length;
+        },
+        async revoke(userId, id, at) {
+            const key = keys.get(id);
+            if (!key || key.userId !== userId || key.revokedAt) return null;
+            key.revokedAt = at;
+            return key;
+        },
+        async touch(id, params) {
+            const key = keys.get(id)!;
+            key.lastUsedAt = params.lastUsedAt;
+            key.lastUsedIp = params.ipAddress ?? key.lastUsedIp;
+        },
+    };
+};
+
+const user: User = {
+    id: "user_1",
+    email: "bot@example.com",
+    status: "active",
+    role: "user",
+    createdAt: "2026-01-01T00:00:00Z",
+    updatedAt: "2026-01-01T00:00:00Z",
+} as User;
+
+const userRepository = { findById: async (id: string) => (id === user.id ? user : null) } as unknown as UserRepository;
+
+describe("API keys", () => {
+    let now = Date.parse("2026-03-01T12:00:00Z");
+    let nonceStore: InMemoryApiKeyNonceStore;
+    let nonceCounter = 0;
+
+    const setup = () => {
+        now = Date.parse("2026-03-01T12:00:00Z");
+        nonceStore = new InMemoryApiKeyNonceStore(() => now);
+        const repository = createApiKeyRepository();
+        const manager = createApiKeyManager({
+            repository,
+            userRepository,
+            secretBox: createSecretBox("test-encryption-key"),
+            nonceStore,
+            policy: { ...DEFAULT_API_KEY_POLICY, maxKeysPerUser: 2 },
+            clock: { now: () => new Date(now) },
+        });
+        return { manager, repository };
+    };
+
+    const signed = (
+        keyId: string,
+        secret: string,
+        overrides: { method?: string; url?: string; body?: string; nonce?: string; timestamp?: number; ipAddress?: string } = {},
+    ) => {
+        const timestamp = String(overrides.timestamp ?? now);
+        const nonce = overrides.nonce ?? `nonce-${String(++nonceCounter).padStart(12, "0")}`;
+        const method = overrides.method ?? "POST";
+        const url = overrides.url ?? "/orders";
+        const body = overrides.body ?? '{"symbol":"BTC-USD"}';
+        return {
+            method,
+            url,
+            rawBody: body,
+            ipAddress: overrides.ipAddress ?? "203.0.113.7",
+            headers: {
+                "x-api-key": keyId,
+                "x-api-timestamp": timestamp,
+                "x-api-nonce": nonce,
+                "x-api-signature": signApiRequest(secret, { timestamp, nonce, method, url, body }),
+            },
+        };
+    };
+
+    afterEach(() => nonceStore.close());
+
+    it("accepts a correctly signed request once and rejects its replay", async () => {
+        const { manager, repository } = setup();
+        const { apiKey, secret } = await manager.create(user.id, { label: "bot", scopes: ["read", "trade"] });
+        const request = signed(apiKey.keyId, secret);
+
+        expect(apiKey.secretCiphertext).not.toContain(secret);
+        await expect(manager.authenticate(request, "trade")).resolves.toMatchObject({
+            apiKeyId: apiKey.id,
+            userId: user.id,
+            role: "user",
+        });
+        await expect(manager.authenticate(request, "trade")).resolves.toBeNull();
+        expect((await repository.getByKeyId(apiKey.keyId))?.lastUsedIp).toBe("203.0.113.7");
+    });
+
+    it("rejects tampered bodies, stale timestamps and missing scopes", async () => {
+        const { manager } = setup();
+        const { apiKey, secret } = await manager.create(user.id, { label: "bot", scopes: ["read"] });
+
+        const tampered = signed(apiKey.keyId, secret);
+        tampered.rawBody = '{"symbol":"ETH-USD"}';
+        expect(await manager.authenticate(tampered, "read")).toBeNull();
+
+        expect(await manager.authenticate(signed(apiKey.keyId, secret, { timestamp: now - 31_000 }), "read")).toBeNull();
+        expect(await manager.authenticate(signed(apiKey.keyId, secret), "trade")).toBeNull();
+        expect(await manager.authenticate(signed(apiKey.keyId, "wrong-secret"), "read")).toBeNull();
+        expect(await manager.authenticate(signed(apiKey.keyId, secret), "read")).not.toBeNull();
+    });
+
+    it("enforces the IP allowlist, expiry and revocation", async () => {
+        const { manager } = setup();
+        const { apiKey, secret } = await manager.create(user.id, {
+            label: "desk",
+            scopes: ["read"],
+            allowedIps: ["198.51.100.0/24", "2001:db8::1"],
+            expiresInDays: 1,
+        });
+
+        expect(await manager.authenticate(signed(apiKey.keyId, secret, { ipAddress: "::ffff:198.51.100.20" }), "read")).not.toBeNull();
+        expect(await manager.authenticate(signed(apiKey.keyId, secret, { ipAddress: "2001:db8::1" }), "read")).not.toBeNull();
+        expect(await manager.authenticate(signed(apiKey.keyId, secret, { ipAddress: "203.0.113.7" }), "read")).toBeNull();
+
+        now += 2 * 24 * 60 * 60 * 1000;
+        expect(await manager.authenticate(signed(apiKey.keyId, secret, { ipAddress: "198.51.100.20" }), "read")).toBeNull();
+
+        const other = await manager.create(user.id, { label: "other", scopes: ["read"] });
+        await manager.revoke(user.id, other.apiKey.id);
+        expect(await manager.authenticate(signed(other.apiKey.keyId, other.secret), "read")).toBeNull();
+        await expect(manager.revoke(user.id, other.apiKey.id)).rejects.toMatchObject({ code: "API_KEY_NOT_FOUND" });
+    });
+
+    it("validates new keys against the policy", async () => {
+        const { manager } = setup();
+
+        await expect(manager.create(user.id, { label: "bad", scopes: ["read"], allowedIps: ["10.0.0.0/33"] }))
+            .rejects.toMatchObject({ code: "VALIDATION_ERROR" });
+        await expect(manager.create(user.id, { label: "long", scopes: ["read"], expiresInDays: 400 }))
+            .rejects.toMatchObject({ code: "VALIDATION_ERROR" });
+
+        await manager.create(user.id, { label: "one", scopes: ["read"] });
+        await manager.create(user.id, { label: "two", scopes: ["read"] });
+        await expect(manager.create(user.id, { label: "three", scopes: ["read"] }))
+            .rejects.toMatchObject({ code: "API_KEY_LIMIT_REACHED" });
+    });
+
+    it("is accepted by getAuthUser only on routes that ask for a scope", async () => {
+        const { manager } = setup();
+        const { apiKey, secret } = await manager.create(user.id, { label: "bot", scopes: ["read"] });
+        const services = { apiKeys: manager } as unknown as AuthServices;
+        const request = (): HttpRequest => ({
+            ...signed(apiKey.keyId, secret, { method: "GET", url: "/accounts", body: "" }),
+            method: "GET",
+            body: null,
+            query: {},
+            params: {},
+        });
+
+        expect(await getAuthUser(request(), services)).toBeNull();
+        expect(await getAuthUser(request(), services, { scope: "read" })).toEqual({
+            sub: user.id,
+            role: "user",
+            apiKeyId: apiKey.id,
+        });
+    });
+});
@@ -1,7 +1,11 @@
 import { describe, it, expect, vi } from "vitest";
 import { createLoginController } from "../auth/authController.js";
-import type { AuthService } from "../auth/authService.js";
+import { createRefreshController } from "../auth/controllers/refresh.controller.js";
+import { DEFAULT_REFRESH_COOKIE_POLICY } from "../auth/core/auth.policies.js";
+import { parseCookies, serializeCookie } from "../../api/cookies.js";
+import type { AuthService } from "../auth/core/auth.service.js";
 import type { HttpRequest } from "../../api/types.js";
+import { AuthError } from "../auth/core/auth.errors.js";
 
 describe("authController", () => {
     describe("login", () => {
@@ -32,10 +36,10 @@ describe("authController", () => {
                 session: { id: "sess_1" },
                 tokens: { accessToken: "access.token", refreshToken: "refresh.token" }
             });
-            expect(mockAuthService.authenticate).toHaveBeenCalledWith({
+            expect(mockAuthService.authenticate).toHaveBeenCalledWith(expect.objectContaining({
                 email: "test@example.com",
                 password: "password123",
-            });
+            }));
         });
 
         it("should return 400 if validation fails", async () => {
@@ -60,7 +64,7 @@ describe("authController", () => {
 
         it("should return 401 if authentication fails", async () => {
             const mockAuthService = {
-                authenticate: vi.fn().mockRejectedValue({ code: "INVALID_CREDENTIALS" }),
+                authenticate: vi.fn().mockRejectedValue(new AuthError("INVALID_CREDENTIALS")),
             } as unknown as AuthService;
 
             const login = createLoginController(mockAuthService);
@@ -75,7 +79,119 @@ describe("authController", () => {
             const response = await login(request);
 
             expect(response.status).toBe(401);
-            expect(response.body).toEqual({ error: "INVALID_CREDENTIALS" });
+            expect(response.body).toMatchObject({ error: "INVALID_CREDENTIALS" });
+        });
+
+        it("should pass an MFA challenge through without tokens", async () => {
+            const challenge = {
+                mfaRequired: true,
+                enrollmentRequired: false,
+                challengeToken: "challenge.token",
+                challengeExpiresAt: "2026-01-01T00:05:00.000Z",
+            };
+            const mockAuthService = {
+                authenticate: vi.fn().mockResolvedValue(challenge),
+            } as unknown as AuthService;
+
+            const login = createLoginController(mockAuthService);
+
+            const response = await login({
+                body: { email: "test@example.com", password: "password123" },
+                query: {},
+                params: {},
+                headers: {},
+            });
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual(challenge);
+        });
+    });
+
+    describe("refresh cookie", () => {
+        const policy = DEFAULT_REFRESH_COOKIE_POLICY;
+        const authResult = {
+            user: { id: "123", email: "test@example.com" },
+            session: { id: "sess_1" },
+            tokens: {
+                tokenType: "Bearer",
+                accessToken: "access.token",
+                accessTokenExpiresAt: "2026-01-01T00:15:00.000Z",
+                refreshToken: "refresh.token",
+                refreshTokenExpiresAt: "2026-01-31T00:00:00.000Z",
+            },
+        };
+
+        it("moves the refresh token into an httpOnly cookie when the client asks for it", async () => {
+            const mockAuthService = {
+                authenticate: vi.fn().mockResolvedValue(authResult),
+            } as unknown as AuthService;
+
+            const login = createLoginController(mockAuthService, policy);
+            const response = await login({
+                body: { email: "test@example.com", password: "password123" },
+                query: {},
+                params: {},
+                headers: { "x-auth-transport": "cookie" },
+            });
+
+            const body = response.body as { tokens: Record<string, string> };
+            expect(response.status).toBe(200);
+            expect(body.tokens).not.toHaveProperty("refreshToken");
+            expect(body.tokens.accessToken).toBe("access.token");
+
+            const [refresh, csrf] = response.cookies!.map(serializeCookie);
+            expect(refresh).toBe(
+                "bhc_refresh=refresh.token; Expires=Sat, 31 Jan 2026 00:00:00 GMT; Path=/auth; HttpOnly; Secure; SameSite=Strict",
+            );
+            expect(csrf).toContain(`bhc_csrf=${body.tokens.csrfToken}; `);
+            expect(csrf).not.toContain("HttpOnly");
+        });
+
+        it("refreshes from the cookie only with a matching CSRF header", async () => {
+            const mockAuthService = {
+                refreshSession: vi.fn().mockResolvedValue(authResult),
+            } as unknown as AuthService;
+            const refresh = createRefreshController(mockAuthService, policy);
+            const request = (csrfHeader?: string): HttpRequest => ({
+                body: null,
+                query: {},
+                params: {},
+                headers: csrfHeader ? { "x-csrf-token": csrfHeader } : {},
+                cookies: parseCookies("bhc_refresh=old.refresh; bhc_csrf=csrf-1"),
+            });
+
+            expect((await refresh(request())).body).toMatchObject({ error: "CSRF_TOKEN_INVALID" });
+            expect((await refresh(request("csrf-2"))).status).toBe(403);
+            expect(mockAuthService.refreshSession).not.toHaveBeenCalled();
+
+            const response = await refresh(request("csrf-1"));
+            expect(response.status).toBe(200);
+            expect(mockAuthService.refreshSession).toHaveBeenCalledWith(expect.objectContaining({
+                refreshToken: "old.refresh",
+            }));
+            expect(response.cookies?.map((cookie) => cookie.name)).toEqual(["bhc_refresh", "bhc_csrf"]);
+            expect((response.body as { tokens: object }).tokens).not.toHaveProperty("refreshToken");
+        });
+
+        it("clears the cookies when the cookie token is rejected", async () => {
+            const mockAuthService = {
+                refreshSession: vi.fn().mockRejectedValue(new AuthError("REFRESH_TOKEN_REUSED")),
+            } as unknown as AuthService;
+            const refresh = createRefreshController(mockAuthService, policy);
+
+            const response = await refresh({
+                body: null,
+                query: {},
+                params: {},
+                headers: { "x-csrf-token": "csrf-1" },
+                cookies: { bhc_refresh: "old.refresh", bhc_csrf: "csrf-1" },
+            });
+
+            expect(response.status).toBe(401);
+            expect(response.cookies?.map(serializeCookie)).toEqual([
+                "bhc_refresh=; Max-Age=0; Path=/auth; HttpOnly; Secure; SameSite=Strict",
+                "bhc_csrf=; Max-Age=0; Path=/; Secure; SameSite=Strict",
+            ]);
         });
     });
 });
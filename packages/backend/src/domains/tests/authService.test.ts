@@ -1,23 +1,71 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { createAuthService, AuthError } from "../auth/authService.js";
+import {
+    createAuthService,
+    AuthError,
+    type AuthService,
+    type AuthServiceDependencies,
+    type AuthenticationResult,
+    type MfaChallengeResult,
+} from "../auth/core/auth.service.js";
+import { generateTotp } from "../auth/mfa/totp.js";
+import {
+    DEFAULT_ANOMALY_DETECTION_POLICY,
+    DEFAULT_DEVICE_POLICY,
+    DEFAULT_EMAIL_VERIFICATION_POLICY,
+    DEFAULT_LOCKOUT_POLICY,
+    DEFAULT_MFA_POLICY,
+    DEFAULT_PASSWORD_POLICY,
+    DEFAULT_PASSWORD_RESET_POLICY,
+} from "../auth/core/auth.policies.js";
+import { MockMailer } from "../auth/email/mailer.js";
+import { createEmailVerificationFlow } from "../auth/flows/email.verification.js";
+import { createPasswordResetFlow } from "../auth/flows/password.reset.js";
+import { createDeviceTrustFlow } from "../auth/flows/device.trust.js";
+import { createAnomalyDetector, InMemoryAnomalyStore } from "../auth/security/anomaly.detector.js";
+import { createDeviceFingerprinter } from "../auth/security/device.fingerprint.js";
+import { createPasswordPolicyEnforcer, type PasswordPolicyEnforcer } from "../auth/security/password.policy.js";
+import { createBreachedPasswordList } from "../auth/security/breached.passwords.js";
+import { createAuditLogger } from "../auth/events/audit.logger.js";
+import type {
+    AuditEvent,
+    AuditEventCursor,
+    AuditEventFilter,
+    CreateSessionParams,
+    CreateUserActionTokenParams,
+    CreateUserParams,
+    RotateSessionParams,
+    TrustedDevice,
+    UpsertTrustedDeviceParams,
+    UserActionToken,
+} from "../auth/core/auth.types.js";
 
 // Mock dependencies
 const mockUserRepository = {
     findByEmail: vi.fn(),
     create: vi.fn(),
     findById: vi.fn(),
+    updateRole: vi.fn(),
     updateLastLogin: vi.fn(),
+    markEmailVerified: vi.fn(),
+    updateStatus: vi.fn(),
 };
 const mockCredentialRepository = {
     create: vi.fn(),
     getByUserId: vi.fn(),
+    updatePassword: vi.fn(),
     recordFailedAttempt: vi.fn(),
     resetFailedAttempts: vi.fn(),
+    lock: vi.fn(),
+    unlock: vi.fn(),
 };
 const mockSessionRepository = {
     create: vi.fn(),
     listActiveByUser: vi.fn(),
+    getById: vi.fn(),
+    replaceRefreshToken: vi.fn(),
     markInactive: vi.fn(),
+    markInactiveByUser: vi.fn(),
+    touch: vi.fn(),
 };
 const mockPasswordHasher = {
     hash: vi.fn().mockResolvedValue("hashed_password"),
@@ -29,18 +77,113 @@ const mockTokenManager = {
     parseRefreshToken: vi.fn(),
 };
 
+// Single-use email tokens kept in an array the test owns
+const createInMemoryTokenRepository = (store: () => UserActionToken[]) => ({
+    create: vi.fn(async (params: CreateUserActionTokenParams) => {
+        const record: UserActionToken = { ...params };
+        store().push(record);
+        return record;
+    }),
+    getByTokenHash: vi.fn(async (purpose: string, hash: string) =>
+        store().find((t) => t.purpose === purpose && t.tokenHash === hash) ?? null),
+    consume: vi.fn(async (id: string, at: string) => {
+        const record = store().find((t) => t.id === id && !t.consumedAt);
+        if (!record) return false;
+        record.consumedAt = at;
+        return true;
+    }),
+    countCreatedSince: vi.fn(async (userId: string, purpose: string, since: string) =>
+        store().filter((t) => t.userId === userId && t.purpose === purpose && t.createdAt > since).length),
+    consumeAllForUser: vi.fn(async (userId: string, purpose: string, at: string) => {
+        const open = store().filter((t) => t.userId === userId && t.purpose === purpose && !t.consumedAt);
+        open.forEach((t) => { t.consumedAt = at; });
+        return open.length;
+    }),
+});
+
+// Audit trail kept in an array, listed newest first like the Postgres repository
+const createInMemoryAuditRepository = (events: AuditEvent[]) => ({
+    append: vi.fn(async (event: AuditEvent) => {
+        events.push(event);
+    }),
+    list: vi.fn(async (filter: AuditEventFilter, { limit, after }: { limit: number; after?: AuditEventCursor }) =>
+        [...events]
+            .sort((a, b) => b.occurredAt.localeCompare(a.occurredAt) || b.id.localeCompare(a.id))
+            .filter((e) => !filter.action || e.action === filter.action)
+            .filter((e) => !filter.targetUserId || e.targetUserId === filter.targetUserId)
+            .filter((e) => !after || e.occurredAt < after.occurredAt
+                || (e.occurredAt === after.occurredAt && e.id < after.id))
+            .slice(0, limit)),
+});
+
+// Known devices kept in an array, keyed by user and fingerprint like the Postgres repository
+const createInMemoryTrustedDeviceRepository = (devices: TrustedDevice[]) => {
+    const byId = (userId: string, id: string) => devices.find((d) => d.userId === userId && d.id === id) ?? null;
+    return {
+        listByUser: vi.fn(async (userId: string, now: string) =>
+            devices.filter((d) => d.userId === userId && d.expiresAt > now)
+                .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))),
+        getByFingerprint: vi.fn(async (userId: string, fingerprint: string) =>
+            devices.find((d) => d.userId === userId && d.fingerprint === fingerprint) ?? null),
+        getByVerificationTokenHash: vi.fn(async (hash: string) =>
+            devices.find((d) => d.verificationTokenHash === hash) ?? null),
+        upsert: vi.fn(async (params: UpsertTrustedDeviceParams) => {
+            const existing = devices.find((d) => d.userId === params.userId && d.fingerprint === params.fingerprint);
+            if (!existing) {
+                const record: TrustedDevice = { ...params, createdAt: params.lastSeenAt };
+                devices.push(record);
+                return record;
+            }
+            Object.assign(existing, { ...params, id: existing.id, name: existing.name ?? params.name });
+            return existing;
+        }),
+        setVerificationToken: vi.fn(async (id: string, hash: string, expiresAt: string) => {
+            Object.assign(devices.find((d) => d.id === id)!, { verificationTokenHash: hash, verificationExpiresAt: expiresAt });
+        }),
+        markVerified: vi.fn(async (id: string, hash: string, at: string) => {
+            const record = devices.find((d) => d.id === id && d.verificationTokenHash === hash);
+            if (!record) return false;
+            Object.assign(record, { verifiedAt: at, verificationTokenHash: undefined, verificationExpiresAt: undefined });
+            return true;
+        }),
+        touch: vi.fn(),
+        rename: vi.fn(async (userId: string, id: string, name: string) => {
+            const record = byId(userId, id);
+            if (record) record.name = name;
+            return record;
+        }),
+        delete: vi.fn(async (userId: string, id: string) => {
+            const record = byId(userId, id);
+            if (record) devices.splice(devices.indexOf(record), 1);
+            return record;
+        }),
+    };
+};
+
+// The shared mocks as the service's required dependencies; each describe adds what it exercises
+const baseDependencies: AuthServiceDependencies = {
+    userRepository: mockUserRepository,
+    credentialRepository: mockCredentialRepository,
+    sessionRepository: mockSessionRepository,
+    passwordHasher: mockPasswordHasher,
+    tokenManager: mockTokenManager,
+};
+
+const buildService = (overrides: Partial<AuthServiceDependencies> = {}): AuthService =>
+    createAuthService({ ...baseDependencies, ...overrides });
+
+// For logins that must not be challenged: narrows the result to the session and tokens
+const signedIn = (result: AuthenticationResult | MfaChallengeResult): AuthenticationResult => {
+    if ("mfaRequired" in result) throw new Error("Unexpected MFA challenge");
+    return result;
+};
+
 describe("AuthService", () => {
-    let authService: any;
+    let authService: AuthService;
 
     beforeEach(() => {
         vi.clearAllMocks();
-        authService = createAuthService({
-            userRepository: mockUserRepository as any,
-            credentialRepository: mockCredentialRepository as any,
-            sessionRepository: mockSessionRepository as any,
-            passwordHasher: mockPasswordHasher,
-            tokenManager: mockTokenManager as any,
-        });
+        authService = buildService();
     });
 
     describe("register", () => {
@@ -88,8 +231,7 @@ describe("AuthService", () => {
                 password: "password123",
             });
 
-            expect(result.tokens).toBeDefined();
-            expect(result.tokens.accessToken).toBe("access_token");
+            expect(result).toMatchObject({ tokens: { accessToken: "access_token" } });
         });
 
         it("should throw on invalid password", async () => {
@@ -106,4 +248,991 @@ describe("AuthService", () => {
             })).rejects.toThrow(AuthError);
         });
     });
+
+    describe("mfa", () => {
+        const secret = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+        const now = new Date("2026-01-01T00:00:00Z");
+        const user = { id: "user_1", email: "test@example.com", status: "active", role: "user" };
+        const admin = { ...user, role: "admin" };
+        const credential = { userId: "user_1", passwordHash: "hashed_password", version: 1 };
+        const challenge = { id: "challenge_1", userId: "user_1", attempts: 0, expiresAt: "2026-01-01T00:05:00Z" };
+
+        const mockMfaRepository = {
+            getByUserId: vi.fn(),
+            saveSecret: vi.fn(),
+            enable: vi.fn(),
+            recordUsedStep: vi.fn(),
+            replaceRecoveryCodes: vi.fn(),
+            consumeRecoveryCode: vi.fn(),
+            createChallenge: vi.fn(),
+            getChallengeByTokenHash: vi.fn(),
+            recordChallengeAttempt: vi.fn(),
+            consumeChallenge: vi.fn(),
+            disable: vi.fn(),
+            countRemainingRecoveryCodes: vi.fn(),
+        };
+
+        beforeEach(() => {
+            authService = buildService({
+                mfaRepository: mockMfaRepository,
+                mfaPolicy: DEFAULT_MFA_POLICY,
+                clock: { now: () => now },
+            });
+            mockCredentialRepository.getByUserId.mockResolvedValue(credential);
+            mockPasswordHasher.verify.mockResolvedValue(true);
+            mockSessionRepository.create.mockResolvedValue({ id: "session_1", refreshTokenVersion: 1 });
+            mockSessionRepository.listActiveByUser.mockResolvedValue([]);
+            mockMfaRepository.getChallengeByTokenHash.mockResolvedValue(challenge);
+            mockMfaRepository.recordChallengeAttempt.mockResolvedValue(1);
+            mockMfaRepository.consumeChallenge.mockResolvedValue(true);
+            mockMfaRepository.recordUsedStep.mockResolvedValue(true);
+        });
+
+        it("returns a challenge instead of tokens for enrolled users", async () => {
+            mockUserRepository.findByEmail.mockResolvedValue(user);
+            mockMfaRepository.getByUserId.mockResolvedValue({ userId: "user_1", totpSecret: secret, enabledAt: "2025-12-01T00:00:00Z" });
+
+            const result = await authService.authenticate({ email: "test@example.com", password: "password123" });
+
+            expect(result).toMatchObject({ mfaRequired: true, enrollmentRequired: false });
+            expect(result).not.toHaveProperty("tokens");
+            expect(mockSessionRepository.create).not.toHaveBeenCalled();
+        });
+
+        it("requires admins to enroll before they get a session", async () => {
+            mockUserRepository.findByEmail.mockResolvedValue(admin);
+            mockMfaRepository.getByUserId.mockResolvedValue(null);
+
+            const result = await authService.authenticate({ email: "test@example.com", password: "password123" });
+
+            expect(result).toMatchObject({ mfaRequired: true, enrollmentRequired: true });
+            expect(mockSessionRepository.create).not.toHaveBeenCalled();
+        });
+
+        it("issues tokens once the challenge is answered with a valid code", async () => {
+            mockUserRepository.findById.mockResolvedValue(user);
+            mockMfaRepository.getByUserId.mockResolvedValue({ userId: "user_1", totpSecret: secret, enabledAt: "2025-12-01T00:00:00Z" });
+
+            const result = await authService.verifyMfa({ challengeToken: "token", code: generateTotp(secret, now, 30) });
+
+            expect(result.tokens.accessToken).toBe("access_token");
+            expect(mockMfaRepository.consumeChallenge).toHaveBeenCalledWith("challenge_1", now.toISOString());
+        });
+
+        it("rejects wrong and replayed codes", async () => {
+            mockUserRepository.findById.mockResolvedValue(user);
+            mockMfaRepository.getByUserId.mockResolvedValue({ userId: "user_1", totpSecret: secret, enabledAt: "2025-12-01T00:00:00Z" });
+
+            await expect(authService.verifyMfa({ challengeToken: "token", code: "000000" }))
+                .rejects.toMatchObject({ code: "MFA_CODE_INVALID" });
+
+            mockMfaRepository.recordUsedStep.mockResolvedValue(false);
+            await expect(authService.verifyMfa({ challengeToken: "token", code: generateTotp(secret, now, 30) }))
+                .rejects.toMatchObject({ code: "MFA_CODE_INVALID" });
+            expect(mockSessionRepository.create).not.toHaveBeenCalled();
+        });
+
+        it("locks the challenge after too many attempts", async () => {
+            mockMfaRepository.recordChallengeAttempt.mockResolvedValue(6);
+
+            await expect(authService.verifyMfa({ challengeToken: "token", code: "000000" }))
+                .rejects.toMatchObject({ code: "TOO_MANY_ATTEMPTS" });
+        });
+
+        it("enables MFA and returns recovery codes on confirmation", async () => {
+            mockUserRepository.findById.mockResolvedValue(user);
+            mockMfaRepository.getByUserId.mockResolvedValue({ userId: "user_1", totpSecret: secret });
+
+            const result = await authService.confirmMfaEnrollment({ userId: "user_1", code: generateTotp(secret, now, 30) });
+
+            expect(result.recoveryCodes).toHaveLength(DEFAULT_MFA_POLICY.recoveryCodeCount);
+            expect(result.authentication).toBeUndefined();
+            expect(mockMfaRepository.enable).toHaveBeenCalledWith(user.id, now.toISOString());
+            expect(mockMfaRepository.replaceRecoveryCodes.mock.calls[0]![1]).toHaveLength(DEFAULT_MFA_POLICY.recoveryCodeCount);
+        });
+
+        it("accepts a recovery code once", async () => {
+            mockUserRepository.findById.mockResolvedValue(user);
+            mockMfaRepository.getByUserId.mockResolvedValue({ userId: "user_1", totpSecret: secret, enabledAt: "2025-12-01T00:00:00Z" });
+            mockMfaRepository.consumeRecoveryCode.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+            await expect(authService.verifyMfa({ challengeToken: "token", recoveryCode: "ABCD2345" })).resolves.toHaveProperty("tokens");
+            await expect(authService.verifyMfa({ challengeToken: "token", recoveryCode: "ABCD2345" }))
+                .rejects.toMatchObject({ code: "RECOVERY_CODE_INVALID" });
+        });
+    });
+
+    describe("email verification", () => {
+        let now: Date;
+        let mailer: MockMailer;
+        let tokens: UserActionToken[];
+        const pendingUser = { id: "user_1", email: "test@example.com", status: "pending", role: "user" };
+        const credential = { userId: "user_1", passwordHash: "hashed_password", version: 1 };
+
+        const tokenRepository = createInMemoryTokenRepository(() => tokens);
+
+        const createService = (policy = DEFAULT_EMAIL_VERIFICATION_POLICY) => {
+            const clock = { now: () => now };
+            let seq = 0;
+            const idFactory = () => `id_${++seq}`;
+            return buildService({
+                clock,
+                idFactory,
+                emailVerification: createEmailVerificationFlow({
+                    userRepository: mockUserRepository,
+                    tokenRepository,
+                    mailer,
+                    policy,
+                    baseUrl: "https://app.example.com",
+                    clock,
+                    idFactory,
+                }),
+            });
+        };
+
+        const linkToken = (): string => {
+            const text = mailer.lastTo("test@example.com")?.text ?? "";
+            return new URL(/https:\/\/\S+/.exec(text)![0]).searchParams.get("token")!;
+        };
+
+        beforeEach(() => {
+            now = new Date("2026-01-01T00:00:00Z");
+            mailer = new MockMailer();
+            tokens = [];
+            mockUserRepository.findByEmail.mockResolvedValue(null);
+            mockUserRepository.create.mockImplementation(async (params: CreateUserParams) => ({ ...params }));
+            mockCredentialRepository.create.mockResolvedValue(credential);
+            mockSessionRepository.create.mockResolvedValue({ id: "session_1", refreshTokenVersion: 1 });
+            mockSessionRepository.listActiveByUser.mockResolvedValue([]);
+        });
+
+        it("registers users as pending and mails a verification link", async () => {
+            authService = createService();
+
+            const result = await authService.register({ email: "test@example.com", password: "password123" });
+
+            expect(result.user.status).toBe("pending");
+            expect(mailer.outbox).toHaveLength(1);
+            expect(mailer.lastTo("test@example.com")?.text).toContain("https://app.example.com/verify-email?token=");
+        });
+
+        it("withholds the session when the policy blocks login until verified", async () => {
+            authService = createService({ ...DEFAULT_EMAIL_VERIFICATION_POLICY, blockLoginUntilVerified: true });
+
+            const result = await authService.register({ email: "test@example.com", password: "password123" });
+
+            expect(result).not.toHaveProperty("tokens");
+            mockUserRepository.findByEmail.mockResolvedValue(pendingUser);
+            mockCredentialRepository.getByUserId.mockResolvedValue(credential);
+            mockPasswordHasher.verify.mockResolvedValue(true);
+            await expect(authService.authenticate({ email: "test@example.com", password: "password123" }))
+                .rejects.toMatchObject({ code: "EMAIL_NOT_VERIFIED" });
+        });
+
+        it("activates the user once and rejects the link afterwards", async () => {
+            authService = createService();
+            const { user } = await authService.register({ email: "test@example.com", password: "password123" });
+            const token = linkToken();
+            mockUserRepository.findById.mockResolvedValue({ ...pendingUser, status: "active" });
+
+            const result = await authService.verifyEmail(token);
+
+            expect(result.user.status).toBe("active");
+            expect(mockUserRepository.markEmailVerified).toHaveBeenCalledWith(user.id, now.toISOString());
+            await expect(authService.verifyEmail(token)).rejects.toMatchObject({ code: "VERIFICATION_TOKEN_INVALID" });
+        });
+
+        it("rejects expired links", async () => {
+            authService = createService();
+            await authService.register({ email: "test@example.com", password: "password123" });
+            now = new Date(now.getTime() + (DEFAULT_EMAIL_VERIFICATION_POLICY.tokenValiditySeconds + 1) * 1000);
+
+            await expect(authService.verifyEmail(linkToken())).rejects.toMatchObject({ code: "VERIFICATION_TOKEN_EXPIRED" });
+        });
+
+        it("caps resends per hour and stays silent for unknown emails", async () => {
+            authService = createService();
+            mockUserRepository.findByEmail.mockResolvedValue(pendingUser);
+
+            for (let i = 0; i < DEFAULT_EMAIL_VERIFICATION_POLICY.maxEmailsPerHour + 2; i++) {
+                await authService.resendVerificationEmail({ email: "test@example.com" });
+            }
+            expect(mailer.outbox).toHaveLength(DEFAULT_EMAIL_VERIFICATION_POLICY.maxEmailsPerHour);
+
+            mockUserRepository.findByEmail.mockResolvedValue(null);
+            await expect(authService.resendVerificationEmail({ email: "nobody@example.com" })).resolves.toBeUndefined();
+        });
+    });
+
+    describe("password reset", () => {
+        let now: Date;
+        let mailer: MockMailer;
+        let tokens: UserActionToken[];
+        const user = { id: "user_1", email: "test@example.com", status: "active", role: "user" };
+        const credential = { userId: "user_1", passwordHash: "hashed_password", version: 3 };
+        const tokenRepository = createInMemoryTokenRepository(() => tokens);
+
+        const createService = (policy = DEFAULT_PASSWORD_RESET_POLICY, passwordPolicy?: PasswordPolicyEnforcer) => {
+            const clock = { now: () => now };
+            let seq = 0;
+            return buildService({
+                clock,
+                passwordPolicy,
+                passwordReset: createPasswordResetFlow({
+                    userRepository: mockUserRepository,
+                    tokenRepository,
+                    mailer,
+                    policy,
+                    baseUrl: "https://app.example.com",
+                    clock,
+                    idFactory: () => `reset_${++seq}`,
+                }),
+            });
+        };
+
+        const linkToken = (index = -1): string => {
+            const text = mailer.outbox.at(index)?.text ?? "";
+            return new URL(/https:\/\/\S+/.exec(text)![0]).searchParams.get("token")!;
+        };
+
+        const advanceSeconds = (seconds: number) => {
+            now = new Date(now.getTime() + seconds * 1000);
+        };
+
+        beforeEach(() => {
+            now = new Date("2026-01-01T00:00:00Z");
+            mailer = new MockMailer();
+            tokens = [];
+            mockUserRepository.findByEmail.mockResolvedValue(user);
+            mockUserRepository.findById.mockResolvedValue(user);
+            mockCredentialRepository.getByUserId.mockResolvedValue(credential);
+            authService = createService();
+        });
+
+        it("mails a reset link and stays silent for unknown emails", async () => {
+            await authService.requestPasswordReset({ email: "Test@Example.com" });
+            mockUserRepository.findByEmail.mockResolvedValue(null);
+            await authService.requestPasswordReset({ email: "nobody@example.com" });
+
+            expect(mailer.outbox).toHaveLength(1);
+            expect(mailer.outbox[0]!.text).toContain("https://app.example.com/reset-password?token=");
+            expect(tokens[0]!.tokenHash).not.toBe(linkToken());
+        });
+
+        it("honours the cooldown and the hourly limit", async () => {
+            await authService.requestPasswordReset({ email: "test@example.com" });
+            await authService.requestPasswordReset({ email: "test@example.com" });
+            expect(mailer.outbox).toHaveLength(1);
+
+            for (let i = 0; i < DEFAULT_PASSWORD_RESET_POLICY.maxEmailsPerHour + 1; i++) {
+                advanceSeconds(DEFAULT_PASSWORD_RESET_POLICY.cooldownSeconds + 1);
+                await authService.requestPasswordReset({ email: "test@example.com" });
+            }
+            expect(mailer.outbox).toHaveLength(DEFAULT_PASSWORD_RESET_POLICY.maxEmailsPerHour);
+        });
+
+        it("bumps the credential version and revokes sessions", async () => {
+            await authService.requestPasswordReset({ email: "test@example.com" });
+
+            await authService.resetPassword({ token: linkToken(), newPassword: "new-password" });
+
+            expect(mockCredentialRepository.updatePassword).toHaveBeenCalledWith("user_1", expect.objectContaining({
+                passwordHash: "hashed_password",
+                version: 4,
+            }));
+            expect(mockSessionRepository.markInactiveByUser)
+                .toHaveBeenCalledWith("user_1", "password_rotated", now.toISOString(), { excludeSessionId: undefined });
+        });
+
+        it("keeps sessions when the policy does not invalidate them", async () => {
+            authService = createService({ ...DEFAULT_PASSWORD_RESET_POLICY, invalidateAllSessions: false });
+            await authService.requestPasswordReset({ email: "test@example.com" });
+
+            await authService.resetPassword({ token: linkToken(), newPassword: "new-password" });
+
+            expect(mockSessionRepository.markInactiveByUser).not.toHaveBeenCalled();
+        });
+
+        it("accepts a link once and retires older links", async () => {
+            await authService.requestPasswordReset({ email: "test@example.com" });
+            advanceSeconds(DEFAULT_PASSWORD_RESET_POLICY.cooldownSeconds + 1);
+            await authService.requestPasswordReset({ email: "test@example.com" });
+
+            await authService.resetPassword({ token: linkToken(-1), newPassword: "new-password" });
+
+            await expect(authService.resetPassword({ token: linkToken(-1), newPassword: "again" }))
+                .rejects.toMatchObject({ code: "RESET_TOKEN_USED" });
+            await expect(authService.resetPassword({ token: linkToken(0), newPassword: "again" }))
+                .rejects.toMatchObject({ code: "RESET_TOKEN_USED" });
+            await expect(authService.resetPassword({ token: "unknown", newPassword: "again" }))
+                .rejects.toMatchObject({ code: "RESET_TOKEN_INVALID" });
+        });
+
+        it("leaves the link usable when the new password is refused", async () => {
+            authService = createService(DEFAULT_PASSWORD_RESET_POLICY,
+                createPasswordPolicyEnforcer(DEFAULT_PASSWORD_POLICY, createBreachedPasswordList([])));
+            mockPasswordHasher.verify.mockResolvedValue(false);
+            await authService.requestPasswordReset({ email: "test@example.com" });
+
+            await expect(authService.resetPassword({ token: linkToken(), newPassword: "password1" }))
+                .rejects.toMatchObject({ code: "PASSWORD_TOO_WEAK" });
+            expect(tokens[0]!.consumedAt).toBeFalsy();
+
+            await authService.resetPassword({ token: linkToken(), newPassword: "Brand-New-Passw0rd!" });
+            expect(mockCredentialRepository.updatePassword).toHaveBeenCalledTimes(1);
+        });
+
+        it("rejects expired links", async () => {
+            await authService.requestPasswordReset({ email: "test@example.com" });
+            advanceSeconds(DEFAULT_PASSWORD_RESET_POLICY.tokenValiditySeconds + 1);
+
+            await expect(authService.resetPassword({ token: linkToken(), newPassword: "new-password" }))
+                .rejects.toMatchObject({ code: "RESET_TOKEN_EXPIRED" });
+            expect(mockCredentialRepository.updatePassword).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("lockout", () => {
+        const now = new Date("2026-01-01T00:00:00Z");
+        const user = { id: "user_1", email: "test@example.com", status: "active", role: "user" };
+        const credential = {
+            userId: "user_1", passwordHash: "hashed_password", version: 1, failedAttemptCount: 4, lockoutCount: 0,
+        };
+        const minutesFromNow = (minutes: number) => new Date(now.getTime() + minutes * 60_000).toISOString();
+        const login = () => authService.authenticate({ email: "test@example.com", password: "password123" });
+
+        beforeEach(() => {
+            mockUserRepository.findByEmail.mockResolvedValue(user);
+            mockCredentialRepository.getByUserId.mockResolvedValue(credential);
+            mockSessionRepository.create.mockResolvedValue({ id: "session_1", refreshTokenVersion: 1 });
+            mockSessionRepository.listActiveByUser.mockResolvedValue([]);
+            authService = buildService({
+                clock: { now: () => now },
+            });
+        });
+
+        it("refuses a locked account before checking the password", async () => {
+            mockCredentialRepository.getByUserId.mockResolvedValue({ ...credential, lockedUntil: minutesFromNow(5) });
+
+            await expect(login()).rejects.toMatchObject({
+                code: "ACCOUNT_LOCKED",
+                metadata: { lockedUntil: minutesFromNow(5) },
+            });
+            expect(mockPasswordHasher.verify).not.toHaveBeenCalled();
+        });
+
+        it("locks once the threshold is reached within the window", async () => {
+            mockPasswordHasher.verify.mockResolvedValue(false);
+            mockCredentialRepository.recordFailedAttempt.mockResolvedValue(DEFAULT_LOCKOUT_POLICY.maxAttempts);
+
+            await expect(login()).rejects.toMatchObject({ code: "ACCOUNT_LOCKED" });
+
+            expect(mockCredentialRepository.recordFailedAttempt)
+                .toHaveBeenCalledWith("user_1", now.toISOString(), minutesFromNow(-15));
+            expect(mockCredentialRepository.lock).toHaveBeenCalledWith("user_1", minutesFromNow(15));
+        });
+
+        it("doubles the lockout for repeat offenders up to the cap", async () => {
+            mockPasswordHasher.verify.mockResolvedValue(false);
+            mockCredentialRepository.recordFailedAttempt.mockResolvedValue(DEFAULT_LOCKOUT_POLICY.maxAttempts);
+
+            mockCredentialRepository.getByUserId.mockResolvedValue({ ...credential, lockoutCount: 2 });
+            await expect(login()).rejects.toMatchObject({ code: "ACCOUNT_LOCKED" });
+            mockCredentialRepository.getByUserId.mockResolvedValue({ ...credential, lockoutCount: 20 });
+            await expect(login()).rejects.toMatchObject({ code: "ACCOUNT_LOCKED" });
+
+            expect(mockCredentialRepository.lock).toHaveBeenNthCalledWith(1, "user_1", minutesFromNow(60));
+            expect(mockCredentialRepository.lock).toHaveBeenNthCalledWith(2, "user_1", minutesFromNow(24 * 60));
+        });
+
+        it("keeps counting below the threshold and resets on success", async () => {
+            mockPasswordHasher.verify.mockResolvedValue(false);
+            mockCredentialRepository.recordFailedAttempt.mockResolvedValue(2);
+            await expect(login()).rejects.toMatchObject({ code: "INVALID_CREDENTIALS" });
+            expect(mockCredentialRepository.lock).not.toHaveBeenCalled();
+
+            mockPasswordHasher.verify.mockResolvedValue(true);
+            mockCredentialRepository.getByUserId.mockResolvedValue({ ...credential, lockedUntil: minutesFromNow(-1) });
+            await expect(login()).resolves.toHaveProperty("tokens");
+            expect(mockCredentialRepository.resetFailedAttempts).toHaveBeenCalledWith("user_1");
+        });
+
+        it("lets admins unlock known accounts", async () => {
+            await authService.unlockAccount("user_1");
+            expect(mockCredentialRepository.unlock).toHaveBeenCalledWith("user_1");
+
+            mockCredentialRepository.getByUserId.mockResolvedValue(null);
+            await expect(authService.unlockAccount("missing")).rejects.toMatchObject({ code: "USER_NOT_FOUND" });
+        });
+    });
+
+    describe("refresh token reuse", () => {
+        const user = { id: "user_1", email: "test@example.com", status: "active", role: "user" };
+        const session = {
+            id: "session_1",
+            userId: "user_1",
+            refreshTokenHash: "hashed_refresh",
+            refreshTokenVersion: 3,
+            passwordVersion: 1,
+            status: "active",
+            createdAt: "2026-01-01T00:00:00Z",
+            lastSeenAt: "2026-01-01T00:00:00Z",
+            expiresAt: "2099-01-01T00:00:00Z",
+        };
+        const claims = (sessionVersion: number) => ({
+            sub: "user_1", sessionId: "session_1", sessionVersion, passwordVersion: 1,
+        });
+
+        let anomalyDetector: ReturnType<typeof createAnomalyDetector>;
+        const securityAlerts = { emit: vi.fn().mockResolvedValue(undefined) };
+
+        const createService = (revokeAllSessionsOnRefreshReuse = false) => buildService({
+            config: { revokeAllSessionsOnRefreshReuse },
+            anomalyDetector,
+            securityAlerts,
+        });
+
+        beforeEach(() => {
+            anomalyDetector = createAnomalyDetector(DEFAULT_ANOMALY_DETECTION_POLICY);
+            mockSessionRepository.getById.mockResolvedValue(session);
+            mockSessionRepository.replaceRefreshToken.mockImplementation(async (params: RotateSessionParams) => ({
+                ...session,
+                refreshTokenVersion: params.refreshTokenVersion,
+            }));
+            mockUserRepository.findById.mockResolvedValue(user);
+            mockPasswordHasher.verify.mockResolvedValue(true);
+            authService = createService();
+        });
+
+        it("rotates the current token with a version guard", async () => {
+            mockTokenManager.parseRefreshToken.mockResolvedValue(claims(3));
+
+            const result = await authService.refreshSession({ refreshToken: "refresh_token" });
+
+            expect(result.session.refreshTokenVersion).toBe(4);
+            expect(mockSessionRepository.replaceRefreshToken).toHaveBeenCalledWith(expect.objectContaining({
+                previousVersion: 3,
+                refreshTokenVersion: 4,
+            }));
+            expect(securityAlerts.emit).not.toHaveBeenCalled();
+        });
+
+        it("revokes the session, records an anomaly and alerts on a rotated token", async () => {
+            mockTokenManager.parseRefreshToken.mockResolvedValue(claims(2));
+
+            await expect(authService.refreshSession({ refreshToken: "old_refresh_token" }))
+                .rejects.toMatchObject({ code: "REFRESH_TOKEN_REUSED" });
+
+            expect(mockSessionRepository.markInactive)
+                .toHaveBeenCalledWith("session_1", "suspicious_activity", expect.any(String));
+            expect(mockSessionRepository.markInactiveByUser).not.toHaveBeenCalled();
+            expect(mockSessionRepository.replaceRefreshToken).not.toHaveBeenCalled();
+            expect(await anomalyDetector.getRecordedAnomalies("user_1")).toEqual([
+                expect.objectContaining({ type: "TOKEN_REUSE", sessionId: "session_1", severity: "critical" }),
+            ]);
+            expect(securityAlerts.emit).toHaveBeenCalledWith(expect.objectContaining({ type: "TOKEN_REUSE" }));
+        });
+
+        it("revokes every session of the user when configured", async () => {
+            authService = createService(true);
+            mockTokenManager.parseRefreshToken.mockResolvedValue(claims(1));
+
+            await expect(authService.refreshSession({ refreshToken: "old_refresh_token" }))
+                .rejects.toMatchObject({ code: "REFRESH_TOKEN_REUSED" });
+
+            expect(mockSessionRepository.markInactiveByUser)
+                .toHaveBeenCalledWith("user_1", "suspicious_activity", expect.any(String));
+        });
+
+        it("treats losing a concurrent rotation as reuse", async () => {
+            mockTokenManager.parseRefreshToken.mockResolvedValue(claims(3));
+            mockSessionRepository.replaceRefreshToken.mockResolvedValue(null);
+
+            await expect(authService.refreshSession({ refreshToken: "refresh_token" }))
+                .rejects.toMatchObject({ code: "REFRESH_TOKEN_REUSED" });
+            expect(mockSessionRepository.markInactive)
+                .toHaveBeenCalledWith("session_1", "suspicious_activity", expect.any(String));
+        });
+
+        it("still revokes when alert delivery fails", async () => {
+            securityAlerts.emit.mockRejectedValueOnce(new Error("webhook down"));
+            mockTokenManager.parseRefreshToken.mockResolvedValue(claims(2));
+
+            await expect(authService.refreshSession({ refreshToken: "old_refresh_token" }))
+                .rejects.toMatchObject({ code: "REFRESH_TOKEN_REUSED" });
+            expect(mockSessionRepository.markInactive).toHaveBeenCalled();
+        });
+    });
+
+    describe("anomaly detection", () => {
+        const user = { id: "user_1", email: "test@example.com", status: "active", role: "user" };
+        const laptop = { ipAddress: "203.0.113.5", userAgent: "Firefox/130", language: "en-GB" };
+        const phone = { ipAddress: "198.51.100.7", userAgent: "MobileSafari/17", language: "en-GB" };
+        const securityAlerts = { emit: vi.fn().mockResolvedValue(undefined) };
+
+        const createService = (onAnomalyDetected: "log" | "alert" | "challenge" | "block" = "alert") => buildService({
+            anomalyDetector: createAnomalyDetector({ ...DEFAULT_ANOMALY_DETECTION_POLICY, onAnomalyDetected }),
+            deviceFingerprinter: createDeviceFingerprinter(DEFAULT_DEVICE_POLICY),
+            securityAlerts,
+        });
+
+        const login = (service: AuthService, device: typeof laptop) =>
+            service.authenticate({ email: "test@example.com", password: "password123", device }).then(signedIn);
+
+        beforeEach(() => {
+            mockUserRepository.findByEmail.mockResolvedValue(user);
+            mockUserRepository.findById.mockResolvedValue(user);
+            mockCredentialRepository.getByUserId.mockResolvedValue({
+                userId: "user_1", passwordHash: "hashed_password", version: 1, failedAttemptCount: 0, lockoutCount: 0,
+            });
+            mockPasswordHasher.verify.mockResolvedValue(true);
+            mockSessionRepository.create.mockImplementation(async (params: CreateSessionParams) => params);
+            mockSessionRepository.listActiveByUser.mockResolvedValue([]);
+        });
+
+        it("stores the device fingerprint on the session", async () => {
+            const result = await login(createService(), laptop);
+
+            expect(mockSessionRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+                deviceFingerprint: expect.stringMatching(/^[0-9a-f]{64}$/),
+            }));
+            expect(result.session.deviceFingerprint).toBeDefined();
+            expect(securityAlerts.emit).not.toHaveBeenCalled();
+        });
+
+        it("alerts on a sign-in from a new device but lets it through", async () => {
+            const service = createService();
+            await login(service, laptop);
+
+            const result = await login(service, phone);
+
+            expect(result.tokens).toBeDefined();
+            expect(securityAlerts.emit).toHaveBeenCalledWith(expect.objectContaining({ type: "DEVICE_CHANGE", severity: "medium" }));
+            // New IPs are recorded but below the action severity
+            expect(securityAlerts.emit).not.toHaveBeenCalledWith(expect.objectContaining({ type: "IP_CHANGE" }));
+        });
+
+        it("blocks a sign-in from a new device when the policy blocks", async () => {
+            const service = createService("block");
+            await login(service, laptop);
+
+            await expect(login(service, phone)).rejects.toMatchObject({ code: "SUSPICIOUS_ACTIVITY" });
+            expect(mockSessionRepository.create).toHaveBeenCalledTimes(1);
+        });
+
+        it("blocks a challenged sign-in when the user has no second factor", async () => {
+            const service = createService("challenge");
+            await login(service, laptop);
+
+            await expect(login(service, phone)).rejects.toMatchObject({ code: "SUSPICIOUS_ACTIVITY" });
+        });
+
+        it("ends the session when a refresh comes from another device", async () => {
+            const service = createService("block");
+            const { session } = await login(service, laptop);
+            mockSessionRepository.getById.mockResolvedValue({ ...session, refreshTokenHash: "hashed_refresh" });
+            mockTokenManager.parseRefreshToken.mockResolvedValue({
+                sub: "user_1", sessionId: session.id, sessionVersion: 1, passwordVersion: 1,
+            });
+
+            await expect(service.refreshSession({ refreshToken: "refresh_token", device: phone }))
+                .rejects.toMatchObject({ code: "SUSPICIOUS_ACTIVITY" });
+            expect(mockSessionRepository.markInactive)
+                .toHaveBeenCalledWith(session.id, "suspicious_activity", expect.any(String));
+            expect(mockSessionRepository.replaceRefreshToken).not.toHaveBeenCalled();
+        });
+
+        it("flags impossible travel when a locator is wired", async () => {
+            let now = Date.parse("2026-01-01T00:00:00Z");
+            const locations: Record<string, { lat: number; lon: number }> = {
+                [laptop.ipAddress]: { lat: 51.5, lon: -0.12 }, // London
+                [phone.ipAddress]: { lat: -33.87, lon: 151.21 }, // Sydney
+            };
+            const detector = createAnomalyDetector(DEFAULT_ANOMALY_DETECTION_POLICY, new InMemoryAnomalyStore(() => now), {
+                geoLocator: { locate: async (ip) => locations[ip] ?? null },
+                now: () => now,
+            });
+
+            await detector.evaluate({ kind: "login", userId: "user_1", ipAddress: laptop.ipAddress, fingerprint: "fp_1" });
+            now += 2 * 60 * 60 * 1000;
+            const anomalies = await detector.evaluate({
+                kind: "login", userId: "user_1", ipAddress: phone.ipAddress, fingerprint: "fp_1",
+            });
+
+            expect(anomalies.map((a) => a.type)).toEqual(["IP_CHANGE", "IMPOSSIBLE_TRAVEL"]);
+            expect(await detector.getRecordedAnomalies("user_1")).toHaveLength(2);
+        });
+    });
+
+    describe("trusted devices", () => {
+        const user = { id: "user_1", email: "test@example.com", status: "active", role: "user" };
+        const laptop = { ipAddress: "203.0.113.5", userAgent: "Firefox/130", platform: "macOS" };
+        const phone = { ipAddress: "198.51.100.7", userAgent: "MobileSafari/17", platform: "iOS" };
+        let devices: TrustedDevice[];
+        let mailer: MockMailer;
+        let ids: number;
+
+        const createService = (requireVerificationOnNewDevice = false) => buildService({
+            idFactory: () => `id_${++ids}`,
+            deviceFingerprinter: createDeviceFingerprinter(DEFAULT_DEVICE_POLICY),
+            deviceTrust: createDeviceTrustFlow({
+                repository: createInMemoryTrustedDeviceRepository(devices),
+                mailer,
+                policy: { ...DEFAULT_DEVICE_POLICY, requireVerificationOnNewDevice },
+                trustedDeviceDays: 30,
+                baseUrl: "https://app.example.com",
+            }),
+        });
+
+        const login = (service: AuthService, device: typeof laptop) =>
+            service.authenticate({ email: "test@example.com", password: "password123", device }).then(signedIn);
+
+        beforeEach(() => {
+            devices = [];
+            mailer = new MockMailer();
+            ids = 0;
+            mockUserRepository.findByEmail.mockResolvedValue(user);
+            mockCredentialRepository.getByUserId.mockResolvedValue({
+                userId: "user_1", passwordHash: "hashed_password", version: 1, failedAttemptCount: 0, lockoutCount: 0,
+            });
+            mockPasswordHasher.verify.mockResolvedValue(true);
+            mockSessionRepository.create.mockImplementation(async (params: CreateSessionParams) => params);
+            mockSessionRepository.listActiveByUser.mockResolvedValue([]);
+        });
+
+        it("trusts the first device silently and lists it without its fingerprint", async () => {
+            const service = createService();
+            await login(service, laptop);
+
+            expect(mailer.outbox).toHaveLength(0);
+            const listed = await service.listDevices("user_1");
+            expect(listed).toEqual([expect.objectContaining({ name: "macOS", userAgent: "Firefox/130" })]);
+            expect(listed[0]).not.toHaveProperty("fingerprint");
+            expect(listed[0]?.verifiedAt).toBeDefined();
+        });
+
+        it("emails a notice when a new device signs in", async () => {
+            const service = createService();
+            await login(service, laptop);
+            await login(service, phone);
+
+            expect(mailer.lastTo("test@example.com")?.subject).toBe("New sign-in to your account");
+            expect(await service.listDevices("user_1")).toHaveLength(2);
+        });
+
+        it("requires confirming a new device by email when the policy asks", async () => {
+            const service = createService(true);
+            await login(service, laptop);
+
+            await expect(login(service, phone)).rejects.toMatchObject({ code: "DEVICE_NOT_RECOGNIZED" });
+            expect(mockSessionRepository.create).toHaveBeenCalledTimes(1);
+
+            const link = mailer.lastTo("test@example.com")?.text.match(/token=([^\s&]+)/)?.[1];
+            const verified = await service.verifyDevice({ token: decodeURIComponent(link ?? "") });
+            expect(verified).toMatchObject({ name: "iOS", verifiedAt: expect.any(String) });
+
+            const result = await login(service, phone);
+            expect(result.tokens).toBeDefined();
+            await expect(service.verifyDevice({ token: decodeURIComponent(link ?? "") }))
+                .rejects.toMatchObject({ code: "VERIFICATION_TOKEN_INVALID" });
+        });
+
+        it("revokes a device and ends the sessions opened on it", async () => {
+            const service = createService();
+            const { session } = await login(service, laptop);
+            const [device] = await service.listDevices("user_1");
+            mockSessionRepository.listActiveByUser.mockResolvedValue([
+                session,
+                { ...session, id: "other_session", deviceFingerprint: "other" },
+            ]);
+
+            await service.revokeDevice({ userId: "user_1", deviceId: device!.id });
+
+            expect(mockSessionRepository.markInactive).toHaveBeenCalledTimes(1);
+            expect(mockSessionRepository.markInactive).toHaveBeenCalledWith(session.id, "device_revoked", expect.any(String));
+            expect(await service.listDevices("user_1")).toEqual([]);
+            await expect(service.revokeDevice({ userId: "user_1", deviceId: device!.id }))
+                .rejects.toMatchObject({ code: "DEVICE_NOT_FOUND" });
+        });
+    });
+
+    describe("password policy", () => {
+        const credential = {
+            userId: "user_1", passwordHash: "hash:Current-Passw0rd!", version: 2, failedAttemptCount: 0, lockoutCount: 0,
+        };
+        const credentialRepository = {
+            ...mockCredentialRepository,
+            listPasswordHistory: vi.fn(),
+            addPasswordHistory: vi.fn(),
+        };
+        const breachedPasswords = createBreachedPasswordList([
+            "# leaked",
+            "Summer-Holiday-2024!",
+            // SHA-1 of "Winter-Holiday-2024!", as in a Have I Been Pwned download
+            "7AA2DAE47AA1BF507B3C4AE1321ACA818E88F782:12",
+        ]);
+
+        beforeEach(() => {
+            mockUserRepository.findByEmail.mockResolvedValue(null);
+            credentialRepository.getByUserId.mockResolvedValue(credential);
+            credentialRepository.listPasswordHistory.mockResolvedValue(["hash:Older-Passw0rd!"]);
+            mockPasswordHasher.verify.mockImplementation(async (password: string, hash: string) => hash === `hash:${password}`);
+            authService = buildService({
+                credentialRepository,
+                passwordPolicy: createPasswordPolicyEnforcer(DEFAULT_PASSWORD_POLICY, breachedPasswords),
+            });
+        });
+
+        it("rejects weak passwords at registration before creating the user", async () => {
+            await expect(authService.register({ email: "new@example.com", password: "password1" }))
+                .rejects.toMatchObject({ code: "PASSWORD_TOO_WEAK" });
+            expect(mockUserRepository.create).not.toHaveBeenCalled();
+        });
+
+        it("rejects passwords on the breached list, plain or hashed", async () => {
+            for (const password of ["Summer-Holiday-2024!", "Winter-Holiday-2024!"]) {
+                await expect(authService.register({ email: "new@example.com", password }))
+                    .rejects.toMatchObject({ code: "PASSWORD_BREACHED" });
+            }
+            expect(breachedPasswords.has("SUMMER-HOLIDAY-2024!")).toBe(true);
+            expect(breachedPasswords.has("winter-holiday-2024!")).toBe(false);
+        });
+
+        it("requires the current password to change it", async () => {
+            await expect(authService.updatePassword({
+                userId: "user_1", currentPassword: "Wrong-Passw0rd!", newPassword: "Brand-New-Passw0rd!",
+            })).rejects.toMatchObject({ code: "PASSWORD_MISMATCH" });
+            expect(credentialRepository.updatePassword).not.toHaveBeenCalled();
+        });
+
+        it("refuses the current and recent passwords", async () => {
+            for (const newPassword of ["Current-Passw0rd!", "Older-Passw0rd!"]) {
+                await expect(authService.updatePassword({ userId: "user_1", currentPassword: "Current-Passw0rd!", newPassword }))
+                    .rejects.toMatchObject({ code: "PASSWORD_HISTORY_CONFLICT" });
+            }
+            expect(credentialRepository.listPasswordHistory).toHaveBeenCalledWith("user_1", DEFAULT_PASSWORD_POLICY.passwordHistorySize - 1);
+            expect(credentialRepository.updatePassword).not.toHaveBeenCalled();
+        });
+
+        it("remembers the replaced password and keeps the requesting session", async () => {
+            await authService.updatePassword({
+                userId: "user_1",
+                currentPassword: "Current-Passw0rd!",
+                newPassword: "Brand-New-Passw0rd!",
+                keepSessionId: "session_1",
+            });
+
+            expect(credentialRepository.updatePassword).toHaveBeenCalledWith("user_1", expect.objectContaining({ version: 3 }));
+            expect(credentialRepository.addPasswordHistory).toHaveBeenCalledWith(
+                "user_1", "hash:Current-Passw0rd!", expect.any(String), DEFAULT_PASSWORD_POLICY.passwordHistorySize - 1);
+            expect(mockSessionRepository.markInactiveByUser)
+                .toHaveBeenCalledWith("user_1", "password_rotated", expect.any(String), { excludeSessionId: "session_1" });
+        });
+    });
+
+    describe("session management", () => {
+        const chromeOnWindows = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36";
+        const safariOnIphone = "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1";
+        const session = (id: string, overrides: Record<string, unknown> = {}) => ({
+            id,
+            userId: "user_1",
+            refreshTokenHash: "hashed_refresh",
+            refreshTokenVersion: 1,
+            passwordVersion: 1,
+            status: "active",
+            ipAddress: "203.0.113.7",
+            createdAt: "2026-01-01T00:00:00Z",
+            lastSeenAt: "2026-01-01T00:00:00Z",
+            expiresAt: "2099-01-01T00:00:00Z",
+            ...overrides,
+        });
+
+        it("flags the requesting session and parses browser and OS", async () => {
+            mockSessionRepository.listActiveByUser.mockResolvedValue([
+                session("session_1", { userAgent: chromeOnWindows }),
+                session("session_2", { userAgent: safariOnIphone }),
+                session("session_3"),
+            ]);
+
+            const sessions = await authService.listActiveSessions("user_1", "session_2");
+
+            expect(sessions.map((s) => [s.id, s.current, s.device])).toEqual([
+                ["session_1", false, { browser: "Chrome 126", os: "Windows" }],
+                ["session_2", true, { browser: "Safari 17", os: "iOS" }],
+                ["session_3", false, undefined],
+            ]);
+            expect(sessions[0]).toMatchObject({ ipAddress: "203.0.113.7" });
+            expect(sessions[0]).not.toHaveProperty("refreshTokenHash");
+        });
+
+        it("revokes one of the user's own sessions", async () => {
+            mockSessionRepository.getById.mockResolvedValue(session("session_2"));
+
+            await authService.revokeSession({ userId: "user_1", sessionId: "session_2" });
+
+            expect(mockSessionRepository.markInactive).toHaveBeenCalledWith("session_2", "manual", expect.any(String));
+        });
+
+        it("treats another user's session as not found", async () => {
+            mockSessionRepository.getById.mockResolvedValue(session("session_9", { userId: "user_2" }));
+
+            await expect(authService.revokeSession({ userId: "user_1", sessionId: "session_9" }))
+                .rejects.toMatchObject({ code: "SESSION_NOT_FOUND" });
+            expect(mockSessionRepository.markInactive).not.toHaveBeenCalled();
+        });
+
+        it("rejects a session that has already ended", async () => {
+            mockSessionRepository.getById.mockResolvedValue(session("session_2", { status: "revoked" }));
+
+            await expect(authService.revokeSession({ userId: "user_1", sessionId: "session_2" }))
+                .rejects.toMatchObject({ code: "SESSION_NOT_FOUND" });
+        });
+
+        it("lets support end every session of a user", async () => {
+            await authService.revokeUserSessions("user_1");
+
+            expect(mockSessionRepository.markInactiveByUser).toHaveBeenCalledWith("user_1", "manual", expect.any(String));
+        });
+    });
+
+    describe("role changes", () => {
+        const user = { id: "user_1", email: "agent@example.com", role: "user", status: "active" };
+
+        it("changes the role and ends the user's sessions so old tokens stop working", async () => {
+            mockUserRepository.findById.mockResolvedValue(user);
+
+            const result = await authService.changeUserRole("user_1", "support");
+
+            expect(result).toMatchObject({ user: { id: "user_1", role: "support" }, previousRole: "user" });
+            expect(mockUserRepository.updateRole).toHaveBeenCalledWith("user_1", "support");
+            expect(mockSessionRepository.markInactiveByUser)
+                .toHaveBeenCalledWith("user_1", "role_changed", expect.any(String));
+        });
+
+        it("leaves sessions alone when the role does not change", async () => {
+            mockUserRepository.findById.mockResolvedValue(user);
+
+            await authService.changeUserRole("user_1", "user");
+
+            expect(mockUserRepository.updateRole).not.toHaveBeenCalled();
+            expect(mockSessionRepository.markInactiveByUser).not.toHaveBeenCalled();
+        });
+
+        it("rejects unknown users", async () => {
+            mockUserRepository.findById.mockResolvedValue(null);
+
+            await expect(authService.changeUserRole("user_9", "admin")).rejects.toMatchObject({ code: "USER_NOT_FOUND" });
+        });
+    });
+
+    describe("audit logging", () => {
+        const user = { id: "user_1", email: "test@example.com", status: "active", role: "user" };
+        const credential = {
+            userId: "user_1", passwordHash: "hashed_password", version: 1, failedAttemptCount: 0, lockoutCount: 0,
+        };
+        const device = { ipAddress: "203.0.113.7", userAgent: "Mozilla/5.0" };
+        let events: AuditEvent[];
+        let repository: ReturnType<typeof createInMemoryAuditRepository>;
+        let nextId: number;
+
+        beforeEach(() => {
+            events = [];
+            nextId = 0;
+            repository = createInMemoryAuditRepository(events);
+            mockUserRepository.findByEmail.mockResolvedValue(user);
+            mockCredentialRepository.getByUserId.mockResolvedValue(credential);
+            mockSessionRepository.create.mockResolvedValue({ id: "session_1", refreshTokenVersion: 1 });
+            mockSessionRepository.listActiveByUser.mockResolvedValue([]);
+            authService = buildService({
+                auditLogger: createAuditLogger({
+                    repository,
+                    idFactory: () => `event_${++nextId}`,
+                    clock: { now: () => new Date(Date.UTC(2026, 0, 1, 0, 0, nextId)) },
+                }),
+            });
+        });
+
+        it("records a successful login with actor, session and device", async () => {
+            mockPasswordHasher.verify.mockResolvedValue(true);
+
+            await authService.authenticate({ email: "Test@Example.com", password: "password123", device });
+
+            expect(events).toEqual([expect.objectContaining({
+                action: "auth.login",
+                outcome: "success",
+                actorUserId: "user_1",
+                targetUserId: "user_1",
+                sessionId: "session_1",
+                ipAddress: "203.0.113.7",
+                userAgent: "Mozilla/5.0",
+                metadata: { email: "test@example.com" },
+            })]);
+        });
+
+        it("records a wrong password against the account without an actor", async () => {
+            mockPasswordHasher.verify.mockResolvedValue(false);
+            mockCredentialRepository.recordFailedAttempt.mockResolvedValue(1);
+
+            await expect(authService.authenticate({ email: "test@example.com", password: "nope", device }))
+                .rejects.toMatchObject({ code: "INVALID_CREDENTIALS" });
+
+            expect(events[0]).toMatchObject({
+                action: "auth.login",
+                outcome: "failure",
+                targetUserId: "user_1",
+                metadata: { email: "test@example.com", reason: "INVALID_CREDENTIALS" },
+            });
+            expect(events[0]?.actorUserId).toBeUndefined();
+        });
+
+        it("records a password reset once, not as a password change too", async () => {
+            const tokens: UserActionToken[] = [];
+            authService = buildService({
+                passwordReset: createPasswordResetFlow({
+                    userRepository: mockUserRepository,
+                    tokenRepository: createInMemoryTokenRepository(() => tokens),
+                    mailer: new MockMailer(),
+                    policy: DEFAULT_PASSWORD_RESET_POLICY,
+                    baseUrl: "http://localhost:3000",
+                }),
+                auditLogger: createAuditLogger({ repository }),
+            });
+
+            await expect(authService.resetPassword({ token: "unknown", newPassword: "N3w-password!", device }))
+                .rejects.toMatchObject({ code: "RESET_TOKEN_INVALID" });
+            await authService.updatePassword({ userId: "user_1", newPassword: "N3w-password!", device });
+
+            expect(events.map((e) => [e.action, e.outcome])).toEqual([
+                ["auth.password_reset", "failure"],
+                ["auth.password_change", "success"],
+            ]);
+        });
+
+        it("never fails the audited request when the write fails", async () => {
+            mockPasswordHasher.verify.mockResolvedValue(true);
+            repository.append.mockRejectedValueOnce(new Error("database unavailable"));
+
+            await expect(authService.authenticate({ email: "test@example.com", password: "password123" }))
+                .resolves.toHaveProperty("tokens");
+        });
+
+        it("pages newest first with a cursor", async () => {
+            const auditLogger = createAuditLogger({
+                repository,
+                idFactory: () => `event_${++nextId}`,
+                clock: { now: () => new Date(Date.UTC(2026, 0, 1, 0, 0, nextId)) },
+            });
+            for (let i = 0; i < 3; i++) {
+                await auditLogger.record({ action: "auth.logout", outcome: "success", targetUserId: "user_1" });
+            }
+            await auditLogger.record({ action: "auth.logout", outcome: "success", targetUserId: "user_2" });
+
+            const first = await auditLogger.list({ targetUserId: "user_1" }, { limit: 2 });
+            const second = await auditLogger.list({ targetUserId: "user_1" }, { limit: 2, after: first.nextCursor });
+
+            expect(first.events.map((e) => e.id)).toEqual(["event_3", "event_2"]);
+            expect(second.events.map((e) => e.id)).toEqual(["event_1"]);
+            expect(second.nextCursor).toBeUndefined();
+        });
+    });
 });
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { Decimal } from "../../lib/decimal.js";
+
+describe("Decimal", () => {
+    it("adds without float residue", () => {
+        expect(Decimal.from("0.1").plus(Decimal.from("0.2")).toString()).toBe("0.3");
+        expect(Decimal.from(0.1 + 0.2).toString()).toBe("0.3");
+    });
+
+    it("parses database numeric strings exactly", () => {
+        expect(Decimal.from("12.5000000000").toString()).toBe("12.5");
+        expect(Decimal.from("-0.0000000001").toString()).toBe("-0.0000000001");
+        expect(Decimal.from(".5").toString()).toBe("0.5");
+    });
+
+    it("rejects malformed input and digits beyond the scale", () => {
+        expect(() => Decimal.from("abc")).toThrow(RangeError);
+        expect(() => Decimal.from("")).toThrow(RangeError);
+        expect(() => Decimal.from("1e5")).toThrow(RangeError);
+        expect(() => Decimal.from("0.00000000001")).toThrow(RangeError);
+        expect(() => Decimal.from(Number.NaN)).toThrow(RangeError);
+    });
+
+    it("rounds multiplication half to even at the scale", () => {
+        expect(Decimal.from("0.00001").times(Decimal.from("0.000005")).toString()).toBe("0");
+        expect(Decimal.from("0.00001").times(Decimal.from("0.000015")).toString()).toBe("0.0000000002");
+        expect(Decimal.from("-0.00001").times(Decimal.from("0.000015")).toString()).toBe("-0.0000000002");
+        expect(Decimal.from("1.5").times(Decimal.from("2")).toString()).toBe("3");
+    });
+
+    it("compares and checks increments", () => {
+        expect(Decimal.from("100.25").isMultipleOf(Decimal.from("0.05"))).toBe(true);
+        expect(Decimal.from("100.26").isMultipleOf(Decimal.from("0.05"))).toBe(false);
+        expect(Decimal.min(Decimal.from(2), Decimal.from("1.5")).toString()).toBe("1.5");
+        expect(Decimal.from("1.0").eq(Decimal.ONE)).toBe(true);
+        expect(Decimal.from("-3").abs().gt(Decimal.from(2))).toBe(true);
+    });
+});
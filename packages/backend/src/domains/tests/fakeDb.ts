@@ -0,0 +1,248 @@
+/*
+  In-memory stand-in for the drizzle client, for service tests that need real rows.
+
+  Supports what the order and risk services use: select / insert / update with
+  `returning`, `where` built from eq / inArray / isNull / and, `sum()` over columns
+  added or subtracted, `limit`, `for` (ignored), and transactions that discard their writes on throw
+  or `tx.rollback()`. Anything else throws so an unsupported query fails loudly.
+*/
+
+import { randomUUID } from "node:crypto";
+import {
+    Column,
+    Param,
+    SQL,
+    StringChunk,
+    TransactionRollbackError,
+    getTableColumns,
+    is,
+    type Table,
+} from "drizzle-orm";
+import type { DrizzleClient } from "../../db/pg.js";
+
+type Row = Record<string, unknown>;
+type Predicate = (row: Row) => boolean;
+
+export interface FakeDb {
+    client: DrizzleClient;
+    rows<T extends Table>(table: T): T["$inferSelect"][];
+    seed<T extends Table>(table: T, values: Partial<T["$inferSelect"]>): T["$inferSelect"];
+}
+
+export function createFakeDb(): FakeDb {
+    let tables = new Map<Table, Row[]>();
+    const keys = new Map<Column, string>();
+
+    const rowsOf = (table: Table): Row[] => {
+        let rows = tables.get(table);
+        if (!rows) {
+            rows = [];
+            tables.set(table, rows);
+            for (const [key, column] of Object.entries(getTableColumns(table))) keys.set(column, key);
+        }
+        return rows;
+    };
+
+    const keyOf = (column: Column): string => {
+        const key = keys.get(column);
+        if (!key) throw new Error(`fakeDb: unknown column ${column.name}`);
+        return key;
+    };
+
+    const withDefaults = (table: Table, values: Row): Row => {
+        const row: Row = {};
+        for (const [key, column] of Object.entries(getTableColumns(table))) {
+            if (values[key] !== undefined) row[key] = values[key];
+            else if (column.default === undefined) row[key] = null;
+            else if (!is(column.default, SQL)) row[key] = column.default;
+            else row[key] = column.columnType === "PgUUID" ? randomUUID() : new Date();
+        }
+        return row;
+    };
+
+    const project = (row: Row, fields?: Record<string, unknown>): Row => {
+        if (!fields) return { ...row };
+        const out: Row = {};
+        for (const [name, field] of Object.entries(fields)) {
+            if (!is(field, Column)) throw new Error(`fakeDb: unsupported projection ${name}`);
+            out[name] = row[keyOf(field)];
+        }
+        return out;
+    };
+
+    // Aggregate projections (`sum(a - b)`) collapse the matched rows into one
+    const aggregate = (rows: Row[], fields: Record<string, unknown>): Row => {
+        const out: Row = {};
+        for (const [name, field] of Object.entries(fields)) {
+            const terms = is(field, SQL) ? sumTerms(field) : null;
+            if (!terms) throw new Error(`fakeDb: unsupported aggregate ${name}`);
+            const values = rows.map((row) => terms.reduce((total, { sign, column }) => total + sign * Number(row[keyOf(column)]), 0));
+            out[name] = values.length ? String(values.reduce((total, value) => total + value, 0)) : null;
+        }
+        return out;
+    };
+
+    const compile = (condition: SQL | undefined): Predicate => {
+        if (!condition) return () => true;
+        const chunks = meaningful(condition.queryChunks);
+
+        const [single] = chunks;
+        if (chunks.length === 1 && is(single, SQL)) return compile(single);
+
+        if (chunks.some((chunk) => text(chunk) === "and")) {
+            const parts = chunks.filter((chunk) => is(chunk, SQL)).map((chunk) => compile(chunk as SQL));
+            return (row) => parts.every((part) => part(row));
+        }
+
+        const [column, operator, operand] = chunks;
+        if (is(column, Column)) {
+            const key = keyOf(column);
+            const op = text(operator);
+            if (op === "=" && is(operand, Param)) return (row) => row[key] === operand.value;
+            if (op === "in" && Array.isArray(operand)) {
+                const values = operand.map((param: Param) => param.value);
+                return (row) => values.includes(row[key]);
+            }
+            if (op === "is null") return (row) => row[key] === null;
+        }
+        throw new Error("fakeDb: unsupported where clause");
+    };
+
+    class Query implements PromiseLike<Row[]> {
+        private predicate: Predicate = () => true;
+        private max = Infinity;
+        private fields: Record<string, unknown> | undefined;
+
+        constructor(private run: (predicate: Predicate, max: number, fields?: Record<string, unknown>) => Row[]) { }
+
+        where(condition: SQL | undefined) {
+            this.predicate = compile(condition);
+            return this;
+        }
+
+        orderBy() {
+            return this;
+        }
+
+        // Row locks are a no-op: nothing runs concurrently in memory
+        for() {
+            return this;
+        }
+
+        limit(max: number) {
+            this.max = max;
+            return this;
+        }
+
+        returning(fields?: Record<string, unknown>) {
+            this.fields = fields ?? {};
+            return this;
+        }
+
+        then<A = Row[], B = never>(
+            onFulfilled?: ((rows: Row[]) => A | PromiseLike<A>) | null,
+            onRejected?: ((reason: unknown) => B | PromiseLike<B>) | null,
+        ): PromiseLike<A | B> {
+            return Promise.resolve()
+                .then(() => this.run(this.predicate, this.max, this.fields))
+                .then(onFulfilled, onRejected);
+        }
+    }
+
+    const client = {
+        select(fields?: Record<string, unknown>) {
+            return {
+                from(table: Table) {
+                    rowsOf(table);
+                    return new Query((predicate, max) => {
+                        const matched = rowsOf(table).filter(predicate);
+                        const isAggregate = fields && Object.values(fields).some((field) => is(field, SQL));
+                        if (isAggregate) return [aggregate(matched, fields)];
+                        return matched.slice(0, max).map((row) => project(row, fields));
+                    });
+                },
+            };
+        },
+
+        insert(table: Table) {
+            return {
+                values(values: Row | Row[]) {
+                    return new Query((_predicate, _max, fields) => {
+                        const inserted = (Array.isArray(values) ? values : [values]).map((value) => withDefaults(table, value));
+                        rowsOf(table).push(...inserted);
+                        return fields ? inserted.map((row) => project(row, Object.keys(fields).length ? fields : undefined)) : [];
+                    });
+                },
+            };
+        },
+
+        update(table: Table) {
+            rowsOf(table);
+            return {
+                set(values: Row) {
+                    return new Query((predicate, _max, fields) => {
+                        const updated = rowsOf(table).filter(predicate);
+                        for (const row of updated) {
+                            for (const [key, value] of Object.entries(values)) {
+                                if (is(value, SQL)) throw new Error(`fakeDb: unsupported SQL update of ${key}`);
+                                if (value !== undefined) row[key] = value;
+                            }
+                        }
+                        return fields ? updated.map((row) => project(row, Object.keys(fields).length ? fields : undefined)) : [];
+                    });
+                },
+            };
+        },
+
+        // Snapshot every table and put the snapshot back if the callback fails
+        async transaction<T>(callback: (tx: unknown) => Promise<T>): Promise<T> {
+            const snapshot = new Map([...tables].map(([table, rows]) => [table, rows.map((row) => ({ ...row }))]));
+            const tx = {
+                ...client,
+                rollback() {
+                    throw new TransactionRollbackError();
+                },
+            };
+            try {
+                return await callback(tx);
+            } catch (err) {
+                tables = snapshot;
+                throw err;
+            }
+        },
+    };
+
+    return {
+        client: client as unknown as DrizzleClient,
+        rows: (table) => rowsOf(table).map((row) => ({ ...row })) as never,
+        seed: (table, values) => {
+            const row = withDefaults(table, values as Row);
+            rowsOf(table).push(row);
+            return { ...row } as never;
+        },
+    };
+}
+
+/** Chunks that carry meaning: columns, params, nested SQL and text other than blanks and brackets. */
+function meaningful(chunks: unknown[]): unknown[] {
+    return chunks.filter((chunk) => !["", "(", ")"].includes(text(chunk) ?? "-"));
+}
+
+function text(chunk: unknown): string | null {
+    return is(chunk, StringChunk) ? chunk.value.join("").trim().toLowerCase() : null;
+}
+
+/** The signed columns of a `sum(a - b + ...)` fragment, or null for anything else. */
+function sumTerms(fragment: SQL): { sign: number; column: Column }[] | null {
+    const chunks = meaningful(fragment.queryChunks);
+    if (text(chunks[0]) !== "sum(") return null;
+
+    const terms: { sign: number; column: Column }[] = [];
+    let sign = 1;
+    for (const chunk of chunks.slice(1)) {
+        if (is(chunk, Column)) terms.push({ sign, column: chunk });
+        else if (text(chunk) === "+" || text(chunk) === "-") sign = text(chunk) === "-" ? -1 : 1;
+        else return null;
+    }
+    return terms.length ? terms : null;
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { accounts, ledgerEntries } from "@repo/database";
+import { LedgerService } from "../ledger/ledger.service.js";
+import { createFakeDb } from "./fakeDb.js";
+
+const ACCOUNT = "00000000-0000-0000-0000-00000000000a";
+const ORDER = "00000000-0000-0000-0000-0000000000c1";
+
+function setup(locked: string) {
+    const db = createFakeDb();
+    db.seed(accounts, { id: ACCOUNT, currency: "USD", balance: "1000", locked });
+    return { db, ledger: new LedgerService(db.client) };
+}
+
+describe("LedgerService", () => {
+    describe("release", () => {
+        it("frees locked funds with a zero-amount entry, leaving the balance alone", async () => {
+            const { db, ledger } = setup("50");
+
+            await ledger.release({ accountId: ACCOUNT, amount: "20", referenceId: ORDER });
+
+            expect(db.rows(accounts)[0]).toMatchObject({ balance: "1000", locked: "30" });
+            expect(db.rows(ledgerEntries)).toEqual([expect.objectContaining({
+                amount: "0",
+                balanceAfter: "1000",
+                lockedDelta: "-20",
+                referenceId: ORDER,
+                referenceType: "release",
+            })]);
+        });
+
+        it("records only what was still locked when asked to release more", async () => {
+            const { db, ledger } = setup("30");
+
+            await ledger.release({ accountId: ACCOUNT, amount: "50", referenceId: ORDER });
+            await ledger.release({ accountId: ACCOUNT, amount: "50", referenceId: ORDER });
+
+            expect(db.rows(accounts)[0]!.locked).toBe("0");
+            expect(db.rows(ledgerEntries).map((entry) => entry.lockedDelta)).toEqual(["-30", "0"]);
+        });
+    });
+});
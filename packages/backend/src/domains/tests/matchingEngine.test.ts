@@ -0,0 +1,243 @@
+import { describe, it, expect } from "vitest";
+import { OrderMatchingEngine, type EngineOrder } from "../order/matching-engine.js";
+import { Decimal } from "../../lib/decimal.js";
+
+const limit = (id: string, side: "buy" | "sell", price: number | string, quantity: number | string, timestamp = 0): EngineOrder => ({
+    id,
+    side,
+    type: "limit",
+    price: Decimal.from(price),
+    quantity: Decimal.from(quantity),
+    filledQuantity: Decimal.ZERO,
+    timestamp,
+});
+
+describe("OrderMatchingEngine", () => {
+    describe("price-time priority", () => {
+        it("fills the best price level first, FIFO within a level", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            engine.processOrder(limit("ask_high", "sell", 101, 1, 1));
+            engine.processOrder(limit("ask_low_1", "sell", 100, 1, 2));
+            engine.processOrder(limit("ask_low_2", "sell", 100, 1, 3));
+
+            const result = engine.processOrder(limit("bid", "buy", 101, 2.5, 4));
+
+            expect(result.trades.map((t) => [t.makerOrderId, t.price.toString(), t.quantity.toString()])).toEqual([
+                ["ask_low_1", "100", "1"],
+                ["ask_low_2", "100", "1"],
+                ["ask_high", "101", "0.5"],
+            ]);
+            expect(engine.getBook().asks.map((o) => o.id)).toEqual(["ask_high"]);
+        });
+
+        it("stops a limit order at its price and rests the remainder", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            engine.processOrder(limit("ask_1", "sell", 100, 1));
+            engine.processOrder(limit("ask_2", "sell", 102, 1));
+
+            const result = engine.processOrder(limit("bid", "buy", 101, 3));
+
+            expect(result.trades).toHaveLength(1);
+            expect(result.filled).toBe(false);
+            const book = engine.getBook();
+            expect(book.bids.map((o) => [o.id, o.filledQuantity.toString()])).toEqual([["bid", "1"]]);
+            expect(book.asks.map((o) => o.id)).toEqual(["ask_2"]);
+        });
+
+        it("never fills a market order beyond its protection price", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            engine.processOrder(limit("ask_1", "sell", 100, 1, 1));
+            engine.processOrder(limit("ask_2", "sell", 106, 1, 2));
+
+            const result = engine.processOrder({ ...limit("bid", "buy", 105, 2, 3), type: "market" });
+
+            expect(result.trades.map((t) => [t.makerOrderId, t.price.toString()])).toEqual([["ask_1", "100"]]);
+            expect(result).toMatchObject({ filled: false, rested: false });
+            expect(engine.getBook().asks.map((o) => o.id)).toEqual(["ask_2"]);
+        });
+
+        it("fills fractional quantities without float residue", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            engine.processOrder(limit("ask_1", "sell", "100.1", "0.1", 1));
+            engine.processOrder(limit("ask_2", "sell", "100.2", "0.2", 2));
+
+            const result = engine.processOrder(limit("bid", "buy", "100.2", "0.3", 3));
+
+            expect(result.filled).toBe(true);
+            expect(Decimal.sum(result.trades.map((t) => t.quantity)).toString()).toBe("0.3");
+        });
+
+        it("orders snapshot levels best first on both sides", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            for (const [id, price] of [["b1", 97], ["b2", 99], ["b3", 98]] as const) {
+                engine.processOrder(limit(id, "buy", price, 1));
+            }
+            for (const [id, price] of [["a1", 103], ["a2", 101], ["a3", 102]] as const) {
+                engine.processOrder(limit(id, "sell", price, 1));
+            }
+
+            const book = engine.getBook();
+            expect(book.bids.map((o) => o.price.toString())).toEqual(["99", "98", "97"]);
+            expect(book.asks.map((o) => o.price.toString())).toEqual(["101", "102", "103"]);
+        });
+
+        it("keeps a deep book sorted as levels come and go in any order", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            // 2000 bid levels inserted in a scrambled order (997 is coprime with 2000)
+            const prices = Array.from({ length: 2000 }, (_, i) => 1 + ((i * 997) % 2000));
+            for (const price of prices) engine.processOrder(limit(`b${price}`, "buy", price, 1));
+            for (const price of prices) {
+                if (price % 3 === 0) engine.cancelOrder(`b${price}`);
+            }
+
+            const expected = prices.filter((price) => price % 3 !== 0).sort((a, b) => b - a);
+            expect(engine.getBook().bids.map((o) => Number(o.price.toString()))).toEqual(expected);
+
+            const result = engine.processOrder(limit("ask", "sell", 1, 3));
+            expect(result.trades.map((t) => t.makerOrderId)).toEqual(["b2000", "b1999", "b1997"]);
+        });
+    });
+
+    describe("cancelOrder", () => {
+        it("removes a resting order so it can no longer match", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            engine.processOrder(limit("ask_1", "sell", 100, 1));
+
+            const removed = engine.cancelOrder("ask_1");
+            expect(removed?.id).toBe("ask_1");
+            expect(engine.getBook().asks).toHaveLength(0);
+
+            const result = engine.processOrder(limit("bid_1", "buy", 100, 1));
+            expect(result.trades).toHaveLength(0);
+        });
+
+        it("returns null for orders that are not resting", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            engine.processOrder(limit("ask_1", "sell", 100, 1));
+            engine.processOrder(limit("bid_1", "buy", 100, 1));
+
+            expect(engine.cancelOrder("ask_1")).toBeNull();
+            expect(engine.cancelOrder("missing")).toBeNull();
+        });
+
+        it("keeps the remaining orders of a level in time priority", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            engine.processOrder(limit("ask_1", "sell", 100, 1, 1));
+            engine.processOrder(limit("ask_2", "sell", 100, 1, 2));
+            engine.processOrder(limit("ask_3", "sell", 100, 1, 3));
+
+            engine.cancelOrder("ask_2");
+            const result = engine.processOrder(limit("bid", "buy", 100, 2));
+
+            expect(result.trades.map((t) => t.makerOrderId)).toEqual(["ask_1", "ask_3"]);
+        });
+    });
+
+    describe("time in force", () => {
+        it("IOC fills what it can and never rests the remainder", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            engine.processOrder(limit("ask", "sell", 100, 1));
+
+            const result = engine.processOrder({ ...limit("bid", "buy", 100, 3), timeInForce: "IOC" });
+
+            expect(result.trades).toHaveLength(1);
+            expect(result).toMatchObject({ filled: false, rested: false });
+            expect(engine.getBook().bids).toHaveLength(0);
+        });
+
+        it("FOK is killed without trading when depth is short", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            engine.processOrder(limit("ask_1", "sell", 100, 1, 1));
+            engine.processOrder(limit("ask_2", "sell", 102, 1, 2));
+
+            const killed = engine.processOrder({ ...limit("fok_1", "buy", 101, 2), timeInForce: "FOK" });
+            expect(killed.rejectReason).toBe("FOK_NOT_FILLABLE");
+            expect(killed.trades).toHaveLength(0);
+            expect(engine.getBook().asks).toHaveLength(2);
+
+            const filled = engine.processOrder({ ...limit("fok_2", "buy", 102, 2), timeInForce: "FOK" });
+            expect(filled.filled).toBe(true);
+            expect(filled.trades.map((t) => t.makerOrderId)).toEqual(["ask_1", "ask_2"]);
+        });
+
+        it("post-only is rejected when it would cross and rests otherwise", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            engine.processOrder(limit("ask", "sell", 100, 1));
+
+            const crossing = engine.processOrder({ ...limit("bid_1", "buy", 100, 1), postOnly: true });
+            expect(crossing.rejectReason).toBe("POST_ONLY_WOULD_TAKE");
+            expect(engine.getBook().asks).toHaveLength(1);
+
+            const passive = engine.processOrder({ ...limit("bid_2", "buy", 99, 1), postOnly: true });
+            expect(passive).toMatchObject({ rested: true, trades: [] });
+        });
+
+        it("GTD orders rest until expireOrders sweeps them", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            engine.processOrder({ ...limit("gtd", "sell", 100, 1), timeInForce: "GTD", expiresAt: 1_000 });
+            engine.processOrder(limit("gtc", "sell", 101, 1));
+
+            expect(engine.expireOrders(999)).toEqual([]);
+            expect(engine.expireOrders(1_000).map((o) => o.id)).toEqual(["gtd"]);
+            expect(engine.getBook().asks.map((o) => o.id)).toEqual(["gtc"]);
+        });
+    });
+
+    describe("self-trade prevention", () => {
+        const own = (order: EngineOrder, accountId = "acct_a"): EngineOrder => ({ ...order, accountId });
+
+        it("cancel_newest drops the incoming remainder and leaves the book alone", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            engine.processOrder(own(limit("ask", "sell", 100, 1)));
+
+            const result = engine.processOrder(own(limit("bid", "buy", 100, 1)));
+
+            expect(result).toMatchObject({ trades: [], takerCancelled: true, rested: false });
+            expect(engine.getBook().asks.map((o) => o.id)).toEqual(["ask"]);
+        });
+
+        it("cancel_oldest pulls own resting orders and keeps matching others", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            engine.processOrder(own(limit("own_ask", "sell", 100, 1, 1)));
+            engine.processOrder(own(limit("other_ask", "sell", 100, 1, 2), "acct_b"));
+
+            const result = engine.processOrder({ ...own(limit("bid", "buy", 100, 1, 3)), selfTradePrevention: "cancel_oldest" });
+
+            expect(result.selfTradeCancels).toEqual([{ orderId: "own_ask", reducedQuantity: Decimal.from(1), cancelled: true }]);
+            expect(result.trades.map((t) => t.makerOrderId)).toEqual(["other_ask"]);
+            expect(engine.getBook().asks).toHaveLength(0);
+        });
+
+        it("cancel_both cancels the resting and the incoming order", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            engine.processOrder(own(limit("ask", "sell", 100, 1)));
+
+            const result = engine.processOrder({ ...own(limit("bid", "buy", 100, 2)), selfTradePrevention: "cancel_both" });
+
+            expect(result).toMatchObject({ trades: [], takerCancelled: true, rested: false });
+            expect(result.selfTradeCancels.map((c) => c.orderId)).toEqual(["ask"]);
+            expect(engine.getBook().asks).toHaveLength(0);
+        });
+
+        it("decrement_and_cancel shrinks both sides by the overlap", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            engine.processOrder(own(limit("ask", "sell", 100, 3)));
+
+            const result = engine.processOrder({ ...own(limit("bid", "buy", 100, 1)), selfTradePrevention: "decrement_and_cancel" });
+
+            expect(result).toMatchObject({ trades: [], takerReduced: Decimal.from(1), takerCancelled: true });
+            expect(result.selfTradeCancels).toEqual([{ orderId: "ask", reducedQuantity: Decimal.from(1), cancelled: false }]);
+            expect(engine.getBook().asks[0]?.quantity.toString()).toBe("2");
+        });
+
+        it("only applies to orders from the same account", () => {
+            const engine = new OrderMatchingEngine("BTC/USD");
+            engine.processOrder(own(limit("ask", "sell", 100, 1), "acct_b"));
+
+            const result = engine.processOrder(own(limit("bid", "buy", 100, 1)));
+
+            expect(result.filled).toBe(true);
+            expect(result.selfTradeCancels).toEqual([]);
+        });
+    });
+});
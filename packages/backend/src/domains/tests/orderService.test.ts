@@ -0,0 +1,333 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { marketPrices, orders, trades } from "@repo/database";
+import { OrderService } from "../order/order.service.js";
+import type { PlaceOrderInput } from "../order/order.types.js";
+import type { LedgerService } from "../ledger/ledger.service.js";
+import type { PositionService } from "../position/position.service.js";
+import type { RiskService } from "../risk/risk.service.js";
+import type { Instrument, InstrumentService } from "../instrument/instrument.service.js";
+import { Decimal } from "../../lib/decimal.js";
+import { createFakeDb } from "./fakeDb.js";
+
+const d = (value: number | string) => Decimal.from(value);
+
+const BUYER = "00000000-0000-0000-0000-00000000000b";
+const SELLER = "00000000-0000-0000-0000-00000000000a";
+
+const BTC_USD: Instrument = {
+    symbol: "BTC/USD",
+    name: "Bitcoin",
+    baseCurrency: "BTC",
+    quoteCurrency: "USD",
+    tickSize: d("0.01"),
+    lotSize: d("0.001"),
+    minNotional: d(10),
+    priceBandPct: null,
+    status: "open",
+};
+
+const limit = (accountId: string, side: "buy" | "sell", price: string, quantity: string): PlaceOrderInput => ({
+    accountId,
+    symbol: "BTC/USD",
+    side,
+    type: "limit",
+    price,
+    quantity,
+});
+
+const unpricedBuy = (type: "market" | "stop", quantity: string, triggerPrice?: string): PlaceOrderInput => ({
+    accountId: BUYER,
+    symbol: "BTC/USD",
+    side: "buy",
+    type,
+    quantity,
+    triggerPrice,
+});
+
+function setup(instrument: Instrument | null = BTC_USD) {
+    const db = createFakeDb();
+    const ledger = {
+        hold: vi.fn().mockResolvedValue(true),
+        release: vi.fn().mockResolvedValue(undefined),
+        transfer: vi.fn().mockResolvedValue(undefined),
+    };
+    const positions = { updatePosition: vi.fn().mockResolvedValue(undefined) };
+    const risk = { validateOrder: vi.fn().mockResolvedValue({ ok: true }) };
+    const instruments = { get: vi.fn().mockResolvedValue(instrument) };
+
+    const service = new OrderService(
+        db.client,
+        positions as unknown as PositionService,
+        ledger as unknown as LedgerService,
+        risk as RiskService,
+        instruments as unknown as InstrumentService,
+    );
+    return { db, ledger, positions, risk, service };
+}
+
+describe("OrderService", () => {
+    describe("settlement", () => {
+        it("books one trade row per fill with the buyer paying the seller price x quantity", async () => {
+            const { db, ledger, positions, service } = setup();
+            const first = await service.place(limit(SELLER, "sell", "100", "1"));
+            const second = await service.place(limit(SELLER, "sell", "101", "1"));
+
+            const taker = await service.place(limit(BUYER, "buy", "101", "1.5"));
+
+            expect(db.rows(trades).map((t) => [t.orderId, t.counterpartyOrderId, t.price, t.quantity])).toEqual([
+                [taker.id, first.id, "100", "1"],
+                [taker.id, second.id, "101", "0.5"],
+            ]);
+            const [firstTrade, secondTrade] = db.rows(trades);
+            expect(ledger.transfer.mock.calls.map(([debit, credit]) => [debit, credit])).toEqual([
+                [
+                    expect.objectContaining({ accountId: BUYER, amount: "100", referenceId: firstTrade!.id }),
+                    expect.objectContaining({ accountId: SELLER, amount: "100", referenceId: firstTrade!.id }),
+                ],
+                [
+                    expect.objectContaining({ accountId: BUYER, amount: "50.5", referenceId: secondTrade!.id }),
+                    expect.objectContaining({ accountId: SELLER, amount: "50.5", referenceId: secondTrade!.id }),
+                ],
+            ]);
+            expect(positions.updatePosition.mock.calls.map((call) => call.slice(0, 5))).toEqual([
+                [BUYER, "BTC/USD", "buy", d(1), d(100)],
+                [SELLER, "BTC/USD", "sell", d(1), d(100)],
+                [BUYER, "BTC/USD", "buy", d("0.5"), d(101)],
+                [SELLER, "BTC/USD", "sell", d("0.5"), d(101)],
+            ]);
+            expect(db.rows(orders).map((o) => [o.id, o.status, o.filledQuantity])).toEqual([
+                [first.id, "filled", "1"],
+                [second.id, "partially_filled", "0.5"],
+                [taker.id, "filled", "1.5"],
+            ]);
+        });
+
+        it("rolls the whole fill back when one leg fails", async () => {
+            const { db, positions, service } = setup();
+            const maker = await service.place(limit(SELLER, "sell", "100", "1"));
+            positions.updatePosition
+                .mockResolvedValueOnce(undefined)
+                .mockRejectedValueOnce(new Error("position write failed"));
+
+            await expect(service.place(limit(BUYER, "buy", "100", "1"))).rejects.toThrow("position write failed");
+
+            expect(db.rows(trades)).toEqual([]);
+            expect(db.rows(orders).find((o) => o.id === maker.id)).toMatchObject({ status: "new", filledQuantity: "0" });
+        });
+
+        it("restores the book and rejects the taker when settling fails", async () => {
+            const { db, ledger, service } = setup();
+            const maker = await service.place(limit(SELLER, "sell", "100", "1"));
+            ledger.transfer.mockRejectedValueOnce(new Error("Insufficient available balance"));
+
+            // Would have rested its remainder if the fill had gone through
+            await expect(service.place(limit(BUYER, "buy", "100", "3"))).rejects.toThrow("Insufficient available balance");
+
+            const [, failed] = db.rows(orders);
+            expect(failed).toMatchObject({ status: "rejected", filledQuantity: "0" });
+            expect(ledger.release).toHaveBeenLastCalledWith(
+                expect.objectContaining({ amount: "300", referenceId: failed!.id }),
+                expect.anything(),
+            );
+
+            // The maker is whole again and the failed taker never rested
+            const retry = await service.place(limit(BUYER, "buy", "100", "1"));
+            expect(retry.status).toBe("filled");
+            expect(db.rows(orders).find((o) => o.id === maker.id)).toMatchObject({ status: "filled", filledQuantity: "1" });
+            await expect(service.place(limit(SELLER, "sell", "100", "1"))).resolves.toMatchObject({ status: "new" });
+        });
+    });
+
+    describe("rejections", () => {
+        it("records a risk rejection as a rejected order and answers 422", async () => {
+            const { db, ledger, risk, service } = setup();
+            risk.validateOrder.mockResolvedValueOnce({ ok: false, code: "INSUFFICIENT_FUNDS", reason: "Insufficient funds" });
+
+            const error = await service.place(limit(BUYER, "buy", "100", "1")).catch((err: unknown) => err);
+
+            const [rejected] = db.rows(orders);
+            expect(rejected).toMatchObject({ accountId: BUYER, status: "rejected", filledQuantity: "0" });
+            expect(error).toMatchObject({
+                code: "ORDER_REJECTED",
+                httpStatus: 422,
+                metadata: { orderId: rejected!.id, reason: "INSUFFICIENT_FUNDS" },
+            });
+            expect(ledger.hold).not.toHaveBeenCalled();
+        });
+
+        it.each([
+            ["an unknown symbol", null, limit(BUYER, "buy", "100", "1"), "UNKNOWN_SYMBOL", 400],
+            ["a halted instrument", { ...BTC_USD, status: "halted" as const }, limit(BUYER, "buy", "100", "1"), "INSTRUMENT_NOT_TRADING", 409],
+            ["a price off the tick grid", BTC_USD, limit(BUYER, "buy", "100.005", "1"), "INVALID_PRICE_INCREMENT", 400],
+            ["a quantity off the lot grid", BTC_USD, limit(BUYER, "buy", "100", "1.0005"), "INVALID_QUANTITY_INCREMENT", 400],
+            ["a notional below the minimum", BTC_USD, limit(BUYER, "buy", "100", "0.05"), "BELOW_MIN_NOTIONAL", 400],
+            ["a price outside the band", { ...BTC_USD, priceBandPct: d("0.1") }, limit(BUYER, "buy", "110.01", "1"), "PRICE_OUTSIDE_BAND", 400],
+        ])("refuses %s before any risk check or write", async (_case, instrument, input, code, httpStatus) => {
+            const { db, risk, service } = setup(instrument);
+            db.seed(marketPrices, { symbol: "BTC/USD", price: "100" });
+
+            await expect(service.place(input)).rejects.toMatchObject({ code, httpStatus });
+
+            expect(risk.validateOrder).not.toHaveBeenCalled();
+            expect(db.rows(orders)).toEqual([]);
+        });
+    });
+
+    describe("buy holds", () => {
+        // [amount, reason] of every release, in order
+        const releases = (ledger: ReturnType<typeof setup>["ledger"]) =>
+            ledger.release.mock.calls.map(([params]) => [params.amount, /\((.*)\)$/.exec(params.description)?.[1]]);
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("holds a limit buy at its price and nothing for a sell", async () => {
+            const { ledger, service } = setup();
+
+            const buy = await service.place(limit(BUYER, "buy", "100", "2"));
+            await service.place(limit(SELLER, "sell", "101", "2"));
+
+            expect(ledger.hold).toHaveBeenCalledOnce();
+            expect(ledger.hold).toHaveBeenCalledWith(expect.objectContaining({ accountId: BUYER, amount: "200", referenceId: buy.id }), expect.anything());
+        });
+
+        it("holds an unpriced buy at the risk check's estimate", async () => {
+            const { db, ledger, risk, service } = setup();
+            db.seed(marketPrices, { symbol: "BTC/USD", price: "100" });
+            risk.validateOrder.mockResolvedValue({ ok: true, estimatedPrice: d("115.5") });
+
+            const stop = await service.place(unpricedBuy("stop", "2", "110"));
+
+            expect(stop).toMatchObject({ status: "new", holdPrice: "115.5" });
+            expect(ledger.hold).toHaveBeenCalledWith(expect.objectContaining({ amount: "231", referenceId: stop.id }), expect.anything());
+        });
+
+        it("rejects the order and keeps nothing of it when funds are short", async () => {
+            const { db, ledger, service } = setup();
+            ledger.hold.mockResolvedValueOnce(false);
+
+            await expect(service.place(limit(BUYER, "buy", "100", "2"))).rejects.toMatchObject({
+                code: "ORDER_REJECTED",
+                metadata: { reason: "INSUFFICIENT_FUNDS" },
+            });
+
+            expect(db.rows(orders).map((o) => o.status)).toEqual(["rejected"]);
+            expect(ledger.release).not.toHaveBeenCalled();
+        });
+
+        it("releases the unfilled remainder on cancel", async () => {
+            const { db, ledger, service } = setup();
+            await service.place(limit(SELLER, "sell", "100", "0.5"));
+            const buy = await service.place(limit(BUYER, "buy", "100", "2"));
+
+            await service.cancel(buy.id);
+
+            expect(releases(ledger)).toEqual([["50", "filled"], ["150", "cancelled"]]);
+            expect(db.rows(orders).find((o) => o.id === buy.id)?.status).toBe("cancelled");
+        });
+
+        it("releases an unpriced conditional buy's hold on cancel", async () => {
+            const { db, ledger, risk, service } = setup();
+            db.seed(marketPrices, { symbol: "BTC/USD", price: "100" });
+            risk.validateOrder.mockResolvedValue({ ok: true, estimatedPrice: d("115.5") });
+            const stop = await service.place(unpricedBuy("stop", "2", "110"));
+
+            await service.cancel(stop.id);
+
+            expect(releases(ledger)).toEqual([["231", "cancelled"]]);
+        });
+
+        it("releases the IOC remainder that never rests", async () => {
+            const { db, ledger, service } = setup();
+            await service.place(limit(SELLER, "sell", "100", "1"));
+
+            const buy = await service.place({ ...limit(BUYER, "buy", "100", "3"), timeInForce: "IOC" });
+
+            expect(buy).toMatchObject({ status: "cancelled", filledQuantity: "1" });
+            expect(releases(ledger)).toEqual([["100", "filled"], ["200", "unfilled remainder"]]);
+            expect(db.rows(trades)).toHaveLength(1);
+        });
+
+        it("stops a market buy at its hold price and releases the rest", async () => {
+            const { ledger, risk, service } = setup();
+            await service.place(limit(SELLER, "sell", "100", "1"));
+            await service.place(limit(SELLER, "sell", "106", "1"));
+            risk.validateOrder.mockResolvedValue({ ok: true, estimatedPrice: d(105) });
+
+            const buy = await service.place(unpricedBuy("market", "2"));
+
+            expect(buy).toMatchObject({ status: "cancelled", filledQuantity: "1", holdPrice: "105" });
+            expect(ledger.hold).toHaveBeenCalledWith(expect.objectContaining({ amount: "210" }), expect.anything());
+            expect(ledger.transfer).toHaveBeenCalledWith(expect.objectContaining({ amount: "100" }), expect.anything(), expect.anything());
+            expect(releases(ledger)).toEqual([["105", "filled"], ["105", "unfilled remainder"]]);
+        });
+
+        it("releases the hold of a GTD buy when it expires", async () => {
+            vi.useFakeTimers({ toFake: ["Date"] });
+            vi.setSystemTime(1_000_000);
+            const { db, ledger, service } = setup();
+            const buy = await service.place({ ...limit(BUYER, "buy", "100", "2"), timeInForce: "GTD", expiresAt: new Date(2_000_000) });
+
+            await service.expireOrders();
+            expect(ledger.release).not.toHaveBeenCalled();
+
+            vi.setSystemTime(2_000_000);
+            await service.expireOrders();
+
+            expect(releases(ledger)).toEqual([["200", "expired"]]);
+            expect(db.rows(orders).find((o) => o.id === buy.id)?.status).toBe("expired");
+        });
+
+        it("expires a GTD stop that never triggered and releases its hold", async () => {
+            vi.useFakeTimers({ toFake: ["Date"] });
+            vi.setSystemTime(1_000_000);
+            const { db, ledger, risk, service } = setup();
+            db.seed(marketPrices, { symbol: "BTC/USD", price: "100" });
+            risk.validateOrder.mockResolvedValue({ ok: true, estimatedPrice: d("115.5") });
+            const stop = await service.place({ ...unpricedBuy("stop", "2", "110"), timeInForce: "GTD", expiresAt: new Date(2_000_000) });
+
+            vi.setSystemTime(2_000_000);
+            await service.expireOrders();
+
+            expect(releases(ledger)).toEqual([["231", "expired"]]);
+            expect(db.rows(orders).find((o) => o.id === stop.id)?.status).toBe("expired");
+
+            // Gone from the trigger engine: a later crossing executes nothing
+            await service.processTriggers("BTC/USD", d(120));
+            expect(db.rows(orders).find((o) => o.id === stop.id)?.triggeredAt).toBeNull();
+        });
+
+        it("keeps an expiring stop pending when persisting the expiry fails", async () => {
+            vi.useFakeTimers({ toFake: ["Date"] });
+            vi.setSystemTime(1_000_000);
+            const { db, ledger, risk, service } = setup();
+            db.seed(marketPrices, { symbol: "BTC/USD", price: "100" });
+            risk.validateOrder.mockResolvedValue({ ok: true, estimatedPrice: d("115.5") });
+            const stop = await service.place({ ...unpricedBuy("stop", "2", "110"), timeInForce: "GTD", expiresAt: new Date(2_000_000) });
+            ledger.release.mockRejectedValueOnce(new Error("ledger unavailable"));
+
+            vi.setSystemTime(2_000_000);
+            await expect(service.expireOrders()).rejects.toThrow("ledger unavailable");
+            expect(db.rows(orders).find((o) => o.id === stop.id)?.status).toBe("new");
+
+            await service.expireOrders();
+            expect(db.rows(orders).find((o) => o.id === stop.id)?.status).toBe("expired");
+        });
+
+        it("releases the hold at the limit price and debits the trade price on a fill", async () => {
+            const { ledger, service } = setup();
+            await service.place(limit(SELLER, "sell", "99", "1"));
+
+            await service.place(limit(BUYER, "buy", "100", "1"));
+
+            // Held 100, paid 99: the 1 of price improvement is available again
+            expect(releases(ledger)).toEqual([["100", "filled"]]);
+            expect(ledger.transfer).toHaveBeenCalledWith(
+                expect.objectContaining({ accountId: BUYER, amount: "99" }),
+                expect.objectContaining({ accountId: SELLER, amount: "99" }),
+                expect.anything(),
+            );
+        });
+    });
+});
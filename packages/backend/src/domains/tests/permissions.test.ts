@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from "vitest";
+import { hasPermission } from "../auth/core/auth.permissions.js";
+import { can, withPermission, type AuthServices } from "../../api/middleware.js";
+import type { HttpRequest } from "../../api/types.js";
+
+const request: HttpRequest = {
+    body: null,
+    query: {},
+    params: {},
+    headers: { authorization: "Bearer access.token" },
+};
+
+// Bearer auth backed by one active session whose role the test picks
+const servicesFor = (role: string): AuthServices => ({
+    tokenManager: {
+        parseAccessToken: vi.fn().mockResolvedValue({
+            sub: "user_1", sessionId: "session_1", role, version: 1,
+            issuedAt: "2026-01-01T00:00:00Z", expiresAt: "2099-01-01T00:00:00Z",
+        }),
+    },
+    sessionRepository: {
+        getById: vi.fn().mockResolvedValue({
+            id: "session_1", userId: "user_1", status: "active", refreshTokenVersion: 1, expiresAt: "2099-01-01T00:00:00Z",
+        }),
+        touch: vi.fn(),
+    },
+} as unknown as AuthServices);
+
+describe("permissions", () => {
+    it("gives support visibility plus session revocation and admins everything", () => {
+        expect(hasPermission("support", "users:read")).toBe(true);
+        expect(hasPermission("support", "audit:read")).toBe(true);
+        expect(hasPermission("support", "sessions:revoke")).toBe(true);
+        expect(hasPermission("support", "users:unlock")).toBe(false);
+        expect(hasPermission("support", "balances:adjust")).toBe(false);
+        expect(hasPermission("support", "users:manage_roles")).toBe(false);
+        expect(hasPermission("admin", "balances:adjust")).toBe(true);
+        expect(hasPermission("user", "users:read")).toBe(false);
+        expect(hasPermission("root", "users:read")).toBe(false);
+    });
+
+    it("never grants staff permissions through an API key", () => {
+        expect(can({ sub: "user_1", role: "admin", sessionId: "session_1" }, "users:read")).toBe(true);
+        expect(can({ sub: "user_1", role: "admin", apiKeyId: "key_1" }, "users:read")).toBe(false);
+    });
+
+    it("runs the handler only for roles holding the permission", async () => {
+        const handler = vi.fn().mockResolvedValue({ status: 200, body: { ok: true } });
+
+        const asSupport = await withPermission(servicesFor("support"), "balances:adjust", handler)(request);
+        expect(asSupport).toEqual({ status: 403, body: { error: "forbidden", permission: "balances:adjust" } });
+        expect(handler).not.toHaveBeenCalled();
+
+        const asAdmin = await withPermission(servicesFor("admin"), "balances:adjust", handler)(request);
+        expect(asAdmin.status).toBe(200);
+        expect(handler).toHaveBeenCalledWith(request, expect.objectContaining({ sub: "user_1", role: "admin" }));
+    });
+
+    it("answers 401 without a session", async () => {
+        const handler = vi.fn();
+
+        const response = await withPermission(servicesFor("admin"), "audit:read", handler)({ ...request, headers: {} });
+
+        expect(response.status).toBe(401);
+        expect(handler).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { InMemoryRateLimitStore, RateLimiter } from "../auth/security/rate.limit.js";
+import { withRateLimit } from "../auth/controllers/rate.limit.guard.js";
+import { DEFAULT_RATE_LIMIT_POLICY } from "../auth/core/auth.policies.js";
+import type { HttpRequest } from "../../api/types.js";
+
+const policy = {
+    ...DEFAULT_RATE_LIMIT_POLICY,
+    loginAttemptsPerIp: { maxAttempts: 3, windowSeconds: 60 },
+};
+
+const request = (ipAddress: string): HttpRequest => ({
+    body: {},
+    query: {},
+    params: {},
+    headers: {},
+    ipAddress,
+});
+
+describe("RateLimiter", () => {
+    let now = 0;
+    let store: InMemoryRateLimitStore;
+
+    const createLimiter = (overrides = {}) => {
+        now = 1_000_000;
+        store = new InMemoryRateLimitStore(() => now);
+        return new RateLimiter({ ...policy, ...overrides }, store);
+    };
+
+    afterEach(() => store.close());
+
+    it("allows the budget and rejects the next attempt with a retry hint", async () => {
+        const limiter = createLimiter();
+        for (let i = 0; i < 3; i++) {
+            await limiter.check("login:1.1.1.1", "loginAttemptsPerIp");
+        }
+        now += 20_000;
+
+        await expect(limiter.check("login:1.1.1.1", "loginAttemptsPerIp")).rejects.toMatchObject({
+            code: "RATE_LIMIT_EXCEEDED",
+            metadata: { retryAfter: 40 },
+        });
+        await expect(limiter.check("login:2.2.2.2", "loginAttemptsPerIp")).resolves.toBeUndefined();
+    });
+
+    it("opens a fresh window once the old one closes", async () => {
+        const limiter = createLimiter();
+        for (let i = 0; i < 4; i++) {
+            await limiter.check("login:1.1.1.1", "loginAttemptsPerIp").catch(() => undefined);
+        }
+        now += 60_000;
+
+        await expect(limiter.check("login:1.1.1.1", "loginAttemptsPerIp")).resolves.toBeUndefined();
+        expect(await limiter.getAttempts("login:1.1.1.1")).toBe(1);
+    });
+
+    it("does nothing when disabled", async () => {
+        const limiter = createLimiter({ enabled: false });
+        for (let i = 0; i < 10; i++) {
+            await limiter.check("login:1.1.1.1", "loginAttemptsPerIp");
+        }
+        expect(await limiter.getAttempts("login:1.1.1.1")).toBe(0);
+    });
+
+    it("answers 429 with Retry-After without calling the controller", async () => {
+        const limiter = createLimiter();
+        const controller = vi.fn().mockResolvedValue({ status: 200 });
+        const handler = withRateLimit(limiter, "loginAttemptsPerIp", (req) => `login:${req.ipAddress}`, controller);
+
+        for (let i = 0; i < 3; i++) {
+            expect((await handler(request("1.1.1.1"))).status).toBe(200);
+        }
+        const limited = await handler(request("1.1.1.1"));
+
+        expect(limited.status).toBe(429);
+        expect(limited.headers).toEqual({ "Retry-After": "60" });
+        expect(limited.body).toMatchObject({ error: "RATE_LIMIT_EXCEEDED" });
+        expect(controller).toHaveBeenCalledTimes(3);
+    });
+});
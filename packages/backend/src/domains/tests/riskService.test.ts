@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { accounts, marketPrices, orders, positions, riskLimits } from "@repo/database";
+import { RiskServiceImplementation, type RiskCheckInput } from "../risk/risk.service.js";
+import { Decimal } from "../../lib/decimal.js";
+import { createFakeDb } from "./fakeDb.js";
+
+const ACCOUNT = "00000000-0000-0000-0000-00000000000a";
+const OTHER = "00000000-0000-0000-0000-00000000000b";
+
+const sell = (quantity: string): RiskCheckInput => ({
+    accountId: ACCOUNT,
+    symbol: "BTC/USD",
+    side: "sell",
+    type: "limit",
+    price: "100",
+    quantity,
+});
+
+function setup() {
+    const db = createFakeDb();
+    db.seed(accounts, { id: ACCOUNT, currency: "USD", balance: "1000" });
+    db.seed(positions, { accountId: ACCOUNT, symbol: "BTC/USD", side: "long", quantity: "2" });
+    db.seed(riskLimits, { symbol: "*", maxHouseExposure: "100" });
+    return { db, risk: new RiskServiceImplementation(db.client) };
+}
+
+describe("RiskServiceImplementation", () => {
+    describe("sell position check", () => {
+        it("allows selling up to the whole position when nothing else is open", async () => {
+            const { risk } = setup();
+
+            await expect(risk.validateOrder(sell("2"))).resolves.toEqual({ ok: true });
+            await expect(risk.validateOrder(sell("2.001"))).resolves.toMatchObject({ ok: false, code: "INSUFFICIENT_POSITION" });
+        });
+
+        it("subtracts the quantity still open on the account's other sells", async () => {
+            const { db, risk } = setup();
+            const order = { accountId: ACCOUNT, symbol: "BTC/USD", side: "sell", type: "limit", price: "100" } as const;
+            db.seed(orders, { ...order, quantity: "1.5", filledQuantity: "0.5", status: "partially_filled" });
+            // None of these promise any of the position
+            db.seed(orders, { ...order, quantity: "2", status: "cancelled" });
+            db.seed(orders, { ...order, quantity: "2", status: "filled", filledQuantity: "2" });
+            db.seed(orders, { ...order, symbol: "ETH/USD", quantity: "2" });
+            db.seed(orders, { ...order, side: "buy", quantity: "2" });
+            db.seed(orders, { ...order, accountId: OTHER, quantity: "2" });
+
+            await expect(risk.validateOrder(sell("1"))).resolves.toEqual({ ok: true });
+            await expect(risk.validateOrder(sell("1.001"))).resolves.toEqual({
+                ok: false,
+                code: "INSUFFICIENT_POSITION",
+                reason: "Insufficient position. Required: 1.001, Available: 1",
+            });
+        });
+    });
+
+    describe("unpriced buys", () => {
+        const buy = (type: RiskCheckInput["type"], quantity: string, triggerPrice?: string): RiskCheckInput => ({
+            accountId: ACCOUNT,
+            symbol: "BTC/USD",
+            side: "buy",
+            type,
+            quantity,
+            triggerPrice,
+        });
+
+        it("values them at the last price plus the buffer, no lower than the trigger", async () => {
+            const { db, risk } = setup();
+            db.seed(marketPrices, { symbol: "BTC/USD", price: "100" });
+
+            await expect(risk.validateOrder(buy("market", "2"))).resolves.toEqual({ ok: true, estimatedPrice: Decimal.from(105) });
+            await expect(risk.validateOrder(buy("stop", "2", "110"))).resolves.toEqual({ ok: true, estimatedPrice: Decimal.from("115.5") });
+            await expect(risk.validateOrder(buy("market", "10"))).resolves.toMatchObject({ ok: false, code: "INSUFFICIENT_FUNDS" });
+        });
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { createPublicKey, generateKeyPairSync } from "node:crypto";
+import { createLocalJWKSet, decodeProtectedHeader, jwtVerify } from "jose";
+import { createJwtTokenManager, parseSigningKeys, type SigningKeyConfig } from "../../security/tokens.js";
+
+const edKey = (kid: string): SigningKeyConfig => {
+    const { privateKey } = generateKeyPairSync("ed25519");
+    return { kid, alg: "EdDSA", privateKey: privateKey.export({ type: "pkcs8", format: "pem" }).toString() };
+};
+const publicOnly = ({ privateKey, ...key }: SigningKeyConfig): SigningKeyConfig => ({
+    ...key,
+    publicKey: createPublicKey(privateKey!).export({ type: "spki", format: "pem" }).toString(),
+});
+
+const accessClaims = {
+    sub: "user_1", sessionId: "session_1", role: "user", version: 1,
+    issuedAt: "2026-01-01T00:00:00Z", expiresAt: "2026-01-01T00:15:00Z",
+};
+const refreshClaims = {
+    sub: "user_1", sessionId: "session_1", sessionVersion: 1, passwordVersion: 1,
+    issuedAt: "2026-01-01T00:00:00Z", expiresAt: "2026-01-31T00:00:00Z",
+};
+const hsRefresh: SigningKeyConfig = { kid: "refresh-1", alg: "HS256", secret: "refresh-secret-for-tests" };
+
+describe("JWT token manager", () => {
+    it("signs with the active key and names it in the kid header", async () => {
+        const manager = createJwtTokenManager({ access: [edKey("access-2"), edKey("access-1")], refresh: [hsRefresh] });
+
+        const token = await manager.issueAccessToken(accessClaims, 900);
+
+        expect(decodeProtectedHeader(token)).toMatchObject({ alg: "EdDSA", kid: "access-2" });
+        expect(await manager.parseAccessToken(token)).toMatchObject({ sub: "user_1", sessionId: "session_1" });
+    });
+
+    it("keeps verifying tokens from a key rotated out of signing", async () => {
+        const previous = edKey("access-1");
+        const before = createJwtTokenManager({ access: [previous], refresh: [hsRefresh] });
+        const token = await before.issueAccessToken(accessClaims, 900);
+
+        const after = createJwtTokenManager({ access: [edKey("access-2"), publicOnly(previous)], refresh: [hsRefresh] });
+
+        expect(decodeProtectedHeader(await after.issueAccessToken(accessClaims, 900)).kid).toBe("access-2");
+        expect(await after.parseAccessToken(token)).toMatchObject({ sub: "user_1" });
+    });
+
+    it("rejects tokens from the other ring or an unknown key", async () => {
+        const manager = createJwtTokenManager({ access: [edKey("access-1")], refresh: [hsRefresh] });
+        const stranger = createJwtTokenManager({ access: [edKey("access-1")], refresh: [hsRefresh] });
+
+        const access = await manager.issueAccessToken(accessClaims, 900);
+        const refresh = await manager.issueRefreshToken(refreshClaims, 900);
+
+        expect(await manager.parseRefreshToken(refresh)).toMatchObject({ sessionVersion: 1 });
+        expect(await manager.parseRefreshToken(access)).toBeNull();
+        expect(await manager.parseAccessToken(refresh)).toBeNull();
+        // Same kid, different key pair
+        expect(await manager.parseAccessToken(await stranger.issueAccessToken(accessClaims, 900))).toBeNull();
+    });
+
+    it("publishes only public access keys, enough to verify without a secret", async () => {
+        const manager = createJwtTokenManager({
+            access: [edKey("access-1"), { kid: "legacy", alg: "HS256", secret: "access-secret-for-tests" }],
+            refresh: [edKey("refresh-1")],
+        });
+
+        const jwks = await manager.getJwks();
+        const token = await manager.issueAccessToken(accessClaims, 900);
+
+        expect(jwks.keys.map((key) => key.kid)).toEqual(["access-1"]);
+        expect(jwks.keys[0]).toMatchObject({ kty: "OKP", crv: "Ed25519", alg: "EdDSA", use: "sig" });
+        expect(jwks.keys[0]).not.toHaveProperty("d");
+        await expect(jwtVerify(token, createLocalJWKSet(jwks))).resolves.toHaveProperty("payload.sub", "user_1");
+    });
+
+    it("refuses key rings that cannot sign or do not match their algorithm", () => {
+        const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey
+            .export({ type: "pkcs8", format: "pem" }).toString();
+
+        expect(() => createJwtTokenManager({ access: [publicOnly(edKey("access-1"))], refresh: [hsRefresh] }))
+            .toThrow("No access token signing key configured");
+        expect(() => createJwtTokenManager({ access: [{ kid: "access-1", alg: "EdDSA", privateKey: rsa }], refresh: [hsRefresh] }))
+            .toThrow("EdDSA needs an ed25519 key");
+        expect(() => parseSigningKeys('[{"kid":"a","alg":"none"}]', "JWT_ACCESS_KEYS")).toThrow("JWT_ACCESS_KEYS[0]");
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+    buildOtpauthUri,
+    decodeBase32,
+    encodeBase32,
+    generateTotp,
+    generateTotpSecret,
+    verifyTotp,
+} from "../auth/mfa/totp.js";
+import { generateRecoveryCodes, hashRecoveryCode } from "../auth/mfa/recovery.codes.js";
+
+// RFC 6238 appendix B, SHA-1 seed "12345678901234567890" (last 6 of the 8-digit values)
+const RFC_SECRET = encodeBase32(Buffer.from("12345678901234567890"));
+const at = (seconds: number) => new Date(seconds * 1000);
+
+describe("TOTP", () => {
+    it("round-trips base32", () => {
+        expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+        expect(decodeBase32(RFC_SECRET).toString()).toBe("12345678901234567890");
+        expect(decodeBase32(generateTotpSecret())).toHaveLength(20);
+    });
+
+    it("matches the RFC 6238 test vectors", () => {
+        expect(generateTotp(RFC_SECRET, at(59), 30)).toBe("287082");
+        expect(generateTotp(RFC_SECRET, at(1111111109), 30)).toBe("081804");
+        expect(generateTotp(RFC_SECRET, at(1234567890), 30)).toBe("005924");
+        expect(generateTotp(RFC_SECRET, at(2000000000), 30)).toBe("279037");
+    });
+
+    it("accepts codes within the window and returns their step", () => {
+        const now = at(1234567890);
+        const previous = generateTotp(RFC_SECRET, at(1234567890 - 30), 30);
+        const tooOld = generateTotp(RFC_SECRET, at(1234567890 - 90), 30);
+
+        expect(verifyTotp(RFC_SECRET, "005924", now, 30, 1)).toBe(Math.floor(1234567890 / 30));
+        expect(verifyTotp(RFC_SECRET, previous, now, 30, 1)).toBe(Math.floor(1234567890 / 30) - 1);
+        expect(verifyTotp(RFC_SECRET, tooOld, now, 30, 1)).toBeNull();
+        expect(verifyTotp(RFC_SECRET, "12345", now, 30, 1)).toBeNull();
+    });
+
+    it("builds an otpauth URI for authenticator apps", () => {
+        const uri = buildOtpauthUri({ secret: RFC_SECRET, accountName: "a@b.com", issuer: "BHC Markets", periodSeconds: 30 });
+        expect(uri).toBe(`otpauth://totp/BHC%20Markets:a%40b.com?secret=${RFC_SECRET}&issuer=BHC+Markets&algorithm=SHA1&digits=6&period=30`);
+    });
+});
+
+describe("recovery codes", () => {
+    it("generates unique codes of the requested length", () => {
+        const codes = generateRecoveryCodes(10, 8);
+        expect(new Set(codes).size).toBe(10);
+        expect(codes.every((code) => /^[2-9A-HJKMNP-Z]{8}$/.test(code))).toBe(true);
+    });
+
+    it("hashes case- and separator-insensitively", () => {
+        expect(hashRecoveryCode("abcd-efgh")).toBe(hashRecoveryCode("ABCDEFGH"));
+        expect(hashRecoveryCode("ABCDEFGH")).not.toBe(hashRecoveryCode("ABCDEFGJ"));
+    });
+});
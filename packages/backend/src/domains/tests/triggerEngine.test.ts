@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { TriggerEngine, validateTriggerPrice, type ConditionalOrder } from "../order/trigger-engine.js";
+import { Decimal } from "../../lib/decimal.js";
+
+const d = (value: number) => Decimal.from(value);
+
+const conditional = (
+    id: string,
+    type: "stop" | "take_profit",
+    side: "buy" | "sell",
+    triggerPrice: number,
+    timestamp = 0,
+): ConditionalOrder => ({
+    id,
+    symbol: "BTC/USD",
+    side,
+    type,
+    triggerPrice: d(triggerPrice),
+    quantity: d(1),
+    timestamp,
+});
+
+describe("TriggerEngine", () => {
+    it("fires stop buys on a rise and stop sells on a fall", () => {
+        const engine = new TriggerEngine();
+        engine.add(conditional("stop_buy", "stop", "buy", 110));
+        engine.add(conditional("stop_sell", "stop", "sell", 90));
+
+        expect(engine.onPrice("BTC/USD", d(100))).toEqual([]);
+        expect(engine.onPrice("BTC/USD", d(110)).map((o) => o.id)).toEqual(["stop_buy"]);
+        expect(engine.onPrice("BTC/USD", d(85)).map((o) => o.id)).toEqual(["stop_sell"]);
+    });
+
+    it("fires take-profit orders in the opposite direction", () => {
+        const engine = new TriggerEngine();
+        engine.add(conditional("tp_sell", "take_profit", "sell", 120));
+        engine.add(conditional("tp_buy", "take_profit", "buy", 80));
+
+        expect(engine.onPrice("BTC/USD", d(79)).map((o) => o.id)).toEqual(["tp_buy"]);
+        expect(engine.onPrice("BTC/USD", d(125)).map((o) => o.id)).toEqual(["tp_sell"]);
+    });
+
+    it("returns every crossed order oldest first and forgets them", () => {
+        const engine = new TriggerEngine();
+        engine.add(conditional("far", "stop", "buy", 105, 1));
+        engine.add(conditional("near", "stop", "buy", 101, 2));
+        engine.add(conditional("untouched", "stop", "buy", 120, 3));
+
+        expect(engine.onPrice("BTC/USD", d(106)).map((o) => o.id)).toEqual(["far", "near"]);
+        expect(engine.onPrice("BTC/USD", d(106))).toEqual([]);
+        expect(engine.watchedSymbols()).toEqual(["BTC/USD"]);
+    });
+
+    it("does not fire removed orders", () => {
+        const engine = new TriggerEngine();
+        engine.add(conditional("stop_sell", "stop", "sell", 90));
+
+        expect(engine.remove("stop_sell")?.id).toBe("stop_sell");
+        expect(engine.onPrice("BTC/USD", d(80))).toEqual([]);
+        expect(engine.watchedSymbols()).toEqual([]);
+    });
+
+    it("rejects triggers the current price has already crossed", () => {
+        expect(validateTriggerPrice("stop", "buy", d(110), d(100))).toBeNull();
+        expect(validateTriggerPrice("stop", "buy", d(95), d(100))).toMatch(/above/);
+        expect(validateTriggerPrice("take_profit", "sell", d(95), d(100))).toMatch(/above/);
+        expect(validateTriggerPrice("stop", "sell", d(105), d(100))).toMatch(/below/);
+        expect(validateTriggerPrice("stop", "sell", d(105), null)).toBeNull();
+        expect(validateTriggerPrice("stop", "sell", d(0), null)).toMatch(/positive/);
+    });
+});
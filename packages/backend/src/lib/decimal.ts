@@ -0,0 +1,163 @@
+/*
+  Fixed-point decimal with the same scale as the database's numeric(30, 10) columns.
+
+  Values are held as a BigInt count of 10^-10 units, so addition, subtraction and
+  comparison are exact and matching is deterministic across runs and machines.
+  Multiplication is the only operation that can produce more than 10 fractional
+  digits; it rounds half-to-even back to the scale.
+
+  Strings coming from the database parse exactly. JavaScript numbers are accepted at
+  the edges (HTTP bodies, config) and snapped to the scale via toFixed, which is
+  where float noise like 0.1 + 0.2 gets dropped.
+*/
+
+export const DECIMAL_SCALE = 10;
+const FACTOR = 10n ** BigInt(DECIMAL_SCALE);
+const PATTERN = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+export type DecimalInput = Decimal | string | number | bigint;
+
+export class Decimal {
+    static readonly ZERO = new Decimal(0n);
+    static readonly ONE = new Decimal(FACTOR);
+
+    private constructor(readonly units: bigint) { }
+
+    static fromUnits(units: bigint): Decimal {
+        return new Decimal(units);
+    }
+
+    static from(value: DecimalInput): Decimal {
+        if (value instanceof Decimal) return value;
+        if (typeof value === "bigint") return new Decimal(value * FACTOR);
+        if (typeof value === "number") {
+            if (!Number.isFinite(value)) throw new RangeError(`Not a finite number: ${value}`);
+            return Decimal.parse(value.toFixed(DECIMAL_SCALE));
+        }
+        return Decimal.parse(value);
+    }
+
+    /** Parse a plain decimal string. More than DECIMAL_SCALE significant fractional digits is an error, not a rounding. */
+    static parse(text: string): Decimal {
+        const match = PATTERN.exec(text.trim());
+        const whole = match?.[2] ?? "";
+        const fraction = (match?.[3] ?? "").replace(/0+$/, "");
+        if (!match || (whole === "" && !match[3])) {
+            throw new RangeError(`Invalid decimal: "${text}"`);
+        }
+        if (fraction.length > DECIMAL_SCALE) {
+            throw new RangeError(`Decimal "${text}" has more than ${DECIMAL_SCALE} fractional digits`);
+        }
+
+        const units = BigInt(whole || "0") * FACTOR + BigInt(fraction.padEnd(DECIMAL_SCALE, "0") || "0");
+        return new Decimal(match[1] === "-" ? -units : units);
+    }
+
+    static min(a: Decimal, b: Decimal): Decimal {
+        return a.units <= b.units ? a : b;
+    }
+
+    static max(a: Decimal, b: Decimal): Decimal {
+        return a.units >= b.units ? a : b;
+    }
+
+    static sum(values: Iterable<Decimal>): Decimal {
+        let units = 0n;
+        for (const value of values) units += value.units;
+        return new Decimal(units);
+    }
+
+    plus(other: Decimal): Decimal {
+        return new Decimal(this.units + other.units);
+    }
+
+    minus(other: Decimal): Decimal {
+        return new Decimal(this.units - other.units);
+    }
+
+    times(other: Decimal): Decimal {
+        return new Decimal(divRoundHalfEven(this.units * other.units, FACTOR));
+    }
+
+    negated(): Decimal {
+        return new Decimal(-this.units);
+    }
+
+    abs(): Decimal {
+        return this.units < 0n ? this.negated() : this;
+    }
+
+    cmp(other: Decimal): -1 | 0 | 1 {
+        if (this.units === other.units) return 0;
+        return this.units < other.units ? -1 : 1;
+    }
+
+    eq(other: Decimal): boolean {
+        return this.units === other.units;
+    }
+
+    lt(other: Decimal): boolean {
+        return this.units < other.units;
+    }
+
+    lte(other: Decimal): boolean {
+        return this.units <= other.units;
+    }
+
+    gt(other: Decimal): boolean {
+        return this.units > other.units;
+    }
+
+    gte(other: Decimal): boolean {
+        return this.units >= other.units;
+    }
+
+    isZero(): boolean {
+        return this.units === 0n;
+    }
+
+    isPositive(): boolean {
+        return this.units > 0n;
+    }
+
+    isNegative(): boolean {
+        return this.units < 0n;
+    }
+
+    /** True when this is a whole number of `step`s (tick / lot checks). */
+    isMultipleOf(step: Decimal): boolean {
+        if (step.units <= 0n) throw new RangeError("Step must be positive");
+        return this.units % step.units === 0n;
+    }
+
+    /** Canonical form without trailing zeros, e.g. "0.3", "-12", "100.25". Safe to hand to numeric columns. */
+    toString(): string {
+        const negative = this.units < 0n;
+        const absolute = negative ? -this.units : this.units;
+        const whole = absolute / FACTOR;
+        const fraction = (absolute % FACTOR).toString().padStart(DECIMAL_SCALE, "0").replace(/0+$/, "");
+        return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+    }
+
+    toJSON(): string {
+        return this.toString();
+    }
+
+    /** Lossy; for display, metrics and logs only. */
+    toNumber(): number {
+        return Number(this.toString());
+    }
+}
+
+function divRoundHalfEven(numerator: bigint, denominator: bigint): bigint {
+    const quotient = numerator / denominator;
+    const remainder = numerator % denominator;
+    if (remainder === 0n) return quotient;
+
+    const twice = (remainder < 0n ? -remainder : remainder) * 2n;
+    const direction = (numerator < 0n) !== (denominator < 0n) ? -1n : 1n;
+    if (twice > denominator || (twice === denominator && quotient % 2n !== 0n)) {
+        return quotient + direction;
+    }
+    return quotient;
+}
@@ -4,6 +4,8 @@
  * - Uses CoinGecko for crypto as high-quality free source
  * - Respects concurrency, retries, and timeouts
  * - Loads symbols from JSON file if available, with sane defaults fallback
+ * - Always prices every listed instrument: the order service values orders and
+ *   fires triggers off these prices, so a symbol missing from the file is added
  */
 
 import yf from "yahoo-finance2";
@@ -14,6 +16,7 @@ import pTimeout from "p-timeout";
 import { promises as fs } from "fs";
 import { CONCURRENCY, RETRY_RETRIES, RETRY_FACTOR, SYMBOLS_PATH, YF_TIMEOUT_MS, CG_TIMEOUT_MS } from "./config.js";
 import { logger } from "./logger.js";
+import { loadInstruments, type ListedInstrument } from "./storage.js";
 
 const limit = pLimit(CONCURRENCY);
 
@@ -103,8 +106,42 @@ async function loadSymbols(): Promise<AssetDefinition[]> {
   return SYMBOLS_CACHE;
 }
 
+/** Category for an instrument the symbols file doesn't list, from its base currency or Yahoo's symbol conventions */
+function categoryOf(instrument: ListedInstrument): Category {
+  if (CG_SYMBOL_MAP[instrument.baseCurrency.toUpperCase()]) return "cryptocurrencies";
+  if (instrument.symbol.startsWith("^")) return "indices";
+  if (instrument.symbol.endsWith("=X")) return "fx";
+  if (instrument.symbol.endsWith("=F")) return "commodities";
+  return "stocks";
+}
+
+/**
+ * Symbols to price on this refresh: the symbols file plus any instrument it doesn't list.
+ * Instruments are re-read every time so new listings are priced without a restart.
+ */
+async function loadAssets(): Promise<AssetDefinition[]> {
+  const symbols = await loadSymbols();
+  let instruments: ListedInstrument[];
+  try {
+    instruments = await loadInstruments();
+  } catch (err) {
+    logger.warn({ err }, "Failed to load instruments; pricing the symbols file only");
+    return symbols;
+  }
+
+  const known = new Set(symbols.map((s) => s.symbol));
+  const missing = instruments.filter((i) => !known.has(i.symbol));
+  if (missing.length === 0) return symbols;
+
+  logger.info({ symbols: missing.map((i) => i.symbol) }, "Pricing instruments missing from the symbols file");
+  return [
+    ...symbols,
+    ...missing.map((i) => ({ category: categoryOf(i), symbol: i.symbol, name: i.name ?? undefined })),
+  ];
+}
+
 export async function getSymbolsList(): Promise<AssetDefinition[]> {
-  return loadSymbols();
+  return loadAssets();
 }
 
 async function fetchYahooSymbol(symbol: string) {
@@ -165,7 +202,7 @@ export async function fetchAll(): Promise<Record<Category, Record<string, any>>>
     commodities: {}
   };
 
-  const symbols = await loadSymbols();
+  const symbols = await loadAssets();
 
   // Prepare groups
   const byCategory: Record<Category, AssetDefinition[]> = {
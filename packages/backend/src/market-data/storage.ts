@@ -51,6 +51,21 @@ export async function appendHistory(data: any) {
   }
 }
 
+/** A tradable symbol from the `instruments` registry. */
+export interface ListedInstrument {
+  symbol: string;
+  name: string | null;
+  baseCurrency: string;
+}
+
+/** Instruments that still trade or may trade again (closed ones need no prices). */
+export async function loadInstruments(): Promise<ListedInstrument[]> {
+  const { rows } = await pool.query(
+    `SELECT symbol, name, base_currency FROM instruments WHERE status <> 'closed' ORDER BY symbol`
+  );
+  return rows.map((row) => ({ symbol: row.symbol, name: row.name, baseCurrency: row.base_currency }));
+}
+
 export async function cleanupHistory() {
   // Postgres handles retention via separate jobs or partitions usually.
   // For now, we can implement a simple delete query.
@@ -1,14 +1,21 @@
 /*
   tokens.ts
   Minimal JWT token manager built on top of `jose`.
-  We keep a symmetric secret (HMAC-SHA256) for both access and refresh tokens to simplify ops.
+  Access and refresh tokens are signed with separate key rings so one can never pass for the other.
+
+  A key ring is a list of keys: the first one able to sign is the active key, and every key in the
+  list still verifies. To rotate, put the new key first and keep the old one (public key only for
+  EdDSA/RS256) until the tokens it signed have expired. Every token names its key in the `kid`
+  header. Access tokens signed with EdDSA or RS256 can be verified by other services through the
+  public keys served at /.well-known/jwks.json, without holding anything secret.
 
   Access token: short-lived, includes role and session version for quick authz decisions.
   Refresh token: long-lived, used only at the refresh endpoint. We still hash its opaque JWT
   for server-side reuse detection.
 */
 
-import { SignJWT, jwtVerify } from "jose";
+import { createPrivateKey, createPublicKey, createSecretKey, type KeyObject } from "node:crypto";
+import { SignJWT, exportJWK, jwtVerify, type JSONWebKeySet, type JWTPayload } from "jose";
 
 export type UUID = string;
 
@@ -35,50 +42,157 @@ export interface TokenManager {
   issueRefreshToken(payload: RefreshTokenClaims, ttlSeconds: number): Promise<string>;
   parseRefreshToken(token: string): Promise<RefreshTokenClaims | null>;
   parseAccessToken(token: string): Promise<AccessTokenClaims | null>;
+  /** Public keys that verify access tokens (EdDSA/RS256 only; HS256 secrets are never published). */
+  getJwks(): Promise<JSONWebKeySet>;
+}
+
+export type SigningAlgorithm = "EdDSA" | "RS256" | "HS256";
+
+export interface SigningKeyConfig {
+  kid: string;
+  alg: SigningAlgorithm;
+  /** PKCS#8 PEM (EdDSA/RS256). Keys without one only verify. */
+  privateKey?: string;
+  /** SPKI PEM (EdDSA/RS256); derived from `privateKey` when absent. */
+  publicKey?: string;
+  /** Shared secret (HS256). */
+  secret?: string;
+}
+
+export interface TokenKeyConfig {
+  access: SigningKeyConfig[];
+  refresh: SigningKeyConfig[];
 }
 
-export function createJwtTokenManager(secret: string): TokenManager {
-  const key = new TextEncoder().encode(secret);
+const ALGORITHMS: SigningAlgorithm[] = ["EdDSA", "RS256", "HS256"];
+const KEY_TYPES: Record<Exclude<SigningAlgorithm, "HS256">, string> = { EdDSA: "ed25519", RS256: "rsa" };
+
+type RingKey = {
+  kid: string;
+  alg: SigningAlgorithm;
+  signingKey?: KeyObject;
+  verificationKey: KeyObject;
+};
+
+type KeyRing = {
+  active: RingKey & { signingKey: KeyObject };
+  byKid: Map<string, RingKey>;
+};
+
+const toRingKey = (use: string, config: SigningKeyConfig): RingKey => {
+  const { kid, alg } = config;
+  if (!ALGORITHMS.includes(alg)) {
+    throw new Error(`${use} key ${kid}: unsupported algorithm ${String(alg)}`);
+  }
+  if (alg === "HS256") {
+    if (!config.secret) throw new Error(`${use} key ${kid}: HS256 needs a secret`);
+    const key = createSecretKey(Buffer.from(config.secret));
+    return { kid, alg, signingKey: key, verificationKey: key };
+  }
+
+  const signingKey = config.privateKey ? createPrivateKey(config.privateKey) : undefined;
+  const publicSource = config.publicKey ?? signingKey;
+  if (!publicSource) throw new Error(`${use} key ${kid}: needs a private or public key`);
+  const verificationKey = createPublicKey(publicSource);
+  if (verificationKey.asymmetricKeyType !== KEY_TYPES[alg]) {
+    throw new Error(`${use} key ${kid}: ${alg} needs an ${KEY_TYPES[alg]} key`);
+  }
+  return { kid, alg, signingKey, verificationKey };
+};
+
+const createKeyRing = (use: string, configs: SigningKeyConfig[]): KeyRing => {
+  const byKid = new Map<string, RingKey>();
+  for (const config of configs) {
+    if (byKid.has(config.kid)) throw new Error(`${use} key ${config.kid} is configured twice`);
+    byKid.set(config.kid, toRingKey(use, config));
+  }
 
-  const baseHeader = { alg: "HS256", typ: "JWT" } as const;
+  const active = [...byKid.values()].find((key): key is KeyRing["active"] => key.signingKey !== undefined);
+  if (!active) throw new Error(`No ${use} signing key configured`);
+  return { active, byKid };
+};
+
+/**
+ * Parse a key ring from its JSON form (an array of `SigningKeyConfig`), e.g. the JWT_ACCESS_KEYS variable.
+ */
+export function parseSigningKeys(json: string, name: string): SigningKeyConfig[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(`${name} must be a JSON array of signing keys`);
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error(`${name} must be a non-empty JSON array of signing keys`);
+  }
+  return parsed.map((entry, index) => {
+    if (!entry || typeof entry.kid !== "string" || !entry.kid || !ALGORITHMS.includes(entry.alg)) {
+      throw new Error(`${name}[${index}] needs a kid and an alg (${ALGORITHMS.join(", ")})`);
+    }
+    return entry as SigningKeyConfig;
+  });
+}
+
+export function createJwtTokenManager(keys: TokenKeyConfig): TokenManager {
+  const accessRing = createKeyRing("access token", keys.access);
+  const refreshRing = createKeyRing("refresh token", keys.refresh);
+
+  const sign = (ring: KeyRing, payload: JWTPayload, ttlSeconds: number) => {
+    const iat = Math.floor(Date.now() / 1000);
+    const exp = iat + ttlSeconds;
+    return new SignJWT({ ...payload })
+      .setProtectedHeader({ alg: ring.active.alg, kid: ring.active.kid, typ: "JWT" })
+      .setIssuedAt(iat)
+      .setExpirationTime(exp)
+      .sign(ring.active.signingKey);
+  };
+
+  // Tokens from another ring, an unknown kid or a kid paired with the wrong algorithm are rejected
+  const verify = async (ring: KeyRing, token: string): Promise<JWTPayload | null> => {
+    try {
+      const { payload } = await jwtVerify(token, (header) => {
+        const key = header.kid ? ring.byKid.get(header.kid) : undefined;
+        if (!key || key.alg !== header.alg) throw new Error("unknown signing key");
+        return key.verificationKey;
+      }, { algorithms: ALGORITHMS });
+      return payload;
+    } catch {
+      return null;
+    }
+  };
+
+  let jwks: Promise<JSONWebKeySet> | undefined;
+  const exportJwks = async (): Promise<JSONWebKeySet> => {
+    const published = [...accessRing.byKid.values()].filter((key) => key.alg !== "HS256");
+    return {
+      keys: await Promise.all(published.map(async (key) => ({
+        ...(await exportJWK(key.verificationKey)),
+        kid: key.kid,
+        alg: key.alg,
+        use: "sig",
+      }))),
+    };
+  };
 
   return {
     async issueAccessToken(payload, ttlSeconds) {
-      const iat = Math.floor(Date.now() / 1000);
-      const exp = iat + ttlSeconds;
-      return await new SignJWT({ ...payload })
-        .setProtectedHeader(baseHeader)
-        .setIssuedAt(iat)
-        .setExpirationTime(exp)
-        .sign(key);
+      return await sign(accessRing, { ...payload }, ttlSeconds);
     },
     async issueRefreshToken(payload, ttlSeconds) {
-      const iat = Math.floor(Date.now() / 1000);
-      const exp = iat + ttlSeconds;
-      return await new SignJWT({ ...payload })
-        .setProtectedHeader(baseHeader)
-        .setIssuedAt(iat)
-        .setExpirationTime(exp)
-        .sign(key);
+      return await sign(refreshRing, { ...payload }, ttlSeconds);
     },
     async parseRefreshToken(token) {
-      try {
-        const { payload } = await jwtVerify(token, key, { algorithms: ["HS256"] });
-        // Light runtime validation; the service verifies versions and expiry against DB.
-        const claims = payload as unknown as RefreshTokenClaims;
-        return claims;
-      } catch {
-        return null;
-      }
+      // Light runtime validation; the service verifies versions and expiry against DB.
+      const payload = await verify(refreshRing, token);
+      return payload ? (payload as unknown as RefreshTokenClaims) : null;
     },
     async parseAccessToken(token) {
-      try {
-        const { payload } = await jwtVerify(token, key, { algorithms: ["HS256"] });
-        const claims = payload as unknown as AccessTokenClaims;
-        return claims;
-      } catch {
-        return null;
-      }
+      const payload = await verify(accessRing, token);
+      return payload ? (payload as unknown as AccessTokenClaims) : null;
+    },
+    getJwks() {
+      jwks ??= exportJwks();
+      return jwks;
     },
   };
 }
@@ -7,20 +7,56 @@
 
 import http from "http";
 import { AddressInfo } from "net";
+import { Redis } from "ioredis";
 import "dotenv/config";
 import { loadEnv } from "./config/env.js";
 import { createBcryptHasher } from "./security/hasher.js";
 import { createJwtTokenManager } from "./security/tokens.js";
 import { createPgPool, createDrizzleClient } from "./db/pg.js";
-import { createAuthService } from "./domains/auth/authService.js";
+import { createAuthService } from "./domains/auth/core/auth.service.js";
 import {
   createUserRepository,
   createCredentialRepository,
   createSessionRepository,
-} from "./domains/auth/repositories.pg.js";
+  createMfaRepository,
+  createUserActionTokenRepository,
+  createAuditEventRepository,
+  createTrustedDeviceRepository,
+  createApiKeyRepository,
+} from "./domains/auth/repositories/repositories.pg.js";
+import {
+  DEFAULT_ANOMALY_DETECTION_POLICY,
+  DEFAULT_API_KEY_POLICY,
+  DEFAULT_DEVICE_POLICY,
+  DEFAULT_EMAIL_VERIFICATION_POLICY,
+  DEFAULT_MFA_POLICY,
+  DEFAULT_PASSWORD_POLICY,
+  DEFAULT_PASSWORD_RESET_POLICY,
+  DEFAULT_RATE_LIMIT_POLICY,
+  DEFAULT_REFRESH_COOKIE_POLICY,
+} from "./domains/auth/core/auth.policies.js";
+import { loadAuthConfigFromEnv, type EmailConfig } from "./domains/auth/core/auth.config.js";
+import { createMailer } from "./domains/auth/email/mailer.js";
+import { createEmailVerificationFlow } from "./domains/auth/flows/email.verification.js";
+import { createPasswordResetFlow } from "./domains/auth/flows/password.reset.js";
+import { createDeviceTrustFlow } from "./domains/auth/flows/device.trust.js";
+import { createRateLimiter, InMemoryRateLimitStore } from "./domains/auth/security/rate.limit.js";
+import { RedisRateLimitStore } from "./domains/auth/security/rate.limit.redis.js";
+import { createAnomalyDetector, InMemoryAnomalyStore } from "./domains/auth/security/anomaly.detector.js";
+import { RedisAnomalyStore } from "./domains/auth/security/anomaly.store.redis.js";
+import { createApiKeyManager, createSecretBox, InMemoryApiKeyNonceStore } from "./domains/auth/security/api.keys.js";
+import { RedisApiKeyNonceStore } from "./domains/auth/security/api.key.nonce.redis.js";
+import { createDeviceFingerprinter } from "./domains/auth/security/device.fingerprint.js";
+import { createPasswordPolicyEnforcer } from "./domains/auth/security/password.policy.js";
+import { loadBreachedPasswordList } from "./domains/auth/security/breached.passwords.js";
+import { createLoggingAlertSink } from "./domains/auth/security/security.alerts.js";
+import { createAuditLogger } from "./domains/auth/events/audit.logger.js";
 import { OrderService } from "./domains/order/order.service.js";
+import { InstrumentService } from "./domains/instrument/instrument.service.js";
 import { PositionService } from "./domains/position/position.service.js";
 import { AccountService } from "./domains/account/account.service.js";
+import { LedgerService } from "./domains/ledger/ledger.service.js";
+import { RiskServiceImplementation } from "./domains/risk/risk.service.js";
 import { createNodeRouter } from "./api/nodeRouter.js";
 import { registerApiRoutes } from "./api/index.js";
 
@@ -33,9 +69,23 @@ const logger = {
     console.log(JSON.stringify({ level: "info", msg, ...meta })),
   error: (msg: string, meta?: Record<string, unknown>) =>
     console.error(JSON.stringify({ level: "error", msg, ...meta })),
-
+  warn: (msg: string, meta?: Record<string, unknown>) =>
+    console.warn(JSON.stringify({ level: "warn", msg, ...meta })),
 };
 
+// Outbound email. Locally we fall back to the in-memory mock so sign-up works without a provider.
+const emailConfig: EmailConfig = loadAuthConfigFromEnv().email ?? (() => {
+  if (!["development", "test"].includes(config.nodeEnv)) {
+    throw new Error("EMAIL_FROM is required in non-development environments");
+  }
+  return {
+    provider: "mock",
+    fromEmail: "noreply@localhost",
+    fromName: "BHC Markets",
+    baseUrl: "http://localhost:3000",
+  };
+})();
+
 const { router, handle } = createNodeRouter({ corsOrigins: config.corsOrigins, logger });
 
 // Very small dependency container. In a larger codebase we'd use a proper DI/wiring layer.
@@ -47,13 +97,83 @@ const services = await (async () => {
   const userRepository = createUserRepository(pool);
   const credentialRepository = createCredentialRepository(pool);
   const sessionRepository = createSessionRepository(pool);
+  const mfaRepository = createMfaRepository(pool);
+  const userActionTokenRepository = createUserActionTokenRepository(pool);
 
   const passwordHasher = createBcryptHasher(config.bcryptRounds);
-  const tokenManager = createJwtTokenManager(config.jwtSecret);
+  const tokenManager = createJwtTokenManager(config.jwtKeys);
 
   const drizzleClient = createDrizzleClient(pool);
   const accountService = new AccountService(drizzleClient);
 
+  const mailer = createMailer(emailConfig, logger);
+  const emailVerification = config.emailVerificationEnabled
+    ? createEmailVerificationFlow({
+      userRepository,
+      tokenRepository: userActionTokenRepository,
+      mailer,
+      policy: DEFAULT_EMAIL_VERIFICATION_POLICY,
+      baseUrl: emailConfig.baseUrl,
+      logger,
+    })
+    : undefined;
+  const passwordReset = config.passwordResetEnabled
+    ? createPasswordResetFlow({
+      userRepository,
+      tokenRepository: userActionTokenRepository,
+      mailer,
+      policy: DEFAULT_PASSWORD_RESET_POLICY,
+      baseUrl: emailConfig.baseUrl,
+      logger,
+    })
+    : undefined;
+
+  const deviceTrust = createDeviceTrustFlow({
+    repository: createTrustedDeviceRepository(pool),
+    mailer,
+    policy: DEFAULT_DEVICE_POLICY,
+    trustedDeviceDays: DEFAULT_MFA_POLICY.trustedDeviceDays,
+    baseUrl: emailConfig.baseUrl,
+    logger,
+  });
+
+  // Counters must be shared once there is more than one replica, so prefer Redis when configured
+  const redis = config.redisUrl ? new Redis(config.redisUrl) : undefined;
+  const rateLimiter = createRateLimiter(
+    { ...DEFAULT_RATE_LIMIT_POLICY, enabled: config.rateLimitingEnabled },
+    redis ? new RedisRateLimitStore(redis) : new InMemoryRateLimitStore(),
+  );
+  // Device history has the same constraint: a replica must see sign-ins handled by the others
+  const anomalyDetector = createAnomalyDetector(
+    { ...DEFAULT_ANOMALY_DETECTION_POLICY, enabled: config.anomalyDetectionEnabled },
+    redis ? new RedisAnomalyStore(redis) : new InMemoryAnomalyStore(),
+  );
+  // And so do API key nonces, or a signed request could be replayed against another replica
+  const apiKeys = createApiKeyManager({
+    repository: createApiKeyRepository(pool),
+    userRepository,
+    secretBox: createSecretBox(config.apiKeyEncryptionKey),
+    nonceStore: redis ? new RedisApiKeyNonceStore(redis) : new InMemoryApiKeyNonceStore(),
+    policy: DEFAULT_API_KEY_POLICY,
+    logger,
+  });
+
+  const breachedPasswords = config.breachedPasswordsFile
+    ? await loadBreachedPasswordList(config.breachedPasswordsFile)
+    : undefined;
+  if (breachedPasswords) logger.info("breached_passwords_loaded", { entries: breachedPasswords.size });
+
+  const auditLogger = config.auditLoggingEnabled
+    ? createAuditLogger({ repository: createAuditEventRepository(pool), logger })
+    : undefined;
+
+  const refreshCookie = {
+    ...DEFAULT_REFRESH_COOKIE_POLICY,
+    enabled: config.refreshCookieEnabled,
+    secure: config.refreshCookieSecure,
+    domain: config.refreshCookieDomain,
+  };
+
   const auth = createAuthService({
     userRepository,
     credentialRepository,
@@ -64,17 +184,35 @@ const services = await (async () => {
       accessTokenTtlSeconds: config.accessTtlSec,
       refreshTokenTtlSeconds: config.refreshTtlSec,
       maxSessionsPerUser: config.maxSessionsPerUser,
+      mfaIssuer: config.mfaIssuer,
+      revokeAllSessionsOnRefreshReuse: config.revokeAllSessionsOnTokenReuse,
     },
     accountService,
+    mfaRepository,
+    mfaPolicy: { ...DEFAULT_MFA_POLICY, enabled: config.mfaEnabled },
+    emailVerification,
+    passwordReset,
+    passwordPolicy: createPasswordPolicyEnforcer(DEFAULT_PASSWORD_POLICY, breachedPasswords),
+    anomalyDetector,
+    deviceFingerprinter: createDeviceFingerprinter(DEFAULT_DEVICE_POLICY),
+    deviceTrust,
+    securityAlerts: createLoggingAlertSink(logger),
+    apiKeys,
+    auditLogger,
   });
   const positionService = new PositionService(drizzleClient);
-  const orderService = new OrderService(drizzleClient, positionService);
+  const ledgerService = new LedgerService(drizzleClient);
+  const riskService = new RiskServiceImplementation(drizzleClient);
+  const instrumentService = new InstrumentService(drizzleClient);
+  const orderService = new OrderService(drizzleClient, positionService, ledgerService, riskService, instrumentService);
   // accountService is already initialized above
 
   // Hydrate order matching engine
   await orderService.initialize();
+  orderService.startTriggerWatcher();
+  orderService.startExpirySweeper();
 
-  return { auth, position: positionService, order: orderService, account: accountService, tokenManager, sessionRepository } as const;
+  return { auth, position: positionService, order: orderService, account: accountService, instrument: instrumentService, tokenManager, sessionRepository, rateLimiter, auditLogger, apiKeys, refreshCookie } as const;
 })();
 
 registerApiRoutes(router, services, logger);
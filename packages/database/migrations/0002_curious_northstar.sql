@@ -0,0 +1,4 @@
+ALTER TABLE "trades" ADD COLUMN "counterparty_order_id" uuid;--> statement-breakpoint
+ALTER TABLE "trades" ADD COLUMN "symbol" varchar(64);--> statement-breakpoint
+ALTER TABLE "trades" ADD CONSTRAINT "trades_counterparty_order_id_orders_id_fk" FOREIGN KEY ("counterparty_order_id") REFERENCES "public"."orders"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_trades_counterparty_order" ON "trades" USING btree ("counterparty_order_id");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "risk_limits" (
+	"symbol" varchar(64) PRIMARY KEY NOT NULL,
+	"max_house_exposure" numeric(30, 10) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+-- Fallback limit for symbols without their own row (matches the previous hard-coded default).
+INSERT INTO "risk_limits" ("symbol", "max_house_exposure") VALUES ('*', '1000000') ON CONFLICT DO NOTHING;
@@ -0,0 +1,2 @@
+ALTER TABLE "orders" ADD COLUMN "trigger_price" numeric(30, 10);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "triggered_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TYPE "public"."order_status" ADD VALUE 'expired';--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "post_only" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "expires_at" timestamp with time zone;
\ No newline at end of file
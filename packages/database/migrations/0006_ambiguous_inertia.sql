@@ -0,0 +1 @@
+ALTER TABLE "orders" ADD COLUMN "self_trade_prevention" varchar(32);
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "instruments" (
+	"symbol" varchar(64) PRIMARY KEY NOT NULL,
+	"tick_size" numeric(30, 10) NOT NULL,
+	"lot_size" numeric(30, 10) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
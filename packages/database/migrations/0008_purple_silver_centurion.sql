@@ -0,0 +1,24 @@
+CREATE TYPE "public"."instrument_status" AS ENUM('open', 'halted', 'closed');--> statement-breakpoint
+ALTER TABLE "instruments" ADD COLUMN "name" varchar(128);--> statement-breakpoint
+ALTER TABLE "instruments" ADD COLUMN "base_currency" varchar(10);--> statement-breakpoint
+ALTER TABLE "instruments" ADD COLUMN "quote_currency" varchar(10);--> statement-breakpoint
+-- Backfill existing rows from the symbol ("BTC-USD" → BTC / USD; a bare ticker is quoted in USD).
+UPDATE "instruments" SET
+	"base_currency" = split_part("symbol", '-', 1),
+	"quote_currency" = coalesce(nullif(split_part("symbol", '-', 2), ''), 'USD');--> statement-breakpoint
+ALTER TABLE "instruments" ALTER COLUMN "base_currency" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "instruments" ALTER COLUMN "quote_currency" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "instruments" ADD COLUMN "min_notional" numeric(30, 10) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "instruments" ADD COLUMN "price_band_pct" numeric(10, 6);--> statement-breakpoint
+ALTER TABLE "instruments" ADD COLUMN "status" "instrument_status" DEFAULT 'open' NOT NULL;--> statement-breakpoint
+-- Seed the symbols the market data feed and market maker already use.
+INSERT INTO "instruments" ("symbol", "name", "base_currency", "quote_currency", "tick_size", "lot_size", "min_notional", "price_band_pct") VALUES
+	('BTC-USD', 'Bitcoin', 'BTC', 'USD', '0.01', '0.00001', '10', '0.1'),
+	('ETH-USD', 'Ethereum', 'ETH', 'USD', '0.01', '0.0001', '10', '0.1'),
+	('SOL-USD', 'Solana', 'SOL', 'USD', '0.001', '0.01', '10', '0.15'),
+	('XRP-USD', 'XRP', 'XRP', 'USD', '0.0001', '1', '10', '0.15'),
+	('MSFT', 'Microsoft', 'MSFT', 'USD', '0.01', '1', '1', '0.1'),
+	('AAPL', 'Apple', 'AAPL', 'USD', '0.01', '1', '1', '0.1'),
+	('NVDA', 'NVIDIA', 'NVDA', 'USD', '0.01', '1', '1', '0.1'),
+	('AMZN', 'Amazon', 'AMZN', 'USD', '0.01', '1', '1', '0.1')
+ON CONFLICT ("symbol") DO NOTHING;
@@ -0,0 +1,15 @@
+CREATE TYPE "public"."user_action_token_purpose" AS ENUM('email_verification');--> statement-breakpoint
+CREATE TABLE "user_action_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"purpose" "user_action_token_purpose" NOT NULL,
+	"token_hash" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"consumed_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "email_verified_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "user_action_tokens" ADD CONSTRAINT "user_action_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_user_action_tokens_token_hash" ON "user_action_tokens" USING btree ("token_hash");--> statement-breakpoint
+CREATE INDEX "idx_user_action_tokens_user_purpose" ON "user_action_tokens" USING btree ("user_id","purpose","created_at");
\ No newline at end of file
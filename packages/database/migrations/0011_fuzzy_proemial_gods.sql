@@ -0,0 +1 @@
+ALTER TYPE "public"."user_action_token_purpose" ADD VALUE 'password_reset';
\ No newline at end of file
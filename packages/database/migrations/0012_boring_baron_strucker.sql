@@ -0,0 +1,2 @@
+ALTER TABLE "user_credentials" ADD COLUMN "last_failed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "user_credentials" ADD COLUMN "lockout_count" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
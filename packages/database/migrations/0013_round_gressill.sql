@@ -0,0 +1,25 @@
+CREATE TYPE "public"."audit_outcome" AS ENUM('success', 'failure');--> statement-breakpoint
+CREATE TABLE "audit_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"occurred_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"action" varchar(64) NOT NULL,
+	"outcome" "audit_outcome" NOT NULL,
+	"actor_user_id" uuid,
+	"target_user_id" uuid,
+	"session_id" uuid,
+	"ip_address" varchar(45),
+	"user_agent" text,
+	"metadata" jsonb
+);
+--> statement-breakpoint
+CREATE INDEX "idx_audit_events_occurred_at" ON "audit_events" USING btree ("occurred_at","id");--> statement-breakpoint
+CREATE INDEX "idx_audit_events_actor" ON "audit_events" USING btree ("actor_user_id","occurred_at");--> statement-breakpoint
+CREATE INDEX "idx_audit_events_target" ON "audit_events" USING btree ("target_user_id","occurred_at");--> statement-breakpoint
+CREATE INDEX "idx_audit_events_action" ON "audit_events" USING btree ("action","occurred_at");--> statement-breakpoint
+-- Audit events are evidence: once written they cannot be changed or removed through the application role.
+CREATE FUNCTION "audit_events_append_only"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "trg_audit_events_append_only" BEFORE UPDATE OR DELETE ON "audit_events" FOR EACH ROW EXECUTE FUNCTION "audit_events_append_only"();
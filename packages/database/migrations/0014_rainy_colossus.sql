@@ -0,0 +1,19 @@
+ALTER TYPE "public"."session_invalidation_reason" ADD VALUE 'device_revoked';--> statement-breakpoint
+CREATE TABLE "trusted_devices" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"fingerprint" text NOT NULL,
+	"name" varchar(100),
+	"ip_address" varchar(45),
+	"user_agent" text,
+	"verified_at" timestamp with time zone,
+	"verification_token_hash" text,
+	"verification_expires_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "trusted_devices" ADD CONSTRAINT "trusted_devices_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_trusted_devices_user_fingerprint" ON "trusted_devices" USING btree ("user_id","fingerprint");--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_trusted_devices_verification_token" ON "trusted_devices" USING btree ("verification_token_hash");
\ No newline at end of file
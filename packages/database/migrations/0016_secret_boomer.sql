@@ -0,0 +1,18 @@
+CREATE TABLE "api_keys" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"key_id" varchar(64) NOT NULL,
+	"label" varchar(100) NOT NULL,
+	"scopes" text[] NOT NULL,
+	"allowed_ips" text[],
+	"secret_ciphertext" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_used_at" timestamp with time zone,
+	"last_used_ip" varchar(45),
+	"expires_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_api_keys_key_id" ON "api_keys" USING btree ("key_id");--> statement-breakpoint
+CREATE INDEX "idx_api_keys_user" ON "api_keys" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TYPE "public"."session_invalidation_reason" ADD VALUE 'role_changed';
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "orders" ADD COLUMN "hold_price" numeric(30, 10);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "ledger_entries" ADD COLUMN "locked_delta" numeric(30, 10) DEFAULT '0' NOT NULL;--> statement-breakpoint
+-- Holds were posted as -amount and releases as +amount without touching the balance; move both to locked_delta.
+UPDATE "ledger_entries" SET "locked_delta" = -"amount", "amount" = '0' WHERE "reference_type" IN ('hold', 'release');
@@ -12,13 +12,18 @@ export const sessionInvalidationReasonEnum = pgEnum('session_invalidation_reason
   'suspicious_activity',
   'user_disabled',
   'logout_all',
-  'expired'
+  'expired',
+  'device_revoked',
+  'role_changed'
 ]);
 export const accountTypeEnum = pgEnum('account_type', ['spot', 'margin', 'futures', 'demo']);
 export const accountStatusEnum = pgEnum('account_status', ['active', 'locked', 'closed']);
 export const orderSideEnum = pgEnum('order_side', ['buy', 'sell']);
 export const orderTypeEnum = pgEnum('order_type', ['market', 'limit', 'stop', 'take_profit']);
-export const orderStatusEnum = pgEnum('order_status', ['new', 'partially_filled', 'filled', 'cancelled', 'rejected']);
+export const orderStatusEnum = pgEnum('order_status', ['new', 'partially_filled', 'filled', 'cancelled', 'rejected', 'expired']);
+export const instrumentStatusEnum = pgEnum('instrument_status', ['open', 'halted', 'closed']);
+export const userActionTokenPurposeEnum = pgEnum('user_action_token_purpose', ['email_verification', 'password_reset']);
+export const auditOutcomeEnum = pgEnum('audit_outcome', ['success', 'failure']);
 
 // Users
 export const users = pgTable('users', {
@@ -27,6 +32,7 @@ export const users = pgTable('users', {
     status: userStatusEnum('status').default('pending').notNull(),
     role: userRoleEnum('role').default('user').notNull(),
     lastLoginAt: timestamp('last_login_at', { withTimezone: true }),
+    emailVerifiedAt: timestamp('email_verified_at', { withTimezone: true }),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 });
@@ -37,12 +43,26 @@ export const userCredentials = pgTable('user_credentials', {
     passwordHash: text('password_hash').notNull(),
     version: integer('version').notNull().default(1),
     failedAttemptCount: integer('failed_attempt_count').notNull().default(0),
+    lastFailedAt: timestamp('last_failed_at', { withTimezone: true }),
     lockedUntil: timestamp('locked_until', { withTimezone: true }),
+    lockoutCount: integer('lockout_count').notNull().default(0), // consecutive lockouts, drives the backoff
     passwordUpdatedAt: timestamp('password_updated_at', { withTimezone: true }).notNull().defaultNow(),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
+// Hashes of a user's previous passwords, newest first, so recent ones cannot be reused
+export const passwordHistory = pgTable('password_history', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    passwordHash: text('password_hash').notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => {
+    return {
+        userCreatedIdx: index('idx_password_history_user_created').on(table.userId, table.createdAt),
+    };
+});
+
 // Auth Sessions (refresh token and session state management)
 export const authSessions = pgTable('auth_sessions', {
     id: uuid('id').defaultRandom().primaryKey(),
@@ -68,6 +88,129 @@ export const authSessions = pgTable('auth_sessions', {
     };
 });
 
+// MFA (TOTP secret per user; enabled once the first code is confirmed)
+export const userMfa = pgTable('user_mfa', {
+    userId: uuid('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+    totpSecret: text('totp_secret').notNull(),
+    enabledAt: timestamp('enabled_at', { withTimezone: true }),
+    lastUsedStep: integer('last_used_step'), // Highest accepted TOTP time step, rejects code replay
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// MFA recovery codes (SHA-256 digests, single use)
+export const mfaRecoveryCodes = pgTable('mfa_recovery_codes', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    codeHash: text('code_hash').notNull(),
+    usedAt: timestamp('used_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => {
+    return {
+        userCodeIdx: uniqueIndex('uq_mfa_recovery_codes_user_code').on(table.userId, table.codeHash),
+    };
+});
+
+// MFA login challenges (password verified, second factor pending)
+export const mfaChallenges = pgTable('mfa_challenges', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    tokenHash: text('token_hash').notNull(),
+    attempts: integer('attempts').notNull().default(0),
+    ipAddress: varchar('ip_address', { length: 45 }),
+    userAgent: text('user_agent'),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    consumedAt: timestamp('consumed_at', { withTimezone: true }),
+}, (table) => {
+    return {
+        tokenHashIdx: uniqueIndex('uq_mfa_challenges_token_hash').on(table.tokenHash),
+        userIdIdx: index('idx_mfa_challenges_user').on(table.userId),
+    };
+});
+
+// Single-use tokens sent by email (SHA-256 digest only; the raw token is in the link)
+export const userActionTokens = pgTable('user_action_tokens', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    purpose: userActionTokenPurposeEnum('purpose').notNull(),
+    tokenHash: text('token_hash').notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    consumedAt: timestamp('consumed_at', { withTimezone: true }),
+}, (table) => {
+    return {
+        tokenHashIdx: uniqueIndex('uq_user_action_tokens_token_hash').on(table.tokenHash),
+        userPurposeIdx: index('idx_user_action_tokens_user_purpose').on(table.userId, table.purpose, table.createdAt),
+    };
+});
+
+// Devices a user has signed in from, keyed by fingerprint. verified_at is null while the owner has
+// not confirmed the device from the emailed link; rows are ignored once expires_at passes.
+export const trustedDevices = pgTable('trusted_devices', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    fingerprint: text('fingerprint').notNull(),
+    name: varchar('name', { length: 100 }),
+    ipAddress: varchar('ip_address', { length: 45 }),
+    userAgent: text('user_agent'),
+    verifiedAt: timestamp('verified_at', { withTimezone: true }),
+    verificationTokenHash: text('verification_token_hash'),
+    verificationExpiresAt: timestamp('verification_expires_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    lastSeenAt: timestamp('last_seen_at', { withTimezone: true }).defaultNow().notNull(),
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+}, (table) => {
+    return {
+        userFingerprintIdx: uniqueIndex('uq_trusted_devices_user_fingerprint').on(table.userId, table.fingerprint),
+        verificationTokenIdx: uniqueIndex('uq_trusted_devices_verification_token').on(table.verificationTokenHash),
+    };
+});
+
+// API keys for programmatic access. Requests are signed with the key's secret (HMAC-SHA256), so the
+// secret is kept encrypted rather than hashed; key_id is the public half sent with every request.
+export const apiKeys = pgTable('api_keys', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    keyId: varchar('key_id', { length: 64 }).notNull(),
+    label: varchar('label', { length: 100 }).notNull(),
+    scopes: text('scopes').array().notNull(),
+    allowedIps: text('allowed_ips').array(),
+    secretCiphertext: text('secret_ciphertext').notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+    lastUsedIp: varchar('last_used_ip', { length: 45 }),
+    expiresAt: timestamp('expires_at', { withTimezone: true }),
+    revokedAt: timestamp('revoked_at', { withTimezone: true }),
+}, (table) => {
+    return {
+        keyIdIdx: uniqueIndex('uq_api_keys_key_id').on(table.keyId),
+        userIdx: index('idx_api_keys_user').on(table.userId),
+    };
+});
+
+// Security audit trail. Append-only (a trigger rejects UPDATE/DELETE) and without foreign keys
+// so the history outlives the users it mentions.
+export const auditEvents = pgTable('audit_events', {
+    id: uuid('id').defaultRandom().primaryKey(),
+    occurredAt: timestamp('occurred_at', { withTimezone: true }).defaultNow().notNull(),
+    action: varchar('action', { length: 64 }).notNull(), // e.g. auth.login, admin.account_unlock
+    outcome: auditOutcomeEnum('outcome').notNull(),
+    actorUserId: uuid('actor_user_id'),
+    targetUserId: uuid('target_user_id'),
+    sessionId: uuid('session_id'),
+    ipAddress: varchar('ip_address', { length: 45 }),
+    userAgent: text('user_agent'),
+    metadata: jsonb('metadata'),
+}, (table) => {
+    return {
+        occurredAtIdx: index('idx_audit_events_occurred_at').on(table.occurredAt, table.id),
+        actorIdx: index('idx_audit_events_actor').on(table.actorUserId, table.occurredAt),
+        targetIdx: index('idx_audit_events_target').on(table.targetUserId, table.occurredAt),
+        actionIdx: index('idx_audit_events_action').on(table.action, table.occurredAt),
+    };
+});
+
 // Accounts
 export const accounts = pgTable('accounts', {
     id: uuid('id').defaultRandom().primaryKey(),
@@ -97,7 +240,16 @@ export const orders = pgTable('orders', {
     quantity: numeric('quantity', { precision: 30, scale: 10 }).notNull(),
     filledQuantity: numeric('filled_quantity', { precision: 30, scale: 10 }).default('0').notNull(),
     status: orderStatusEnum('status').default('new').notNull(),
-    timeInForce: varchar('time_in_force', { length: 50 }),
+    timeInForce: varchar('time_in_force', { length: 50 }), // GTC | IOC | FOK | GTD
+    postOnly: boolean('post_only').default(false).notNull(),
+    expiresAt: timestamp('expires_at', { withTimezone: true }), // GTD only
+    selfTradePrevention: varchar('self_trade_prevention', { length: 32 }), // cancel_newest | cancel_oldest | cancel_both | decrement_and_cancel
+    // Conditional (stop / take_profit) orders: held off-book until the trigger price is crossed.
+    triggerPrice: numeric('trigger_price', { precision: 30, scale: 10 }),
+    triggeredAt: timestamp('triggered_at', { withTimezone: true }),
+    // Unpriced buys (market, stop / take_profit without a price): the estimated price the cash hold
+    // was sized at, which is also the worst price the order may fill at.
+    holdPrice: numeric('hold_price', { precision: 30, scale: 10 }),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => {
@@ -128,7 +280,9 @@ export const positions = pgTable('positions', {
 // Trades
 export const trades = pgTable('trades', {
     id: uuid('id').defaultRandom().primaryKey(),
-    orderId: uuid('order_id').references(() => orders.id, { onDelete: 'cascade' }).notNull(),
+    orderId: uuid('order_id').references(() => orders.id, { onDelete: 'cascade' }).notNull(), // taker
+    counterpartyOrderId: uuid('counterparty_order_id').references(() => orders.id, { onDelete: 'set null' }), // maker
+    symbol: varchar('symbol', { length: 64 }),
     price: numeric('price', { precision: 30, scale: 10 }).notNull(),
     quantity: numeric('quantity', { precision: 30, scale: 10 }).notNull(),
     fee: numeric('fee', { precision: 30, scale: 10 }).default('0').notNull(),
@@ -136,9 +290,35 @@ export const trades = pgTable('trades', {
 }, (table) => {
     return {
         orderIdIdx: index('idx_trades_order').on(table.orderId),
+        counterpartyOrderIdIdx: index('idx_trades_counterparty_order').on(table.counterpartyOrderId),
     };
 });
 
+// Risk Limits (per-symbol pre-trade limits; symbol '*' is the fallback for unlisted symbols)
+export const riskLimits = pgTable('risk_limits', {
+    symbol: varchar('symbol', { length: 64 }).primaryKey(),
+    maxHouseExposure: numeric('max_house_exposure', { precision: 30, scale: 10 }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Instruments: the registry of tradable symbols. Orders for anything not listed here are rejected.
+// Prices must be whole multiples of tick_size, quantities of lot_size.
+export const instruments = pgTable('instruments', {
+    symbol: varchar('symbol', { length: 64 }).primaryKey(),
+    name: varchar('name', { length: 128 }),
+    baseCurrency: varchar('base_currency', { length: 10 }).notNull(),
+    quoteCurrency: varchar('quote_currency', { length: 10 }).notNull(),
+    tickSize: numeric('tick_size', { precision: 30, scale: 10 }).notNull(),
+    lotSize: numeric('lot_size', { precision: 30, scale: 10 }).notNull(),
+    minNotional: numeric('min_notional', { precision: 30, scale: 10 }).default('0').notNull(),
+    // Max fractional distance of a limit price from the reference price (0.1 = ±10%); null disables the band.
+    priceBandPct: numeric('price_band_pct', { precision: 10, scale: 6 }),
+    status: instrumentStatusEnum('status').default('open').notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
 // Market Prices (for completeness with existing migration)
 export const marketPrices = pgTable('market_prices', {
     id: bigserial('id', { mode: 'number' }).primaryKey(),
@@ -160,6 +340,8 @@ export const ledgerEntries = pgTable('ledger_entries', {
     accountId: uuid('account_id').references(() => accounts.id, { onDelete: 'cascade' }).notNull(),
     amount: numeric('amount', { precision: 30, scale: 10 }).notNull(),
     balanceAfter: numeric('balance_after', { precision: 30, scale: 10 }),
+    // Change to accounts.locked; holds and releases carry it here with a zero amount
+    lockedDelta: numeric('locked_delta', { precision: 30, scale: 10 }).default('0').notNull(),
     referenceId: uuid('reference_id'),
     referenceType: varchar('reference_type', { length: 32 }),
     description: text('description'),
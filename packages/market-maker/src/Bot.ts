@@ -1,14 +1,27 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { createHash, createHmac, randomBytes } from 'crypto';
 import { io, Socket } from 'socket.io-client';
 
+interface ApiKeyCredentials {
+    keyId: string;
+    secret: string;
+}
+
 interface Config {
     apiUrl: string;
     wsUrl: string;
-    email: string;
-    password: string;
+    // Preferred: a key with the `read` and `trade` scopes, so no human password lives in the bot
+    apiKey?: ApiKeyCredentials;
+    email?: string;
+    password?: string;
     symbol: string;
 }
 
+interface InstrumentSpec {
+    tickSize: string;
+    lotSize: string;
+}
+
 export class MarketMakerBot {
     private api: AxiosInstance;
     private socket: Socket;
@@ -16,6 +29,7 @@ export class MarketMakerBot {
     private userId: string | null = null;
     private running: boolean = false;
     private config: Config;
+    private instrument: InstrumentSpec | null = null;
 
     // State
     private midPrice: number = 50000; // Default start
@@ -36,7 +50,12 @@ export class MarketMakerBot {
     async start() {
         console.log(`Starting Market Maker for ${this.config.symbol}...`); // Add emojis if needed
         try {
-            await this.login();
+            if (this.config.apiKey) {
+                await this.useApiKey(this.config.apiKey);
+            } else {
+                await this.login();
+            }
+            await this.loadInstrument();
             this.connectSocket();
             this.running = true;
             this.loop();
@@ -46,21 +65,14 @@ export class MarketMakerBot {
         }
     }
 
-    private async login() {
+    private async withStartupRetries(action: string, attempt: () => Promise<void>) {
         const maxRetries = 10;
         const delay = 2000;
 
         for (let i = 0; i < maxRetries; i++) {
             try {
-                console.log(`Logging in... (Attempt ${i + 1}/${maxRetries})`);
-                const res = await this.api.post('/auth/login', {
-                    email: this.config.email,
-                    password: this.config.password
-                });
-                this.token = res.data.tokens.accessToken;
-                this.userId = res.data.user.id;
-                this.api.defaults.headers.common['Authorization'] = `Bearer ${this.token}`;
-                console.log("Logged in as User ID:", this.userId);
+                console.log(`${action}... (Attempt ${i + 1}/${maxRetries})`);
+                await attempt();
                 return;
             } catch (e: any) {
                 const isRefused = e.code === 'ECONNREFUSED' || e.message.includes('ECONNREFUSED');
@@ -70,12 +82,80 @@ export class MarketMakerBot {
                     continue;
                 }
 
-                console.error("Login failed", e.response?.data || e.message);
+                console.error(`${action} failed`, e.response?.data || e.message);
                 throw e;
             }
         }
     }
 
+    private async login() {
+        if (!this.config.email || !this.config.password) {
+            throw new Error('Set MM_API_KEY/MM_API_SECRET, or MM_EMAIL/MM_PASSWORD');
+        }
+        await this.withStartupRetries('Logging in', async () => {
+            const res = await this.api.post('/auth/login', {
+                email: this.config.email,
+                password: this.config.password
+            });
+            this.token = res.data.tokens.accessToken;
+            this.userId = res.data.user.id;
+            this.api.defaults.headers.common['Authorization'] = `Bearer ${this.token}`;
+            console.log("Logged in as User ID:", this.userId);
+        });
+    }
+
+    // Sign every request with the API key; the key's owner is whoever owns the accounts it can read
+    private async useApiKey(credentials: ApiKeyCredentials) {
+        this.api.interceptors.request.use((request) => this.signRequest(request, credentials));
+        await this.withStartupRetries('Authenticating with API key', async () => {
+            const res = await this.api.get('/accounts');
+            const account = res.data[0];
+            if (!account) throw new Error('API key owner has no account');
+            this.userId = account.userId;
+            console.log("Using API key for User ID:", this.userId);
+        });
+    }
+
+    // Signature: hex HMAC-SHA256 over timestamp, nonce, method, path + query and the body digest
+    private signRequest(request: InternalAxiosRequestConfig, credentials: ApiKeyCredentials) {
+        // Serialize here so the signed bytes are exactly the bytes sent
+        const body = request.data === undefined ? '' : typeof request.data === 'string' ? request.data : JSON.stringify(request.data);
+        if (body) {
+            request.data = body;
+            request.headers.set('Content-Type', 'application/json');
+        }
+
+        const uri = new URL(this.api.getUri(request));
+        const timestamp = Date.now().toString();
+        const nonce = randomBytes(16).toString('hex');
+        const payload = [
+            timestamp,
+            nonce,
+            (request.method ?? 'get').toUpperCase(),
+            uri.pathname + uri.search,
+            createHash('sha256').update(body).digest('hex')
+        ].join('\n');
+
+        request.headers.set('X-API-Key', credentials.keyId);
+        request.headers.set('X-API-Timestamp', timestamp);
+        request.headers.set('X-API-Nonce', nonce);
+        request.headers.set('X-API-Signature', createHmac('sha256', credentials.secret).update(payload).digest('hex'));
+        return request;
+    }
+
+    // Orders off the tick / lot grid are rejected, so quote on the instrument's increments
+    private async loadInstrument() {
+        const res = await this.api.get(`/instruments/${encodeURIComponent(this.config.symbol)}`);
+        this.instrument = { tickSize: res.data.tickSize, lotSize: res.data.lotSize };
+        console.log(`Instrument ${this.config.symbol}: tick ${this.instrument.tickSize}, lot ${this.instrument.lotSize}`);
+    }
+
+    private roundTo(value: number, step: string): string {
+        const decimals = step.split('.')[1]?.length ?? 0;
+        const increment = Number(step);
+        return (Math.round(value / increment) * increment).toFixed(decimals);
+    }
+
     private connectSocket() {
         this.socket.connect();
         this.socket.on('connect', () => {
@@ -153,15 +233,15 @@ export class MarketMakerBot {
     }
 
     private async placeOrder(side: 'buy' | 'sell', price: number, quantity: number) {
-        if (!this.userId) return;
+        if (!this.userId || !this.instrument) return;
         try {
             await this.api.post('/orders', {
                 userId: this.userId,
                 symbol: this.config.symbol,
                 side,
                 type: 'limit',
-                quantity,
-                price
+                quantity: this.roundTo(quantity, this.instrument.lotSize),
+                price: this.roundTo(price, this.instrument.tickSize)
             });
         } catch (e: any) {
             // console.error("Place order failed:", e.message);
@@ -5,6 +5,9 @@ dotenv.config();
 
 const API_URL = process.env.API_URL || 'http://localhost:8080';
 const WS_URL = process.env.WS_URL || 'http://localhost:8081'; // Socket.io usually same port
+const API_KEY = process.env.MM_API_KEY;
+const API_SECRET = process.env.MM_API_SECRET;
+// Password sign-in is only a fallback for local setups without an API key
 const EMAIL = process.env.MM_EMAIL || 'mm@bhc.com';
 const PASSWORD = process.env.MM_PASSWORD || 'marketmaker';
 
@@ -12,6 +15,7 @@ async function main() {
     const bot = new MarketMakerBot({
         apiUrl: API_URL,
         wsUrl: WS_URL,
+        apiKey: API_KEY && API_SECRET ? { keyId: API_KEY, secret: API_SECRET } : undefined,
         email: EMAIL,
         password: PASSWORD,
         symbol: 'BTC-USD'